@@ -0,0 +1,365 @@
+import type { ParseArgsConfig } from "node:util";
+import {
+  listZones,
+  listDNSRecords,
+  listWorkers,
+  listKVNamespaces,
+  listD1Databases,
+  purgeCache,
+  type Zone,
+  type KVNamespace,
+  type D1Database,
+  type CachePurgeParams,
+} from "../lib/cloudflare.ts";
+import { listFirewallRules } from "../lib/security.ts";
+import { fetchTrafficMetrics } from "../lib/analytics-api.ts";
+import { exportKVNamespace, importKVNamespace } from "../lib/kv-transfer.ts";
+import { exportD1ToFile, importD1FromFile } from "../lib/d1-transfer.ts";
+import { planWorkerDeploy, deployWorker, WORKER_SIZE_LIMITS } from "../lib/worker-deploy.ts";
+import { formatBytes, formatCompact } from "../lib/ascii-charts.ts";
+import type { TimeRange } from "../types/analytics.ts";
+
+export class CliUsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CliUsageError";
+  }
+}
+
+export interface CliContext {
+  positionals: string[];
+  values: Record<string, string | boolean | Array<string | boolean> | undefined>;
+}
+
+export interface CliResult {
+  json: unknown;
+  table?: { headers: string[]; rows: string[][] };
+  text?: string;
+}
+
+export interface CliCommand {
+  name: string;
+  usage: string;
+  description: string;
+  options?: ParseArgsConfig["options"];
+  run: (ctx: CliContext) => Promise<CliResult>;
+}
+
+const TIME_RANGES: TimeRange[] = ["24h", "7d", "30d"];
+
+function requirePositional(ctx: CliContext, index: number, name: string): string {
+  const value = ctx.positionals[index];
+  if (!value) {
+    throw new CliUsageError(`Missing required argument <${name}>`);
+  }
+  return value;
+}
+
+function stringList(value: CliContext["values"][string]): string[] {
+  if (Array.isArray(value)) return value.filter((v): v is string => typeof v === "string");
+  if (typeof value === "string") return [value];
+  return [];
+}
+
+function formatTimestamp(value: string | undefined): string {
+  const date = new Date(value ?? "");
+  return Number.isNaN(date.getTime()) ? value ?? "" : date.toISOString();
+}
+
+async function resolveZone(nameOrId: string): Promise<Zone> {
+  const zones = await listZones();
+  const zone = zones.find((z) => z.name === nameOrId || z.id === nameOrId);
+  if (!zone) {
+    throw new Error(`Zone not found: ${nameOrId}`);
+  }
+  return zone;
+}
+
+async function resolveNamespace(titleOrId: string): Promise<KVNamespace> {
+  const namespaces = await listKVNamespaces();
+  const namespace = namespaces.find((ns) => ns.title === titleOrId || ns.id === titleOrId);
+  if (!namespace) {
+    throw new Error(`KV namespace not found: ${titleOrId}`);
+  }
+  return namespace;
+}
+
+async function resolveDatabase(nameOrId: string): Promise<D1Database> {
+  const databases = await listD1Databases();
+  const database = databases.find((db) => db.name === nameOrId || db.uuid === nameOrId);
+  if (!database) {
+    throw new Error(`D1 database not found: ${nameOrId}`);
+  }
+  return database;
+}
+
+export const COMMANDS: CliCommand[] = [
+  {
+    name: "zones list",
+    usage: "zones list",
+    description: "List zones in the current account",
+    run: async () => {
+      const zones = await listZones();
+      return {
+        json: zones,
+        table: {
+          headers: ["Name", "ID", "Status", "Plan"],
+          rows: zones.map((z) => [z.name, z.id, z.status, z.plan?.name ?? ""]),
+        },
+      };
+    },
+  },
+  {
+    name: "dns list",
+    usage: "dns list <zone>",
+    description: "List DNS records for a zone (name or id)",
+    run: async (ctx) => {
+      const zone = await resolveZone(requirePositional(ctx, 0, "zone"));
+      const records = await listDNSRecords(zone.id);
+      return {
+        json: records,
+        table: {
+          headers: ["Type", "Name", "Content", "TTL", "Proxied"],
+          rows: records.map((r) => [
+            r.type,
+            r.name,
+            r.content,
+            r.ttl === 1 ? "auto" : r.ttl.toString(),
+            r.proxied ? "yes" : "no",
+          ]),
+        },
+      };
+    },
+  },
+  {
+    name: "cache purge",
+    usage: "cache purge --zone <zone> [--url <url>]... [--tag <tag>]... [--host <host>]... [--prefix <prefix>]... [--everything]",
+    description: "Purge cached content for a zone",
+    options: {
+      zone: { type: "string" },
+      url: { type: "string", multiple: true },
+      tag: { type: "string", multiple: true },
+      host: { type: "string", multiple: true },
+      prefix: { type: "string", multiple: true },
+      everything: { type: "boolean" },
+    },
+    run: async (ctx) => {
+      const zoneArg = ctx.values.zone;
+      if (typeof zoneArg !== "string") {
+        throw new CliUsageError("Missing required option --zone");
+      }
+      const params: CachePurgeParams = {};
+      const files = stringList(ctx.values.url);
+      const tags = stringList(ctx.values.tag);
+      const hosts = stringList(ctx.values.host);
+      const prefixes = stringList(ctx.values.prefix);
+      if (files.length) params.files = files;
+      if (tags.length) params.tags = tags;
+      if (hosts.length) params.hosts = hosts;
+      if (prefixes.length) params.prefixes = prefixes;
+
+      const selectors = Object.keys(params).length;
+      if (ctx.values.everything && selectors > 0) {
+        throw new CliUsageError("--everything cannot be combined with --url, --tag, --host or --prefix");
+      }
+      if (ctx.values.everything) {
+        params.purge_everything = true;
+      } else if (selectors === 0) {
+        throw new CliUsageError("Specify what to purge: --url, --tag, --host, --prefix or --everything");
+      }
+
+      const zone = await resolveZone(zoneArg);
+      const result = await purgeCache(zone.id, params);
+      return {
+        json: { zone: zone.name, purge_id: result.id, ...params },
+        text: `Purge ${result.id} accepted for ${zone.name}`,
+      };
+    },
+  },
+  {
+    name: "workers list",
+    usage: "workers list",
+    description: "List Workers scripts",
+    run: async () => {
+      const workers = await listWorkers();
+      return {
+        json: workers,
+        table: {
+          headers: ["Name", "Usage Model", "Compat Date", "Modified"],
+          rows: workers.map((w) => [
+            w.id,
+            w.usage_model,
+            w.compatibility_date ?? "",
+            formatTimestamp(w.modified_on),
+          ]),
+        },
+      };
+    },
+  },
+  {
+    name: "workers deploy",
+    usage:
+      "workers deploy <script> <module> [--sourcemap <file>] [--compat-date YYYY-MM-DD] [--compat-flag <flag>]... [--bindings <file.json>] [--dry-run]",
+    description: "Upload a bundled ES module as a Worker script, keeping existing bindings",
+    options: {
+      sourcemap: { type: "string" },
+      "compat-date": { type: "string" },
+      "compat-flag": { type: "string", multiple: true },
+      bindings: { type: "string" },
+      "dry-run": { type: "boolean" },
+    },
+    run: async (ctx) => {
+      const scriptName = requirePositional(ctx, 0, "script");
+      const modulePath = requirePositional(ctx, 1, "module");
+      const flags = stringList(ctx.values["compat-flag"]);
+      const plan = await planWorkerDeploy(scriptName, {
+        modulePath,
+        sourceMapPath: typeof ctx.values.sourcemap === "string" ? ctx.values.sourcemap : undefined,
+        compatibilityDate: typeof ctx.values["compat-date"] === "string" ? ctx.values["compat-date"] : undefined,
+        compatibilityFlags: flags.length ? flags : undefined,
+        bindingsPath: typeof ctx.values.bindings === "string" ? ctx.values.bindings : undefined,
+      });
+
+      const size = `${formatBytes(plan.size.bytes)} (${formatBytes(plan.size.gzipBytes)} gzip)`;
+      if (plan.size.status === "too-large") {
+        throw new Error(`${plan.module.name} is ${size}, over the ${formatBytes(WORKER_SIZE_LIMITS.paid)} compressed limit`);
+      }
+      const summary = {
+        script: scriptName,
+        module: plan.module.name,
+        sourcemap: plan.sourceMap?.name ?? null,
+        size: plan.size,
+        compatibility_date: plan.compatibilityDate,
+        compatibility_flags: plan.compatibilityFlags,
+        bindings: plan.changes,
+      };
+      const table = {
+        headers: ["Binding", "Type", "Change"],
+        rows: plan.changes.map((c) => [c.name, c.type, c.action]),
+      };
+      const warning =
+        plan.size.status === "paid-only" ? ` • over the ${formatBytes(WORKER_SIZE_LIMITS.free)} Free plan limit` : "";
+
+      if (ctx.values["dry-run"]) {
+        return { json: { ...summary, deployed: false }, table, text: `Dry run: ${plan.module.name} is ${size}${warning}` };
+      }
+      const worker = await deployWorker(plan);
+      return {
+        json: { ...summary, deployed: true, etag: worker.etag, modified_on: worker.modified_on },
+        table,
+        text: `Deployed ${plan.module.name} to ${scriptName}${plan.exists ? "" : " (new script)"} • ${size}${warning}`,
+      };
+    },
+  },
+  {
+    name: "kv export",
+    usage: "kv export <namespace> <file>",
+    description: "Dump a KV namespace (title or id) to a JSON or NDJSON file",
+    run: async (ctx) => {
+      const namespace = await resolveNamespace(requirePositional(ctx, 0, "namespace"));
+      const file = requirePositional(ctx, 1, "file");
+      const { exported, missing } = await exportKVNamespace(namespace.id, file);
+      return {
+        json: { namespace: namespace.title, file, keys: exported, skipped: missing },
+        text:
+          `Exported ${exported} keys from ${namespace.title} to ${file}` +
+          (missing > 0 ? ` (skipped ${missing} deleted during export)` : ""),
+      };
+    },
+  },
+  {
+    name: "kv import",
+    usage: "kv import <namespace> <file>",
+    description: "Bulk write a JSON or NDJSON dump into a KV namespace (title or id)",
+    run: async (ctx) => {
+      const namespace = await resolveNamespace(requirePositional(ctx, 0, "namespace"));
+      const file = requirePositional(ctx, 1, "file");
+      const { written, skipped } = await importKVNamespace(namespace.id, file);
+      return {
+        json: { namespace: namespace.title, file, written, skipped },
+        text: `Imported ${written} keys into ${namespace.title}${skipped > 0 ? ` (skipped ${skipped} already expired)` : ""}`,
+      };
+    },
+  },
+  {
+    name: "d1 export",
+    usage: "d1 export <database> <file>",
+    description: "Dump a D1 database (name or id) to a local .sql file",
+    run: async (ctx) => {
+      const database = await resolveDatabase(requirePositional(ctx, 0, "database"));
+      const file = requirePositional(ctx, 1, "file");
+      const { path, bytes } = await exportD1ToFile(database.uuid, file);
+      return {
+        json: { database: database.name, file: path, bytes },
+        text: `Exported ${database.name} to ${path} (${formatBytes(bytes)})`,
+      };
+    },
+  },
+  {
+    name: "d1 import",
+    usage: "d1 import <database> <file>",
+    description: "Run a .sql file against a D1 database (name or id)",
+    run: async (ctx) => {
+      const database = await resolveDatabase(requirePositional(ctx, 0, "database"));
+      const file = requirePositional(ctx, 1, "file");
+      const { queries, bookmark } = await importD1FromFile(database.uuid, file);
+      return {
+        json: { database: database.name, file, queries, bookmark },
+        text: `Imported ${file} into ${database.name} (${queries} queries)`,
+      };
+    },
+  },
+  {
+    name: "firewall list",
+    usage: "firewall list <zone>",
+    description: "List firewall rules for a zone",
+    run: async (ctx) => {
+      const zone = await resolveZone(requirePositional(ctx, 0, "zone"));
+      const { rules } = await listFirewallRules(zone.id);
+      return {
+        json: rules,
+        table: {
+          headers: ["Priority", "Action", "Status", "Description", "Expression"],
+          rows: rules.map((r) => [
+            r.priority?.toString() ?? "",
+            r.action,
+            r.paused ? "paused" : "active",
+            r.description ?? "",
+            r.filter.expression,
+          ]),
+        },
+      };
+    },
+  },
+  {
+    name: "analytics traffic",
+    usage: "analytics traffic <zone> [--range 24h|7d|30d]",
+    description: "Show traffic totals for a zone",
+    options: {
+      range: { type: "string" },
+    },
+    run: async (ctx) => {
+      const range = (ctx.values.range ?? "24h") as TimeRange;
+      if (!TIME_RANGES.includes(range)) {
+        throw new CliUsageError(`--range must be one of ${TIME_RANGES.join(", ")}`);
+      }
+      const zone = await resolveZone(requirePositional(ctx, 0, "zone"));
+      const metrics = await fetchTrafficMetrics(zone.id, range);
+      const { requestsOverTime: _requests, bandwidthOverTime: _bandwidth, ...totals } = metrics;
+      return {
+        json: { zone: zone.name, range, ...totals },
+        table: {
+          headers: ["Metric", "Value"],
+          rows: [
+            ["Requests", formatCompact(metrics.totalRequests)],
+            ["Cached requests", formatCompact(metrics.cachedRequests)],
+            ["Uncached requests", formatCompact(metrics.uncachedRequests)],
+            ["Unique visitors", formatCompact(metrics.uniqueVisitors)],
+            ["Bandwidth", formatBytes(metrics.totalBandwidth)],
+            ["Threats", formatCompact(metrics.threats)],
+          ],
+        },
+      };
+    },
+  },
+];
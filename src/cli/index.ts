@@ -0,0 +1,128 @@
+import { parseArgs } from "node:util";
+import { isAuthenticated, loadCredentials } from "../lib/auth.ts";
+import { CloudflareApiError } from "../lib/api-client.ts";
+import { table } from "../lib/ascii-charts.ts";
+import { setCacheEnabled } from "../lib/response-cache.ts";
+import { COMMANDS, CliUsageError, type CliCommand, type CliResult } from "./commands.ts";
+
+export const EXIT_OK = 0;
+export const EXIT_ERROR = 1;
+export const EXIT_USAGE = 2;
+export const EXIT_AUTH = 3;
+
+function printHelp(out: (line: string) => void) {
+  out("Usage: flarectl [command] [options]");
+  out("");
+  out("Run without a command to start the interactive TUI.");
+  out("");
+  out("Commands:");
+  const width = Math.max(...COMMANDS.map((c) => c.name.length)) + 2;
+  for (const command of COMMANDS) {
+    out(`  ${command.name.padEnd(width)}${command.description}`);
+  }
+  out("");
+  out("Global options:");
+  out("  --json    Print machine-readable JSON instead of a table");
+  out("  --help    Show help for a command");
+}
+
+function findCommand(args: string[]): { command: CliCommand; rest: string[] } | null {
+  const name = args.slice(0, 2).join(" ");
+  const command = COMMANDS.find((c) => c.name === name);
+  return command ? { command, rest: args.slice(2) } : null;
+}
+
+function printResult(result: CliResult, json: boolean) {
+  if (json) {
+    console.log(JSON.stringify(result.json, null, 2));
+    return;
+  }
+  if (result.table) {
+    if (result.table.rows.length === 0) {
+      console.log("No results");
+    } else {
+      for (const line of table(result.table.rows, { headers: result.table.headers })) {
+        console.log(line);
+      }
+    }
+  }
+  if (result.text) {
+    console.log(result.text);
+  }
+}
+
+function printUsageError(message: string, command: CliCommand, json: boolean) {
+  if (json) {
+    console.error(JSON.stringify({ error: message }));
+    return;
+  }
+  console.error(message);
+  console.error(`Usage: flarectl ${command.usage}`);
+}
+
+export async function runCli(args: string[]): Promise<number> {
+  if (args[0] === "--help" || args[0] === "-h" || args[0] === "help") {
+    printHelp(console.log);
+    return EXIT_OK;
+  }
+
+  const match = findCommand(args);
+  if (!match) {
+    console.error(`Unknown command: ${args.slice(0, 2).join(" ")}`);
+    printHelp(console.error);
+    return EXIT_USAGE;
+  }
+
+  const { command, rest } = match;
+  let parsed: ReturnType<typeof parseArgs>;
+  try {
+    parsed = parseArgs({
+      args: rest,
+      options: {
+        ...command.options,
+        json: { type: "boolean" },
+        help: { type: "boolean", short: "h" },
+      },
+      allowPositionals: true,
+      strict: true,
+    });
+  } catch (err) {
+    printUsageError(err instanceof Error ? err.message : String(err), command, rest.includes("--json"));
+    return EXIT_USAGE;
+  }
+
+  if (parsed.values.help) {
+    console.log(`Usage: flarectl ${command.usage}`);
+    console.log("");
+    console.log(command.description);
+    return EXIT_OK;
+  }
+
+  setCacheEnabled(false);
+  await loadCredentials();
+  if (!isAuthenticated()) {
+    console.error("Not authenticated. Run flarectl to log in or set CLOUDFLARE_API_TOKEN.");
+    return EXIT_AUTH;
+  }
+
+  try {
+    const result = await command.run({ positionals: parsed.positionals, values: parsed.values });
+    printResult(result, parsed.values.json === true);
+    return EXIT_OK;
+  } catch (err) {
+    if (err instanceof CliUsageError) {
+      printUsageError(err.message, command, parsed.values.json === true);
+      return EXIT_USAGE;
+    }
+    const message = err instanceof Error ? err.message : String(err);
+    if (parsed.values.json === true) {
+      console.error(JSON.stringify({ error: message }));
+    } else {
+      console.error(`Error: ${message}`);
+    }
+    if (err instanceof CloudflareApiError && (err.status === 401 || err.status === 403)) {
+      return EXIT_AUTH;
+    }
+    return EXIT_ERROR;
+  }
+}
@@ -1,8 +1,8 @@
-import { useState } from "react";
+import { useState, useEffect } from "react";
 import { useTheme } from "../lib/theme-context.tsx";
 import { useRouter } from "../lib/router.tsx";
 import { ROUTES } from "../types/index.ts";
-import { useKeyboard } from "@opentui/react";
+import { useScreenKeyboard } from "../lib/overlay-context.tsx";
 
 export function Navigation() {
   const { theme } = useTheme();
@@ -12,7 +12,11 @@ export function Navigation() {
     ROUTES.findIndex((r) => r.id === currentRoute)
   );
 
-  useKeyboard((key) => {
+  useEffect(() => {
+    setSelectedIndex(ROUTES.findIndex((r) => r.id === currentRoute));
+  }, [currentRoute]);
+
+  useScreenKeyboard((key) => {
     if (key.name === "up" || key.name === "k") {
       setSelectedIndex((prev) => Math.max(0, prev - 1));
     } else if (key.name === "down" || key.name === "j") {
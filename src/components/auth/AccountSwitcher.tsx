@@ -2,6 +2,7 @@ import { useKeyboard } from "@opentui/react";
 import { useState } from "react";
 import { useAuth } from "../../lib/auth-context.tsx";
 import { useTheme } from "../../lib/theme-context.tsx";
+import { useOverlayLayer } from "../../lib/overlay-context.tsx";
 
 interface Props {
   onClose: () => void;
@@ -23,6 +24,8 @@ export function AccountSwitcher({ onClose }: Props) {
     { email: "+ Add Account", accountName: "", accountId: "", apiToken: "", createdAt: "" },
   ];
 
+  useOverlayLayer();
+
   useKeyboard((key) => {
     if (mode === "add") {
       if (key.name === "escape") {
@@ -0,0 +1,63 @@
+import { useState } from "react";
+import { useRenderer } from "@opentui/react";
+import { useScreenKeyboard } from "../../lib/overlay-context.tsx";
+import { useTheme } from "../../lib/theme-context.tsx";
+import type { D1Database } from "../../lib/cloudflare.ts";
+import { SqlConsole } from "./SqlConsole.tsx";
+import { SchemaExplorer } from "./SchemaExplorer.tsx";
+import { TimeTravel } from "./TimeTravel.tsx";
+
+type Tab = "console" | "schema" | "timetravel";
+
+const TABS: Array<{ id: Tab; label: string }> = [
+  { id: "console", label: "SQL Console" },
+  { id: "schema", label: "Schema" },
+  { id: "timetravel", label: "Time Travel" },
+];
+
+interface Props {
+  database: D1Database;
+  onBack: () => void;
+}
+
+export function DatabaseDetail({ database, onBack }: Props) {
+  const { theme } = useTheme();
+  const { colors } = theme;
+  const renderer = useRenderer();
+
+  const [tab, setTab] = useState<Tab>("console");
+  const [busy, setBusy] = useState(false);
+
+  useScreenKeyboard((key) => {
+    if (key.name !== "tab" || busy || renderer.currentFocusedRenderable?.focused) return;
+    const index = TABS.findIndex((t) => t.id === tab);
+    const next = TABS[(index + (key.shift ? -1 : 1) + TABS.length) % TABS.length];
+    if (next) setTab(next.id);
+  });
+
+  return (
+    <box flexDirection="column" flexGrow={1}>
+      <box flexDirection="row" gap={2} paddingLeft={1}>
+        {TABS.map((t) => (
+          <box
+            key={t.id}
+            paddingLeft={2}
+            paddingRight={2}
+            borderStyle={tab === t.id ? "single" : undefined}
+            borderColor={tab === t.id ? colors.primary : undefined}
+            backgroundColor={tab === t.id ? colors.surfaceAlt : undefined}
+          >
+            <text>
+              <span fg={tab === t.id ? colors.primary : colors.textMuted}>{t.label}</span>
+            </text>
+          </box>
+        ))}
+        <text fg={colors.textMuted}>[Tab] Switch</text>
+      </box>
+
+      {tab === "console" && <SqlConsole database={database} onBack={onBack} />}
+      {tab === "schema" && <SchemaExplorer database={database} onBack={onBack} onBusyChange={setBusy} />}
+      {tab === "timetravel" && <TimeTravel database={database} onBack={onBack} onBusyChange={setBusy} />}
+    </box>
+  );
+}
@@ -0,0 +1,241 @@
+import { useState, useEffect, useCallback, useMemo } from "react";
+import { useScreenKeyboard } from "../../lib/overlay-context.tsx";
+import { useTheme } from "../../lib/theme-context.tsx";
+import type { D1Database } from "../../lib/cloudflare.ts";
+import { loadSchema, describeTable, type SchemaObject, type TableDescription } from "../../lib/d1-schema.ts";
+import { TableBrowser } from "./TableBrowser.tsx";
+
+interface TreeNode {
+  object: SchemaObject;
+  depth: number;
+}
+
+const TYPE_ICONS: Record<SchemaObject["type"], string> = {
+  table: "▤",
+  view: "◫",
+  index: "↯",
+  trigger: "ϟ",
+};
+
+function buildTree(objects: SchemaObject[]): TreeNode[] {
+  const roots = objects
+    .filter((o) => o.type === "table" || o.type === "view")
+    .sort((a, b) => a.name.localeCompare(b.name));
+  const nodes: TreeNode[] = [];
+  for (const root of roots) {
+    nodes.push({ object: root, depth: 0 });
+    for (const child of objects) {
+      if (child !== root && child.tableName === root.name && (child.type === "index" || child.type === "trigger")) {
+        nodes.push({ object: child, depth: 1 });
+      }
+    }
+  }
+  return nodes;
+}
+
+interface Props {
+  database: D1Database;
+  onBack: () => void;
+  onBusyChange?: (busy: boolean) => void;
+}
+
+export function SchemaExplorer({ database, onBack, onBusyChange }: Props) {
+  const { theme } = useTheme();
+  const { colors } = theme;
+
+  const [objects, setObjects] = useState<SchemaObject[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const [descriptions, setDescriptions] = useState<Record<string, TableDescription>>({});
+  const [describeError, setDescribeError] = useState<string | null>(null);
+  const [browsing, setBrowsing] = useState<SchemaObject | null>(null);
+
+  const tree = useMemo(() => buildTree(objects), [objects]);
+  const selected = tree[selectedIndex]?.object;
+
+  const loadObjects = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    setDescriptions({});
+    try {
+      const data = await loadSchema(database.uuid);
+      setObjects(data);
+      setSelectedIndex((i) => Math.min(i, Math.max(0, buildTree(data).length - 1)));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load schema");
+    } finally {
+      setLoading(false);
+    }
+  }, [database.uuid]);
+
+  useEffect(() => {
+    loadObjects();
+  }, [loadObjects]);
+
+  useEffect(() => {
+    onBusyChange?.(browsing !== null);
+  }, [browsing, onBusyChange]);
+
+  const selectedTable = selected && (selected.type === "table" || selected.type === "view") ? selected.name : null;
+
+  useEffect(() => {
+    if (!selectedTable || descriptions[selectedTable]) return;
+    let cancelled = false;
+    setDescribeError(null);
+    describeTable(database.uuid, selectedTable)
+      .then((description) => {
+        if (!cancelled) setDescriptions((prev) => ({ ...prev, [selectedTable]: description }));
+      })
+      .catch((err) => {
+        if (!cancelled) setDescribeError(err instanceof Error ? err.message : "Failed to describe table");
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [database.uuid, selectedTable, descriptions]);
+
+  useScreenKeyboard((key) => {
+    if (browsing) return;
+
+    switch (key.name) {
+      case "j":
+      case "down":
+        setSelectedIndex((i) => Math.min(i + 1, tree.length - 1));
+        break;
+      case "k":
+      case "up":
+        setSelectedIndex((i) => Math.max(i - 1, 0));
+        break;
+      case "return":
+        if (selected && (selected.type === "table" || selected.type === "view")) setBrowsing(selected);
+        break;
+      case "r":
+        loadObjects();
+        break;
+      case "escape":
+      case "backspace":
+        onBack();
+        break;
+    }
+  });
+
+  if (browsing) {
+    return (
+      <TableBrowser
+        database={database}
+        table={browsing.name}
+        columns={descriptions[browsing.name]?.columns ?? []}
+        onBack={() => setBrowsing(null)}
+      />
+    );
+  }
+
+  const description = selectedTable ? descriptions[selectedTable] : undefined;
+  const children = selectedTable ? objects.filter((o) => o.tableName === selectedTable && o.name !== selectedTable) : [];
+
+  return (
+    <box flexDirection="column" flexGrow={1} padding={1}>
+      {loading && objects.length === 0 ? (
+        <text fg={colors.textMuted}>⟳ Loading schema...</text>
+      ) : error ? (
+        <text fg={colors.error}>Error: {error}</text>
+      ) : tree.length === 0 ? (
+        <box borderStyle="single" borderColor={colors.border} padding={1}>
+          <text fg={colors.textMuted}>This database has no tables yet</text>
+        </box>
+      ) : (
+        <box flexDirection="row" flexGrow={1} gap={1}>
+          <box flexDirection="column" width="35%" borderStyle="single" borderColor={colors.border}>
+            <scrollbox flexDirection="column" flexGrow={1}>
+              {tree.map((node, index) => {
+                const isSelected = index === selectedIndex;
+                return (
+                  <box key={`${node.object.type}:${node.object.name}`} flexDirection="row" paddingLeft={1} backgroundColor={isSelected ? colors.surfaceAlt : undefined}>
+                    <text fg={isSelected ? colors.primary : node.depth === 0 ? colors.text : colors.textMuted}>
+                      {isSelected ? "> " : "  "}
+                      {node.depth === 0 ? "" : "  └ "}
+                      {TYPE_ICONS[node.object.type]} {node.object.name}
+                    </text>
+                  </box>
+                );
+              })}
+            </scrollbox>
+          </box>
+
+          <box flexDirection="column" flexGrow={1} borderStyle="single" borderColor={colors.border} paddingLeft={1} paddingRight={1}>
+            {selected && (
+              <text>
+                <strong fg={colors.primary}>{selected.name}</strong>
+                <span fg={colors.textMuted}> {selected.type}{selected.type !== "table" && selected.type !== "view" ? ` on ${selected.tableName}` : ""}</span>
+              </text>
+            )}
+
+            {selected && !selectedTable && (
+              <box marginTop={1}>
+                <text fg={colors.text}>{selected.sql ?? "(automatically created)"}</text>
+              </box>
+            )}
+
+            {selectedTable && !description && (
+              <text fg={describeError ? colors.error : colors.textMuted}>{describeError ?? "⟳ Loading columns..."}</text>
+            )}
+
+            {description && (
+              <scrollbox flexDirection="column" flexGrow={1} marginTop={1}>
+                <box flexDirection="row" backgroundColor={colors.surfaceAlt}>
+                  <text width="30%"><strong>Column</strong></text>
+                  <text width="20%"><strong>Type</strong></text>
+                  <text width="10%"><strong>PK</strong></text>
+                  <text width="15%"><strong>Not Null</strong></text>
+                  <text width="25%"><strong>Default</strong></text>
+                </box>
+                {description.columns.map((column) => (
+                  <box key={column.name} flexDirection="row">
+                    <text width="30%" fg={column.primaryKey ? colors.primary : colors.text}>{column.name}</text>
+                    <text width="20%" fg={colors.textMuted}>{column.type || "—"}</text>
+                    <text width="10%" fg={colors.textMuted}>{column.primaryKey ? `#${column.primaryKey}` : ""}</text>
+                    <text width="15%" fg={colors.textMuted}>{column.notNull ? "yes" : ""}</text>
+                    <text width="25%" fg={colors.textMuted}>{column.defaultValue ?? ""}</text>
+                  </box>
+                ))}
+
+                <box marginTop={1}>
+                  <text><strong>Foreign keys</strong></text>
+                </box>
+                {description.foreignKeys.length === 0 ? (
+                  <text fg={colors.textMuted}>None</text>
+                ) : (
+                  description.foreignKeys.map((fk, index) => (
+                    <text key={index} fg={colors.text}>
+                      {fk.from} → {fk.table}({fk.to ?? "primary key"})
+                      <span fg={colors.textMuted}> on update {fk.onUpdate.toLowerCase()}, on delete {fk.onDelete.toLowerCase()}</span>
+                    </text>
+                  ))
+                )}
+
+                <box marginTop={1}>
+                  <text><strong>Indexes and triggers</strong></text>
+                </box>
+                {children.length === 0 ? (
+                  <text fg={colors.textMuted}>None</text>
+                ) : (
+                  children.map((child) => (
+                    <text key={child.name} fg={colors.text}>
+                      {TYPE_ICONS[child.type]} {child.name}
+                      <span fg={colors.textMuted}> {child.type}</span>
+                    </text>
+                  ))
+                )}
+              </scrollbox>
+            )}
+          </box>
+        </box>
+      )}
+
+      <box marginTop={1}>
+        <text fg={colors.textMuted}>↑/↓ Navigate • Enter Browse rows • r Refresh • Esc Back</text>
+      </box>
+    </box>
+  );
+}
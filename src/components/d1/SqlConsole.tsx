@@ -0,0 +1,290 @@
+import { useState, useEffect, useRef } from "react";
+import { useScreenKeyboard } from "../../lib/overlay-context.tsx";
+import type { ScrollBoxRenderable } from "@opentui/core";
+import { useTheme } from "../../lib/theme-context.tsx";
+import { queryD1Database, type D1Database, type D1RawResult } from "../../lib/cloudflare.ts";
+import { splitStatements, isWriteStatement, formatSqlValue } from "../../lib/d1-sql.ts";
+import { loadQueryHistory, appendQueryHistory } from "../../lib/d1-history.ts";
+import { table } from "../../lib/ascii-charts.ts";
+
+const MAX_GRID_ROWS = 500;
+const MAX_CELL_WIDTH = 40;
+const MAX_OUTPUT_ENTRIES = 20;
+
+interface OutputEntry {
+  id: number;
+  sql: string;
+  results: D1RawResult[];
+  error: string | null;
+  elapsedMs: number;
+}
+
+type Focus = "input" | "output";
+
+type ModalState =
+  | { type: "none" }
+  | { type: "confirm"; sql: string; writes: string[] };
+
+function formatMeta(result: D1RawResult): string {
+  const { meta } = result;
+  const parts = [`${result.results.rows.length} row${result.results.rows.length === 1 ? "" : "s"}`];
+  if (meta.duration !== undefined) parts.push(`${meta.duration.toFixed(2)} ms`);
+  if (meta.rows_read !== undefined) parts.push(`${meta.rows_read} read`);
+  if (meta.rows_written !== undefined) parts.push(`${meta.rows_written} written`);
+  if (meta.changes) parts.push(`${meta.changes} changed`);
+  if (meta.changes && meta.last_row_id) parts.push(`last row id ${meta.last_row_id}`);
+  return parts.join(" • ");
+}
+
+function resultGrid(result: D1RawResult): string[] {
+  const { columns, rows } = result.results;
+  if (columns.length === 0) return [];
+  return table(
+    rows.slice(0, MAX_GRID_ROWS).map((row) => row.map((value) => formatSqlValue(value, MAX_CELL_WIDTH))),
+    { headers: columns }
+  );
+}
+
+interface Props {
+  database: D1Database;
+  onBack: () => void;
+}
+
+export function SqlConsole({ database, onBack }: Props) {
+  const { theme } = useTheme();
+  const { colors } = theme;
+
+  const [sql, setSql] = useState("");
+  const [history, setHistory] = useState<string[]>([]);
+  const [historyIndex, setHistoryIndex] = useState<number | null>(null);
+  const [draft, setDraft] = useState("");
+  const [output, setOutput] = useState<OutputEntry[]>([]);
+  const [running, setRunning] = useState(false);
+  const [focus, setFocus] = useState<Focus>("input");
+  const [modal, setModal] = useState<ModalState>({ type: "none" });
+  const outputRef = useRef<ScrollBoxRenderable | null>(null);
+  const nextId = useRef(0);
+
+  useEffect(() => {
+    loadQueryHistory(database.uuid).then(setHistory);
+  }, [database.uuid]);
+
+  const execute = async (statement: string) => {
+    setRunning(true);
+    const started = performance.now();
+    let entry: OutputEntry;
+    try {
+      const results = await queryD1Database(database.uuid, statement);
+      entry = { id: nextId.current++, sql: statement, results, error: null, elapsedMs: performance.now() - started };
+    } catch (err) {
+      entry = {
+        id: nextId.current++,
+        sql: statement,
+        results: [],
+        error: err instanceof Error ? err.message : "Query failed",
+        elapsedMs: performance.now() - started,
+      };
+    }
+    setOutput((prev) => [...prev, entry].slice(-MAX_OUTPUT_ENTRIES));
+    setRunning(false);
+    setTimeout(() => outputRef.current?.scrollTo({ x: 0, y: outputRef.current.scrollHeight }), 0);
+  };
+
+  const submit = async () => {
+    const statement = sql.trim();
+    if (!statement) return;
+    setHistory(await appendQueryHistory(database.uuid, history, statement));
+    setHistoryIndex(null);
+    setSql("");
+
+    const writes = splitStatements(statement).filter(isWriteStatement);
+    if (writes.length > 0) {
+      setModal({ type: "confirm", sql: statement, writes });
+      return;
+    }
+    execute(statement);
+  };
+
+  const recall = (direction: -1 | 1) => {
+    if (history.length === 0) return;
+    if (historyIndex === null) {
+      if (direction === 1) return;
+      setDraft(sql);
+      setHistoryIndex(history.length - 1);
+      setSql(history[history.length - 1]!);
+      return;
+    }
+    const next = historyIndex + direction;
+    if (next >= history.length) {
+      setHistoryIndex(null);
+      setSql(draft);
+    } else if (next >= 0) {
+      setHistoryIndex(next);
+      setSql(history[next]!);
+    }
+  };
+
+  useScreenKeyboard((key) => {
+    if (running) return;
+
+    if (modal.type === "confirm") {
+      if (key.name === "y") {
+        setModal({ type: "none" });
+        execute(modal.sql);
+      } else if (key.name === "n" || key.name === "escape") {
+        setModal({ type: "none" });
+      }
+      return;
+    }
+
+    if (key.name === "l" && key.ctrl) {
+      setOutput([]);
+      return;
+    }
+
+    if (focus === "input") {
+      switch (key.name) {
+        case "return":
+          submit();
+          break;
+        case "up":
+          recall(-1);
+          break;
+        case "down":
+          recall(1);
+          break;
+        case "escape":
+          setFocus("output");
+          break;
+      }
+      return;
+    }
+
+    const scroller = outputRef.current;
+    switch (key.name) {
+      case "j":
+      case "down":
+        scroller?.scrollBy(1);
+        break;
+      case "k":
+      case "up":
+        scroller?.scrollBy(-1);
+        break;
+      case "h":
+      case "left":
+        scroller?.scrollBy({ x: -8, y: 0 });
+        break;
+      case "l":
+      case "right":
+        scroller?.scrollBy({ x: 8, y: 0 });
+        break;
+      case "pagedown":
+        scroller?.scrollBy(1 / 2, "viewport");
+        break;
+      case "pageup":
+        scroller?.scrollBy(-1 / 2, "viewport");
+        break;
+      case "i":
+      case "return":
+        setFocus("input");
+        break;
+      case "escape":
+      case "backspace":
+        onBack();
+        break;
+    }
+  });
+
+  return (
+    <box flexDirection="column" flexGrow={1}>
+      <scrollbox
+        ref={outputRef}
+        flexDirection="column"
+        flexGrow={1}
+        scrollX
+        borderStyle="single"
+        borderColor={focus === "output" ? colors.primary : colors.border}
+      >
+        {output.length === 0 ? (
+          <text fg={colors.textMuted}>
+            Run SQL against {database.name}. Separate statements with ";". Write statements ask for confirmation.
+          </text>
+        ) : (
+          output.map((entry) => (
+            <box key={entry.id} flexDirection="column" marginBottom={1}>
+              <text wrapMode="none">
+                <span fg={colors.primary}>sql&gt; </span>
+                <span fg={colors.text}>{entry.sql}</span>
+              </text>
+              {entry.error ? (
+                <text fg={colors.error}>Error: {entry.error}</text>
+              ) : (
+                entry.results.map((result, index) => (
+                  <box key={`${entry.id}-${index}`} flexDirection="column">
+                    {resultGrid(result).map((line, lineIndex) => (
+                      <text key={lineIndex} wrapMode="none" fg={colors.text}>{line}</text>
+                    ))}
+                    {result.results.rows.length > MAX_GRID_ROWS && (
+                      <text fg={colors.warning}>
+                        Showing first {MAX_GRID_ROWS} of {result.results.rows.length} rows
+                      </text>
+                    )}
+                    <text fg={colors.textMuted}>{formatMeta(result)}</text>
+                  </box>
+                ))
+              )}
+              <text fg={colors.textMuted}>Round trip {entry.elapsedMs.toFixed(0)} ms</text>
+            </box>
+          ))
+        )}
+      </scrollbox>
+
+      <box flexDirection="row" marginTop={1}>
+        <box width={6}>
+          <text fg={running ? colors.warning : colors.primary}>{running ? "⟳" : "sql>"}</text>
+        </box>
+        <input
+          value={sql}
+          onInput={setSql}
+          placeholder={running ? "Running..." : "SELECT * FROM sqlite_master"}
+          focused={focus === "input" && modal.type === "none" && !running}
+          flexGrow={1}
+          backgroundColor={colors.backgroundAlt}
+          textColor={colors.text}
+        />
+      </box>
+
+      <box marginTop={1}>
+        <text fg={colors.textMuted}>
+          {focus === "input"
+            ? "Enter Run • ↑/↓ History • Esc Results • Ctrl+L Clear"
+            : "↑/↓/←/→ Scroll • PgUp/PgDn Page • i Edit query • Ctrl+L Clear • Esc Back"}
+        </text>
+      </box>
+
+      {modal.type === "confirm" && (
+        <box position="absolute" top={0} left={0} right={0} bottom={0} justifyContent="center" alignItems="center" backgroundColor="rgba(0,0,0,0.7)">
+          <box flexDirection="column" borderStyle="double" borderColor={colors.warning} backgroundColor={colors.surface} padding={2} minWidth={70}>
+            <text fg={colors.warning}><strong>⚠ Confirm Write</strong></text>
+            <box marginTop={1}>
+              <text fg={colors.text}>
+                {modal.writes.length === 1
+                  ? `This statement modifies ${database.name}:`
+                  : `${modal.writes.length} statements modify ${database.name}:`}
+              </text>
+            </box>
+            {modal.writes.slice(0, 5).map((statement, index) => (
+              <text key={index} fg={colors.textMuted}>
+                {statement.length > 80 ? `${statement.slice(0, 79)}…` : statement}
+              </text>
+            ))}
+            {modal.writes.length > 5 && <text fg={colors.textMuted}>…and {modal.writes.length - 5} more</text>}
+            <box marginTop={1}>
+              <text fg={colors.textMuted}>[y] Yes  [n] No</text>
+            </box>
+          </box>
+        </box>
+      )}
+    </box>
+  );
+}
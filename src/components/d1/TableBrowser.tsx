@@ -0,0 +1,278 @@
+import { useState, useEffect, useCallback, useRef } from "react";
+import { useScreenKeyboard } from "../../lib/overlay-context.tsx";
+import type { ScrollBoxRenderable } from "@opentui/core";
+import { useTheme } from "../../lib/theme-context.tsx";
+import type { D1Database } from "../../lib/cloudflare.ts";
+import { fetchRows, validateWhereClause, type ColumnInfo, type RowPage } from "../../lib/d1-schema.ts";
+import { formatSqlValue } from "../../lib/d1-sql.ts";
+import { table as renderTable } from "../../lib/ascii-charts.ts";
+
+const PAGE_SIZE = 50;
+const MAX_CELL_WIDTH = 32;
+
+interface SortState {
+  column: string;
+  descending: boolean;
+}
+
+interface Props {
+  database: D1Database;
+  table: string;
+  columns: ColumnInfo[];
+  onBack: () => void;
+}
+
+export function TableBrowser({ database, table, columns, onBack }: Props) {
+  const { theme } = useTheme();
+  const { colors } = theme;
+
+  const [page, setPage] = useState<RowPage | null>(null);
+  const [offset, setOffset] = useState(0);
+  const [sort, setSort] = useState<SortState | null>(null);
+  const [where, setWhere] = useState("");
+  const [filterInput, setFilterInput] = useState<string | null>(null);
+  const [filterError, setFilterError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [selectedRow, setSelectedRow] = useState(0);
+  const [selectedColumn, setSelectedColumn] = useState(0);
+  const [viewingRow, setViewingRow] = useState(false);
+  const gridRef = useRef<ScrollBoxRenderable | null>(null);
+
+  const loadPage = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const data = await fetchRows(database.uuid, table, {
+        where,
+        orderBy: sort?.column,
+        descending: sort?.descending,
+        limit: PAGE_SIZE,
+        offset,
+      });
+      setPage(data);
+      setSelectedRow((i) => Math.min(i, Math.max(0, data.rows.length - 1)));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load rows");
+    } finally {
+      setLoading(false);
+    }
+  }, [database.uuid, table, where, sort, offset]);
+
+  useEffect(() => {
+    loadPage();
+  }, [loadPage]);
+
+  const columnNames = page && page.columns.length > 0 ? page.columns : columns.map((c) => c.name);
+  const primaryKeys = new Set(columns.filter((c) => c.primaryKey).map((c) => c.name));
+  const headers = columnNames.map((name, i) => {
+    const marker = sort?.column === name ? (sort.descending ? " ▼" : " ▲") : "";
+    const label = `${name}${marker}`;
+    return i === selectedColumn ? `[${label}]` : label;
+  });
+  const cells = (page?.rows ?? []).map((row) => row.map((value) => formatSqlValue(value, MAX_CELL_WIDTH)));
+  const widths = headers.map((h, i) => Math.max(h.length, ...cells.map((row) => (row[i] ?? "").length)) + 2);
+  const grid = columnNames.length > 0 ? renderTable(cells, { headers, columnWidths: widths }) : [];
+
+  useEffect(() => {
+    const scroller = gridRef.current;
+    if (!scroller) return;
+    const left = widths.slice(0, selectedColumn).reduce((sum, w) => sum + w + 1, 0);
+    const right = left + (widths[selectedColumn] ?? 0) + 2;
+    if (left < scroller.scrollLeft) scroller.scrollLeft = left;
+    else if (right > scroller.scrollLeft + scroller.viewport.width) scroller.scrollLeft = right - scroller.viewport.width;
+    const line = selectedRow + 3;
+    if (line < scroller.scrollTop) scroller.scrollTop = line;
+    else if (line >= scroller.scrollTop + scroller.viewport.height) scroller.scrollTop = line - scroller.viewport.height + 1;
+  });
+
+  const applyFilter = () => {
+    const value = filterInput?.trim() ?? "";
+    const problem = value ? validateWhereClause(value) : null;
+    if (problem) {
+      setFilterError(problem);
+      return;
+    }
+    setFilterInput(null);
+    setFilterError(null);
+    setOffset(0);
+    setSelectedRow(0);
+    setWhere(value);
+  };
+
+  const cycleSort = () => {
+    const column = columnNames[selectedColumn];
+    if (!column) return;
+    setOffset(0);
+    setSort((prev) => {
+      if (prev?.column !== column) return { column, descending: false };
+      return prev.descending ? null : { column, descending: true };
+    });
+  };
+
+  useScreenKeyboard((key) => {
+    if (filterInput !== null) {
+      if (key.name === "escape") {
+        setFilterInput(null);
+        setFilterError(null);
+      } else if (key.name === "return") {
+        applyFilter();
+      }
+      return;
+    }
+
+    if (viewingRow) {
+      if (key.name === "escape" || key.name === "backspace" || key.name === "return") setViewingRow(false);
+      return;
+    }
+
+    const rowCount = page?.rows.length ?? 0;
+    const total = page?.total ?? 0;
+    switch (key.name) {
+      case "j":
+      case "down":
+        setSelectedRow((i) => Math.min(i + 1, rowCount - 1));
+        break;
+      case "k":
+      case "up":
+        setSelectedRow((i) => Math.max(i - 1, 0));
+        break;
+      case "l":
+      case "right":
+        setSelectedColumn((i) => Math.min(i + 1, columnNames.length - 1));
+        break;
+      case "h":
+      case "left":
+        setSelectedColumn((i) => Math.max(i - 1, 0));
+        break;
+      case "n":
+        if (offset + PAGE_SIZE < total) {
+          setOffset(offset + PAGE_SIZE);
+          setSelectedRow(0);
+        }
+        break;
+      case "p":
+        if (offset > 0) {
+          setOffset(Math.max(0, offset - PAGE_SIZE));
+          setSelectedRow(0);
+        }
+        break;
+      case "s":
+        cycleSort();
+        break;
+      case "f":
+        setFilterInput(where);
+        setFilterError(null);
+        break;
+      case "x":
+        if (where) {
+          setOffset(0);
+          setWhere("");
+        }
+        break;
+      case "return":
+        if (rowCount > 0) setViewingRow(true);
+        break;
+      case "r":
+        loadPage();
+        break;
+      case "escape":
+      case "backspace":
+        onBack();
+        break;
+    }
+  });
+
+  const total = page?.total ?? 0;
+  const currentRow = page?.rows[selectedRow];
+
+  if (viewingRow && currentRow) {
+    return (
+      <box flexDirection="column" flexGrow={1} padding={1}>
+        <box flexDirection="row" gap={1} marginBottom={1}>
+          <text fg={colors.primary}>‹ Back (Esc)</text>
+          <text>|</text>
+          <text><strong>{table}</strong></text>
+          <text fg={colors.textMuted}>/ row {offset + selectedRow + 1}</text>
+        </box>
+        <scrollbox flexDirection="column" flexGrow={1} borderStyle="single" borderColor={colors.border} paddingLeft={1}>
+          {columnNames.map((name, i) => (
+            <box key={name} flexDirection="row" gap={2}>
+              <text width={24} fg={primaryKeys.has(name) ? colors.primary : colors.textMuted}>{name}</text>
+              <text fg={currentRow[i] === null ? colors.textMuted : colors.text}>{formatSqlValue(currentRow[i])}</text>
+            </box>
+          ))}
+        </scrollbox>
+      </box>
+    );
+  }
+
+  return (
+    <box flexDirection="column" flexGrow={1} padding={1}>
+      <box flexDirection="row" justifyContent="space-between" marginBottom={1}>
+        <box flexDirection="row" gap={1}>
+          <text fg={colors.primary}>‹ Back (Esc)</text>
+          <text>|</text>
+          <text><strong>{table}</strong></text>
+          {where && <text fg={colors.warning}>WHERE {where}</text>}
+        </box>
+        <text fg={colors.textMuted}>
+          {loading ? "⟳ " : ""}
+          {total === 0 ? "0 rows" : `${offset + 1}-${Math.min(offset + PAGE_SIZE, total)} of ${total} rows`}
+        </text>
+      </box>
+
+      {filterInput !== null && (
+        <box flexDirection="column" marginBottom={1}>
+          <box flexDirection="row">
+            <box width={8}>
+              <text fg={colors.primary}>WHERE</text>
+            </box>
+            <input
+              value={filterInput}
+              onInput={setFilterInput}
+              placeholder={`${columnNames[selectedColumn] ?? "id"} = 'value'`}
+              focused
+              flexGrow={1}
+              backgroundColor={colors.backgroundAlt}
+              textColor={colors.text}
+            />
+          </box>
+          {filterError && <text fg={colors.error}>{filterError}</text>}
+        </box>
+      )}
+
+      {error ? (
+        <text fg={colors.error}>Error: {error}</text>
+      ) : loading && !page ? (
+        <text fg={colors.textMuted}>⟳ Loading rows...</text>
+      ) : (
+        <scrollbox ref={gridRef} flexDirection="column" flexGrow={1} scrollX>
+          {grid.map((line, index) => {
+            const rowIndex = index - 3;
+            const isSelected = rowIndex === selectedRow && rowIndex < (page?.rows.length ?? 0);
+            return (
+              <text
+                key={index}
+                wrapMode="none"
+                fg={isSelected ? colors.primary : index < 3 ? colors.textMuted : colors.text}
+                bg={isSelected ? colors.surfaceAlt : undefined}
+              >
+                {line}
+              </text>
+            );
+          })}
+          {page && page.rows.length === 0 && <text fg={colors.textMuted}>No matching rows</text>}
+        </scrollbox>
+      )}
+
+      <box marginTop={1}>
+        <text fg={colors.textMuted}>
+          {filterInput !== null
+            ? "Enter Apply filter • Esc Cancel"
+            : "↑/↓ Row • ←/→ Column • s Sort • f Filter • x Clear filter • n/p Page • Enter View row • r Refresh • Esc Back"}
+        </text>
+      </box>
+    </box>
+  );
+}
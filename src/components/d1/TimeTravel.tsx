@@ -0,0 +1,294 @@
+import { useState, useEffect, useCallback } from "react";
+import { useScreenKeyboard } from "../../lib/overlay-context.tsx";
+import { useTheme } from "../../lib/theme-context.tsx";
+import { getD1Bookmark, restoreD1Database, type D1Database } from "../../lib/cloudflare.ts";
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+const PRESETS: Array<{ label: string; ago: number }> = [
+  { label: "Now", ago: 0 },
+  { label: "1 hour ago", ago: HOUR },
+  { label: "6 hours ago", ago: 6 * HOUR },
+  { label: "24 hours ago", ago: DAY },
+  { label: "3 days ago", ago: 3 * DAY },
+  { label: "7 days ago", ago: 7 * DAY },
+  { label: "30 days ago", ago: 30 * DAY },
+];
+
+interface BookmarkRow {
+  id: string;
+  label: string;
+  timestamp: Date | null;
+  bookmark: string | null;
+  error: string | null;
+}
+
+type ModalState =
+  | { type: "none" }
+  | { type: "timestamp"; value: string; error: string | null }
+  | { type: "restore"; row: BookmarkRow };
+
+function presetRows(): BookmarkRow[] {
+  const now = Date.now();
+  return PRESETS.map((preset) => ({
+    id: preset.label,
+    label: preset.label,
+    timestamp: new Date(now - preset.ago),
+    bookmark: null,
+    error: null,
+  }));
+}
+
+function parseTimestamp(value: string): Date | null {
+  const trimmed = value.trim();
+  if (!trimmed) return null;
+  const date = new Date(/^\d{4}-\d{2}-\d{2} \d/.test(trimmed) ? trimmed.replace(" ", "T") : trimmed);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+interface Props {
+  database: D1Database;
+  onBack: () => void;
+  onBusyChange?: (busy: boolean) => void;
+}
+
+export function TimeTravel({ database, onBack, onBusyChange }: Props) {
+  const { theme } = useTheme();
+  const { colors } = theme;
+
+  const [rows, setRows] = useState<BookmarkRow[]>(presetRows);
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const [modal, setModal] = useState<ModalState>({ type: "none" });
+  const [restoring, setRestoring] = useState(false);
+  const [actionMessage, setActionMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const resolve = useCallback(
+    async (row: BookmarkRow) => {
+      if (row.bookmark || !row.timestamp) return;
+      const timestamp = row.timestamp;
+      try {
+        const bookmark = await getD1Bookmark(database.uuid, row.id === "Now" ? undefined : timestamp);
+        setRows((prev) => prev.map((r) => (r.id === row.id ? { ...r, bookmark, error: null } : r)));
+      } catch (err) {
+        const message = err instanceof Error ? err.message : "Failed to look up bookmark";
+        setRows((prev) => prev.map((r) => (r.id === row.id ? { ...r, error: message } : r)));
+      }
+    },
+    [database.uuid]
+  );
+
+  const refresh = useCallback(() => {
+    const fresh = presetRows();
+    setRows((prev) => [...fresh, ...prev.filter((r) => !PRESETS.some((p) => p.label === r.id))]);
+    fresh.forEach(resolve);
+  }, [resolve]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  useEffect(() => {
+    onBusyChange?.(modal.type !== "none" || restoring);
+  }, [modal.type, restoring, onBusyChange]);
+
+  const addTimestamp = (value: string) => {
+    const timestamp = parseTimestamp(value);
+    if (!timestamp) {
+      setModal({ type: "timestamp", value, error: "Enter a date such as 2026-01-31 14:30 or an ISO 8601 timestamp" });
+      return;
+    }
+    if (timestamp.getTime() > Date.now()) {
+      setModal({ type: "timestamp", value, error: "Timestamp is in the future" });
+      return;
+    }
+    const row: BookmarkRow = { id: `custom:${timestamp.toISOString()}`, label: "Custom", timestamp, bookmark: null, error: null };
+    setModal({ type: "none" });
+    setRows((prev) => [...prev.filter((r) => r.id !== row.id), row]);
+    setSelectedIndex(rows.filter((r) => r.id !== row.id).length);
+    resolve(row);
+  };
+
+  const restore = async (row: BookmarkRow) => {
+    setModal({ type: "none" });
+    setRestoring(true);
+    setError(null);
+    try {
+      const result = await restoreD1Database(
+        database.uuid,
+        row.bookmark ? { bookmark: row.bookmark } : { timestamp: row.timestamp! }
+      );
+      if (result.previous_bookmark) {
+        const undo: BookmarkRow = {
+          id: `undo:${result.previous_bookmark}`,
+          label: "Before restore",
+          timestamp: new Date(),
+          bookmark: result.previous_bookmark,
+          error: null,
+        };
+        setRows((prev) => [...prev, undo]);
+      }
+      setActionMessage(
+        `Restored ${database.name} to ${row.timestamp?.toLocaleString() ?? row.bookmark}` +
+          (result.previous_bookmark ? ". Select \"Before restore\" to undo." : "")
+      );
+      setTimeout(() => setActionMessage(null), 3000);
+      refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to restore database");
+    } finally {
+      setRestoring(false);
+    }
+  };
+
+  useScreenKeyboard((key) => {
+    if (restoring) return;
+
+    if (modal.type === "restore") {
+      if (key.name === "y") {
+        restore(modal.row);
+      } else if (key.name === "n" || key.name === "escape") {
+        setModal({ type: "none" });
+      }
+      return;
+    }
+
+    if (modal.type === "timestamp") {
+      if (key.name === "escape") {
+        setModal({ type: "none" });
+      } else if (key.name === "return") {
+        addTimestamp(modal.value);
+      }
+      return;
+    }
+
+    const current = rows[selectedIndex];
+    switch (key.name) {
+      case "j":
+      case "down":
+        setSelectedIndex((i) => Math.min(i + 1, rows.length - 1));
+        break;
+      case "k":
+      case "up":
+        setSelectedIndex((i) => Math.max(i - 1, 0));
+        break;
+      case "return":
+        if (current && current.id !== "Now" && !current.error) setModal({ type: "restore", row: current });
+        break;
+      case "t":
+        setModal({ type: "timestamp", value: "", error: null });
+        break;
+      case "r":
+        refresh();
+        break;
+      case "escape":
+      case "backspace":
+        onBack();
+        break;
+    }
+  });
+
+  return (
+    <box flexDirection="column" flexGrow={1} padding={1}>
+      <text fg={colors.textMuted}>
+        Time Travel restores {database.name} to any minute within the retention window (30 days on paid plans, 7 on free).
+      </text>
+
+      {actionMessage && (
+        <box backgroundColor={colors.success} padding={1} marginTop={1}>
+          <text fg={colors.textInverse}>{actionMessage}</text>
+        </box>
+      )}
+
+      {error && (
+        <box backgroundColor={colors.error} padding={1} marginTop={1}>
+          <text fg={colors.textInverse}>{error}</text>
+        </box>
+      )}
+
+      {restoring && (
+        <box padding={1}>
+          <text fg={colors.warning}>⟳ Restoring {database.name}...</text>
+        </box>
+      )}
+
+      <box flexDirection="column" flexGrow={1} marginTop={1}>
+        <box flexDirection="row" padding={1} borderStyle="single" borderColor={colors.border} backgroundColor={colors.surfaceAlt}>
+          <text width="20%"><strong>Point</strong></text>
+          <text width="25%"><strong>Timestamp</strong></text>
+          <text width="55%"><strong>Bookmark</strong></text>
+        </box>
+        <scrollbox flexDirection="column" flexGrow={1}>
+          {rows.map((row, index) => {
+            const isSelected = index === selectedIndex;
+            return (
+              <box key={row.id} flexDirection="row" paddingLeft={1} paddingRight={1} backgroundColor={isSelected ? colors.surfaceAlt : undefined}>
+                <text width="20%" fg={isSelected ? colors.primary : colors.text}>
+                  {isSelected ? "> " : "  "}{row.label}
+                </text>
+                <text width="25%" fg={colors.textMuted}>{row.timestamp?.toLocaleString() ?? "—"}</text>
+                <text width="55%" fg={row.error ? colors.error : colors.textMuted}>
+                  {row.error ?? row.bookmark ?? "⟳"}
+                </text>
+              </box>
+            );
+          })}
+        </scrollbox>
+      </box>
+
+      <box marginTop={1}>
+        <text fg={colors.textMuted}>↑/↓ Navigate • Enter Restore • t Add timestamp • r Refresh • Esc Back</text>
+      </box>
+
+      {modal.type === "timestamp" && (
+        <box position="absolute" top={0} left={0} right={0} bottom={0} justifyContent="center" alignItems="center" backgroundColor="rgba(0,0,0,0.7)">
+          <box flexDirection="column" borderStyle="double" borderColor={colors.primary} backgroundColor={colors.surface} padding={2} minWidth={70}>
+            <text fg={colors.primary}>
+              <strong>Add Restore Point</strong>
+            </text>
+            <box marginTop={1} flexDirection="row">
+              <box width={12}>
+                <text fg={colors.text}>Timestamp:</text>
+              </box>
+              <input
+                value={modal.value}
+                onInput={(value) => setModal((prev) => (prev.type === "timestamp" ? { ...prev, value } : prev))}
+                placeholder="2026-01-31 14:30 (local time) or ISO 8601"
+                focused
+                width={48}
+                backgroundColor={colors.backgroundAlt}
+                textColor={colors.text}
+              />
+            </box>
+            {modal.error && (
+              <box marginTop={1}>
+                <text fg={colors.error}>{modal.error}</text>
+              </box>
+            )}
+            <box marginTop={2}>
+              <text fg={colors.textMuted}>Enter to look up bookmark • Esc to cancel</text>
+            </box>
+          </box>
+        </box>
+      )}
+
+      {modal.type === "restore" && (
+        <box position="absolute" top={0} left={0} right={0} bottom={0} justifyContent="center" alignItems="center" backgroundColor="rgba(0,0,0,0.7)">
+          <box flexDirection="column" borderStyle="double" borderColor={colors.error} backgroundColor={colors.surface} padding={2} minWidth={50}>
+            <text fg={colors.error}><strong>⚠ Confirm Restore</strong></text>
+            <box marginTop={1} flexDirection="column">
+              <text fg={colors.text}>
+                Restore "{database.name}" to {modal.row.timestamp?.toLocaleString() ?? modal.row.bookmark}?
+              </text>
+              <text fg={colors.textMuted}>Every write made after that point will be rolled back.</text>
+            </box>
+            <box marginTop={1}>
+              <text fg={colors.textMuted}>[y] Yes  [n] No</text>
+            </box>
+          </box>
+        </box>
+      )}
+    </box>
+  );
+}
@@ -0,0 +1,5 @@
+export { SqlConsole } from "./SqlConsole.tsx";
+export { SchemaExplorer } from "./SchemaExplorer.tsx";
+export { TableBrowser } from "./TableBrowser.tsx";
+export { DatabaseDetail } from "./DatabaseDetail.tsx";
+export { TimeTravel } from "./TimeTravel.tsx";
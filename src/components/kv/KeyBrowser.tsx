@@ -0,0 +1,555 @@
+import { useState, useEffect, useCallback, useMemo } from "react";
+import { useScreenKeyboard } from "../../lib/overlay-context.tsx";
+import { useTheme } from "../../lib/theme-context.tsx";
+import {
+  iterateKVKeys,
+  getKVValue,
+  putKVValue,
+  deleteKVKey,
+  deleteKVKeys,
+  type KVKey,
+  type KVNamespace,
+  type KVWriteOptions,
+} from "../../lib/cloudflare.ts";
+import { usePaginatedList } from "../../lib/use-paginated-list.ts";
+import { describeKVValue, decodeText, hexDump } from "../../lib/kv-values.ts";
+import { formatBytes } from "../../lib/ascii-charts.ts";
+
+const MIN_TTL_SECONDS = 60;
+const MAX_METADATA_BYTES = 1024;
+
+type ViewState = "keys" | "value";
+
+type ModalState =
+  | { type: "none" }
+  | { type: "form"; editing: boolean; json: boolean }
+  | { type: "delete"; keys: string[] };
+
+interface ValueState {
+  key: KVKey;
+  bytes: Uint8Array | null;
+  loading: boolean;
+  error: string | null;
+}
+
+interface KeyForm {
+  name: string;
+  value: string;
+  ttl: string;
+  expiration: string;
+  metadata: string;
+}
+
+const EMPTY_FORM: KeyForm = { name: "", value: "", ttl: "", expiration: "", metadata: "" };
+
+const FORM_FIELDS: Array<{ key: keyof KeyForm; label: string; placeholder: string }> = [
+  { key: "name", label: "Key", placeholder: "config:feature-flags" },
+  { key: "value", label: "Value", placeholder: "Text or JSON" },
+  { key: "ttl", label: "TTL (s)", placeholder: `Optional, at least ${MIN_TTL_SECONDS}` },
+  { key: "expiration", label: "Expires", placeholder: "Optional unix seconds or ISO date" },
+  { key: "metadata", label: "Metadata", placeholder: "Optional JSON, e.g. {\"owner\":\"ops\"}" },
+];
+
+function formatExpiration(expiration: number | undefined): string {
+  return expiration ? new Date(expiration * 1000).toLocaleString() : "never";
+}
+
+function parseExpiration(input: string): number | null {
+  const trimmed = input.trim();
+  if (/^\d+$/.test(trimmed)) return parseInt(trimmed);
+  const ms = Date.parse(trimmed);
+  return Number.isNaN(ms) ? null : Math.floor(ms / 1000);
+}
+
+function buildWriteOptions(form: KeyForm): KVWriteOptions | string {
+  const options: KVWriteOptions = {};
+  if (form.ttl.trim() && form.expiration.trim()) {
+    return "Set either a TTL or an expiration, not both";
+  }
+  if (form.ttl.trim()) {
+    const ttl = Number(form.ttl.trim());
+    if (!Number.isInteger(ttl) || ttl < MIN_TTL_SECONDS) {
+      return `TTL must be a whole number of seconds, at least ${MIN_TTL_SECONDS}`;
+    }
+    options.expirationTtl = ttl;
+  }
+  if (form.expiration.trim()) {
+    const expiration = parseExpiration(form.expiration);
+    if (expiration === null) return "Expiration must be unix seconds or a date";
+    if (expiration < Date.now() / 1000 + MIN_TTL_SECONDS) {
+      return `Expiration must be at least ${MIN_TTL_SECONDS}s in the future`;
+    }
+    options.expiration = expiration;
+  }
+  if (form.metadata.trim()) {
+    try {
+      options.metadata = JSON.parse(form.metadata);
+    } catch {
+      return "Metadata must be valid JSON";
+    }
+    if (new TextEncoder().encode(JSON.stringify(options.metadata)).length > MAX_METADATA_BYTES) {
+      return `Metadata must be at most ${MAX_METADATA_BYTES} bytes`;
+    }
+  }
+  return options;
+}
+
+interface Props {
+  namespace: KVNamespace;
+  onBack: () => void;
+}
+
+export function KeyBrowser({ namespace, onBack }: Props) {
+  const { theme } = useTheme();
+  const { colors } = theme;
+
+  const [view, setView] = useState<ViewState>("keys");
+  const [prefix, setPrefix] = useState("");
+  const [prefixInput, setPrefixInput] = useState("");
+  const [filterMode, setFilterMode] = useState(false);
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const [marked, setMarked] = useState<Set<string>>(new Set());
+  const [modal, setModal] = useState<ModalState>({ type: "none" });
+  const [form, setForm] = useState<KeyForm>(EMPTY_FORM);
+  const [formField, setFormField] = useState(0);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [value, setValue] = useState<ValueState | null>(null);
+  const [showHex, setShowHex] = useState(false);
+  const [actionMessage, setActionMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const source = useMemo(() => () => iterateKVKeys(namespace.id, prefix), [namespace.id, prefix]);
+  const keyList = usePaginatedList(source, "Failed to load keys");
+  const keys = keyList.items;
+  const currentKey = keys[selectedIndex];
+
+  const showMessage = (message: string) => {
+    setActionMessage(message);
+    setTimeout(() => setActionMessage(null), 3000);
+  };
+
+  const reloadKeys = useCallback(() => {
+    keyList.reload();
+    setSelectedIndex(0);
+    setMarked(new Set());
+  }, [keyList.reload]);
+
+  const loadValue = useCallback(async (key: KVKey) => {
+    setValue({ key, bytes: null, loading: true, error: null });
+    try {
+      const bytes = await getKVValue(namespace.id, key.name);
+      setValue({ key, bytes, loading: false, error: null });
+    } catch (err) {
+      setValue({ key, bytes: null, loading: false, error: err instanceof Error ? err.message : "Failed to load value" });
+    }
+  }, [namespace.id]);
+
+  useEffect(() => {
+    setSelectedIndex(0);
+    setMarked(new Set());
+  }, [prefix]);
+
+  const openValue = (key: KVKey) => {
+    setShowHex(false);
+    setView("value");
+    loadValue(key);
+  };
+
+  const openCreateForm = () => {
+    setForm(EMPTY_FORM);
+    setFormField(0);
+    setFormError(null);
+    setModal({ type: "form", editing: false, json: false });
+  };
+
+  const openEditForm = async (key: KVKey) => {
+    let bytes = value?.key.name === key.name ? value.bytes : null;
+    if (!bytes) {
+      try {
+        bytes = await getKVValue(namespace.id, key.name);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to load value");
+        return;
+      }
+    }
+    const text = decodeText(bytes);
+    if (text === null) {
+      setError(`"${key.name}" holds binary data and can't be edited as text`);
+      return;
+    }
+    const described = describeKVValue(bytes);
+    setForm({
+      name: key.name,
+      value: text,
+      ttl: "",
+      expiration: key.expiration ? key.expiration.toString() : "",
+      metadata: key.metadata !== undefined ? JSON.stringify(key.metadata) : "",
+    });
+    setFormField(1);
+    setFormError(null);
+    setModal({ type: "form", editing: true, json: described.kind === "json" });
+  };
+
+  const saveForm = async () => {
+    const name = form.name.trim();
+    if (!name) {
+      setFormError("Key name is required");
+      return;
+    }
+    if (new TextEncoder().encode(name).length > 512) {
+      setFormError("Key names are limited to 512 bytes");
+      return;
+    }
+    if (modal.type === "form" && modal.json) {
+      try {
+        JSON.parse(form.value);
+      } catch {
+        setFormError("Value was JSON and must still be valid JSON");
+        return;
+      }
+    }
+    const options = buildWriteOptions(form);
+    if (typeof options === "string") {
+      setFormError(options);
+      return;
+    }
+    try {
+      await putKVValue(namespace.id, name, form.value, options);
+      setModal({ type: "none" });
+      showMessage(`Saved "${name}"`);
+      keyList.reload();
+      if (view === "value" && value?.key.name === name) {
+        loadValue({ name, expiration: options.expiration, metadata: options.metadata });
+      }
+    } catch (err) {
+      setFormError(err instanceof Error ? err.message : "Failed to save key");
+    }
+  };
+
+  const confirmDelete = async () => {
+    if (modal.type !== "delete") return;
+    const targets = modal.keys;
+    setModal({ type: "none" });
+    try {
+      if (targets.length === 1 && targets[0]) {
+        await deleteKVKey(namespace.id, targets[0]);
+      } else {
+        await deleteKVKeys(namespace.id, targets);
+      }
+      showMessage(targets.length === 1 ? `Deleted "${targets[0]}"` : `Deleted ${targets.length} keys`);
+      if (view === "value") setView("keys");
+      reloadKeys();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to delete keys");
+    }
+  };
+
+  const requestDelete = (fallback: KVKey | undefined) => {
+    const targets = marked.size > 0 && view === "keys" ? [...marked] : fallback ? [fallback.name] : [];
+    if (targets.length > 0) setModal({ type: "delete", keys: targets });
+  };
+
+  useScreenKeyboard((key) => {
+    if (modal.type === "delete") {
+      if (key.name === "y") {
+        confirmDelete();
+      } else if (key.name === "n" || key.name === "escape") {
+        setModal({ type: "none" });
+      }
+      return;
+    }
+
+    if (modal.type === "form") {
+      if (key.name === "escape") {
+        setModal({ type: "none" });
+      } else if (key.name === "s" && key.ctrl) {
+        saveForm();
+      } else if (key.name === "tab" || key.name === "down") {
+        const step = key.shift ? -1 : 1;
+        setFormField((f) => {
+          let next = (f + step + FORM_FIELDS.length) % FORM_FIELDS.length;
+          if (modal.editing && next === 0) next = (next + step + FORM_FIELDS.length) % FORM_FIELDS.length;
+          return next;
+        });
+      } else if (key.name === "up") {
+        setFormField((f) => Math.max(modal.editing ? 1 : 0, f - 1));
+      }
+      return;
+    }
+
+    if (filterMode) {
+      if (key.name === "escape") {
+        setPrefixInput(prefix);
+        setFilterMode(false);
+      } else if (key.name === "return") {
+        setPrefix(prefixInput.trim());
+        setFilterMode(false);
+      }
+      return;
+    }
+
+    if (view === "value") {
+      if (key.name === "escape" || key.name === "backspace") {
+        setView("keys");
+        setValue(null);
+      } else if (key.name === "x") {
+        setShowHex((prev) => !prev);
+      } else if (key.name === "e" && value) {
+        openEditForm(value.key);
+      } else if (key.name === "d" && value) {
+        requestDelete(value.key);
+      } else if (key.name === "r" && value) {
+        loadValue(value.key);
+      }
+      return;
+    }
+
+    switch (key.name) {
+      case "j":
+      case "down":
+        setSelectedIndex((i) => Math.min(i + 1, keys.length - 1));
+        keyList.ensureLoaded(selectedIndex + 1);
+        break;
+      case "k":
+      case "up":
+        setSelectedIndex((i) => Math.max(i - 1, 0));
+        break;
+      case "return":
+        if (currentKey) openValue(currentKey);
+        break;
+      case "space":
+        if (currentKey) {
+          setMarked((prev) => {
+            const next = new Set(prev);
+            if (next.has(currentKey.name)) next.delete(currentKey.name);
+            else next.add(currentKey.name);
+            return next;
+          });
+          setSelectedIndex((i) => Math.min(i + 1, keys.length - 1));
+        }
+        break;
+      case "a":
+        setMarked((prev) => (prev.size === keys.length ? new Set() : new Set(keys.map((k) => k.name))));
+        break;
+      case "/":
+        setPrefixInput(prefix);
+        setFilterMode(true);
+        break;
+      case "n":
+        openCreateForm();
+        break;
+      case "e":
+        if (currentKey) openEditForm(currentKey);
+        break;
+      case "d":
+        requestDelete(currentKey);
+        break;
+      case "r":
+        reloadKeys();
+        break;
+      case "escape":
+      case "backspace":
+        if (marked.size > 0) setMarked(new Set());
+        else onBack();
+        break;
+    }
+  });
+
+  const renderHeader = () => (
+    <box flexDirection="row" justifyContent="space-between" marginBottom={1}>
+      <box flexDirection="row" gap={1}>
+        <text fg={colors.primary}>‹ Back (Esc)</text>
+        <text>|</text>
+        <text><strong>{namespace.title}</strong></text>
+        {view === "value" && value && <text fg={colors.textMuted}>/ {value.key.name}</text>}
+      </box>
+      <text fg={colors.textMuted}>
+        {keys.length}{keyList.hasMore ? "+" : ""} keys{marked.size > 0 ? ` • ${marked.size} selected` : ""}
+      </text>
+    </box>
+  );
+
+  const renderValue = () => {
+    if (!value) return null;
+    if (value.loading) {
+      return <text fg={colors.textMuted}>⟳ Loading value...</text>;
+    }
+    if (value.error || !value.bytes) {
+      return <text fg={colors.error}>Error: {value.error ?? "Value not found"}</text>;
+    }
+    const described = describeKVValue(value.bytes);
+    const lines = showHex || described.kind === "binary" ? hexDump(value.bytes) : described.text.split("\n");
+
+    return (
+      <box flexDirection="column" flexGrow={1}>
+        <box flexDirection="column" borderStyle="single" borderColor={colors.border} paddingLeft={1} paddingRight={1} marginBottom={1}>
+          <box flexDirection="row" gap={2}>
+            <text fg={colors.textMuted} width={12}>Size:</text>
+            <text>{formatBytes(value.bytes.length)}</text>
+            <text fg={colors.textMuted}>
+              ({showHex || described.kind === "binary" ? "hex" : described.kind})
+            </text>
+          </box>
+          <box flexDirection="row" gap={2}>
+            <text fg={colors.textMuted} width={12}>Expires:</text>
+            <text>{formatExpiration(value.key.expiration)}</text>
+          </box>
+          <box flexDirection="row" gap={2}>
+            <text fg={colors.textMuted} width={12}>Metadata:</text>
+            <text>{value.key.metadata !== undefined ? JSON.stringify(value.key.metadata) : "none"}</text>
+          </box>
+        </box>
+        <scrollbox flexGrow={1} borderStyle="single" borderColor={colors.border} paddingLeft={1}>
+          {lines.map((line, i) => (
+            <text key={i} fg={described.kind === "json" && !showHex ? colors.info : colors.text}>
+              {line || " "}
+            </text>
+          ))}
+        </scrollbox>
+      </box>
+    );
+  };
+
+  const renderKeys = () => (
+    <box flexDirection="column" flexGrow={1}>
+      <box flexDirection="row" gap={1} marginBottom={1}>
+        <text fg={colors.textMuted}>Prefix:</text>
+        {filterMode ? (
+          <input
+            value={prefixInput}
+            onInput={setPrefixInput}
+            placeholder="Filter keys by prefix"
+            focused
+            width={40}
+            backgroundColor={colors.backgroundAlt}
+            textColor={colors.text}
+          />
+        ) : (
+          <text fg={prefix ? colors.primary : colors.textMuted}>{prefix || "(none)"}</text>
+        )}
+      </box>
+
+      {keyList.error ? (
+        <text fg={colors.error}>Error: {keyList.error}</text>
+      ) : keys.length === 0 ? (
+        <box borderStyle="single" borderColor={colors.border} padding={1}>
+          <text fg={colors.textMuted}>
+            {keyList.loading || keyList.hasMore ? "⟳ Loading keys..." : prefix ? `No keys starting with "${prefix}"` : "No keys in this namespace"}
+          </text>
+        </box>
+      ) : (
+        <box flexDirection="column" flexGrow={1}>
+          <box flexDirection="row" padding={1} borderStyle="single" borderColor={colors.border} backgroundColor={colors.surfaceAlt}>
+            <text width="60%"><strong>Key</strong></text>
+            <text width="40%"><strong>Expires</strong></text>
+          </box>
+          <scrollbox flexDirection="column" flexGrow={1}>
+            {keys.map((k, index) => {
+              const isSelected = index === selectedIndex;
+              const isMarked = marked.has(k.name);
+              return (
+                <box key={k.name} flexDirection="row" paddingLeft={1} paddingRight={1} backgroundColor={isSelected ? colors.surfaceAlt : undefined}>
+                  <text width="60%" fg={isSelected ? colors.primary : colors.text}>
+                    {isSelected ? "> " : "  "}
+                    <span fg={isMarked ? colors.warning : colors.textMuted}>{isMarked ? "◉ " : "○ "}</span>
+                    {k.name}
+                  </text>
+                  <text width="40%" fg={colors.textMuted}>{formatExpiration(k.expiration)}</text>
+                </box>
+              );
+            })}
+            {keyList.hasMore && (
+              <box padding={1}>
+                <text fg={colors.textMuted}>{keyList.loading ? "⟳ Loading more…" : "↓ More keys below"}</text>
+              </box>
+            )}
+          </scrollbox>
+        </box>
+      )}
+    </box>
+  );
+
+  return (
+    <box flexDirection="column" flexGrow={1} padding={1}>
+      {renderHeader()}
+
+      {actionMessage && (
+        <box backgroundColor={colors.success} padding={1}>
+          <text fg={colors.textInverse}>{actionMessage}</text>
+        </box>
+      )}
+
+      {error && (
+        <box backgroundColor={colors.error} padding={1}>
+          <text fg={colors.textInverse}>{error}</text>
+        </box>
+      )}
+
+      {view === "value" ? renderValue() : renderKeys()}
+
+      <box marginTop={1}>
+        <text fg={colors.textMuted}>
+          {view === "value"
+            ? "x Hex/Text • e Edit • d Delete • r Refresh • Esc Back"
+            : filterMode
+            ? "Enter Apply prefix • Esc Cancel"
+            : "↑/↓ Navigate • Enter View • / Prefix • Space Select • a Select all • n New • e Edit • d Delete • r Refresh"}
+        </text>
+      </box>
+
+      {modal.type === "delete" && (
+        <box position="absolute" top={0} left={0} right={0} bottom={0} justifyContent="center" alignItems="center" backgroundColor="rgba(0,0,0,0.7)">
+          <box flexDirection="column" borderStyle="double" borderColor={colors.error} backgroundColor={colors.surface} padding={2} minWidth={50}>
+            <text fg={colors.error}><strong>⚠ Confirm Delete</strong></text>
+            <box marginTop={1}>
+              <text fg={colors.text}>
+                {modal.keys.length === 1 ? `Delete key "${modal.keys[0]}"?` : `Delete ${modal.keys.length} selected keys?`}
+              </text>
+            </box>
+            <box marginTop={1}>
+              <text fg={colors.textMuted}>[y] Yes  [n] No</text>
+            </box>
+          </box>
+        </box>
+      )}
+
+      {modal.type === "form" && (
+        <box position="absolute" top={0} left={0} right={0} bottom={0} justifyContent="center" alignItems="center" backgroundColor="rgba(0,0,0,0.7)">
+          <box flexDirection="column" borderStyle="double" borderColor={colors.primary} backgroundColor={colors.surface} padding={2} minWidth={70}>
+            <text fg={colors.primary}>
+              <strong>{modal.editing ? `Overwrite "${form.name}"` : "Create Key"}</strong>
+            </text>
+            {FORM_FIELDS.map((field, index) => (
+              <box key={field.key} marginTop={1} flexDirection="row">
+                <box width={12}>
+                  <text fg={formField === index ? colors.primary : colors.text}>{field.label}:</text>
+                </box>
+                {modal.editing && field.key === "name" ? (
+                  <text fg={colors.textMuted}>{form.name}</text>
+                ) : (
+                  <input
+                    value={form[field.key]}
+                    onInput={(v) => setForm((prev) => ({ ...prev, [field.key]: v }))}
+                    placeholder={field.placeholder}
+                    focused={formField === index}
+                    width={52}
+                    backgroundColor={formField === index ? colors.backgroundAlt : colors.surface}
+                    textColor={colors.text}
+                  />
+                )}
+              </box>
+            ))}
+            {formError && (
+              <box marginTop={1}>
+                <text fg={colors.error}>{formError}</text>
+              </box>
+            )}
+            <box marginTop={2}>
+              <text fg={colors.textMuted}>Tab/↓ next field • Ctrl+S to save • Esc to cancel</text>
+            </box>
+          </box>
+        </box>
+      )}
+    </box>
+  );
+}
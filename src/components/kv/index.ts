@@ -0,0 +1 @@
+export { KeyBrowser } from "./KeyBrowser.tsx";
@@ -1,6 +1,7 @@
 import type { ReactNode } from "react";
 import { useTheme } from "../../lib/theme-context.tsx";
 import { useCurrentAccount } from "../../lib/auth-context.tsx";
+import { useZone } from "../../lib/zone-context.tsx";
 
 interface HeaderProps {
   title?: string;
@@ -11,6 +12,7 @@ export function Header({ title = "flarectl", children }: HeaderProps) {
   const { theme, mode } = useTheme();
   const { colors } = theme;
   const currentAccount = useCurrentAccount();
+  const { activeZone } = useZone();
 
   return (
     <box
@@ -32,6 +34,19 @@ export function Header({ title = "flarectl", children }: HeaderProps) {
         {children}
       </box>
       <box alignItems="center" flexDirection="row" gap={2}>
+        {activeZone && (
+          <>
+            <text>
+              <span fg={colors.textMuted}>[</span>
+            </text>
+            <text>
+              <span fg={colors.info}>🌐 {activeZone.name}</span>
+            </text>
+            <text>
+              <span fg={colors.textMuted}>]</span>
+            </text>
+          </>
+        )}
         {currentAccount && (
           <>
             <text>
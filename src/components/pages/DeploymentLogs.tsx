@@ -0,0 +1,164 @@
+import { useState, useEffect, useCallback } from "react";
+import { useScreenKeyboard } from "../../lib/overlay-context.tsx";
+import { useTheme } from "../../lib/theme-context.tsx";
+import {
+  getPagesDeployment,
+  getPagesDeploymentLogs,
+  type PagesDeployment,
+  type PagesLogLine,
+} from "../../lib/cloudflare.ts";
+import {
+  groupLogsByStage,
+  isDeploymentRunning,
+  deploymentCommit,
+  stageDuration,
+} from "../../lib/pages-deployments.ts";
+
+const POLL_INTERVAL_MS = 3000;
+
+const STAGE_ICONS: Record<string, string> = {
+  success: "✓",
+  failure: "✗",
+  active: "⟳",
+  idle: "·",
+  canceled: "⊘",
+  skipped: "↷",
+};
+
+interface Props {
+  projectName: string;
+  deployment: PagesDeployment;
+  onBack: () => void;
+}
+
+export function DeploymentLogs({ projectName, deployment: initial, onBack }: Props) {
+  const { theme } = useTheme();
+  const { colors } = theme;
+
+  const [deployment, setDeployment] = useState(initial);
+  const [lines, setLines] = useState<PagesLogLine[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [stageFilter, setStageFilter] = useState(-1);
+
+  const load = useCallback(async () => {
+    setError(null);
+    try {
+      const [latest, logs] = await Promise.all([
+        getPagesDeployment(projectName, initial.id),
+        getPagesDeploymentLogs(projectName, initial.id),
+      ]);
+      setDeployment(latest);
+      setLines(logs.data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load build logs");
+    } finally {
+      setLoading(false);
+    }
+  }, [projectName, initial.id]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const running = isDeploymentRunning(deployment);
+
+  useEffect(() => {
+    if (!running) return;
+    const timer = setInterval(load, POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [running, load]);
+
+  const stages = deployment.stages ?? [];
+  const groups = groupLogsByStage(stages, lines);
+  const visible = stageFilter === -1 ? groups : groups.filter((_, index) => index === stageFilter);
+  const commit = deploymentCommit(deployment);
+
+  const stageColor = (status: string) =>
+    status === "success"
+      ? colors.success
+      : status === "failure"
+        ? colors.error
+        : status === "active" || status === "idle"
+          ? colors.warning
+          : colors.textMuted;
+
+  useScreenKeyboard((key) => {
+    switch (key.name) {
+      case "s":
+        setStageFilter((i) => (i + 2) % (stages.length + 1) - 1);
+        break;
+      case "r":
+        load();
+        break;
+      case "escape":
+      case "backspace":
+        onBack();
+        break;
+    }
+  });
+
+  return (
+    <box flexDirection="column" flexGrow={1}>
+      <box flexDirection="column" borderStyle="single" borderColor={colors.border} paddingLeft={1} paddingRight={1}>
+        <text>
+          <span fg={colors.textMuted}>{deployment.environment} • </span>
+          <span fg={colors.text}>{commit.branch || "—"}</span>
+          {commit.hash && <span fg={colors.info}> {commit.hash}</span>}
+          {commit.message && <span fg={colors.textMuted}> {commit.message}</span>}
+        </text>
+        <text fg={colors.info}>{deployment.url}</text>
+        <box flexDirection="row" gap={2}>
+          {stages.map((stage, index) => (
+            <text key={stage.name}>
+              <span fg={stageColor(stage.status)}>
+                {STAGE_ICONS[stage.status] ?? "?"} {stage.name}
+              </span>
+              <span fg={index === stageFilter ? colors.primary : colors.textMuted}> {stageDuration(stage)}</span>
+            </text>
+          ))}
+        </box>
+      </box>
+
+      {error && (
+        <box backgroundColor={colors.error} padding={1}>
+          <text fg={colors.textInverse}>{error}</text>
+        </box>
+      )}
+
+      <scrollbox flexDirection="column" flexGrow={1} marginTop={1} stickyScroll stickyStart="bottom">
+        {loading && lines.length === 0 ? (
+          <text fg={colors.textMuted}>⟳ Loading build logs...</text>
+        ) : (
+          visible.map(({ stage, lines: stageLines }) => (
+            <box key={stage.name} flexDirection="column">
+              <text fg={stageColor(stage.status)}>
+                <strong>
+                  ── {stage.name} ({stage.status}
+                  {stage.started_on ? `, ${stageDuration(stage)}` : ""})
+                </strong>
+              </text>
+              {stageLines.length === 0 ? (
+                <text fg={colors.textMuted}>  {stage.started_on ? "No output" : "Not started"}</text>
+              ) : (
+                stageLines.map((line, index) => (
+                  <text key={`${line.ts}-${index}`}>
+                    <span fg={colors.textMuted}>{new Date(line.ts).toLocaleTimeString()} </span>
+                    <span fg={colors.text}>{line.line}</span>
+                  </text>
+                ))
+              )}
+            </box>
+          ))
+        )}
+        {running && <text fg={colors.warning}>⟳ Build in progress, following logs...</text>}
+      </scrollbox>
+
+      <box marginTop={1}>
+        <text fg={colors.textMuted}>
+          s Stage: {stageFilter === -1 ? "all" : stages[stageFilter]?.name} • r Refresh • Esc Back to deployments
+        </text>
+      </box>
+    </box>
+  );
+}
@@ -0,0 +1,315 @@
+import { useState, useMemo, useEffect } from "react";
+import { useScreenKeyboard } from "../../lib/overlay-context.tsx";
+import { useTheme } from "../../lib/theme-context.tsx";
+import {
+  iteratePagesDeployments,
+  retryPagesDeployment,
+  rollbackPagesDeployment,
+  deletePagesDeployment,
+  type PagesProject,
+  type PagesDeployment,
+  type PagesEnvironment,
+} from "../../lib/cloudflare.ts";
+import { usePaginatedList } from "../../lib/use-paginated-list.ts";
+import { deploymentCommit, isDeploymentRunning } from "../../lib/pages-deployments.ts";
+import { DeploymentLogs } from "./DeploymentLogs.tsx";
+
+const ENVIRONMENTS: Array<PagesEnvironment | null> = [null, "production", "preview"];
+
+type ModalState =
+  | { type: "none" }
+  | { type: "retry" | "rollback" | "delete"; deployment: PagesDeployment };
+
+const MODAL_TITLES = {
+  retry: "Retry Deployment",
+  rollback: "Confirm Rollback",
+  delete: "Confirm Delete",
+};
+
+function canRollback(deployment: PagesDeployment): boolean {
+  return (
+    deployment.environment === "production" &&
+    deployment.latest_stage.name === "deploy" &&
+    deployment.latest_stage.status === "success"
+  );
+}
+
+interface Props {
+  project: PagesProject;
+  onBack: () => void;
+}
+
+export function ProjectDetail({ project, onBack }: Props) {
+  const { theme } = useTheme();
+  const { colors } = theme;
+
+  const [environment, setEnvironment] = useState<PagesEnvironment | null>(null);
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const [logsFor, setLogsFor] = useState<PagesDeployment | null>(null);
+  const [modal, setModal] = useState<ModalState>({ type: "none" });
+  const [working, setWorking] = useState<string | null>(null);
+  const [actionMessage, setActionMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const source = useMemo(
+    () => () => iteratePagesDeployments(project.name, environment ?? undefined),
+    [project.name, environment]
+  );
+  const deploymentList = usePaginatedList(source, "Failed to load deployments");
+  const deployments = deploymentList.items;
+  const current = deployments[selectedIndex];
+
+  useEffect(() => {
+    setSelectedIndex(0);
+  }, [environment]);
+
+  const run = async (label: string, action: () => Promise<unknown>, summary: string) => {
+    setModal({ type: "none" });
+    setWorking(label);
+    setError(null);
+    try {
+      await action();
+      setActionMessage(summary);
+      setTimeout(() => setActionMessage(null), 3000);
+      deploymentList.reload();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Request failed");
+    } finally {
+      setWorking(null);
+    }
+  };
+
+  const confirm = (deployment: PagesDeployment, action: "retry" | "rollback" | "delete") => {
+    const id = deployment.short_id;
+    if (action === "retry") {
+      run(`Retrying ${id}...`, () => retryPagesDeployment(project.name, deployment.id), `Started a new build from ${id}`);
+    } else if (action === "rollback") {
+      run(
+        `Rolling back to ${id}...`,
+        () => rollbackPagesDeployment(project.name, deployment.id),
+        `Production now serves ${id}`
+      );
+    } else {
+      run(
+        `Deleting ${id}...`,
+        () => deletePagesDeployment(project.name, deployment.id, (deployment.aliases?.length ?? 0) > 0),
+        `Deleted deployment ${id}`
+      );
+    }
+  };
+
+  useScreenKeyboard((key) => {
+    if (logsFor || working) return;
+
+    if (modal.type !== "none") {
+      if (key.name === "y") {
+        confirm(modal.deployment, modal.type);
+      } else if (key.name === "n" || key.name === "escape") {
+        setModal({ type: "none" });
+      }
+      return;
+    }
+
+    switch (key.name) {
+      case "j":
+      case "down":
+        setSelectedIndex((i) => Math.min(i + 1, deployments.length - 1));
+        deploymentList.ensureLoaded(selectedIndex + 1);
+        break;
+      case "k":
+      case "up":
+        setSelectedIndex((i) => Math.max(i - 1, 0));
+        break;
+      case "return":
+        if (current) setLogsFor(current);
+        break;
+      case "e":
+        setEnvironment((env) => ENVIRONMENTS[(ENVIRONMENTS.indexOf(env) + 1) % ENVIRONMENTS.length]!);
+        break;
+      case "t":
+        if (current) setModal({ type: "retry", deployment: current });
+        break;
+      case "b":
+        if (!current) break;
+        if (canRollback(current)) {
+          setError(null);
+          setModal({ type: "rollback", deployment: current });
+        } else {
+          setError("Only successful production deployments can be rolled back to");
+        }
+        break;
+      case "d":
+        if (current) setModal({ type: "delete", deployment: current });
+        break;
+      case "r":
+        deploymentList.reload();
+        break;
+      case "escape":
+      case "backspace":
+        onBack();
+        break;
+    }
+  });
+
+  const statusColor = (deployment: PagesDeployment) => {
+    const { status } = deployment.latest_stage;
+    if (status === "failure") return colors.error;
+    if (isDeploymentRunning(deployment)) return colors.warning;
+    if (status === "success") return colors.success;
+    return colors.textMuted;
+  };
+
+  return (
+    <box flexDirection="column" flexGrow={1} padding={1}>
+      <box flexDirection="row" gap={1} marginBottom={1}>
+        <text fg={colors.primary}>‹ Back (Esc)</text>
+        <text>|</text>
+        <text><strong>{project.name}</strong></text>
+        {logsFor && (
+          <>
+            <text>|</text>
+            <text>Build {logsFor.short_id}</text>
+          </>
+        )}
+      </box>
+
+      {logsFor ? (
+        <DeploymentLogs projectName={project.name} deployment={logsFor} onBack={() => setLogsFor(null)} />
+      ) : (
+        <>
+          <box flexDirection="column" borderStyle="single" borderColor={colors.border} paddingLeft={1} paddingRight={1}>
+            <text>
+              <span fg={colors.textMuted}>Subdomain </span>
+              <span fg={colors.text}>{project.subdomain}</span>
+              <span fg={colors.textMuted}>   Production branch </span>
+              <span fg={colors.text}>{project.production_branch}</span>
+              <span fg={colors.textMuted}>   Created </span>
+              <span fg={colors.text}>{new Date(project.created_on).toLocaleDateString()}</span>
+            </text>
+            {project.domains && project.domains.length > 0 && (
+              <text fg={colors.textMuted}>Domains: {project.domains.join(", ")}</text>
+            )}
+          </box>
+
+          {actionMessage && (
+            <box backgroundColor={colors.success} padding={1}>
+              <text fg={colors.textInverse}>{actionMessage}</text>
+            </box>
+          )}
+
+          {error && (
+            <box backgroundColor={colors.error} padding={1}>
+              <text fg={colors.textInverse}>{error}</text>
+            </box>
+          )}
+
+          {working && (
+            <box padding={1}>
+              <text fg={colors.warning}>⟳ {working}</text>
+            </box>
+          )}
+
+          <box flexDirection="row" justifyContent="space-between" marginTop={1}>
+            <text><strong>Deployments</strong></text>
+            <text fg={colors.textMuted}>Environment: {environment ?? "all"}</text>
+          </box>
+
+          {deploymentList.error ? (
+            <text fg={colors.error}>{deploymentList.error}</text>
+          ) : deployments.length === 0 ? (
+            <text fg={colors.textMuted}>{deploymentList.loading ? "⟳ Loading deployments..." : "No deployments"}</text>
+          ) : (
+            <box flexDirection="column" flexGrow={1}>
+              <box flexDirection="row" paddingLeft={1} backgroundColor={colors.surfaceAlt}>
+                <text width="12%"><strong>Env</strong></text>
+                <text width="16%"><strong>Branch</strong></text>
+                <text width="37%"><strong>Commit</strong></text>
+                <text width="17%"><strong>Status</strong></text>
+                <text width="18%"><strong>Created</strong></text>
+              </box>
+              <scrollbox flexDirection="column" flexGrow={1}>
+                {deployments.map((deployment, index) => {
+                  const isSelected = index === selectedIndex;
+                  const commit = deploymentCommit(deployment);
+                  return (
+                    <box
+                      key={deployment.id}
+                      flexDirection="row"
+                      paddingLeft={1}
+                      backgroundColor={isSelected ? colors.surfaceAlt : undefined}
+                    >
+                      <text width="12%" fg={isSelected ? colors.primary : colors.text}>
+                        {isSelected ? "> " : "  "}{deployment.environment}
+                      </text>
+                      <text width="16%" fg={colors.textMuted}>{commit.branch || "—"}</text>
+                      <text width="37%" fg={colors.textMuted}>
+                        {commit.hash ? `${commit.hash} ${commit.message}` : deployment.deployment_trigger?.type ?? ""}
+                      </text>
+                      <text width="17%" fg={statusColor(deployment)}>
+                        {deployment.latest_stage.name} {deployment.latest_stage.status}
+                      </text>
+                      <text width="18%" fg={colors.textMuted}>{new Date(deployment.created_on).toLocaleString()}</text>
+                    </box>
+                  );
+                })}
+                {deploymentList.hasMore && (
+                  <text fg={colors.textMuted}>{deploymentList.loading ? "⟳ Loading more..." : "↓ more deployments"}</text>
+                )}
+              </scrollbox>
+            </box>
+          )}
+
+          {current && (
+            <box marginTop={1}>
+              <text>
+                <span fg={colors.textMuted}>URL </span>
+                <span fg={colors.info}>{current.url}</span>
+                {current.aliases && current.aliases.length > 0 && (
+                  <span fg={colors.textMuted}> • aliases {current.aliases.join(", ")}</span>
+                )}
+              </text>
+            </box>
+          )}
+
+          <box marginTop={1}>
+            <text fg={colors.textMuted}>
+              ↑/↓ Select • Enter Build logs • e Environment • t Retry • b Roll back to this • d Delete • r Refresh • Esc Back
+            </text>
+          </box>
+        </>
+      )}
+
+      {modal.type !== "none" && (
+        <box position="absolute" top={0} left={0} right={0} bottom={0} justifyContent="center" alignItems="center" backgroundColor="rgba(0,0,0,0.7)">
+          <box
+            flexDirection="column"
+            borderStyle="double"
+            borderColor={modal.type === "delete" ? colors.error : colors.warning}
+            backgroundColor={colors.surface}
+            padding={2}
+            minWidth={50}
+          >
+            <text fg={modal.type === "delete" ? colors.error : colors.warning}>
+              <strong>⚠ {MODAL_TITLES[modal.type]}</strong>
+            </text>
+            <box marginTop={1}>
+              <text fg={colors.text}>
+                {modal.type === "retry" && `Start a new build of ${modal.deployment.short_id} (${deploymentCommit(modal.deployment).branch || modal.deployment.environment})?`}
+                {modal.type === "rollback" && `Serve ${modal.deployment.short_id} as the production deployment of ${project.name}?`}
+                {modal.type === "delete" && `Delete deployment ${modal.deployment.short_id}? This cannot be undone.`}
+              </text>
+            </box>
+            {modal.type === "delete" && modal.deployment.aliases && modal.deployment.aliases.length > 0 && (
+              <box marginTop={1}>
+                <text fg={colors.warning}>Its aliases ({modal.deployment.aliases.join(", ")}) will stop resolving.</text>
+              </box>
+            )}
+            <box marginTop={1}>
+              <text fg={colors.textMuted}>[y] Yes  [n] No</text>
+            </box>
+          </box>
+        </box>
+      )}
+    </box>
+  );
+}
@@ -0,0 +1,2 @@
+export { ProjectDetail } from "./ProjectDetail.tsx";
+export { DeploymentLogs } from "./DeploymentLogs.tsx";
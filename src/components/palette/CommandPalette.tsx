@@ -0,0 +1,241 @@
+import { useKeyboard } from "@opentui/react";
+import { useState, useEffect, useMemo } from "react";
+import { useTheme } from "../../lib/theme-context.tsx";
+import { useRouter } from "../../lib/router.tsx";
+import { useZone } from "../../lib/zone-context.tsx";
+import { useOverlayLayer } from "../../lib/overlay-context.tsx";
+import { fuzzyFilter } from "../../lib/fuzzy.ts";
+import { getPaletteActions, type PaletteActionContext } from "../../lib/palette.ts";
+import { listWorkers, listKVNamespaces, listR2Buckets } from "../../lib/cloudflare.ts";
+import { ROUTES } from "../../types/index.ts";
+
+const VISIBLE_RESULTS = 12;
+
+type PaletteKind = "route" | "zone" | "worker" | "kv" | "r2" | "action";
+
+interface PaletteItem {
+  key: string;
+  kind: PaletteKind;
+  label: string;
+  hint?: string;
+  run: () => void;
+}
+
+const KIND_LABELS: Record<PaletteKind, string> = {
+  route: "Go to",
+  zone: "Zone",
+  worker: "Worker",
+  kv: "KV",
+  r2: "R2",
+  action: "Action",
+};
+
+interface ResourceItems {
+  workers: PaletteItem[];
+  namespaces: PaletteItem[];
+  buckets: PaletteItem[];
+}
+
+interface Props {
+  onClose: () => void;
+  onSwitchAccount: () => void;
+}
+
+export function CommandPalette({ onClose, onSwitchAccount }: Props) {
+  const { theme, toggleTheme } = useTheme();
+  const { colors } = theme;
+  const { currentRoute, navigate } = useRouter();
+  const { zones, activeZone, setActiveZone, openSwitcher } = useZone();
+
+  const [query, setQuery] = useState("");
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const [resources, setResources] = useState<ResourceItems>({ workers: [], namespaces: [], buckets: [] });
+  const [loadingResources, setLoadingResources] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+    Promise.allSettled([listWorkers(), listKVNamespaces(), listR2Buckets()]).then(([workers, namespaces, buckets]) => {
+      if (cancelled) return;
+      setResources({
+        workers: workers.status === "fulfilled"
+          ? workers.value.map((w) => ({
+              key: `worker:${w.id}`,
+              kind: "worker",
+              label: w.id,
+              run: () => navigate("workers", { worker: w.id }),
+            }))
+          : [],
+        namespaces: namespaces.status === "fulfilled"
+          ? namespaces.value.map((ns) => ({
+              key: `kv:${ns.id}`,
+              kind: "kv",
+              label: ns.title,
+              run: () => navigate("kv", { namespace: ns.id }),
+            }))
+          : [],
+        buckets: buckets.status === "fulfilled"
+          ? buckets.value.map((b) => ({
+              key: `r2:${b.name}`,
+              kind: "r2",
+              label: b.name,
+              run: () => navigate("r2", { bucket: b.name }),
+            }))
+          : [],
+      });
+      setLoadingResources(false);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [navigate]);
+
+  const items = useMemo<PaletteItem[]>(() => {
+    const ctx: PaletteActionContext = {
+      navigate,
+      openAccountSwitcher: onSwitchAccount,
+      openZoneSwitcher: openSwitcher,
+      toggleTheme,
+    };
+    const zoneRoute = ROUTES.find((r) => r.id === currentRoute)?.zoneScoped ? currentRoute : "dns";
+
+    return [
+      ...ROUTES.map((route): PaletteItem => ({
+        key: `route:${route.id}`,
+        kind: "route",
+        label: route.label,
+        run: () => navigate(route.id),
+      })),
+      ...getPaletteActions().map((action): PaletteItem => ({
+        key: `action:${action.id}`,
+        kind: "action",
+        label: action.label,
+        hint: action.hint,
+        run: () => action.run(ctx),
+      })),
+      ...zones.map((zone): PaletteItem => ({
+        key: `zone:${zone.id}`,
+        kind: "zone",
+        label: zone.name,
+        hint: zone.id === activeZone?.id ? "active" : undefined,
+        run: () => {
+          setActiveZone(zone);
+          if (zoneRoute !== currentRoute) navigate(zoneRoute);
+        },
+      })),
+      ...resources.workers,
+      ...resources.namespaces,
+      ...resources.buckets,
+    ];
+  }, [navigate, onSwitchAccount, openSwitcher, toggleTheme, currentRoute, zones, activeZone, setActiveZone, resources]);
+
+  const matches = fuzzyFilter(items, query, (item) => item.label);
+  const start = Math.max(0, Math.min(selectedIndex - VISIBLE_RESULTS + 1, matches.length - VISIBLE_RESULTS));
+  const visible = matches.slice(start, start + VISIBLE_RESULTS);
+
+  useOverlayLayer();
+
+  useKeyboard((key) => {
+    if (key.name === "escape") {
+      onClose();
+    } else if (key.name === "down" || (key.name === "n" && key.ctrl)) {
+      setSelectedIndex((i) => Math.min(i + 1, matches.length - 1));
+    } else if (key.name === "up" || (key.name === "p" && key.ctrl)) {
+      setSelectedIndex((i) => Math.max(i - 1, 0));
+    } else if (key.name === "return") {
+      const item = matches[selectedIndex];
+      if (item) {
+        onClose();
+        item.run();
+      }
+    }
+  });
+
+  return (
+    <box
+      position="absolute"
+      top={0}
+      left={0}
+      right={0}
+      bottom={0}
+      alignItems="center"
+      justifyContent="center"
+    >
+      <box
+        flexDirection="column"
+        gap={1}
+        padding={2}
+        borderStyle="single"
+        borderColor={colors.border}
+        backgroundColor={colors.surface}
+        width={70}
+      >
+        <text>
+          <strong fg={colors.primary}>Command Palette</strong>
+        </text>
+
+        <box marginTop={1}>
+          <input
+            value={query}
+            onInput={(val) => {
+              setQuery(val);
+              setSelectedIndex(0);
+            }}
+            placeholder="Search screens, zones, Workers, KV, R2 and actions..."
+            focused
+          />
+        </box>
+
+        <box flexDirection="column">
+          {matches.length === 0 ? (
+            <text>
+              <span fg={colors.textMuted}>No matches</span>
+            </text>
+          ) : (
+            visible.map((item, i) => {
+              const isSelected = start + i === selectedIndex;
+              return (
+                <box key={item.key} flexDirection="row" gap={1}>
+                  <box width={8}>
+                    <text>
+                      <span fg={colors.textMuted}>{KIND_LABELS[item.kind]}</span>
+                    </text>
+                  </box>
+                  <text>
+                    <span fg={isSelected ? colors.primary : colors.text}>
+                      {isSelected ? "▸ " : "  "}
+                      {item.label}
+                    </span>
+                  </text>
+                  {item.hint && (
+                    <text>
+                      <span fg={colors.textMuted}> ({item.hint})</span>
+                    </text>
+                  )}
+                </box>
+              );
+            })
+          )}
+        </box>
+
+        {(matches.length > VISIBLE_RESULTS || loadingResources) && (
+          <text>
+            <span fg={colors.textMuted}>
+              {matches.length > VISIBLE_RESULTS ? `${selectedIndex + 1}/${matches.length}` : ""}
+              {loadingResources ? " ⟳ Loading Workers, KV and R2..." : ""}
+            </span>
+          </text>
+        )}
+
+        <box marginTop={1}>
+          <text>
+            <span fg={colors.textMuted}>
+              <strong fg={colors.primary}>↑↓</strong> Navigate •{" "}
+              <strong fg={colors.primary}>Enter</strong> Go •{" "}
+              <strong fg={colors.primary}>Esc</strong> Close
+            </span>
+          </text>
+        </box>
+      </box>
+    </box>
+  );
+}
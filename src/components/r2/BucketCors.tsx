@@ -0,0 +1,219 @@
+import { useState, useEffect, useCallback, useRef } from "react";
+import { useScreenKeyboard } from "../../lib/overlay-context.tsx";
+import type { TextareaRenderable } from "@opentui/core";
+import { useTheme } from "../../lib/theme-context.tsx";
+import { getR2BucketCors, putR2BucketCors, type R2Bucket, type R2CorsRule } from "../../lib/cloudflare.ts";
+
+const CORS_METHODS = ["GET", "PUT", "POST", "DELETE", "HEAD"];
+
+const EXAMPLE_RULES: R2CorsRule[] = [
+  {
+    allowed: { origins: ["https://example.com"], methods: ["GET", "HEAD"], headers: ["*"] },
+    exposeHeaders: ["ETag"],
+    maxAgeSeconds: 3600,
+  },
+];
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((v) => typeof v === "string");
+}
+
+function parseCorsRules(text: string): R2CorsRule[] | string {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (err) {
+    return `Invalid JSON: ${err instanceof Error ? err.message : String(err)}`;
+  }
+  if (!Array.isArray(parsed)) return "CORS policy must be a JSON array of rules";
+
+  for (const [i, rule] of parsed.entries()) {
+    const where = `Rule ${i + 1}`;
+    if (!rule || typeof rule !== "object") return `${where}: expected an object`;
+    const { allowed, exposeHeaders, maxAgeSeconds } = rule as Record<string, unknown>;
+    if (!allowed || typeof allowed !== "object") return `${where}: "allowed" is required`;
+    const { origins, methods, headers } = allowed as Record<string, unknown>;
+    if (!isStringArray(origins) || origins.length === 0) return `${where}: "allowed.origins" must list at least one origin`;
+    if (!isStringArray(methods) || methods.length === 0) return `${where}: "allowed.methods" must list at least one method`;
+    const badMethod = methods.find((m) => !CORS_METHODS.includes(m));
+    if (badMethod) return `${where}: unsupported method ${badMethod} (use ${CORS_METHODS.join(", ")})`;
+    if (headers !== undefined && !isStringArray(headers)) return `${where}: "allowed.headers" must be a list of strings`;
+    if (exposeHeaders !== undefined && !isStringArray(exposeHeaders)) return `${where}: "exposeHeaders" must be a list of strings`;
+    if (maxAgeSeconds !== undefined && (typeof maxAgeSeconds !== "number" || maxAgeSeconds < 0)) {
+      return `${where}: "maxAgeSeconds" must be a non-negative number`;
+    }
+  }
+  return parsed as R2CorsRule[];
+}
+
+interface Props {
+  bucket: R2Bucket;
+  onBack: () => void;
+}
+
+export function BucketCors({ bucket, onBack }: Props) {
+  const { theme } = useTheme();
+  const { colors } = theme;
+
+  const [rules, setRules] = useState<R2CorsRule[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [editing, setEditing] = useState(false);
+  const [editorError, setEditorError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [actionMessage, setActionMessage] = useState<string | null>(null);
+  const editorRef = useRef<TextareaRenderable | null>(null);
+
+  const loadRules = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      setRules(await getR2BucketCors(bucket.name));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load CORS policy");
+    } finally {
+      setLoading(false);
+    }
+  }, [bucket.name]);
+
+  useEffect(() => {
+    loadRules();
+  }, [loadRules]);
+
+  const save = async () => {
+    const parsed = parseCorsRules(editorRef.current?.plainText ?? "");
+    if (typeof parsed === "string") {
+      setEditorError(parsed);
+      return;
+    }
+    setSaving(true);
+    try {
+      await putR2BucketCors(bucket.name, parsed);
+      setEditing(false);
+      setActionMessage(parsed.length === 0 ? "CORS policy removed" : `Saved ${parsed.length} CORS rule${parsed.length === 1 ? "" : "s"}`);
+      setTimeout(() => setActionMessage(null), 3000);
+      loadRules();
+    } catch (err) {
+      setEditorError(err instanceof Error ? err.message : "Failed to save CORS policy");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  useScreenKeyboard((key) => {
+    if (saving) return;
+    if (editing) {
+      if (key.name === "escape") {
+        setEditing(false);
+      } else if (key.name === "s" && key.ctrl) {
+        save();
+      }
+      return;
+    }
+
+    switch (key.name) {
+      case "e":
+        setEditorError(null);
+        setEditing(true);
+        break;
+      case "r":
+        loadRules();
+        break;
+      case "escape":
+      case "backspace":
+        onBack();
+        break;
+    }
+  });
+
+  if (editing) {
+    return (
+      <box flexDirection="column" flexGrow={1} padding={1}>
+        <text fg={colors.primary}>
+          <strong>Edit CORS policy for {bucket.name}</strong>
+        </text>
+        <text fg={colors.textMuted}>
+          JSON array of rules. Methods: {CORS_METHODS.join(", ")}. Save an empty array to remove the policy.
+        </text>
+        <box flexGrow={1} marginTop={1} borderStyle="single" borderColor={colors.primary}>
+          <textarea
+            ref={editorRef}
+            initialValue={JSON.stringify(rules.length > 0 ? rules : EXAMPLE_RULES, null, 2)}
+            focused
+            flexGrow={1}
+            backgroundColor={colors.backgroundAlt}
+            textColor={colors.text}
+          />
+        </box>
+        {editorError && (
+          <box marginTop={1}>
+            <text fg={colors.error}>{editorError}</text>
+          </box>
+        )}
+        <box marginTop={1}>
+          <text fg={colors.textMuted}>{saving ? "⟳ Saving..." : "Ctrl+S Save • Esc Cancel"}</text>
+        </box>
+      </box>
+    );
+  }
+
+  return (
+    <box flexDirection="column" flexGrow={1} padding={1}>
+      {actionMessage && (
+        <box backgroundColor={colors.success} padding={1}>
+          <text fg={colors.textInverse}>{actionMessage}</text>
+        </box>
+      )}
+
+      {loading && rules.length === 0 ? (
+        <text fg={colors.textMuted}>⟳ Loading CORS policy...</text>
+      ) : error ? (
+        <text fg={colors.error}>Error: {error}</text>
+      ) : rules.length === 0 ? (
+        <box borderStyle="single" borderColor={colors.border} padding={1}>
+          <text fg={colors.textMuted}>No CORS policy. Browsers can't make cross-origin requests to this bucket.</text>
+        </box>
+      ) : (
+        <scrollbox flexDirection="column" flexGrow={1}>
+          {rules.map((rule, index) => (
+            <box
+              key={rule.id ?? index}
+              flexDirection="column"
+              borderStyle="single"
+              borderColor={colors.border}
+              paddingLeft={1}
+              paddingRight={1}
+              marginBottom={1}
+            >
+              <text><strong>Rule {index + 1}{rule.id ? ` (${rule.id})` : ""}</strong></text>
+              <box flexDirection="row" gap={2}>
+                <text fg={colors.textMuted} width={16}>Origins:</text>
+                <text>{rule.allowed.origins.join(", ")}</text>
+              </box>
+              <box flexDirection="row" gap={2}>
+                <text fg={colors.textMuted} width={16}>Methods:</text>
+                <text>{rule.allowed.methods.join(", ")}</text>
+              </box>
+              <box flexDirection="row" gap={2}>
+                <text fg={colors.textMuted} width={16}>Headers:</text>
+                <text>{rule.allowed.headers?.join(", ") || "—"}</text>
+              </box>
+              <box flexDirection="row" gap={2}>
+                <text fg={colors.textMuted} width={16}>Expose headers:</text>
+                <text>{rule.exposeHeaders?.join(", ") || "—"}</text>
+              </box>
+              <box flexDirection="row" gap={2}>
+                <text fg={colors.textMuted} width={16}>Max age:</text>
+                <text>{rule.maxAgeSeconds !== undefined ? `${rule.maxAgeSeconds}s` : "—"}</text>
+              </box>
+            </box>
+          ))}
+        </scrollbox>
+      )}
+
+      <box marginTop={1}>
+        <text fg={colors.textMuted}>e Edit JSON • r Refresh • Esc Back</text>
+      </box>
+    </box>
+  );
+}
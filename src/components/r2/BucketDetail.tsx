@@ -0,0 +1,66 @@
+import { useState } from "react";
+import { useRenderer } from "@opentui/react";
+import { useScreenKeyboard } from "../../lib/overlay-context.tsx";
+import { useTheme } from "../../lib/theme-context.tsx";
+import type { R2Bucket } from "../../lib/cloudflare.ts";
+import { ObjectBrowser } from "./ObjectBrowser.tsx";
+import { BucketCors } from "./BucketCors.tsx";
+import { BucketLifecycle } from "./BucketLifecycle.tsx";
+import { BucketPublicAccess } from "./BucketPublicAccess.tsx";
+
+type Tab = "objects" | "cors" | "lifecycle" | "public";
+
+const TABS: Array<{ id: Tab; label: string }> = [
+  { id: "objects", label: "Objects" },
+  { id: "cors", label: "CORS" },
+  { id: "lifecycle", label: "Lifecycle" },
+  { id: "public", label: "Public Access" },
+];
+
+interface Props {
+  bucket: R2Bucket;
+  onBack: () => void;
+}
+
+export function BucketDetail({ bucket, onBack }: Props) {
+  const { theme } = useTheme();
+  const { colors } = theme;
+  const renderer = useRenderer();
+
+  const [tab, setTab] = useState<Tab>("objects");
+  const [busy, setBusy] = useState(false);
+
+  useScreenKeyboard((key) => {
+    if (key.name !== "tab" || busy || renderer.currentFocusedRenderable?.focused) return;
+    const index = TABS.findIndex((t) => t.id === tab);
+    const next = TABS[(index + (key.shift ? -1 : 1) + TABS.length) % TABS.length];
+    if (next) setTab(next.id);
+  });
+
+  return (
+    <box flexDirection="column" flexGrow={1}>
+      <box flexDirection="row" gap={2} paddingLeft={1} paddingTop={1}>
+        {TABS.map((t) => (
+          <box
+            key={t.id}
+            paddingLeft={2}
+            paddingRight={2}
+            borderStyle={tab === t.id ? "single" : undefined}
+            borderColor={tab === t.id ? colors.primary : undefined}
+            backgroundColor={tab === t.id ? colors.surfaceAlt : undefined}
+          >
+            <text>
+              <span fg={tab === t.id ? colors.primary : colors.textMuted}>{t.label}</span>
+            </text>
+          </box>
+        ))}
+        <text fg={colors.textMuted}>[Tab] Switch</text>
+      </box>
+
+      {tab === "objects" && <ObjectBrowser bucket={bucket} onBack={onBack} onBusyChange={setBusy} />}
+      {tab === "cors" && <BucketCors bucket={bucket} onBack={onBack} />}
+      {tab === "lifecycle" && <BucketLifecycle bucket={bucket} onBack={onBack} />}
+      {tab === "public" && <BucketPublicAccess bucket={bucket} onBack={onBack} />}
+    </box>
+  );
+}
@@ -0,0 +1,354 @@
+import { useState, useEffect, useCallback } from "react";
+import { useScreenKeyboard } from "../../lib/overlay-context.tsx";
+import { useTheme } from "../../lib/theme-context.tsx";
+import {
+  getR2BucketLifecycle,
+  putR2BucketLifecycle,
+  type R2Bucket,
+  type R2LifecycleCondition,
+  type R2LifecycleRule,
+} from "../../lib/cloudflare.ts";
+
+const DAY_SECONDS = 24 * 60 * 60;
+
+type ModalState =
+  | { type: "none" }
+  | { type: "form"; editingId: string | null }
+  | { type: "delete"; rule: R2LifecycleRule };
+
+interface RuleForm {
+  id: string;
+  prefix: string;
+  expireDays: string;
+  expireDate: string;
+  abortDays: string;
+}
+
+const EMPTY_FORM: RuleForm = { id: "", prefix: "", expireDays: "", expireDate: "", abortDays: "" };
+
+const FORM_FIELDS: Array<{ key: keyof RuleForm; label: string; placeholder: string }> = [
+  { key: "id", label: "Rule ID", placeholder: "expire-tmp" },
+  { key: "prefix", label: "Prefix", placeholder: "Optional, e.g. tmp/ (empty = whole bucket)" },
+  { key: "expireDays", label: "Delete after", placeholder: "Days after upload, e.g. 30" },
+  { key: "expireDate", label: "Delete on", placeholder: "Or a date, e.g. 2025-12-31" },
+  { key: "abortDays", label: "Abort MPU", placeholder: "Abort incomplete multipart uploads after N days" },
+];
+
+function describeCondition(condition: R2LifecycleCondition | undefined): string {
+  if (!condition) return "—";
+  if (condition.type === "Age") return `after ${Math.round(condition.maxAge / DAY_SECONDS)}d`;
+  return `on ${new Date(condition.date).toLocaleDateString()}`;
+}
+
+function toForm(rule: R2LifecycleRule): RuleForm {
+  const expire = rule.deleteObjectsTransition?.condition;
+  const abort = rule.abortMultipartUploadsTransition?.condition;
+  return {
+    id: rule.id,
+    prefix: rule.conditions.prefix,
+    expireDays: expire?.type === "Age" ? Math.round(expire.maxAge / DAY_SECONDS).toString() : "",
+    expireDate: expire?.type === "Date" ? expire.date.slice(0, 10) : "",
+    abortDays: abort ? Math.round(abort.maxAge / DAY_SECONDS).toString() : "",
+  };
+}
+
+function parseDays(value: string, label: string): number | string | null {
+  if (!value.trim()) return null;
+  const days = Number(value.trim());
+  if (!Number.isInteger(days) || days < 1) return `${label} must be a whole number of days, at least 1`;
+  return days;
+}
+
+function buildRule(form: RuleForm, base: R2LifecycleRule | undefined): R2LifecycleRule | string {
+  const id = form.id.trim();
+  if (!id) return "Rule ID is required";
+
+  const expireDays = parseDays(form.expireDays, "Delete after");
+  if (typeof expireDays === "string") return expireDays;
+  const abortDays = parseDays(form.abortDays, "Abort MPU");
+  if (typeof abortDays === "string") return abortDays;
+  if (expireDays !== null && form.expireDate.trim()) return "Set either days or a date for deletion, not both";
+
+  const rule: R2LifecycleRule = {
+    id,
+    enabled: base?.enabled ?? true,
+    conditions: { prefix: form.prefix.trim() },
+  };
+  if (base?.storageClassTransitions) rule.storageClassTransitions = base.storageClassTransitions;
+  if (expireDays !== null) {
+    rule.deleteObjectsTransition = { condition: { type: "Age", maxAge: expireDays * DAY_SECONDS } };
+  } else if (form.expireDate.trim()) {
+    const ms = Date.parse(form.expireDate.trim());
+    if (Number.isNaN(ms)) return "Delete on must be a date like 2025-12-31";
+    rule.deleteObjectsTransition = { condition: { type: "Date", date: new Date(ms).toISOString() } };
+  }
+  if (abortDays !== null) {
+    rule.abortMultipartUploadsTransition = { condition: { type: "Age", maxAge: abortDays * DAY_SECONDS } };
+  }
+  if (!rule.deleteObjectsTransition && !rule.abortMultipartUploadsTransition && !rule.storageClassTransitions) {
+    return "Set a deletion or an abort-multipart action";
+  }
+  return rule;
+}
+
+interface Props {
+  bucket: R2Bucket;
+  onBack: () => void;
+}
+
+export function BucketLifecycle({ bucket, onBack }: Props) {
+  const { theme } = useTheme();
+  const { colors } = theme;
+
+  const [rules, setRules] = useState<R2LifecycleRule[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const [modal, setModal] = useState<ModalState>({ type: "none" });
+  const [form, setForm] = useState<RuleForm>(EMPTY_FORM);
+  const [formField, setFormField] = useState(0);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [actionMessage, setActionMessage] = useState<string | null>(null);
+
+  const showMessage = (message: string) => {
+    setActionMessage(message);
+    setTimeout(() => setActionMessage(null), 3000);
+  };
+
+  const loadRules = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const data = await getR2BucketLifecycle(bucket.name);
+      setRules(data);
+      setSelectedIndex((i) => Math.min(i, Math.max(0, data.length - 1)));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load lifecycle rules");
+    } finally {
+      setLoading(false);
+    }
+  }, [bucket.name]);
+
+  useEffect(() => {
+    loadRules();
+  }, [loadRules]);
+
+  const saveRules = async (next: R2LifecycleRule[], message: string) => {
+    try {
+      await putR2BucketLifecycle(bucket.name, next);
+      setRules(next);
+      showMessage(message);
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save lifecycle rules");
+      return false;
+    }
+  };
+
+  const openForm = (rule: R2LifecycleRule | null) => {
+    setForm(rule ? toForm(rule) : EMPTY_FORM);
+    setFormField(rule ? 1 : 0);
+    setFormError(null);
+    setModal({ type: "form", editingId: rule?.id ?? null });
+  };
+
+  const submitForm = async () => {
+    if (modal.type !== "form") return;
+    const base = rules.find((r) => r.id === modal.editingId);
+    const rule = buildRule(form, base);
+    if (typeof rule === "string") {
+      setFormError(rule);
+      return;
+    }
+    if (!base && rules.some((r) => r.id === rule.id)) {
+      setFormError(`A rule named "${rule.id}" already exists`);
+      return;
+    }
+    const next = base ? rules.map((r) => (r.id === base.id ? rule : r)) : [...rules, rule];
+    setError(null);
+    if (await saveRules(next, base ? `Updated rule "${rule.id}"` : `Added rule "${rule.id}"`)) {
+      setModal({ type: "none" });
+    } else {
+      setFormError("Failed to save lifecycle rules");
+    }
+  };
+
+  useScreenKeyboard((key) => {
+    if (modal.type === "delete") {
+      if (key.name === "y") {
+        const target = modal.rule;
+        setModal({ type: "none" });
+        saveRules(rules.filter((r) => r.id !== target.id), `Deleted rule "${target.id}"`);
+      } else if (key.name === "n" || key.name === "escape") {
+        setModal({ type: "none" });
+      }
+      return;
+    }
+
+    if (modal.type === "form") {
+      if (key.name === "escape") {
+        setModal({ type: "none" });
+      } else if (key.name === "s" && key.ctrl) {
+        submitForm();
+      } else if (key.name === "tab" || key.name === "down") {
+        const step = key.shift ? -1 : 1;
+        setFormField((f) => {
+          let next = (f + step + FORM_FIELDS.length) % FORM_FIELDS.length;
+          if (modal.editingId !== null && next === 0) next = (next + step + FORM_FIELDS.length) % FORM_FIELDS.length;
+          return next;
+        });
+      } else if (key.name === "up") {
+        setFormField((f) => Math.max(modal.editingId !== null ? 1 : 0, f - 1));
+      }
+      return;
+    }
+
+    const current = rules[selectedIndex];
+    switch (key.name) {
+      case "j":
+      case "down":
+        setSelectedIndex((i) => Math.min(i + 1, rules.length - 1));
+        break;
+      case "k":
+      case "up":
+        setSelectedIndex((i) => Math.max(i - 1, 0));
+        break;
+      case "n":
+        openForm(null);
+        break;
+      case "e":
+      case "return":
+        if (current) openForm(current);
+        break;
+      case "space":
+        if (current) {
+          const toggled = { ...current, enabled: !current.enabled };
+          saveRules(
+            rules.map((r) => (r.id === current.id ? toggled : r)),
+            `Rule "${current.id}" ${toggled.enabled ? "enabled" : "disabled"}`
+          );
+        }
+        break;
+      case "d":
+        if (current) setModal({ type: "delete", rule: current });
+        break;
+      case "r":
+        loadRules();
+        break;
+      case "escape":
+      case "backspace":
+        onBack();
+        break;
+    }
+  });
+
+  return (
+    <box flexDirection="column" flexGrow={1} padding={1}>
+      {actionMessage && (
+        <box backgroundColor={colors.success} padding={1}>
+          <text fg={colors.textInverse}>{actionMessage}</text>
+        </box>
+      )}
+
+      {error && (
+        <box backgroundColor={colors.error} padding={1}>
+          <text fg={colors.textInverse}>{error}</text>
+        </box>
+      )}
+
+      {loading && rules.length === 0 ? (
+        <text fg={colors.textMuted}>⟳ Loading lifecycle rules...</text>
+      ) : rules.length === 0 ? (
+        <box borderStyle="single" borderColor={colors.border} padding={1}>
+          <text fg={colors.textMuted}>No lifecycle rules. Objects are kept until deleted.</text>
+        </box>
+      ) : (
+        <box flexDirection="column" flexGrow={1}>
+          <box flexDirection="row" padding={1} borderStyle="single" borderColor={colors.border} backgroundColor={colors.surfaceAlt}>
+            <text width="25%"><strong>Rule</strong></text>
+            <text width="25%"><strong>Prefix</strong></text>
+            <text width="15%"><strong>Status</strong></text>
+            <text width="17%"><strong>Delete</strong></text>
+            <text width="18%"><strong>Abort MPU</strong></text>
+          </box>
+          <scrollbox flexDirection="column" flexGrow={1}>
+            {rules.map((rule, index) => {
+              const isSelected = index === selectedIndex;
+              return (
+                <box key={rule.id} flexDirection="row" paddingLeft={1} paddingRight={1} backgroundColor={isSelected ? colors.surfaceAlt : undefined}>
+                  <text width="25%" fg={isSelected ? colors.primary : colors.text}>
+                    {isSelected ? "> " : "  "}{rule.id}
+                  </text>
+                  <text width="25%" fg={colors.textMuted}>{rule.conditions.prefix || "(all objects)"}</text>
+                  <text width="15%" fg={rule.enabled ? colors.success : colors.textMuted}>
+                    {rule.enabled ? "● enabled" : "○ disabled"}
+                  </text>
+                  <text width="17%" fg={colors.text}>{describeCondition(rule.deleteObjectsTransition?.condition)}</text>
+                  <text width="18%" fg={colors.text}>{describeCondition(rule.abortMultipartUploadsTransition?.condition)}</text>
+                </box>
+              );
+            })}
+          </scrollbox>
+        </box>
+      )}
+
+      <box marginTop={1}>
+        <text fg={colors.textMuted}>
+          ↑/↓ Navigate • n New rule • e Edit • Space Enable/disable • d Delete • r Refresh • Esc Back
+        </text>
+      </box>
+
+      {modal.type === "delete" && (
+        <box position="absolute" top={0} left={0} right={0} bottom={0} justifyContent="center" alignItems="center" backgroundColor="rgba(0,0,0,0.7)">
+          <box flexDirection="column" borderStyle="double" borderColor={colors.error} backgroundColor={colors.surface} padding={2} minWidth={50}>
+            <text fg={colors.error}><strong>⚠ Confirm Delete</strong></text>
+            <box marginTop={1}>
+              <text fg={colors.text}>Delete lifecycle rule "{modal.rule.id}"?</text>
+            </box>
+            <box marginTop={1}>
+              <text fg={colors.textMuted}>[y] Yes  [n] No</text>
+            </box>
+          </box>
+        </box>
+      )}
+
+      {modal.type === "form" && (
+        <box position="absolute" top={0} left={0} right={0} bottom={0} justifyContent="center" alignItems="center" backgroundColor="rgba(0,0,0,0.7)">
+          <box flexDirection="column" borderStyle="double" borderColor={colors.primary} backgroundColor={colors.surface} padding={2} minWidth={70}>
+            <text fg={colors.primary}>
+              <strong>{modal.editingId !== null ? `Edit rule "${modal.editingId}"` : "New Lifecycle Rule"}</strong>
+            </text>
+            {FORM_FIELDS.map((field, index) => (
+              <box key={field.key} marginTop={1} flexDirection="row">
+                <box width={14}>
+                  <text fg={formField === index ? colors.primary : colors.text}>{field.label}:</text>
+                </box>
+                {modal.editingId !== null && field.key === "id" ? (
+                  <text fg={colors.textMuted}>{form.id}</text>
+                ) : (
+                  <input
+                    value={form[field.key]}
+                    onInput={(v) => setForm((prev) => ({ ...prev, [field.key]: v }))}
+                    placeholder={field.placeholder}
+                    focused={formField === index}
+                    width={50}
+                    backgroundColor={formField === index ? colors.backgroundAlt : colors.surface}
+                    textColor={colors.text}
+                  />
+                )}
+              </box>
+            ))}
+            {formError && (
+              <box marginTop={1}>
+                <text fg={colors.error}>{formError}</text>
+              </box>
+            )}
+            <box marginTop={2}>
+              <text fg={colors.textMuted}>Tab/↓ next field • Ctrl+S to save • Esc to cancel</text>
+            </box>
+          </box>
+        </box>
+      )}
+    </box>
+  );
+}
@@ -0,0 +1,357 @@
+import { useState, useEffect, useCallback } from "react";
+import { useScreenKeyboard } from "../../lib/overlay-context.tsx";
+import { useTheme } from "../../lib/theme-context.tsx";
+import { useZone } from "../../lib/zone-context.tsx";
+import {
+  getR2ManagedDomain,
+  setR2ManagedDomain,
+  listR2CustomDomains,
+  attachR2CustomDomain,
+  updateR2CustomDomain,
+  removeR2CustomDomain,
+  type R2Bucket,
+  type R2CustomDomain,
+  type R2ManagedDomain,
+  type Zone,
+} from "../../lib/cloudflare.ts";
+
+const MIN_TLS_VERSIONS = ["1.0", "1.1", "1.2", "1.3"];
+
+type ModalState =
+  | { type: "none" }
+  | { type: "r2dev"; enable: boolean }
+  | { type: "attach" }
+  | { type: "remove"; domain: string };
+
+function zoneForDomain(zones: Zone[], domain: string): Zone | undefined {
+  return zones
+    .filter((z) => domain === z.name || domain.endsWith(`.${z.name}`))
+    .sort((a, b) => b.name.length - a.name.length)[0];
+}
+
+interface Props {
+  bucket: R2Bucket;
+  onBack: () => void;
+}
+
+export function BucketPublicAccess({ bucket, onBack }: Props) {
+  const { theme } = useTheme();
+  const { colors } = theme;
+  const { zones } = useZone();
+
+  const [managed, setManaged] = useState<R2ManagedDomain | null>(null);
+  const [domains, setDomains] = useState<R2CustomDomain[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const [modal, setModal] = useState<ModalState>({ type: "none" });
+  const [domainInput, setDomainInput] = useState("");
+  const [minTls, setMinTls] = useState("1.2");
+  const [formError, setFormError] = useState<string | null>(null);
+  const [actionMessage, setActionMessage] = useState<string | null>(null);
+
+  const showMessage = (message: string) => {
+    setActionMessage(message);
+    setTimeout(() => setActionMessage(null), 3000);
+  };
+
+  const loadAccess = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const [managedDomain, customDomains] = await Promise.all([
+        getR2ManagedDomain(bucket.name),
+        listR2CustomDomains(bucket.name),
+      ]);
+      setManaged(managedDomain);
+      setDomains(customDomains);
+      setSelectedIndex((i) => Math.min(i, Math.max(0, customDomains.length - 1)));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load public access settings");
+    } finally {
+      setLoading(false);
+    }
+  }, [bucket.name]);
+
+  useEffect(() => {
+    loadAccess();
+  }, [loadAccess]);
+
+  const run = async (action: () => Promise<unknown>, message: string) => {
+    setError(null);
+    try {
+      await action();
+      showMessage(message);
+      loadAccess();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Request failed");
+    }
+  };
+
+  const attach = async () => {
+    const domain = domainInput.trim().toLowerCase();
+    if (!domain) {
+      setFormError("Enter a domain");
+      return;
+    }
+    const zone = zoneForDomain(zones, domain);
+    if (!zone) {
+      setFormError(`No zone in this account covers ${domain}`);
+      return;
+    }
+    try {
+      await attachR2CustomDomain(bucket.name, { domain, zoneId: zone.id, enabled: true, minTLS: minTls });
+      setModal({ type: "none" });
+      showMessage(`Attached ${domain}; DNS and certificate provisioning can take a few minutes`);
+      loadAccess();
+    } catch (err) {
+      setFormError(err instanceof Error ? err.message : "Failed to attach domain");
+    }
+  };
+
+  useScreenKeyboard((key) => {
+    if (modal.type === "r2dev") {
+      if (key.name === "y") {
+        const { enable } = modal;
+        setModal({ type: "none" });
+        run(() => setR2ManagedDomain(bucket.name, enable), enable ? "Public r2.dev access enabled" : "Public r2.dev access disabled");
+      } else if (key.name === "n" || key.name === "escape") {
+        setModal({ type: "none" });
+      }
+      return;
+    }
+
+    if (modal.type === "remove") {
+      if (key.name === "y") {
+        const { domain } = modal;
+        setModal({ type: "none" });
+        run(() => removeR2CustomDomain(bucket.name, domain), `Removed ${domain}`);
+      } else if (key.name === "n" || key.name === "escape") {
+        setModal({ type: "none" });
+      }
+      return;
+    }
+
+    if (modal.type === "attach") {
+      if (key.name === "escape") {
+        setModal({ type: "none" });
+      } else if (key.name === "return") {
+        attach();
+      } else if (key.name === "tab") {
+        const index = MIN_TLS_VERSIONS.indexOf(minTls);
+        setMinTls(MIN_TLS_VERSIONS[(index + 1) % MIN_TLS_VERSIONS.length]!);
+      }
+      return;
+    }
+
+    const current = domains[selectedIndex];
+    switch (key.name) {
+      case "j":
+      case "down":
+        setSelectedIndex((i) => Math.min(i + 1, domains.length - 1));
+        break;
+      case "k":
+      case "up":
+        setSelectedIndex((i) => Math.max(i - 1, 0));
+        break;
+      case "p":
+        if (managed) setModal({ type: "r2dev", enable: !managed.enabled });
+        break;
+      case "a":
+        setDomainInput("");
+        setMinTls("1.2");
+        setFormError(null);
+        setModal({ type: "attach" });
+        break;
+      case "space":
+        if (current) {
+          run(
+            () => updateR2CustomDomain(bucket.name, current.domain, { enabled: !current.enabled }),
+            `${current.domain} ${current.enabled ? "disabled" : "enabled"}`
+          );
+        }
+        break;
+      case "t":
+        if (current) {
+          const index = MIN_TLS_VERSIONS.indexOf(current.minTLS ?? "1.0");
+          const next = MIN_TLS_VERSIONS[(index + 1) % MIN_TLS_VERSIONS.length]!;
+          run(() => updateR2CustomDomain(bucket.name, current.domain, { minTLS: next }), `${current.domain} now requires TLS ${next}+`);
+        }
+        break;
+      case "d":
+        if (current) setModal({ type: "remove", domain: current.domain });
+        break;
+      case "r":
+        loadAccess();
+        break;
+      case "escape":
+      case "backspace":
+        onBack();
+        break;
+    }
+  });
+
+  if (loading && !managed) {
+    return (
+      <box flexDirection="column" flexGrow={1} padding={1}>
+        <text fg={colors.textMuted}>⟳ Loading public access settings...</text>
+      </box>
+    );
+  }
+
+  return (
+    <box flexDirection="column" flexGrow={1} padding={1}>
+      {actionMessage && (
+        <box backgroundColor={colors.success} padding={1}>
+          <text fg={colors.textInverse}>{actionMessage}</text>
+        </box>
+      )}
+
+      {error && (
+        <box backgroundColor={colors.error} padding={1}>
+          <text fg={colors.textInverse}>{error}</text>
+        </box>
+      )}
+
+      <box flexDirection="column" borderStyle="single" borderColor={colors.border} paddingLeft={1} paddingRight={1} marginBottom={1}>
+        <text><strong>r2.dev subdomain</strong></text>
+        <box flexDirection="row" gap={2}>
+          <text fg={colors.textMuted} width={12}>Status:</text>
+          <text fg={managed?.enabled ? colors.warning : colors.success}>
+            {managed?.enabled ? "● Public — anyone can read objects" : "○ Disabled"}
+          </text>
+        </box>
+        {managed?.enabled && (
+          <box flexDirection="row" gap={2}>
+            <text fg={colors.textMuted} width={12}>URL:</text>
+            <text>https://{managed.domain}</text>
+          </box>
+        )}
+      </box>
+
+      <text><strong>Custom domains</strong></text>
+      {domains.length === 0 ? (
+        <box borderStyle="single" borderColor={colors.border} padding={1}>
+          <text fg={colors.textMuted}>No custom domains. Press 'a' to attach one from a zone in this account.</text>
+        </box>
+      ) : (
+        <box flexDirection="column" flexGrow={1}>
+          <box flexDirection="row" padding={1} borderStyle="single" borderColor={colors.border} backgroundColor={colors.surfaceAlt}>
+            <text width="35%"><strong>Domain</strong></text>
+            <text width="15%"><strong>Enabled</strong></text>
+            <text width="20%"><strong>Ownership</strong></text>
+            <text width="15%"><strong>SSL</strong></text>
+            <text width="15%"><strong>Min TLS</strong></text>
+          </box>
+          <scrollbox flexDirection="column" flexGrow={1}>
+            {domains.map((domain, index) => {
+              const isSelected = index === selectedIndex;
+              return (
+                <box key={domain.domain} flexDirection="row" paddingLeft={1} paddingRight={1} backgroundColor={isSelected ? colors.surfaceAlt : undefined}>
+                  <text width="35%" fg={isSelected ? colors.primary : colors.text}>
+                    {isSelected ? "> " : "  "}{domain.domain}
+                  </text>
+                  <text width="15%" fg={domain.enabled ? colors.success : colors.textMuted}>
+                    {domain.enabled ? "● yes" : "○ no"}
+                  </text>
+                  <text width="20%" fg={domain.status.ownership === "active" ? colors.success : colors.warning}>
+                    {domain.status.ownership}
+                  </text>
+                  <text width="15%" fg={domain.status.ssl === "active" ? colors.success : colors.warning}>
+                    {domain.status.ssl}
+                  </text>
+                  <text width="15%" fg={colors.textMuted}>{domain.minTLS ?? "1.0"}</text>
+                </box>
+              );
+            })}
+          </scrollbox>
+        </box>
+      )}
+
+      <box marginTop={1}>
+        <text fg={colors.textMuted}>
+          p Toggle r2.dev • a Attach domain • Space Enable/disable • t Min TLS • d Remove • r Refresh • Esc Back
+        </text>
+      </box>
+
+      {modal.type === "r2dev" && (
+        <box position="absolute" top={0} left={0} right={0} bottom={0} justifyContent="center" alignItems="center" backgroundColor="rgba(0,0,0,0.7)">
+          <box flexDirection="column" borderStyle="double" borderColor={colors.warning} backgroundColor={colors.surface} padding={2} minWidth={50}>
+            <text fg={colors.warning}>
+              <strong>{modal.enable ? "⚠ Enable public access" : "Disable public access"}</strong>
+            </text>
+            <box marginTop={1}>
+              <text fg={colors.text}>
+                {modal.enable
+                  ? `Every object in ${bucket.name} becomes readable by anyone through its r2.dev URL. Continue?`
+                  : `Stop serving ${bucket.name} from r2.dev?`}
+              </text>
+            </box>
+            <box marginTop={1}>
+              <text fg={colors.textMuted}>[y] Yes  [n] No</text>
+            </box>
+          </box>
+        </box>
+      )}
+
+      {modal.type === "remove" && (
+        <box position="absolute" top={0} left={0} right={0} bottom={0} justifyContent="center" alignItems="center" backgroundColor="rgba(0,0,0,0.7)">
+          <box flexDirection="column" borderStyle="double" borderColor={colors.error} backgroundColor={colors.surface} padding={2} minWidth={50}>
+            <text fg={colors.error}><strong>⚠ Confirm Remove</strong></text>
+            <box marginTop={1}>
+              <text fg={colors.text}>Detach {modal.domain} from {bucket.name}?</text>
+            </box>
+            <box marginTop={1}>
+              <text fg={colors.textMuted}>[y] Yes  [n] No</text>
+            </box>
+          </box>
+        </box>
+      )}
+
+      {modal.type === "attach" && (
+        <box position="absolute" top={0} left={0} right={0} bottom={0} justifyContent="center" alignItems="center" backgroundColor="rgba(0,0,0,0.7)">
+          <box flexDirection="column" borderStyle="double" borderColor={colors.primary} backgroundColor={colors.surface} padding={2} minWidth={70}>
+            <text fg={colors.primary}>
+              <strong>Attach custom domain to {bucket.name}</strong>
+            </text>
+            <box marginTop={1} flexDirection="row">
+              <box width={10}>
+                <text fg={colors.text}>Domain:</text>
+              </box>
+              <input
+                value={domainInput}
+                onInput={setDomainInput}
+                placeholder="assets.example.com"
+                focused
+                width={50}
+                backgroundColor={colors.backgroundAlt}
+                textColor={colors.text}
+              />
+            </box>
+            <box marginTop={1} flexDirection="row">
+              <box width={10}>
+                <text fg={colors.text}>Min TLS:</text>
+              </box>
+              <text fg={colors.primary}>{minTls}</text>
+            </box>
+            {domainInput.trim() && (
+              <box marginTop={1}>
+                <text fg={colors.textMuted}>
+                  Zone: {zoneForDomain(zones, domainInput.trim().toLowerCase())?.name ?? "none found"}
+                </text>
+              </box>
+            )}
+            {formError && (
+              <box marginTop={1}>
+                <text fg={colors.error}>{formError}</text>
+              </box>
+            )}
+            <box marginTop={2}>
+              <text fg={colors.textMuted}>Tab cycle min TLS • Enter to attach • Esc to cancel</text>
+            </box>
+          </box>
+        </box>
+      )}
+    </box>
+  );
+}
@@ -0,0 +1,247 @@
+import { useState, useEffect, useCallback } from "react";
+import { useScreenKeyboard } from "../../lib/overlay-context.tsx";
+import { useTheme } from "../../lib/theme-context.tsx";
+import type { R2Bucket } from "../../lib/cloudflare.ts";
+import { listMultipartUploads } from "../../lib/r2-s3.ts";
+import {
+  abortUpload,
+  clearUploadState,
+  listUploadStates,
+  type UploadFile,
+  type UploadState,
+} from "../../lib/r2-upload.ts";
+import { progressBar } from "../../lib/ascii-charts.ts";
+
+interface UploadRow {
+  key: string;
+  uploadId: string;
+  initiated: string;
+  remote: boolean;
+  state: UploadState | null;
+}
+
+type ModalState =
+  | { type: "none" }
+  | { type: "abort"; rows: UploadRow[] };
+
+function completion(state: UploadState): number {
+  const done = Object.keys(state.parts).length * state.partSize;
+  return Math.min(done, state.size) / Math.max(state.size, 1);
+}
+
+interface Props {
+  bucket: R2Bucket;
+  onBack: () => void;
+  onResume: (files: UploadFile[]) => void;
+}
+
+export function MultipartUploads({ bucket, onBack, onResume }: Props) {
+  const { theme } = useTheme();
+  const { colors } = theme;
+
+  const [rows, setRows] = useState<UploadRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const [modal, setModal] = useState<ModalState>({ type: "none" });
+  const [actionMessage, setActionMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const showMessage = (message: string) => {
+    setActionMessage(message);
+    setTimeout(() => setActionMessage(null), 3000);
+  };
+
+  const loadUploads = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const [remote, states] = await Promise.all([listMultipartUploads(bucket.name), listUploadStates(bucket.name)]);
+      const byUploadId = new Map(states.map((s) => [s.uploadId, s]));
+      const merged: UploadRow[] = remote.map((u) => ({ ...u, remote: true, state: byUploadId.get(u.uploadId) ?? null }));
+      const remoteIds = new Set(remote.map((u) => u.uploadId));
+      for (const state of states) {
+        if (!remoteIds.has(state.uploadId)) {
+          merged.push({ key: state.key, uploadId: state.uploadId, initiated: state.createdAt, remote: false, state });
+        }
+      }
+      setRows(merged);
+      setSelectedIndex((i) => Math.min(i, Math.max(0, merged.length - 1)));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to list multipart uploads");
+    } finally {
+      setLoading(false);
+    }
+  }, [bucket.name]);
+
+  useEffect(() => {
+    loadUploads();
+  }, [loadUploads]);
+
+  const confirmAbort = async () => {
+    if (modal.type !== "abort") return;
+    const targets = modal.rows;
+    setModal({ type: "none" });
+    setBusy(true);
+    setError(null);
+    try {
+      for (const row of targets) {
+        if (row.remote) await abortUpload(bucket.name, row.key, row.uploadId);
+        else await clearUploadState(bucket.name, row.key);
+      }
+      showMessage(targets.length === 1 ? `Aborted upload of "${targets[0]!.key}"` : `Aborted ${targets.length} uploads`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to abort uploads");
+    } finally {
+      setBusy(false);
+      loadUploads();
+    }
+  };
+
+  const resume = async (row: UploadRow) => {
+    if (!row.state) {
+      setError(`"${row.key}" was not started from this machine and can only be aborted`);
+      return;
+    }
+    if (!(await Bun.file(row.state.path).exists())) {
+      setError(`Local file ${row.state.path} no longer exists`);
+      return;
+    }
+    onResume([{ path: row.state.path, key: row.state.key, size: row.state.size }]);
+  };
+
+  useScreenKeyboard((key) => {
+    if (busy) return;
+
+    if (modal.type === "abort") {
+      if (key.name === "y") {
+        confirmAbort();
+      } else if (key.name === "n" || key.name === "escape") {
+        setModal({ type: "none" });
+      }
+      return;
+    }
+
+    const current = rows[selectedIndex];
+    switch (key.name) {
+      case "j":
+      case "down":
+        setSelectedIndex((i) => Math.min(i + 1, rows.length - 1));
+        break;
+      case "k":
+      case "up":
+        setSelectedIndex((i) => Math.max(i - 1, 0));
+        break;
+      case "return":
+        if (current) resume(current);
+        break;
+      case "d":
+        if (current) setModal({ type: "abort", rows: [current] });
+        break;
+      case "c":
+        if (rows.length > 0) setModal({ type: "abort", rows });
+        break;
+      case "r":
+        loadUploads();
+        break;
+      case "escape":
+      case "backspace":
+        onBack();
+        break;
+    }
+  });
+
+  return (
+    <box flexDirection="column" flexGrow={1} padding={1}>
+      <box flexDirection="row" justifyContent="space-between" marginBottom={1}>
+        <box flexDirection="row" gap={1}>
+          <text fg={colors.primary}>‹ Back (Esc)</text>
+          <text>|</text>
+          <text><strong>{bucket.name}</strong></text>
+          <text fg={colors.textMuted}>/ Incomplete multipart uploads</text>
+        </box>
+        <text fg={colors.textMuted}>{rows.length} uploads</text>
+      </box>
+
+      {actionMessage && (
+        <box backgroundColor={colors.success} padding={1}>
+          <text fg={colors.textInverse}>{actionMessage}</text>
+        </box>
+      )}
+
+      {error && (
+        <box backgroundColor={colors.error} padding={1}>
+          <text fg={colors.textInverse}>{error}</text>
+        </box>
+      )}
+
+      {busy && (
+        <box padding={1}>
+          <text fg={colors.warning}>⟳ Aborting uploads...</text>
+        </box>
+      )}
+
+      {loading && rows.length === 0 ? (
+        <text fg={colors.textMuted}>⟳ Loading multipart uploads...</text>
+      ) : rows.length === 0 ? (
+        <box borderStyle="single" borderColor={colors.border} padding={1}>
+          <text fg={colors.textMuted}>No incomplete multipart uploads in this bucket</text>
+        </box>
+      ) : (
+        <box flexDirection="column" flexGrow={1}>
+          <box flexDirection="row" padding={1} borderStyle="single" borderColor={colors.border} backgroundColor={colors.surfaceAlt}>
+            <text width="45%"><strong>Key</strong></text>
+            <text width="25%"><strong>Started</strong></text>
+            <text width="30%"><strong>Local State</strong></text>
+          </box>
+          <scrollbox flexDirection="column" flexGrow={1}>
+            {rows.map((row, index) => {
+              const isSelected = index === selectedIndex;
+              return (
+                <box key={row.uploadId} flexDirection="row" paddingLeft={1} paddingRight={1} backgroundColor={isSelected ? colors.surfaceAlt : undefined}>
+                  <text width="45%" fg={isSelected ? colors.primary : colors.text}>
+                    {isSelected ? "> " : "  "}{row.key}
+                  </text>
+                  <text width="25%" fg={colors.textMuted}>
+                    {row.initiated ? new Date(row.initiated).toLocaleString() : "—"}
+                  </text>
+                  <text width="30%" fg={row.state ? (row.remote ? colors.info : colors.warning) : colors.textMuted}>
+                    {row.state
+                      ? row.remote
+                        ? progressBar(completion(row.state), 1, { width: 12 })
+                        : "stale (gone from R2)"
+                      : "not started here"}
+                  </text>
+                </box>
+              );
+            })}
+          </scrollbox>
+        </box>
+      )}
+
+      <box marginTop={1}>
+        <text fg={colors.textMuted}>
+          ↑/↓ Navigate • Enter Resume • d Abort • c Abort all • r Refresh • Esc Back
+        </text>
+      </box>
+
+      {modal.type === "abort" && (
+        <box position="absolute" top={0} left={0} right={0} bottom={0} justifyContent="center" alignItems="center" backgroundColor="rgba(0,0,0,0.7)">
+          <box flexDirection="column" borderStyle="double" borderColor={colors.error} backgroundColor={colors.surface} padding={2} minWidth={50}>
+            <text fg={colors.error}><strong>⚠ Confirm Abort</strong></text>
+            <box marginTop={1}>
+              <text fg={colors.text}>
+                {modal.rows.length === 1
+                  ? `Abort the upload of "${modal.rows[0]!.key}" and discard its parts?`
+                  : `Abort all ${modal.rows.length} uploads and discard their parts?`}
+              </text>
+            </box>
+            <box marginTop={1}>
+              <text fg={colors.textMuted}>[y] Yes  [n] No</text>
+            </box>
+          </box>
+        </box>
+      )}
+    </box>
+  );
+}
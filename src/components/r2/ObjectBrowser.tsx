@@ -0,0 +1,462 @@
+import { useState, useEffect, useCallback, useMemo } from "react";
+import { useScreenKeyboard } from "../../lib/overlay-context.tsx";
+import { useTheme } from "../../lib/theme-context.tsx";
+import {
+  iterateR2Objects,
+  getR2Object,
+  deleteR2Object,
+  deleteR2Objects,
+  type R2Bucket,
+  type R2Entry,
+  type R2Object,
+} from "../../lib/cloudflare.ts";
+import { usePaginatedList } from "../../lib/use-paginated-list.ts";
+import type { UploadFile } from "../../lib/r2-upload.ts";
+import { expandHome } from "../../lib/paths.ts";
+import { formatBytes } from "../../lib/ascii-charts.ts";
+import { UploadDialog } from "./UploadDialog.tsx";
+import { MultipartUploads } from "./MultipartUploads.tsx";
+
+type ModalState =
+  | { type: "none" }
+  | { type: "delete"; keys: string[] }
+  | { type: "download"; object: R2Object; path: string; running: boolean; error: string | null };
+
+function basename(key: string): string {
+  return key.slice(key.lastIndexOf("/", key.length - 2) + 1);
+}
+
+function parentPrefix(prefix: string): string {
+  const trimmed = prefix.slice(0, -1);
+  const index = trimmed.lastIndexOf("/");
+  return index === -1 ? "" : trimmed.slice(0, index + 1);
+}
+
+function entryKey(entry: R2Entry): string {
+  return entry.type === "prefix" ? entry.prefix : entry.object.key;
+}
+
+function formatEtag(etag: string): string {
+  return etag.replace(/"/g, "");
+}
+
+interface Props {
+  bucket: R2Bucket;
+  onBack: () => void;
+  onBusyChange?: (busy: boolean) => void;
+}
+
+export function ObjectBrowser({ bucket, onBack, onBusyChange }: Props) {
+  const { theme } = useTheme();
+  const { colors } = theme;
+
+  const [prefix, setPrefix] = useState("");
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const [marked, setMarked] = useState<Set<string>>(new Set());
+  const [details, setDetails] = useState<R2Object | null>(null);
+  const [modal, setModal] = useState<ModalState>({ type: "none" });
+  const [upload, setUpload] = useState<{ resume?: UploadFile[] } | null>(null);
+  const [showUploads, setShowUploads] = useState(false);
+  const [deleting, setDeleting] = useState<{ done: number; total: number } | null>(null);
+  const [actionMessage, setActionMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const source = useMemo(() => () => iterateR2Objects(bucket.name, prefix), [bucket.name, prefix]);
+  const objectList = usePaginatedList(source, "Failed to load objects");
+  const entries = objectList.items;
+  const current = entries[selectedIndex];
+
+  const showMessage = (message: string) => {
+    setActionMessage(message);
+    setTimeout(() => setActionMessage(null), 3000);
+  };
+
+  const reloadObjects = useCallback(() => {
+    objectList.reload();
+    setSelectedIndex(0);
+    setMarked(new Set());
+  }, [objectList.reload]);
+
+  useEffect(() => {
+    setSelectedIndex(0);
+    setMarked(new Set());
+  }, [prefix]);
+
+  const busy = upload !== null || deleting !== null || modal.type !== "none";
+  useEffect(() => {
+    onBusyChange?.(busy);
+  }, [busy, onBusyChange]);
+
+  const confirmDelete = async () => {
+    if (modal.type !== "delete") return;
+    const targets = modal.keys;
+    setModal({ type: "none" });
+    setError(null);
+    setDeleting({ done: 0, total: targets.length });
+    try {
+      if (targets.length === 1 && targets[0]) {
+        await deleteR2Object(bucket.name, targets[0]);
+      } else {
+        await deleteR2Objects(bucket.name, targets, (done) => setDeleting({ done, total: targets.length }));
+      }
+      showMessage(targets.length === 1 ? `Deleted "${targets[0]}"` : `Deleted ${targets.length} objects`);
+      setDetails(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to delete objects");
+    } finally {
+      setDeleting(null);
+      reloadObjects();
+    }
+  };
+
+  const requestDelete = (fallback: R2Object | undefined) => {
+    const targets = marked.size > 0 && !details ? [...marked] : fallback ? [fallback.key] : [];
+    if (targets.length > 0) setModal({ type: "delete", keys: targets });
+  };
+
+  const openDownload = (object: R2Object) => {
+    setModal({ type: "download", object, path: `./${basename(object.key)}`, running: false, error: null });
+  };
+
+  const runDownload = async () => {
+    if (modal.type !== "download" || modal.running) return;
+    const { object } = modal;
+    let target = expandHome(modal.path);
+    if (!target) {
+      setModal({ ...modal, error: "Enter a file path" });
+      return;
+    }
+    if (target.endsWith("/")) target += basename(object.key);
+    setModal({ ...modal, running: true, error: null });
+    try {
+      const written = await Bun.write(target, await getR2Object(bucket.name, object.key));
+      setModal({ type: "none" });
+      showMessage(`Saved ${formatBytes(written)} to ${target}`);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Failed to download object";
+      setModal((prev) => (prev.type === "download" ? { ...prev, running: false, error: message } : prev));
+    }
+  };
+
+  const closeUpload = (message?: string) => {
+    setUpload(null);
+    if (message) showMessage(message);
+    reloadObjects();
+  };
+
+  useScreenKeyboard((key) => {
+    if (deleting || upload || showUploads) return;
+
+    if (modal.type === "delete") {
+      if (key.name === "y") {
+        confirmDelete();
+      } else if (key.name === "n" || key.name === "escape") {
+        setModal({ type: "none" });
+      }
+      return;
+    }
+
+    if (modal.type === "download") {
+      if (modal.running) return;
+      if (key.name === "escape") {
+        setModal({ type: "none" });
+      } else if (key.name === "return") {
+        runDownload();
+      }
+      return;
+    }
+
+    if (details) {
+      if (key.name === "escape" || key.name === "backspace") {
+        setDetails(null);
+      } else if (key.name === "s") {
+        openDownload(details);
+      } else if (key.name === "d") {
+        requestDelete(details);
+      }
+      return;
+    }
+
+    switch (key.name) {
+      case "j":
+      case "down":
+        setSelectedIndex((i) => Math.min(i + 1, entries.length - 1));
+        objectList.ensureLoaded(selectedIndex + 1);
+        break;
+      case "k":
+      case "up":
+        setSelectedIndex((i) => Math.max(i - 1, 0));
+        break;
+      case "return":
+        if (current?.type === "prefix") setPrefix(current.prefix);
+        else if (current?.type === "object") setDetails(current.object);
+        break;
+      case "space":
+        if (current?.type === "object") {
+          const name = current.object.key;
+          setMarked((prev) => {
+            const next = new Set(prev);
+            if (next.has(name)) next.delete(name);
+            else next.add(name);
+            return next;
+          });
+          setSelectedIndex((i) => Math.min(i + 1, entries.length - 1));
+        }
+        break;
+      case "a": {
+        const objectKeys = entries.flatMap((e) => (e.type === "object" ? [e.object.key] : []));
+        setMarked((prev) => (prev.size === objectKeys.length ? new Set() : new Set(objectKeys)));
+        break;
+      }
+      case "s":
+        if (current?.type === "object") openDownload(current.object);
+        break;
+      case "u":
+        setUpload({});
+        break;
+      case "m":
+        setShowUploads(true);
+        break;
+      case "d":
+        requestDelete(current?.type === "object" ? current.object : undefined);
+        break;
+      case "r":
+        reloadObjects();
+        break;
+      case "escape":
+      case "backspace":
+        if (marked.size > 0) setMarked(new Set());
+        else if (prefix) setPrefix(parentPrefix(prefix));
+        else onBack();
+        break;
+    }
+  });
+
+  const renderHeader = () => (
+    <box flexDirection="row" justifyContent="space-between" marginBottom={1}>
+      <box flexDirection="row" gap={1}>
+        <text fg={colors.primary}>‹ Back (Esc)</text>
+        <text>|</text>
+        <text>
+          <strong>{bucket.name}</strong>
+          <span fg={colors.textMuted}>/{details ? details.key : prefix}</span>
+        </text>
+      </box>
+      <text fg={colors.textMuted}>
+        {details
+          ? `${bucket.location || "Auto"} • created ${new Date(bucket.creation_date).toLocaleDateString()}`
+          : `${entries.length}${objectList.hasMore ? "+" : ""} entries${marked.size > 0 ? ` • ${marked.size} selected` : ""}`}
+      </text>
+    </box>
+  );
+
+  const renderDetails = (object: R2Object) => {
+    const http = object.http_metadata ?? {};
+    const rows: Array<[string, string]> = [
+      ["Key", object.key],
+      ["Size", `${formatBytes(object.size)} (${object.size.toLocaleString()} bytes)`],
+      ["ETag", formatEtag(object.etag)],
+      ["Last modified", new Date(object.last_modified).toLocaleString()],
+      ["Storage class", object.storage_class ?? "Standard"],
+      ["Content-Type", http.contentType ?? "—"],
+      ["Content-Encoding", http.contentEncoding ?? "—"],
+      ["Content-Language", http.contentLanguage ?? "—"],
+      ["Content-Disposition", http.contentDisposition ?? "—"],
+      ["Cache-Control", http.cacheControl ?? "—"],
+      ["Cache-Expiry", http.cacheExpiry ? new Date(http.cacheExpiry).toLocaleString() : "—"],
+    ];
+    const custom = Object.entries(object.custom_metadata ?? {});
+
+    return (
+      <box flexDirection="column" flexGrow={1}>
+        <box flexDirection="column" borderStyle="single" borderColor={colors.border} paddingLeft={1} paddingRight={1}>
+          {rows.map(([label, value]) => (
+            <box key={label} flexDirection="row" gap={2}>
+              <text fg={colors.textMuted} width={20}>{label}:</text>
+              <text>{value}</text>
+            </box>
+          ))}
+        </box>
+        <box flexDirection="column" borderStyle="single" borderColor={colors.border} paddingLeft={1} paddingRight={1} marginTop={1}>
+          <text><strong>Custom metadata</strong></text>
+          {custom.length === 0 ? (
+            <text fg={colors.textMuted}>none</text>
+          ) : (
+            custom.map(([name, value]) => (
+              <box key={name} flexDirection="row" gap={2}>
+                <text fg={colors.textMuted} width={20}>{name}:</text>
+                <text>{value}</text>
+              </box>
+            ))
+          )}
+        </box>
+      </box>
+    );
+  };
+
+  const renderEntries = () => {
+    if (objectList.error) {
+      return <text fg={colors.error}>Error: {objectList.error}</text>;
+    }
+    if (entries.length === 0) {
+      return (
+        <box borderStyle="single" borderColor={colors.border} padding={1}>
+          <text fg={colors.textMuted}>
+            {objectList.loading || objectList.hasMore ? "⟳ Loading objects..." : prefix ? `No objects under "${prefix}"` : "This bucket is empty"}
+          </text>
+        </box>
+      );
+    }
+
+    return (
+      <box flexDirection="column" flexGrow={1}>
+        <box flexDirection="row" padding={1} borderStyle="single" borderColor={colors.border} backgroundColor={colors.surfaceAlt}>
+          <text width="36%"><strong>Name</strong></text>
+          <text width="10%"><strong>Size</strong></text>
+          <text width="18%"><strong>Content Type</strong></text>
+          <text width="18%"><strong>Last Modified</strong></text>
+          <text width="18%"><strong>ETag</strong></text>
+        </box>
+        <scrollbox flexDirection="column" flexGrow={1}>
+          {entries.map((entry, index) => {
+            const isSelected = index === selectedIndex;
+            const name = entryKey(entry);
+            const isMarked = marked.has(name);
+            return (
+              <box key={name} flexDirection="row" paddingLeft={1} paddingRight={1} backgroundColor={isSelected ? colors.surfaceAlt : undefined}>
+                <text width="36%" fg={isSelected ? colors.primary : entry.type === "prefix" ? colors.info : colors.text}>
+                  {isSelected ? "> " : "  "}
+                  {entry.type === "prefix" ? (
+                    <span fg={colors.textMuted}>▸ </span>
+                  ) : (
+                    <span fg={isMarked ? colors.warning : colors.textMuted}>{isMarked ? "◉ " : "○ "}</span>
+                  )}
+                  {basename(name)}
+                </text>
+                {entry.type === "prefix" ? (
+                  <text width="64%" fg={colors.textMuted}>folder</text>
+                ) : (
+                  <>
+                    <text width="10%" fg={colors.textMuted}>{formatBytes(entry.object.size)}</text>
+                    <text width="18%" fg={colors.textMuted}>{entry.object.http_metadata?.contentType ?? "—"}</text>
+                    <text width="18%" fg={colors.textMuted}>{new Date(entry.object.last_modified).toLocaleString()}</text>
+                    <text width="18%" fg={colors.textMuted}>{formatEtag(entry.object.etag).slice(0, 16)}</text>
+                  </>
+                )}
+              </box>
+            );
+          })}
+          {objectList.hasMore && (
+            <box padding={1}>
+              <text fg={colors.textMuted}>{objectList.loading ? "⟳ Loading more…" : "↓ More objects below"}</text>
+            </box>
+          )}
+        </scrollbox>
+      </box>
+    );
+  };
+
+  if (showUploads) {
+    return (
+      <MultipartUploads
+        bucket={bucket}
+        onBack={() => setShowUploads(false)}
+        onResume={(files) => {
+          setShowUploads(false);
+          setUpload({ resume: files });
+        }}
+      />
+    );
+  }
+
+  return (
+    <box flexDirection="column" flexGrow={1} padding={1}>
+      {renderHeader()}
+
+      {actionMessage && (
+        <box backgroundColor={colors.success} padding={1}>
+          <text fg={colors.textInverse}>{actionMessage}</text>
+        </box>
+      )}
+
+      {error && (
+        <box backgroundColor={colors.error} padding={1}>
+          <text fg={colors.textInverse}>{error}</text>
+        </box>
+      )}
+
+      {deleting && (
+        <box padding={1}>
+          <text fg={colors.warning}>⟳ Deleting {deleting.done}/{deleting.total} objects...</text>
+        </box>
+      )}
+
+      {details ? renderDetails(details) : renderEntries()}
+
+      <box marginTop={1}>
+        <text fg={colors.textMuted}>
+          {details
+            ? "s Download • d Delete • Esc Back"
+            : "↑/↓ Navigate • Enter Open • Space Select • a Select all • s Download • u Upload • m Multipart • d Delete • r Refresh • Esc Up"}
+        </text>
+      </box>
+
+      {modal.type === "delete" && (
+        <box position="absolute" top={0} left={0} right={0} bottom={0} justifyContent="center" alignItems="center" backgroundColor="rgba(0,0,0,0.7)">
+          <box flexDirection="column" borderStyle="double" borderColor={colors.error} backgroundColor={colors.surface} padding={2} minWidth={50}>
+            <text fg={colors.error}><strong>⚠ Confirm Delete</strong></text>
+            <box marginTop={1}>
+              <text fg={colors.text}>
+                {modal.keys.length === 1 ? `Delete object "${modal.keys[0]}"?` : `Delete ${modal.keys.length} selected objects?`}
+              </text>
+            </box>
+            <box marginTop={1}>
+              <text fg={colors.textMuted}>[y] Yes  [n] No</text>
+            </box>
+          </box>
+        </box>
+      )}
+
+      {modal.type === "download" && (
+        <box position="absolute" top={0} left={0} right={0} bottom={0} justifyContent="center" alignItems="center" backgroundColor="rgba(0,0,0,0.7)">
+          <box flexDirection="column" borderStyle="double" borderColor={colors.primary} backgroundColor={colors.surface} padding={2} minWidth={70}>
+            <text fg={colors.primary}>
+              <strong>Download "{modal.object.key}"</strong>
+            </text>
+            <text fg={colors.textMuted}>{formatBytes(modal.object.size)}</text>
+            <box marginTop={1} flexDirection="row">
+              <box width={10}>
+                <text fg={colors.text}>Save to:</text>
+              </box>
+              {modal.running ? (
+                <text fg={colors.textMuted}>{modal.path}</text>
+              ) : (
+                <input
+                  value={modal.path}
+                  onInput={(path) => setModal((prev) => (prev.type === "download" ? { ...prev, path } : prev))}
+                  placeholder="./file or ~/Downloads/"
+                  focused
+                  width={56}
+                  backgroundColor={colors.backgroundAlt}
+                  textColor={colors.text}
+                />
+              )}
+            </box>
+            {modal.error && (
+              <box marginTop={1}>
+                <text fg={colors.error}>{modal.error}</text>
+              </box>
+            )}
+            <box marginTop={2}>
+              <text fg={colors.textMuted}>
+                {modal.running ? "⟳ Downloading..." : "Enter to download • Esc to cancel"}
+              </text>
+            </box>
+          </box>
+        </box>
+      )}
+
+      {upload && <UploadDialog bucket={bucket} prefix={prefix} resume={upload.resume} onClose={closeUpload} />}
+    </box>
+  );
+}
@@ -0,0 +1,146 @@
+import { useState, useEffect, useRef } from "react";
+import { useScreenKeyboard } from "../../lib/overlay-context.tsx";
+import { useTheme } from "../../lib/theme-context.tsx";
+import type { R2Bucket } from "../../lib/cloudflare.ts";
+import { collectUploadFiles, uploadFiles, type UploadFile, type UploadProgress } from "../../lib/r2-upload.ts";
+import { formatBytes, progressBar } from "../../lib/ascii-charts.ts";
+
+type Phase = "input" | "running";
+
+interface Props {
+  bucket: R2Bucket;
+  prefix: string;
+  resume?: UploadFile[];
+  onClose: (message?: string) => void;
+}
+
+export function UploadDialog({ bucket, prefix, resume, onClose }: Props) {
+  const { theme } = useTheme();
+  const { colors } = theme;
+
+  const [path, setPath] = useState("");
+  const [phase, setPhase] = useState<Phase>("input");
+  const [progress, setProgress] = useState<UploadProgress | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const run = async (files: UploadFile[]) => {
+    if (files.length === 0) {
+      setError("Nothing to upload");
+      return;
+    }
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setPhase("running");
+    setError(null);
+    try {
+      await uploadFiles(bucket.name, files, setProgress, controller.signal);
+      const total = formatBytes(files.reduce((sum, f) => sum + f.size, 0));
+      onClose(files.length === 1 ? `Uploaded "${files[0]!.key}" (${total})` : `Uploaded ${files.length} files (${total})`);
+    } catch (err) {
+      if (controller.signal.aborted) {
+        onClose("Upload paused. Uploading the same file again resumes from the last finished part.");
+        return;
+      }
+      setError(err instanceof Error ? err.message : "Upload failed");
+      setPhase("input");
+    } finally {
+      abortRef.current = null;
+    }
+  };
+
+  const start = async () => {
+    if (!path.trim()) {
+      setError("Enter a local file or directory");
+      return;
+    }
+    try {
+      await run(await collectUploadFiles(path, prefix));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Upload failed");
+    }
+  };
+
+  useEffect(() => {
+    if (resume) run(resume);
+    return () => abortRef.current?.abort();
+  }, []);
+
+  useScreenKeyboard((key) => {
+    if (phase === "running") {
+      if (key.name === "escape") abortRef.current?.abort();
+      return;
+    }
+    if (key.name === "escape") {
+      onClose();
+    } else if (key.name === "return") {
+      start();
+    }
+  });
+
+  return (
+    <box position="absolute" top={0} left={0} right={0} bottom={0} justifyContent="center" alignItems="center" backgroundColor="rgba(0,0,0,0.7)">
+      <box flexDirection="column" borderStyle="double" borderColor={colors.primary} backgroundColor={colors.surface} padding={2} minWidth={76}>
+        <text fg={colors.primary}>
+          <strong>Upload to {bucket.name}/{prefix}</strong>
+        </text>
+
+        {phase === "input" ? (
+          <box marginTop={1} flexDirection="row">
+            <box width={8}>
+              <text fg={colors.text}>From:</text>
+            </box>
+            <input
+              value={path}
+              onInput={setPath}
+              placeholder="./build or ~/Downloads/backup.tar.gz"
+              focused
+              width={60}
+              backgroundColor={colors.backgroundAlt}
+              textColor={colors.text}
+            />
+          </box>
+        ) : progress ? (
+          <box flexDirection="column" marginTop={1}>
+            <text fg={colors.text}>
+              File {progress.fileIndex + 1}/{progress.fileCount}: {progress.file.key}
+            </text>
+            <box flexDirection="row" gap={2}>
+              <text fg={colors.primary}>{progressBar(progress.fileBytes, Math.max(progress.file.size, 1), { width: 40 })}</text>
+              <text fg={colors.textMuted}>
+                {formatBytes(progress.fileBytes)} / {formatBytes(progress.file.size)}
+              </text>
+            </box>
+            <box marginTop={1}>
+              <text fg={colors.text}>Overall</text>
+            </box>
+            <box flexDirection="row" gap={2}>
+              <text fg={colors.success}>{progressBar(progress.doneBytes, Math.max(progress.totalBytes, 1), { width: 40 })}</text>
+              <text fg={colors.textMuted}>
+                {formatBytes(progress.doneBytes)} / {formatBytes(progress.totalBytes)}
+              </text>
+            </box>
+          </box>
+        ) : (
+          <box marginTop={1}>
+            <text fg={colors.textMuted}>⟳ Preparing upload...</text>
+          </box>
+        )}
+
+        {error && (
+          <box marginTop={1}>
+            <text fg={colors.error}>{error}</text>
+          </box>
+        )}
+
+        <box marginTop={2}>
+          <text fg={colors.textMuted}>
+            {phase === "running"
+              ? "Esc to pause (large files resume from the last finished part)"
+              : "Directories upload recursively • Enter to upload • Esc to cancel"}
+          </text>
+        </box>
+      </box>
+    </box>
+  );
+}
@@ -0,0 +1,7 @@
+export { ObjectBrowser } from "./ObjectBrowser.tsx";
+export { UploadDialog } from "./UploadDialog.tsx";
+export { MultipartUploads } from "./MultipartUploads.tsx";
+export { BucketDetail } from "./BucketDetail.tsx";
+export { BucketCors } from "./BucketCors.tsx";
+export { BucketLifecycle } from "./BucketLifecycle.tsx";
+export { BucketPublicAccess } from "./BucketPublicAccess.tsx";
@@ -0,0 +1,193 @@
+import { useState, useEffect, useCallback, useMemo } from "react";
+import { useTerminalDimensions } from "@opentui/react";
+import { useScreenKeyboard } from "../../lib/overlay-context.tsx";
+import { useTheme } from "../../lib/theme-context.tsx";
+import { getWorkerScriptContent, type Worker, type WorkerModule } from "../../lib/cloudflare.ts";
+import { highlightSource, declarationLines, type Token, type TokenKind } from "../../lib/syntax.ts";
+import { formatBytes } from "../../lib/ascii-charts.ts";
+
+const CHROME_LINES = 14;
+const HORIZONTAL_STEP = 20;
+
+function sliceTokens(tokens: Token[], start: number, width: number): Token[] {
+  const out: Token[] = [];
+  let column = 0;
+  for (const token of tokens) {
+    const end = column + token.text.length;
+    if (end > start && column < start + width) {
+      out.push({ kind: token.kind, text: token.text.slice(Math.max(0, start - column), start + width - column) });
+    }
+    column = end;
+    if (column >= start + width) break;
+  }
+  return out;
+}
+
+interface Props {
+  worker: Worker;
+  onBack: () => void;
+}
+
+export function ScriptSource({ worker, onBack }: Props) {
+  const { theme } = useTheme();
+  const { colors } = theme;
+  const { width, height } = useTerminalDimensions();
+
+  const [modules, setModules] = useState<WorkerModule[]>([]);
+  const [moduleIndex, setModuleIndex] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [top, setTop] = useState(0);
+  const [left, setLeft] = useState(0);
+
+  const loadContent = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      setModules(await getWorkerScriptContent(worker.id));
+      setModuleIndex(0);
+      setTop(0);
+      setLeft(0);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load script content");
+    } finally {
+      setLoading(false);
+    }
+  }, [worker.id]);
+
+  useEffect(() => {
+    loadContent();
+  }, [loadContent]);
+
+  const module = modules[moduleIndex];
+  const highlighted = useMemo(() => (module ? highlightSource(module.content) : []), [module]);
+  const declarations = useMemo(() => (module ? declarationLines(module.content) : []), [module]);
+  const pageSize = Math.max(5, height - CHROME_LINES);
+  const maxTop = Math.max(0, highlighted.length - pageSize);
+  const gutter = String(highlighted.length).length + 1;
+  const codeWidth = Math.max(20, width - gutter - 30);
+
+  const kindColors: Record<TokenKind, string> = {
+    plain: colors.text,
+    keyword: colors.primary,
+    string: colors.success,
+    comment: colors.textMuted,
+    number: colors.warning,
+  };
+
+  const scrollTo = (line: number) => setTop(Math.max(0, Math.min(line, maxTop)));
+
+  useScreenKeyboard((key) => {
+    if (key.sequence === "]") {
+      const next = declarations.find((line) => line > top);
+      if (next !== undefined) scrollTo(next);
+      return;
+    }
+    if (key.sequence === "[") {
+      const previous = declarations.filter((line) => line < top).pop();
+      if (previous !== undefined) scrollTo(previous);
+      return;
+    }
+
+    switch (key.name) {
+      case "j":
+      case "down":
+        scrollTo(top + 1);
+        break;
+      case "k":
+      case "up":
+        scrollTo(top - 1);
+        break;
+      case "pagedown":
+      case "space":
+        scrollTo(top + pageSize);
+        break;
+      case "pageup":
+        scrollTo(top - pageSize);
+        break;
+      case "g":
+        scrollTo(key.shift ? maxTop : 0);
+        break;
+      case "l":
+      case "right":
+        setLeft((l) => l + HORIZONTAL_STEP);
+        break;
+      case "h":
+      case "left":
+        setLeft((l) => Math.max(0, l - HORIZONTAL_STEP));
+        break;
+      case "m":
+        if (modules.length > 1) {
+          setModuleIndex((i) => (i + 1) % modules.length);
+          setTop(0);
+          setLeft(0);
+        }
+        break;
+      case "r":
+        loadContent();
+        break;
+      case "escape":
+      case "backspace":
+        onBack();
+        break;
+    }
+  });
+
+  if (loading && modules.length === 0) {
+    return (
+      <box padding={1}>
+        <text fg={colors.textMuted}>⟳ Loading script content...</text>
+      </box>
+    );
+  }
+
+  if (error || !module) {
+    return (
+      <box flexDirection="column" padding={1}>
+        <text fg={colors.error}>Error: {error ?? "Script has no content"}</text>
+        <text fg={colors.textMuted}>Press 'r' to retry • Esc Back</text>
+      </box>
+    );
+  }
+
+  return (
+    <box flexDirection="column" flexGrow={1} padding={1}>
+      <box flexDirection="row" justifyContent="space-between">
+        <text>
+          <strong fg={colors.primary}>{module.name}</strong>
+          <span fg={colors.textMuted}>
+            {" "}{formatBytes(new TextEncoder().encode(module.content).length)} • {highlighted.length} lines
+            {modules.length > 1 ? ` • module ${moduleIndex + 1}/${modules.length}` : ""}
+          </span>
+        </text>
+        <text fg={colors.textMuted}>
+          Lines {top + 1}-{Math.min(top + pageSize, highlighted.length)}
+          {left > 0 ? ` • col ${left + 1}` : ""}
+        </text>
+      </box>
+
+      <box flexDirection="column" flexGrow={1} borderStyle="single" borderColor={colors.border} marginTop={1}>
+        {highlighted.slice(top, top + pageSize).map((tokens, index) => {
+          const lineNumber = top + index;
+          return (
+            <text key={lineNumber} wrapMode="none">
+              <span fg={declarations.includes(lineNumber) ? colors.primary : colors.textMuted}>
+                {String(lineNumber + 1).padStart(gutter - 1)}{" "}
+              </span>
+              {sliceTokens(tokens, left, codeWidth).map((token, tokenIndex) => (
+                <span key={tokenIndex} fg={kindColors[token.kind]}>{token.text}</span>
+              ))}
+            </text>
+          );
+        })}
+      </box>
+
+      <box marginTop={1}>
+        <text fg={colors.textMuted}>
+          ↑/↓ Scroll • PgUp/PgDn Page • ]/[ Next/prev declaration • g/G Top/bottom • ←/→ Pan
+          {modules.length > 1 ? " • m Next module" : ""} • r Reload • Esc Back
+        </text>
+      </box>
+    </box>
+  );
+}
@@ -0,0 +1,306 @@
+import { useState, useEffect } from "react";
+import { useScreenKeyboard } from "../../lib/overlay-context.tsx";
+import { useTheme } from "../../lib/theme-context.tsx";
+import type { Worker } from "../../lib/cloudflare.ts";
+import {
+  planWorkerDeploy,
+  deployWorker,
+  defaultSourceMapPath,
+  WORKER_SIZE_LIMITS,
+  type BindingChangeAction,
+  type WorkerDeployPlan,
+} from "../../lib/worker-deploy.ts";
+import { formatBytes } from "../../lib/ascii-charts.ts";
+
+const FIELDS = [
+  { key: "modulePath", label: "Module", placeholder: "./dist/index.js" },
+  { key: "sourceMapPath", label: "Source map", placeholder: "optional, e.g. ./dist/index.js.map" },
+  { key: "compatibilityDate", label: "Compat date", placeholder: "YYYY-MM-DD (keeps current if empty)" },
+  { key: "compatibilityFlags", label: "Compat flags", placeholder: "comma-separated (keeps current if empty)" },
+  { key: "bindingsPath", label: "Bindings", placeholder: "optional JSON of changed bindings" },
+] as const;
+
+type FieldKey = (typeof FIELDS)[number]["key"];
+type FormValues = Record<FieldKey, string>;
+
+type ModalState =
+  | { type: "none" }
+  | { type: "form"; values: FormValues; field: number; error: string | null; planning: boolean }
+  | { type: "preview"; values: FormValues; plan: WorkerDeployPlan };
+
+const ACTION_LABELS: Record<BindingChangeAction, string> = {
+  add: "+ add",
+  change: "~ change",
+  remove: "- remove",
+  keep: "  keep",
+};
+
+const EMPTY_FORM: FormValues = {
+  modulePath: "./dist/index.js",
+  sourceMapPath: "",
+  compatibilityDate: "",
+  compatibilityFlags: "",
+  bindingsPath: "",
+};
+
+interface Props {
+  worker: Worker;
+  onBack: () => void;
+  onBusyChange?: (busy: boolean) => void;
+}
+
+export function WorkerDeploy({ worker, onBack, onBusyChange }: Props) {
+  const { theme } = useTheme();
+  const { colors } = theme;
+
+  const [modal, setModal] = useState<ModalState>({ type: "none" });
+  const [lastValues, setLastValues] = useState<FormValues>(EMPTY_FORM);
+  const [deploying, setDeploying] = useState(false);
+  const [result, setResult] = useState<{ plan: WorkerDeployPlan; deployed: Worker } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    onBusyChange?.(modal.type !== "none" || deploying);
+  }, [modal.type, deploying, onBusyChange]);
+
+  const openForm = async () => {
+    const values = { ...lastValues };
+    if (!values.sourceMapPath && (await Bun.file(defaultSourceMapPath(values.modulePath)).exists())) {
+      values.sourceMapPath = defaultSourceMapPath(values.modulePath);
+    }
+    setModal({ type: "form", values, field: 0, error: null, planning: false });
+  };
+
+  const buildPlan = async () => {
+    if (modal.type !== "form" || modal.planning) return;
+    const { values } = modal;
+    if (!values.modulePath.trim()) {
+      setModal({ ...modal, error: "Enter the path of the bundled module" });
+      return;
+    }
+    setModal({ ...modal, planning: true, error: null });
+    try {
+      const flags = values.compatibilityFlags.split(",").map((f) => f.trim()).filter(Boolean);
+      const plan = await planWorkerDeploy(worker.id, {
+        modulePath: values.modulePath,
+        sourceMapPath: values.sourceMapPath.trim() || undefined,
+        compatibilityDate: values.compatibilityDate.trim() || undefined,
+        compatibilityFlags: flags.length ? flags : undefined,
+        bindingsPath: values.bindingsPath.trim() || undefined,
+      });
+      setLastValues(values);
+      setModal({ type: "preview", values, plan });
+    } catch (err) {
+      setModal({ ...modal, planning: false, error: err instanceof Error ? err.message : "Failed to prepare deploy" });
+    }
+  };
+
+  const deploy = async (plan: WorkerDeployPlan) => {
+    setModal({ type: "none" });
+    setDeploying(true);
+    setError(null);
+    try {
+      const deployed = await deployWorker(plan);
+      setResult({ plan, deployed });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Deploy failed");
+    } finally {
+      setDeploying(false);
+    }
+  };
+
+  useScreenKeyboard((key) => {
+    if (deploying) return;
+
+    if (modal.type === "form") {
+      if (modal.planning) return;
+      if (key.name === "escape") {
+        setModal({ type: "none" });
+      } else if (key.name === "tab" || key.name === "down") {
+        setModal({ ...modal, field: (modal.field + (key.shift ? FIELDS.length - 1 : 1)) % FIELDS.length });
+      } else if (key.name === "up") {
+        setModal({ ...modal, field: (modal.field + FIELDS.length - 1) % FIELDS.length });
+      } else if (key.name === "return") {
+        buildPlan();
+      }
+      return;
+    }
+
+    if (modal.type === "preview") {
+      if (key.name === "y" && modal.plan.size.status !== "too-large") {
+        deploy(modal.plan);
+      } else if (key.name === "n" || key.name === "escape") {
+        setModal({ type: "form", values: modal.values, field: 0, error: null, planning: false });
+      }
+      return;
+    }
+
+    switch (key.name) {
+      case "u":
+      case "return":
+        openForm();
+        break;
+      case "escape":
+      case "backspace":
+        onBack();
+        break;
+    }
+  });
+
+  const preview = modal.type === "preview" ? modal.plan : null;
+  const sizeColor = (plan: WorkerDeployPlan) =>
+    plan.size.status === "ok" ? colors.success : plan.size.status === "paid-only" ? colors.warning : colors.error;
+
+  return (
+    <box flexDirection="column" flexGrow={1} padding={1}>
+      {error && (
+        <box backgroundColor={colors.error} padding={1}>
+          <text fg={colors.textInverse}>{error}</text>
+        </box>
+      )}
+
+      {deploying && (
+        <box padding={1}>
+          <text fg={colors.warning}>⟳ Uploading script...</text>
+        </box>
+      )}
+
+      <box flexDirection="column" borderStyle="single" borderColor={colors.border} paddingLeft={1} paddingRight={1}>
+        <text><strong>Deploy from a local file</strong></text>
+        <text fg={colors.textMuted}>
+          Uploads a bundled ES module (and optional source map) as a new version of {worker.id}.
+        </text>
+        <text fg={colors.textMuted}>
+          Existing bindings, secrets and variables are kept. To change bindings, point at a JSON file such as
+        </text>
+        <text fg={colors.text}>{'  { "CACHE": { "type": "kv_namespace", "namespace_id": "…" }, "OLD_BUCKET": null }'}</text>
+        <text fg={colors.textMuted}>where null removes a binding.</text>
+      </box>
+
+      {result && (
+        <box flexDirection="column" marginTop={1} borderStyle="single" borderColor={colors.success} paddingLeft={1} paddingRight={1}>
+          <text fg={colors.success}><strong>✓ Deployed {result.plan.module.name}</strong></text>
+          <text fg={colors.textMuted}>
+            {new Date(result.deployed.modified_on).toLocaleString()} • {formatBytes(result.plan.size.bytes)} •
+            compat {result.plan.compatibilityDate} • {result.plan.changes.filter((c) => c.action !== "keep").length} binding changes
+          </text>
+        </box>
+      )}
+
+      <box marginTop={1}>
+        <text fg={colors.textMuted}>u Deploy from file • Esc Back</text>
+      </box>
+
+      {modal.type === "form" && (
+        <box position="absolute" top={0} left={0} right={0} bottom={0} justifyContent="center" alignItems="center" backgroundColor="rgba(0,0,0,0.7)">
+          <box flexDirection="column" borderStyle="double" borderColor={colors.primary} backgroundColor={colors.surface} padding={2} minWidth={70}>
+            <text fg={colors.primary}>
+              <strong>Deploy {worker.id}</strong>
+            </text>
+            {FIELDS.map((field, index) => (
+              <box key={field.key} marginTop={1} flexDirection="row">
+                <box width={15}>
+                  <text fg={modal.field === index ? colors.primary : colors.text}>{field.label}:</text>
+                </box>
+                <input
+                  value={modal.values[field.key]}
+                  onInput={(value) =>
+                    setModal((prev) => (prev.type === "form" ? { ...prev, values: { ...prev.values, [field.key]: value } } : prev))
+                  }
+                  placeholder={field.placeholder}
+                  focused={modal.field === index}
+                  width={50}
+                  backgroundColor={colors.backgroundAlt}
+                  textColor={colors.text}
+                />
+              </box>
+            ))}
+            {modal.error && (
+              <box marginTop={1}>
+                <text fg={colors.error}>{modal.error}</text>
+              </box>
+            )}
+            <box marginTop={2}>
+              <text fg={colors.textMuted}>
+                {modal.planning ? "⟳ Checking file and current bindings..." : "Tab/↑↓ Next field • Enter Review • Esc Cancel"}
+              </text>
+            </box>
+          </box>
+        </box>
+      )}
+
+      {preview && (
+        <box position="absolute" top={0} left={0} right={0} bottom={0} justifyContent="center" alignItems="center" backgroundColor="rgba(0,0,0,0.7)">
+          <box flexDirection="column" borderStyle="double" borderColor={colors.warning} backgroundColor={colors.surface} padding={2} minWidth={70}>
+            <text fg={colors.warning}>
+              <strong>Review Deploy</strong>
+            </text>
+            <box flexDirection="column" marginTop={1}>
+              <text>
+                <span fg={colors.textMuted}>Module      </span>
+                <span fg={colors.text}>{preview.module.name}</span>
+                {preview.sourceMap && <span fg={colors.textMuted}> + {preview.sourceMap.name}</span>}
+              </text>
+              <text>
+                <span fg={colors.textMuted}>Size        </span>
+                <span fg={sizeColor(preview)}>
+                  {formatBytes(preview.size.bytes)} ({formatBytes(preview.size.gzipBytes)} gzip)
+                  {preview.size.status === "ok" && " ✓"}
+                  {preview.size.status === "paid-only" && ` ⚠ over the ${formatBytes(WORKER_SIZE_LIMITS.free)} Free plan limit`}
+                  {preview.size.status === "too-large" && ` ✗ over the ${formatBytes(WORKER_SIZE_LIMITS.paid)} limit`}
+                </span>
+              </text>
+              <text>
+                <span fg={colors.textMuted}>Compat date </span>
+                <span fg={colors.text}>{preview.compatibilityDate}</span>
+                {preview.previous.compatibilityDate && preview.previous.compatibilityDate !== preview.compatibilityDate && (
+                  <span fg={colors.warning}> (was {preview.previous.compatibilityDate})</span>
+                )}
+              </text>
+              <text>
+                <span fg={colors.textMuted}>Compat flags </span>
+                <span fg={colors.text}>{preview.compatibilityFlags.join(", ") || "—"}</span>
+                {preview.compatibilityFlags.join(",") !== preview.previous.compatibilityFlags.join(",") && (
+                  <span fg={colors.warning}> (was {preview.previous.compatibilityFlags.join(", ") || "—"})</span>
+                )}
+              </text>
+              {!preview.exists && <text fg={colors.warning}>{worker.id} does not exist yet; a new script will be created</text>}
+            </box>
+            <box flexDirection="column" marginTop={1}>
+              <text><strong>Bindings</strong></text>
+              {preview.changes.length === 0 ? (
+                <text fg={colors.textMuted}>No bindings</text>
+              ) : (
+                preview.changes.map((change) => (
+                  <box key={change.name} flexDirection="row" gap={2}>
+                    <text
+                      width={10}
+                      fg={
+                        change.action === "add"
+                          ? colors.success
+                          : change.action === "remove"
+                            ? colors.error
+                            : change.action === "change"
+                              ? colors.warning
+                              : colors.textMuted
+                      }
+                    >
+                      {ACTION_LABELS[change.action]}
+                    </text>
+                    <text width={28} fg={colors.text}>{change.name}</text>
+                    <text fg={colors.textMuted}>{change.type}</text>
+                  </box>
+                ))
+              )}
+            </box>
+            <box marginTop={1}>
+              <text fg={colors.textMuted}>
+                {preview.size.status === "too-large" ? "[n] Back" : "[y] Deploy  [n] Back"}
+              </text>
+            </box>
+          </box>
+        </box>
+      )}
+    </box>
+  );
+}
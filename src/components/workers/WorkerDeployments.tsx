@@ -0,0 +1,351 @@
+import { useState, useEffect, useCallback, useMemo } from "react";
+import { useScreenKeyboard } from "../../lib/overlay-context.tsx";
+import { useTheme } from "../../lib/theme-context.tsx";
+import {
+  iterateWorkerVersions,
+  listWorkerDeployments,
+  createWorkerDeployment,
+  type Worker,
+  type WorkerVersion,
+  type WorkerDeployment,
+} from "../../lib/cloudflare.ts";
+import { usePaginatedList } from "../../lib/use-paginated-list.ts";
+import { progressBar } from "../../lib/ascii-charts.ts";
+
+const MESSAGE_ANNOTATION = "workers/message";
+
+type ModalState =
+  | { type: "none" }
+  | { type: "rollback"; version: WorkerVersion }
+  | { type: "gradual"; version: WorkerVersion; baseId: string; percentage: string; message: string; field: 0 | 1; error: string | null };
+
+function shortId(id: string): string {
+  return id.slice(0, 8);
+}
+
+interface Props {
+  worker: Worker;
+  onBack: () => void;
+  onBusyChange?: (busy: boolean) => void;
+}
+
+export function WorkerDeployments({ worker, onBack, onBusyChange }: Props) {
+  const { theme } = useTheme();
+  const { colors } = theme;
+
+  const [deployments, setDeployments] = useState<WorkerDeployment[]>([]);
+  const [deploymentsError, setDeploymentsError] = useState<string | null>(null);
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const [modal, setModal] = useState<ModalState>({ type: "none" });
+  const [deploying, setDeploying] = useState(false);
+  const [actionMessage, setActionMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const source = useMemo(() => () => iterateWorkerVersions(worker.id), [worker.id]);
+  const versionList = usePaginatedList(source, "Failed to load versions");
+  const versions = versionList.items;
+
+  const loadDeployments = useCallback(async () => {
+    setDeploymentsError(null);
+    try {
+      const data = await listWorkerDeployments(worker.id);
+      setDeployments([...data].sort((a, b) => b.created_on.localeCompare(a.created_on)));
+    } catch (err) {
+      setDeploymentsError(err instanceof Error ? err.message : "Failed to load deployments");
+    }
+  }, [worker.id]);
+
+  useEffect(() => {
+    loadDeployments();
+  }, [loadDeployments]);
+
+  useEffect(() => {
+    onBusyChange?.(modal.type !== "none" || deploying);
+  }, [modal.type, deploying, onBusyChange]);
+
+  const active = deployments[0];
+  const traffic = new Map(active?.versions.map((v) => [v.version_id, v.percentage]) ?? []);
+  const numbers = new Map(versions.map((v) => [v.id, v.number]));
+  const label = (id: string) => (numbers.has(id) ? `v${numbers.get(id)} (${shortId(id)})` : shortId(id));
+
+  const refresh = () => {
+    versionList.reload();
+    loadDeployments();
+  };
+
+  const deploy = async (split: Array<{ version_id: string; percentage: number }>, message: string, summary: string) => {
+    setModal({ type: "none" });
+    setDeploying(true);
+    setError(null);
+    try {
+      await createWorkerDeployment(worker.id, split, message || undefined);
+      setActionMessage(summary);
+      setTimeout(() => setActionMessage(null), 3000);
+      loadDeployments();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Deployment failed");
+    } finally {
+      setDeploying(false);
+    }
+  };
+
+  const openGradual = (version: WorkerVersion) => {
+    const base = active?.versions
+      .filter((v) => v.version_id !== version.id)
+      .sort((a, b) => b.percentage - a.percentage)[0];
+    if (!base) {
+      setError(`${label(version.id)} already serves all traffic; select an older version to split against`);
+      return;
+    }
+    setError(null);
+    setModal({ type: "gradual", version, baseId: base.version_id, percentage: "10", message: "", field: 0, error: null });
+  };
+
+  const submitGradual = () => {
+    if (modal.type !== "gradual") return;
+    const percentage = Number(modal.percentage);
+    if (!Number.isInteger(percentage) || percentage < 1 || percentage > 99) {
+      setModal({ ...modal, error: "Enter a whole percentage between 1 and 99" });
+      return;
+    }
+    deploy(
+      [
+        { version_id: modal.version.id, percentage },
+        { version_id: modal.baseId, percentage: 100 - percentage },
+      ],
+      modal.message.trim(),
+      `Deployed ${label(modal.version.id)} to ${percentage}% of traffic`
+    );
+  };
+
+  useScreenKeyboard((key) => {
+    if (deploying) return;
+
+    if (modal.type === "rollback") {
+      if (key.name === "y") {
+        deploy(
+          [{ version_id: modal.version.id, percentage: 100 }],
+          `Rollback to ${label(modal.version.id)}`,
+          `Rolled back to ${label(modal.version.id)}`
+        );
+      } else if (key.name === "n" || key.name === "escape") {
+        setModal({ type: "none" });
+      }
+      return;
+    }
+
+    if (modal.type === "gradual") {
+      if (key.name === "escape") {
+        setModal({ type: "none" });
+      } else if (key.name === "tab" || key.name === "down" || key.name === "up") {
+        setModal({ ...modal, field: modal.field === 0 ? 1 : 0 });
+      } else if (key.name === "return") {
+        submitGradual();
+      }
+      return;
+    }
+
+    const current = versions[selectedIndex];
+    switch (key.name) {
+      case "j":
+      case "down":
+        setSelectedIndex((i) => Math.min(i + 1, versions.length - 1));
+        versionList.ensureLoaded(selectedIndex + 1);
+        break;
+      case "k":
+      case "up":
+        setSelectedIndex((i) => Math.max(i - 1, 0));
+        break;
+      case "return":
+        if (current) {
+          if (traffic.get(current.id) === 100) setError(`${label(current.id)} is already serving all traffic`);
+          else setModal({ type: "rollback", version: current });
+        }
+        break;
+      case "g":
+        if (current) openGradual(current);
+        break;
+      case "r":
+        refresh();
+        break;
+      case "escape":
+      case "backspace":
+        onBack();
+        break;
+    }
+  });
+
+  return (
+    <box flexDirection="column" flexGrow={1} padding={1}>
+      {actionMessage && (
+        <box backgroundColor={colors.success} padding={1}>
+          <text fg={colors.textInverse}>{actionMessage}</text>
+        </box>
+      )}
+
+      {error && (
+        <box backgroundColor={colors.error} padding={1}>
+          <text fg={colors.textInverse}>{error}</text>
+        </box>
+      )}
+
+      {deploying && (
+        <box padding={1}>
+          <text fg={colors.warning}>⟳ Creating deployment...</text>
+        </box>
+      )}
+
+      <box flexDirection="column" borderStyle="single" borderColor={colors.border} paddingLeft={1} paddingRight={1}>
+        <text><strong>Active deployment</strong></text>
+        {deploymentsError ? (
+          <text fg={colors.error}>{deploymentsError}</text>
+        ) : !active ? (
+          <text fg={colors.textMuted}>No deployments yet</text>
+        ) : (
+          <>
+            <text fg={colors.textMuted}>
+              {new Date(active.created_on).toLocaleString()}
+              {active.author_email ? ` by ${active.author_email}` : ""}
+              {active.source ? ` via ${active.source}` : ""}
+              {active.annotations?.[MESSAGE_ANNOTATION] ? ` — ${active.annotations[MESSAGE_ANNOTATION]}` : ""}
+            </text>
+            {active.versions.map((v) => (
+              <box key={v.version_id} flexDirection="row" gap={2}>
+                <text width={24} fg={colors.text}>{label(v.version_id)}</text>
+                <text fg={v.percentage === 100 ? colors.success : colors.warning}>
+                  {progressBar(v.percentage, 100, { width: 30 })}
+                </text>
+              </box>
+            ))}
+          </>
+        )}
+      </box>
+
+      <box marginTop={1}>
+        <text><strong>Versions</strong></text>
+      </box>
+      {versionList.error ? (
+        <text fg={colors.error}>{versionList.error}</text>
+      ) : versions.length === 0 ? (
+        <text fg={colors.textMuted}>{versionList.loading ? "⟳ Loading versions..." : "No versions"}</text>
+      ) : (
+        <box flexDirection="column" flexGrow={1}>
+          <box flexDirection="row" paddingLeft={1} backgroundColor={colors.surfaceAlt}>
+            <text width="14%"><strong>Version</strong></text>
+            <text width="22%"><strong>Author</strong></text>
+            <text width="20%"><strong>Created</strong></text>
+            <text width="34%"><strong>Message</strong></text>
+            <text width="10%"><strong>Traffic</strong></text>
+          </box>
+          <scrollbox flexDirection="column" flexGrow={1}>
+            {versions.map((version, index) => {
+              const isSelected = index === selectedIndex;
+              const share = traffic.get(version.id);
+              return (
+                <box key={version.id} flexDirection="row" paddingLeft={1} backgroundColor={isSelected ? colors.surfaceAlt : undefined}>
+                  <text width="14%" fg={isSelected ? colors.primary : colors.text}>
+                    {isSelected ? "> " : "  "}v{version.number}
+                  </text>
+                  <text width="22%" fg={colors.textMuted}>{version.metadata.author_email ?? "—"}</text>
+                  <text width="20%" fg={colors.textMuted}>{new Date(version.metadata.created_on).toLocaleString()}</text>
+                  <text width="34%" fg={colors.textMuted}>
+                    {version.annotations?.[MESSAGE_ANNOTATION] ?? version.metadata.source ?? ""}
+                  </text>
+                  <text width="10%" fg={share ? colors.success : colors.textMuted}>{share ? `${share}%` : ""}</text>
+                </box>
+              );
+            })}
+            {versionList.hasMore && (
+              <text fg={colors.textMuted}>{versionList.loading ? "⟳ Loading more..." : "↓ more versions"}</text>
+            )}
+          </scrollbox>
+        </box>
+      )}
+
+      {deployments.length > 1 && (
+        <box flexDirection="column" marginTop={1}>
+          <text><strong>Recent deployments</strong></text>
+          {deployments.slice(1, 6).map((deployment) => (
+            <text key={deployment.id} fg={colors.textMuted}>
+              {new Date(deployment.created_on).toLocaleString()}{"  "}
+              {deployment.versions.map((v) => `${label(v.version_id)} ${v.percentage}%`).join(", ")}
+              {deployment.annotations?.[MESSAGE_ANNOTATION] ? ` — ${deployment.annotations[MESSAGE_ANNOTATION]}` : ""}
+            </text>
+          ))}
+        </box>
+      )}
+
+      <box marginTop={1}>
+        <text fg={colors.textMuted}>↑/↓ Select version • Enter Roll back to version • g Gradual deploy • r Refresh • Esc Back</text>
+      </box>
+
+      {modal.type === "rollback" && (
+        <box position="absolute" top={0} left={0} right={0} bottom={0} justifyContent="center" alignItems="center" backgroundColor="rgba(0,0,0,0.7)">
+          <box flexDirection="column" borderStyle="double" borderColor={colors.warning} backgroundColor={colors.surface} padding={2} minWidth={50}>
+            <text fg={colors.warning}><strong>⚠ Confirm Rollback</strong></text>
+            <box marginTop={1}>
+              <text fg={colors.text}>Send 100% of {worker.id} traffic to {label(modal.version.id)}?</text>
+            </box>
+            <box marginTop={1}>
+              <text fg={colors.textMuted}>[y] Yes  [n] No</text>
+            </box>
+          </box>
+        </box>
+      )}
+
+      {modal.type === "gradual" && (
+        <box position="absolute" top={0} left={0} right={0} bottom={0} justifyContent="center" alignItems="center" backgroundColor="rgba(0,0,0,0.7)">
+          <box flexDirection="column" borderStyle="double" borderColor={colors.primary} backgroundColor={colors.surface} padding={2} minWidth={70}>
+            <text fg={colors.primary}>
+              <strong>Gradual Deployment</strong>
+            </text>
+            <box marginTop={1}>
+              <text fg={colors.textMuted}>
+                Split traffic between {label(modal.version.id)} and the current {label(modal.baseId)}
+              </text>
+            </box>
+            <box marginTop={1} flexDirection="row">
+              <box width={22}>
+                <text fg={modal.field === 0 ? colors.primary : colors.text}>{label(modal.version.id)} %:</text>
+              </box>
+              <input
+                value={modal.percentage}
+                onInput={(percentage) => setModal((prev) => (prev.type === "gradual" ? { ...prev, percentage } : prev))}
+                placeholder="10"
+                focused={modal.field === 0}
+                width={8}
+                backgroundColor={colors.backgroundAlt}
+                textColor={colors.text}
+              />
+              <text fg={colors.textMuted}>
+                {"  "}{label(modal.baseId)} keeps {Number.isFinite(Number(modal.percentage)) ? 100 - Number(modal.percentage) : "?"}%
+              </text>
+            </box>
+            <box marginTop={1} flexDirection="row">
+              <box width={22}>
+                <text fg={modal.field === 1 ? colors.primary : colors.text}>Message:</text>
+              </box>
+              <input
+                value={modal.message}
+                onInput={(message) => setModal((prev) => (prev.type === "gradual" ? { ...prev, message } : prev))}
+                placeholder="optional deployment message"
+                focused={modal.field === 1}
+                width={44}
+                backgroundColor={colors.backgroundAlt}
+                textColor={colors.text}
+              />
+            </box>
+            {modal.error && (
+              <box marginTop={1}>
+                <text fg={colors.error}>{modal.error}</text>
+              </box>
+            )}
+            <box marginTop={2}>
+              <text fg={colors.textMuted}>Tab Next field • Enter Deploy • Esc Cancel</text>
+            </box>
+          </box>
+        </box>
+      )}
+    </box>
+  );
+}
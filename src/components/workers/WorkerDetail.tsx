@@ -0,0 +1,81 @@
+import { useState } from "react";
+import { useRenderer } from "@opentui/react";
+import { useScreenKeyboard } from "../../lib/overlay-context.tsx";
+import { useTheme } from "../../lib/theme-context.tsx";
+import type { Worker } from "../../lib/cloudflare.ts";
+import { WorkerOverview } from "./WorkerOverview.tsx";
+import { WorkerEnvironment } from "./WorkerEnvironment.tsx";
+import { WorkerTriggers } from "./WorkerTriggers.tsx";
+import { ScriptSource } from "./ScriptSource.tsx";
+import { WorkerDeployments } from "./WorkerDeployments.tsx";
+import { WorkerDeploy } from "./WorkerDeploy.tsx";
+import { WorkerTail } from "./WorkerTail.tsx";
+
+type Tab = "overview" | "environment" | "triggers" | "source" | "deployments" | "deploy" | "tail";
+
+const TABS: Array<{ id: Tab; label: string }> = [
+  { id: "overview", label: "Overview" },
+  { id: "environment", label: "Secrets & Vars" },
+  { id: "triggers", label: "Triggers" },
+  { id: "source", label: "Source" },
+  { id: "deployments", label: "Deployments" },
+  { id: "deploy", label: "Deploy" },
+  { id: "tail", label: "Tail" },
+];
+
+interface Props {
+  worker: Worker;
+  onBack: () => void;
+}
+
+export function WorkerDetail({ worker, onBack }: Props) {
+  const { theme } = useTheme();
+  const { colors } = theme;
+  const renderer = useRenderer();
+
+  const [tab, setTab] = useState<Tab>("overview");
+  const [busy, setBusy] = useState(false);
+
+  useScreenKeyboard((key) => {
+    if (key.name !== "tab" || busy || renderer.currentFocusedRenderable?.focused) return;
+    const index = TABS.findIndex((t) => t.id === tab);
+    const next = TABS[(index + (key.shift ? -1 : 1) + TABS.length) % TABS.length];
+    if (next) setTab(next.id);
+  });
+
+  return (
+    <box flexDirection="column" flexGrow={1}>
+      <box flexDirection="row" gap={1} paddingLeft={1} paddingTop={1}>
+        <text fg={colors.primary}>‹ Back (Esc)</text>
+        <text>|</text>
+        <text><strong>{worker.id}</strong></text>
+      </box>
+
+      <box flexDirection="row" gap={2} paddingLeft={1}>
+        {TABS.map((t) => (
+          <box
+            key={t.id}
+            paddingLeft={2}
+            paddingRight={2}
+            borderStyle={tab === t.id ? "single" : undefined}
+            borderColor={tab === t.id ? colors.primary : undefined}
+            backgroundColor={tab === t.id ? colors.surfaceAlt : undefined}
+          >
+            <text>
+              <span fg={tab === t.id ? colors.primary : colors.textMuted}>{t.label}</span>
+            </text>
+          </box>
+        ))}
+        <text fg={colors.textMuted}>[Tab] Switch</text>
+      </box>
+
+      {tab === "overview" && <WorkerOverview worker={worker} onBack={onBack} />}
+      {tab === "environment" && <WorkerEnvironment worker={worker} onBack={onBack} onBusyChange={setBusy} />}
+      {tab === "triggers" && <WorkerTriggers worker={worker} onBack={onBack} onBusyChange={setBusy} />}
+      {tab === "source" && <ScriptSource worker={worker} onBack={onBack} />}
+      {tab === "deployments" && <WorkerDeployments worker={worker} onBack={onBack} onBusyChange={setBusy} />}
+      {tab === "deploy" && <WorkerDeploy worker={worker} onBack={onBack} onBusyChange={setBusy} />}
+      {tab === "tail" && <WorkerTail worker={worker} onBack={onBack} onBusyChange={setBusy} />}
+    </box>
+  );
+}
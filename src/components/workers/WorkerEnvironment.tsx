@@ -0,0 +1,567 @@
+import { useState, useEffect, useCallback } from "react";
+import { useScreenKeyboard } from "../../lib/overlay-context.tsx";
+import { useTheme } from "../../lib/theme-context.tsx";
+import {
+  listWorkerSecrets,
+  putWorkerSecret,
+  deleteWorkerSecret,
+  getWorkerSettings,
+  updateWorkerVariables,
+  type Worker,
+  type WorkerBinding,
+  type WorkerSecret,
+  type WorkerVariable,
+} from "../../lib/cloudflare.ts";
+import { readDotenvFile, planSecretImport, type SecretImportChange } from "../../lib/worker-env.ts";
+
+const BINDING_NAME = /^[A-Za-z_][A-Za-z0-9_]*$/;
+const DEFAULT_IMPORT_PATH = "./.dev.vars";
+
+type Row = { kind: "secret"; secret: WorkerSecret } | { kind: "variable"; variable: WorkerVariable };
+
+type ModalState =
+  | { type: "none" }
+  | { type: "secret"; name: string; value: string; rotate: boolean; field: 0 | 1; error: string | null }
+  | { type: "variable"; name: string; value: string; original: WorkerVariable | null; field: 0 | 1; error: string | null }
+  | { type: "delete"; row: Row }
+  | { type: "import"; path: string; error: string | null }
+  | { type: "preview"; path: string; values: Map<string, string>; changes: SecretImportChange[] };
+
+const IMPORT_LABELS: Record<SecretImportChange["action"], string> = {
+  create: "+ add",
+  rotate: "~ rotate",
+  conflict: "! skip",
+};
+
+function toVariable(binding: WorkerBinding): WorkerVariable {
+  return binding.type === "json"
+    ? { name: binding.name, type: "json", json: binding.json }
+    : { name: binding.name, type: "plain_text", text: String(binding.text ?? "") };
+}
+
+function variableValue(variable: WorkerVariable): string {
+  return variable.type === "json" ? JSON.stringify(variable.json) : variable.text;
+}
+
+function rowName(row: Row): string {
+  return row.kind === "secret" ? row.secret.name : row.variable.name;
+}
+
+interface Props {
+  worker: Worker;
+  onBack: () => void;
+  onBusyChange?: (busy: boolean) => void;
+}
+
+export function WorkerEnvironment({ worker, onBack, onBusyChange }: Props) {
+  const { theme } = useTheme();
+  const { colors } = theme;
+
+  const [secrets, setSecrets] = useState<WorkerSecret[]>([]);
+  const [variables, setVariables] = useState<WorkerVariable[]>([]);
+  const [bindingNames, setBindingNames] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const [modal, setModal] = useState<ModalState>({ type: "none" });
+  const [working, setWorking] = useState<string | null>(null);
+  const [actionMessage, setActionMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const [secretList, settings] = await Promise.all([listWorkerSecrets(worker.id), getWorkerSettings(worker.id)]);
+      setSecrets([...secretList].sort((a, b) => a.name.localeCompare(b.name)));
+      setVariables(
+        settings.bindings
+          .filter((b) => b.type === "plain_text" || b.type === "json")
+          .map(toVariable)
+          .sort((a, b) => a.name.localeCompare(b.name))
+      );
+      setBindingNames(settings.bindings.filter((b) => b.type !== "secret_text").map((b) => b.name));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load secrets and variables");
+    } finally {
+      setLoading(false);
+    }
+  }, [worker.id]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  useEffect(() => {
+    onBusyChange?.(modal.type !== "none" || working !== null);
+  }, [modal.type, working, onBusyChange]);
+
+  const rows: Row[] = [
+    ...secrets.map((secret) => ({ kind: "secret" as const, secret })),
+    ...variables.map((variable) => ({ kind: "variable" as const, variable })),
+  ];
+  const secretNames = secrets.map((s) => s.name);
+
+  const run = async (label: string, action: () => Promise<void>, summary: string) => {
+    setModal({ type: "none" });
+    setWorking(label);
+    setError(null);
+    try {
+      await action();
+      setActionMessage(summary);
+      setTimeout(() => setActionMessage(null), 3000);
+      await load();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Request failed");
+    } finally {
+      setWorking(null);
+    }
+  };
+
+  const submitSecret = () => {
+    if (modal.type !== "secret") return;
+    const name = modal.name.trim();
+    if (!BINDING_NAME.test(name)) {
+      setModal({ ...modal, error: "Names must start with a letter or underscore and use only letters, digits and _" });
+      return;
+    }
+    if (!modal.rotate && bindingNames.includes(name)) {
+      setModal({ ...modal, error: `${name} is already used by another binding` });
+      return;
+    }
+    if (!modal.value) {
+      setModal({ ...modal, error: "Enter a secret value" });
+      return;
+    }
+    const rotating = secretNames.includes(name);
+    run(
+      rotating ? `Rotating ${name}...` : `Creating ${name}...`,
+      async () => {
+        await putWorkerSecret(worker.id, name, modal.value);
+      },
+      rotating ? `Rotated secret ${name}` : `Created secret ${name}`
+    );
+  };
+
+  const submitVariable = () => {
+    if (modal.type !== "variable") return;
+    const name = modal.name.trim();
+    if (!BINDING_NAME.test(name)) {
+      setModal({ ...modal, error: "Names must start with a letter or underscore and use only letters, digits and _" });
+      return;
+    }
+    const renamed = modal.original?.name !== name;
+    if (renamed && (bindingNames.includes(name) || secretNames.includes(name))) {
+      setModal({ ...modal, error: `${name} is already used by another binding` });
+      return;
+    }
+    let next: WorkerVariable;
+    if (modal.original?.type === "json") {
+      try {
+        next = { name, type: "json", json: JSON.parse(modal.value) };
+      } catch {
+        setModal({ ...modal, error: "Value must be valid JSON" });
+        return;
+      }
+    } else {
+      next = { name, type: "plain_text", text: modal.value };
+    }
+    const others = variables.filter((v) => v.name !== modal.original?.name);
+    run(
+      `Saving ${name}...`,
+      async () => {
+        await updateWorkerVariables(worker.id, [...others, next]);
+      },
+      modal.original ? `Updated variable ${name}` : `Added variable ${name}`
+    );
+  };
+
+  const confirmDelete = (row: Row) => {
+    const name = rowName(row);
+    run(
+      `Deleting ${name}...`,
+      async () => {
+        if (row.kind === "secret") await deleteWorkerSecret(worker.id, name);
+        else await updateWorkerVariables(worker.id, variables.filter((v) => v.name !== name));
+      },
+      `Deleted ${row.kind} ${name}`
+    );
+  };
+
+  const previewImport = async (path: string) => {
+    if (!path.trim()) {
+      setModal({ type: "import", path, error: "Enter a file path" });
+      return;
+    }
+    try {
+      const values = await readDotenvFile(path);
+      if (values.size === 0) {
+        setModal({ type: "import", path, error: "No KEY=value entries found in file" });
+        return;
+      }
+      setModal({ type: "preview", path, values, changes: planSecretImport(values, secretNames, bindingNames) });
+    } catch (err) {
+      setModal({ type: "import", path, error: err instanceof Error ? err.message : "Failed to read file" });
+    }
+  };
+
+  const applyImport = (values: Map<string, string>, changes: SecretImportChange[]) => {
+    const pending = changes.filter((c) => c.action !== "conflict");
+    if (pending.length === 0) {
+      setModal({ type: "none" });
+      setError("Nothing to import: every entry conflicts with an existing binding");
+      return;
+    }
+    run(
+      `Importing ${pending.length} secrets...`,
+      async () => {
+        for (const [index, change] of pending.entries()) {
+          setWorking(`Importing secrets ${index + 1}/${pending.length}: ${change.name}`);
+          await putWorkerSecret(worker.id, change.name, values.get(change.name) ?? "");
+        }
+      },
+      `Imported ${pending.length} secrets`
+    );
+  };
+
+  useScreenKeyboard((key) => {
+    if (working) return;
+
+    if (modal.type === "secret" || modal.type === "variable") {
+      if (key.name === "escape") {
+        setModal({ type: "none" });
+      } else if (key.name === "tab" || key.name === "down" || key.name === "up") {
+        const locked = modal.type === "secret" ? modal.rotate : false;
+        if (!locked) setModal({ ...modal, field: modal.field === 0 ? 1 : 0 });
+      } else if (key.name === "return") {
+        if (modal.type === "secret") submitSecret();
+        else submitVariable();
+      }
+      return;
+    }
+
+    if (modal.type === "delete") {
+      if (key.name === "y") {
+        confirmDelete(modal.row);
+      } else if (key.name === "n" || key.name === "escape") {
+        setModal({ type: "none" });
+      }
+      return;
+    }
+
+    if (modal.type === "import") {
+      if (key.name === "escape") {
+        setModal({ type: "none" });
+      } else if (key.name === "return") {
+        previewImport(modal.path);
+      }
+      return;
+    }
+
+    if (modal.type === "preview") {
+      if (key.name === "y" || key.name === "return") {
+        applyImport(modal.values, modal.changes);
+      } else if (key.name === "n" || key.name === "escape") {
+        setModal({ type: "none" });
+      }
+      return;
+    }
+
+    const current = rows[selectedIndex];
+    switch (key.name) {
+      case "j":
+      case "down":
+        setSelectedIndex((i) => Math.min(i + 1, rows.length - 1));
+        break;
+      case "k":
+      case "up":
+        setSelectedIndex((i) => Math.max(i - 1, 0));
+        break;
+      case "return":
+      case "e":
+        if (current?.kind === "secret") {
+          setModal({ type: "secret", name: current.secret.name, value: "", rotate: true, field: 1, error: null });
+        } else if (current?.kind === "variable") {
+          const { variable } = current;
+          setModal({ type: "variable", name: variable.name, value: variableValue(variable), original: variable, field: 1, error: null });
+        }
+        break;
+      case "n":
+        setModal({ type: "secret", name: "", value: "", rotate: false, field: 0, error: null });
+        break;
+      case "v":
+        setModal({ type: "variable", name: "", value: "", original: null, field: 0, error: null });
+        break;
+      case "d":
+        if (current) setModal({ type: "delete", row: current });
+        break;
+      case "i":
+        setModal({ type: "import", path: DEFAULT_IMPORT_PATH, error: null });
+        break;
+      case "r":
+        load();
+        break;
+      case "escape":
+      case "backspace":
+        onBack();
+        break;
+    }
+  });
+
+  if (loading && rows.length === 0 && !error) {
+    return (
+      <box padding={1}>
+        <text fg={colors.textMuted}>⟳ Loading secrets and variables...</text>
+      </box>
+    );
+  }
+
+  const renderRow = (row: Row, index: number) => {
+    const isSelected = index === selectedIndex;
+    const name = rowName(row);
+    return (
+      <box key={`${row.kind}-${name}`} flexDirection="row" paddingLeft={1} backgroundColor={isSelected ? colors.surfaceAlt : undefined}>
+        <text width="35%" fg={isSelected ? colors.primary : colors.text}>
+          {isSelected ? "> " : "  "}{name}
+        </text>
+        {row.kind === "secret" ? (
+          <text width="65%" fg={colors.textMuted}>•••••• (value hidden)</text>
+        ) : (
+          <text width="65%" fg={colors.textMuted}>
+            {row.variable.type === "json" ? "[json] " : ""}{variableValue(row.variable)}
+          </text>
+        )}
+      </box>
+    );
+  };
+
+  return (
+    <box flexDirection="column" flexGrow={1} padding={1}>
+      {actionMessage && (
+        <box backgroundColor={colors.success} padding={1}>
+          <text fg={colors.textInverse}>{actionMessage}</text>
+        </box>
+      )}
+
+      {error && (
+        <box backgroundColor={colors.error} padding={1}>
+          <text fg={colors.textInverse}>{error}</text>
+        </box>
+      )}
+
+      {working && (
+        <box padding={1}>
+          <text fg={colors.warning}>⟳ {working}</text>
+        </box>
+      )}
+
+      <scrollbox flexDirection="column" flexGrow={1}>
+        <text><strong>Secrets</strong> <span fg={colors.textMuted}>({secrets.length})</span></text>
+        {secrets.length === 0 ? (
+          <text fg={colors.textMuted}>  No secrets</text>
+        ) : (
+          rows.slice(0, secrets.length).map((row, index) => renderRow(row, index))
+        )}
+
+        <box marginTop={1}>
+          <text><strong>Environment variables</strong> <span fg={colors.textMuted}>({variables.length})</span></text>
+        </box>
+        {variables.length === 0 ? (
+          <text fg={colors.textMuted}>  No variables</text>
+        ) : (
+          rows.slice(secrets.length).map((row, index) => renderRow(row, secrets.length + index))
+        )}
+      </scrollbox>
+
+      <box marginTop={1}>
+        <text fg={colors.textMuted}>
+          ↑/↓ Select • Enter Rotate/edit • n New secret • v New variable • i Import .dev.vars • d Delete • r Refresh • Esc Back
+        </text>
+      </box>
+
+      {modal.type === "secret" && (
+        <box position="absolute" top={0} left={0} right={0} bottom={0} justifyContent="center" alignItems="center" backgroundColor="rgba(0,0,0,0.7)">
+          <box flexDirection="column" borderStyle="double" borderColor={colors.primary} backgroundColor={colors.surface} padding={2} minWidth={70}>
+            <text fg={colors.primary}>
+              <strong>{modal.rotate ? `Rotate Secret ${modal.name}` : "New Secret"}</strong>
+            </text>
+            {!modal.rotate && (
+              <box marginTop={1} flexDirection="row">
+                <box width={10}>
+                  <text fg={modal.field === 0 ? colors.primary : colors.text}>Name:</text>
+                </box>
+                <input
+                  value={modal.name}
+                  onInput={(name) => setModal((prev) => (prev.type === "secret" ? { ...prev, name } : prev))}
+                  placeholder="API_KEY"
+                  focused={modal.field === 0}
+                  width={50}
+                  backgroundColor={colors.backgroundAlt}
+                  textColor={colors.text}
+                />
+              </box>
+            )}
+            <box marginTop={1} flexDirection="row">
+              <box width={10}>
+                <text fg={modal.field === 1 ? colors.primary : colors.text}>Value:</text>
+              </box>
+              <input
+                value={modal.value}
+                onInput={(value) => setModal((prev) => (prev.type === "secret" ? { ...prev, value } : prev))}
+                focused={modal.field === 1}
+                width={50}
+                backgroundColor={colors.backgroundAlt}
+                textColor={colors.backgroundAlt}
+              />
+            </box>
+            <box marginTop={1}>
+              <text fg={colors.textMuted}>Input is hidden • {modal.value.length} characters entered</text>
+            </box>
+            {modal.error && (
+              <box marginTop={1}>
+                <text fg={colors.error}>{modal.error}</text>
+              </box>
+            )}
+            <box marginTop={2}>
+              <text fg={colors.textMuted}>{modal.rotate ? "" : "Tab Next field • "}Enter Save • Esc Cancel</text>
+            </box>
+          </box>
+        </box>
+      )}
+
+      {modal.type === "variable" && (
+        <box position="absolute" top={0} left={0} right={0} bottom={0} justifyContent="center" alignItems="center" backgroundColor="rgba(0,0,0,0.7)">
+          <box flexDirection="column" borderStyle="double" borderColor={colors.primary} backgroundColor={colors.surface} padding={2} minWidth={70}>
+            <text fg={colors.primary}>
+              <strong>{modal.original ? `Edit Variable ${modal.original.name}` : "New Variable"}</strong>
+            </text>
+            <box marginTop={1} flexDirection="row">
+              <box width={10}>
+                <text fg={modal.field === 0 ? colors.primary : colors.text}>Name:</text>
+              </box>
+              <input
+                value={modal.name}
+                onInput={(name) => setModal((prev) => (prev.type === "variable" ? { ...prev, name } : prev))}
+                placeholder="ENVIRONMENT"
+                focused={modal.field === 0}
+                width={50}
+                backgroundColor={colors.backgroundAlt}
+                textColor={colors.text}
+              />
+            </box>
+            <box marginTop={1} flexDirection="row">
+              <box width={10}>
+                <text fg={modal.field === 1 ? colors.primary : colors.text}>Value:</text>
+              </box>
+              <input
+                value={modal.value}
+                onInput={(value) => setModal((prev) => (prev.type === "variable" ? { ...prev, value } : prev))}
+                placeholder={modal.original?.type === "json" ? '{"key": "value"}' : "production"}
+                focused={modal.field === 1}
+                width={50}
+                backgroundColor={colors.backgroundAlt}
+                textColor={colors.text}
+              />
+            </box>
+            <box marginTop={1}>
+              <text fg={colors.textMuted}>Saving creates a new version of {worker.id} with the updated variables.</text>
+            </box>
+            {modal.error && (
+              <box marginTop={1}>
+                <text fg={colors.error}>{modal.error}</text>
+              </box>
+            )}
+            <box marginTop={2}>
+              <text fg={colors.textMuted}>Tab Next field • Enter Save • Esc Cancel</text>
+            </box>
+          </box>
+        </box>
+      )}
+
+      {modal.type === "delete" && (
+        <box position="absolute" top={0} left={0} right={0} bottom={0} justifyContent="center" alignItems="center" backgroundColor="rgba(0,0,0,0.7)">
+          <box flexDirection="column" borderStyle="double" borderColor={colors.error} backgroundColor={colors.surface} padding={2} minWidth={50}>
+            <text fg={colors.error}><strong>⚠ Confirm Delete</strong></text>
+            <box marginTop={1}>
+              <text fg={colors.text}>Delete {modal.row.kind} {rowName(modal.row)} from {worker.id}?</text>
+            </box>
+            <box marginTop={1}>
+              <text fg={colors.textMuted}>[y] Yes  [n] No</text>
+            </box>
+          </box>
+        </box>
+      )}
+
+      {modal.type === "import" && (
+        <box position="absolute" top={0} left={0} right={0} bottom={0} justifyContent="center" alignItems="center" backgroundColor="rgba(0,0,0,0.7)">
+          <box flexDirection="column" borderStyle="double" borderColor={colors.primary} backgroundColor={colors.surface} padding={2} minWidth={70}>
+            <text fg={colors.primary}>
+              <strong>Import Secrets</strong>
+            </text>
+            <box marginTop={1} flexDirection="row">
+              <box width={8}>
+                <text fg={colors.text}>File:</text>
+              </box>
+              <input
+                value={modal.path}
+                onInput={(path) => setModal((prev) => (prev.type === "import" ? { ...prev, path } : prev))}
+                placeholder={DEFAULT_IMPORT_PATH}
+                focused
+                width={56}
+                backgroundColor={colors.backgroundAlt}
+                textColor={colors.text}
+              />
+            </box>
+            <box marginTop={1}>
+              <text fg={colors.textMuted}>Reads KEY=value lines from a .dev.vars or dotenv file.</text>
+            </box>
+            {modal.error && (
+              <box marginTop={1}>
+                <text fg={colors.error}>{modal.error}</text>
+              </box>
+            )}
+            <box marginTop={2}>
+              <text fg={colors.textMuted}>Enter Preview changes • Esc Cancel</text>
+            </box>
+          </box>
+        </box>
+      )}
+
+      {modal.type === "preview" && (
+        <box position="absolute" top={0} left={0} right={0} bottom={0} justifyContent="center" alignItems="center" backgroundColor="rgba(0,0,0,0.7)">
+          <box flexDirection="column" borderStyle="double" borderColor={colors.warning} backgroundColor={colors.surface} padding={2} minWidth={70}>
+            <text fg={colors.warning}>
+              <strong>Import Preview</strong>
+            </text>
+            <text fg={colors.textMuted}>{modal.path}</text>
+            <box flexDirection="column" marginTop={1}>
+              {modal.changes.map((change) => (
+                <box key={change.name} flexDirection="row" gap={2}>
+                  <text
+                    width={10}
+                    fg={change.action === "create" ? colors.success : change.action === "rotate" ? colors.warning : colors.error}
+                  >
+                    {IMPORT_LABELS[change.action]}
+                  </text>
+                  <text width={32} fg={colors.text}>{change.name}</text>
+                  <text fg={colors.textMuted}>
+                    {change.action === "conflict" ? "name used by a variable or binding" : `${change.length} characters`}
+                  </text>
+                </box>
+              ))}
+            </box>
+            <box marginTop={1}>
+              <text fg={colors.textMuted}>
+                {modal.changes.filter((c) => c.action === "create").length} new •{" "}
+                {modal.changes.filter((c) => c.action === "rotate").length} rotated •{" "}
+                {modal.changes.filter((c) => c.action === "conflict").length} skipped • existing secrets not in the file are kept
+              </text>
+            </box>
+            <box marginTop={1}>
+              <text fg={colors.textMuted}>[y] Apply  [n] Cancel</text>
+            </box>
+          </box>
+        </box>
+      )}
+    </box>
+  );
+}
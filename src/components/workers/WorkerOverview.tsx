@@ -0,0 +1,289 @@
+import { useState, useEffect, useCallback } from "react";
+import { useScreenKeyboard } from "../../lib/overlay-context.tsx";
+import { useTheme } from "../../lib/theme-context.tsx";
+import { useRouter } from "../../lib/router.tsx";
+import {
+  getWorkerSettings,
+  listWorkerSchedules,
+  listAccountWorkerRoutes,
+  type Worker,
+  type WorkerBinding,
+  type WorkerSettings,
+  type WorkerSchedule,
+  type ZoneWorkerRoute,
+} from "../../lib/cloudflare.ts";
+import type { RouteId } from "../../types/index.ts";
+
+const BINDING_LABELS: Record<string, string> = {
+  kv_namespace: "KV",
+  r2_bucket: "R2",
+  d1: "D1",
+  secret_text: "Secret",
+  plain_text: "Variable",
+  json: "JSON variable",
+  service: "Service",
+  durable_object_namespace: "Durable Object",
+  queue: "Queue",
+  analytics_engine: "Analytics Engine",
+  ai: "Workers AI",
+  vectorize: "Vectorize",
+  hyperdrive: "Hyperdrive",
+  browser: "Browser Rendering",
+  version_metadata: "Version metadata",
+};
+
+function bindingTarget(binding: WorkerBinding): string {
+  switch (binding.type) {
+    case "kv_namespace":
+      return String(binding.namespace_id ?? "");
+    case "r2_bucket":
+      return String(binding.bucket_name ?? "");
+    case "d1":
+      return String(binding.id ?? binding.database_id ?? "");
+    case "service":
+      return `${binding.service}${binding.environment ? ` (${binding.environment})` : ""}`;
+    case "durable_object_namespace":
+      return `${binding.class_name}${binding.script_name ? ` in ${binding.script_name}` : ""}`;
+    case "queue":
+      return String(binding.queue_name ?? "");
+    case "analytics_engine":
+      return String(binding.dataset ?? "");
+    case "secret_text":
+      return "••••••";
+    default:
+      return "";
+  }
+}
+
+function bindingJump(binding: WorkerBinding): { route: RouteId; params: Record<string, string> } | null {
+  switch (binding.type) {
+    case "kv_namespace":
+      return { route: "kv", params: { namespace: String(binding.namespace_id) } };
+    case "r2_bucket":
+      return { route: "r2", params: { bucket: String(binding.bucket_name) } };
+    case "d1":
+      return { route: "d1", params: { database: String(binding.id ?? binding.database_id) } };
+    default:
+      return null;
+  }
+}
+
+function isVariable(binding: WorkerBinding): boolean {
+  return binding.type === "plain_text" || binding.type === "json";
+}
+
+function variableValue(binding: WorkerBinding): string {
+  return binding.type === "json" ? JSON.stringify(binding.json) : String(binding.text ?? "");
+}
+
+interface Props {
+  worker: Worker;
+  onBack: () => void;
+}
+
+export function WorkerOverview({ worker, onBack }: Props) {
+  const { theme } = useTheme();
+  const { colors } = theme;
+  const { navigate } = useRouter();
+
+  const [settings, setSettings] = useState<WorkerSettings | null>(null);
+  const [schedules, setSchedules] = useState<WorkerSchedule[]>([]);
+  const [routes, setRoutes] = useState<ZoneWorkerRoute[] | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [routesError, setRoutesError] = useState<string | null>(null);
+  const [selectedIndex, setSelectedIndex] = useState(0);
+
+  const loadSettings = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const [data, crons] = await Promise.all([getWorkerSettings(worker.id), listWorkerSchedules(worker.id)]);
+      setSettings(data);
+      setSchedules(crons);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load script settings");
+    } finally {
+      setLoading(false);
+    }
+  }, [worker.id]);
+
+  const loadRoutes = useCallback(async () => {
+    setRoutesError(null);
+    try {
+      const all = await listAccountWorkerRoutes();
+      setRoutes(all.filter((route) => route.script === worker.id));
+    } catch (err) {
+      setRoutesError(err instanceof Error ? err.message : "Failed to load routes");
+    }
+  }, [worker.id]);
+
+  useEffect(() => {
+    loadSettings();
+    loadRoutes();
+  }, [loadSettings, loadRoutes]);
+
+  const bindings = (settings?.bindings ?? []).filter((b) => !isVariable(b));
+  const variables = (settings?.bindings ?? []).filter(isVariable);
+
+  useScreenKeyboard((key) => {
+    switch (key.name) {
+      case "j":
+      case "down":
+        setSelectedIndex((i) => Math.min(i + 1, bindings.length - 1));
+        break;
+      case "k":
+      case "up":
+        setSelectedIndex((i) => Math.max(i - 1, 0));
+        break;
+      case "return": {
+        const binding = bindings[selectedIndex];
+        const jump = binding ? bindingJump(binding) : null;
+        if (jump) navigate(jump.route, jump.params);
+        break;
+      }
+      case "r":
+        loadSettings();
+        loadRoutes();
+        break;
+      case "escape":
+      case "backspace":
+        onBack();
+        break;
+    }
+  });
+
+  if (loading && !settings) {
+    return (
+      <box padding={1}>
+        <text fg={colors.textMuted}>⟳ Loading script settings...</text>
+      </box>
+    );
+  }
+
+  if (error || !settings) {
+    return (
+      <box flexDirection="column" padding={1}>
+        <text fg={colors.error}>Error: {error ?? "No settings returned"}</text>
+        <text fg={colors.textMuted}>Press 'r' to retry • Esc Back</text>
+      </box>
+    );
+  }
+
+  return (
+    <scrollbox flexDirection="column" flexGrow={1} padding={1}>
+      <box flexDirection="column" borderStyle="single" borderColor={colors.border} paddingLeft={1} paddingRight={1}>
+        <box flexDirection="row" gap={2}>
+          <text fg={colors.textMuted} width={20}>Usage Model:</text>
+          <text>{settings.usage_model ?? worker.usage_model}</text>
+        </box>
+        <box flexDirection="row" gap={2}>
+          <text fg={colors.textMuted} width={20}>Handlers:</text>
+          <text>{worker.handlers.join(", ") || "—"}</text>
+        </box>
+        <box flexDirection="row" gap={2}>
+          <text fg={colors.textMuted} width={20}>Compat Date:</text>
+          <text>{settings.compatibility_date ?? "—"}</text>
+        </box>
+        <box flexDirection="row" gap={2}>
+          <text fg={colors.textMuted} width={20}>Compat Flags:</text>
+          <text>{settings.compatibility_flags?.join(", ") || "—"}</text>
+        </box>
+        <box flexDirection="row" gap={2}>
+          <text fg={colors.textMuted} width={20}>Placement:</text>
+          <text>{settings.placement?.mode ?? "default"}</text>
+        </box>
+        <box flexDirection="row" gap={2}>
+          <text fg={colors.textMuted} width={20}>Logpush:</text>
+          <text>{settings.logpush ? "enabled" : "disabled"}</text>
+        </box>
+        <box flexDirection="row" gap={2}>
+          <text fg={colors.textMuted} width={20}>Modified:</text>
+          <text>{new Date(worker.modified_on).toLocaleString()}</text>
+        </box>
+      </box>
+
+      <box marginTop={1}>
+        <text><strong>Bindings</strong></text>
+      </box>
+      {bindings.length === 0 ? (
+        <text fg={colors.textMuted}>No bindings</text>
+      ) : (
+        <box flexDirection="column">
+          <box flexDirection="row" paddingLeft={1} backgroundColor={colors.surfaceAlt}>
+            <text width="30%"><strong>Name</strong></text>
+            <text width="20%"><strong>Type</strong></text>
+            <text width="50%"><strong>Target</strong></text>
+          </box>
+          {bindings.map((binding, index) => {
+            const isSelected = index === selectedIndex;
+            const jumpable = bindingJump(binding) !== null;
+            return (
+              <box key={binding.name} flexDirection="row" paddingLeft={1} backgroundColor={isSelected ? colors.surfaceAlt : undefined}>
+                <text width="30%" fg={isSelected ? colors.primary : colors.text}>
+                  {isSelected ? "> " : "  "}{binding.name}
+                </text>
+                <text width="20%" fg={colors.textMuted}>{BINDING_LABELS[binding.type] ?? binding.type}</text>
+                <text width="50%" fg={jumpable ? colors.info : colors.textMuted}>
+                  {bindingTarget(binding)}{jumpable ? " ↗" : ""}
+                </text>
+              </box>
+            );
+          })}
+        </box>
+      )}
+
+      <box marginTop={1}>
+        <text><strong>Environment variables</strong></text>
+      </box>
+      {variables.length === 0 ? (
+        <text fg={colors.textMuted}>No variables</text>
+      ) : (
+        variables.map((binding) => (
+          <box key={binding.name} flexDirection="row" gap={2} paddingLeft={1}>
+            <text width={28} fg={colors.text}>{binding.name}</text>
+            <text fg={colors.textMuted}>{variableValue(binding)}</text>
+          </box>
+        ))
+      )}
+
+      <box marginTop={1}>
+        <text><strong>Routes</strong></text>
+      </box>
+      {routesError ? (
+        <text fg={colors.error}>{routesError}</text>
+      ) : routes === null ? (
+        <text fg={colors.textMuted}>⟳ Scanning zone routes...</text>
+      ) : routes.length === 0 ? (
+        <text fg={colors.textMuted}>No routes</text>
+      ) : (
+        routes.map((route) => (
+          <box key={route.id} flexDirection="row" gap={2} paddingLeft={1}>
+            <text width={40} fg={colors.text}>{route.pattern}</text>
+            <text fg={colors.textMuted}>{route.zone_name}</text>
+          </box>
+        ))
+      )}
+
+      <box marginTop={1}>
+        <text><strong>Cron triggers</strong></text>
+      </box>
+      {schedules.length === 0 ? (
+        <text fg={colors.textMuted}>No cron triggers</text>
+      ) : (
+        schedules.map((schedule) => (
+          <box key={schedule.cron} flexDirection="row" gap={2} paddingLeft={1}>
+            <text width={28} fg={colors.text}>{schedule.cron}</text>
+            <text fg={colors.textMuted}>
+              {schedule.modified_on ? `updated ${new Date(schedule.modified_on).toLocaleString()}` : ""}
+            </text>
+          </box>
+        ))
+      )}
+
+      <box marginTop={1}>
+        <text fg={colors.textMuted}>↑/↓ Select binding • Enter Open KV/R2/D1 binding • r Refresh • Esc Back</text>
+      </box>
+    </scrollbox>
+  );
+}
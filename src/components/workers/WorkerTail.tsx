@@ -0,0 +1,348 @@
+import { useState, useEffect, useRef } from "react";
+import { useScreenKeyboard } from "../../lib/overlay-context.tsx";
+import { useTheme } from "../../lib/theme-context.tsx";
+import type { Worker } from "../../lib/cloudflare.ts";
+import {
+  openTailSession,
+  saveTailLog,
+  describeTailEvent,
+  formatLogMessage,
+  DEFAULT_TAIL_FILTERS,
+  type TailEvent,
+  type TailFilters,
+  type TailSession,
+  type TailStatus,
+  type TailStatusFilter,
+  type TailTransport,
+} from "../../lib/worker-tail.ts";
+
+const MAX_VISIBLE_EVENTS = 500;
+const MAX_CAPTURED_EVENTS = 10_000;
+const STATUS_FILTERS: TailStatusFilter[] = ["all", "ok", "error"];
+const METHODS: Array<string | null> = [null, "GET", "POST", "PUT", "PATCH", "DELETE", "HEAD", "OPTIONS"];
+const SAMPLING_RATES = [1, 0.5, 0.1, 0.01];
+
+interface CapturedEvent {
+  id: number;
+  event: TailEvent;
+}
+
+type ModalState =
+  | { type: "none" }
+  | { type: "search"; value: string }
+  | { type: "save"; path: string; error: string | null };
+
+function cycle<T>(values: T[], current: T): T {
+  return values[(values.indexOf(current) + 1) % values.length]!;
+}
+
+function defaultLogPath(worker: Worker): string {
+  return `./${worker.id}-tail.log`;
+}
+
+interface Props {
+  worker: Worker;
+  onBack: () => void;
+  onBusyChange?: (busy: boolean) => void;
+  transport?: TailTransport;
+}
+
+export function WorkerTail({ worker, onBack, onBusyChange, transport }: Props) {
+  const { theme } = useTheme();
+  const { colors } = theme;
+
+  const [status, setStatus] = useState<TailStatus>("connecting");
+  const [statusDetail, setStatusDetail] = useState<string | null>(null);
+  const [filters, setFilters] = useState<TailFilters>(DEFAULT_TAIL_FILTERS);
+  const [events, setEvents] = useState<CapturedEvent[]>([]);
+  const [paused, setPaused] = useState(false);
+  const [pendingCount, setPendingCount] = useState(0);
+  const [capturedCount, setCapturedCount] = useState(0);
+  const [generation, setGeneration] = useState(0);
+  const [modal, setModal] = useState<ModalState>({ type: "none" });
+  const [actionMessage, setActionMessage] = useState<string | null>(null);
+
+  const sessionRef = useRef<TailSession | null>(null);
+  const capturedRef = useRef<TailEvent[]>([]);
+  const pendingRef = useRef<CapturedEvent[]>([]);
+  const pausedRef = useRef(false);
+  const filtersRef = useRef(filters);
+  const nextId = useRef(0);
+
+  useEffect(() => {
+    let cancelled = false;
+    let session: TailSession | null = null;
+
+    const onEvent = (event: TailEvent) => {
+      if (cancelled) return;
+      capturedRef.current.push(event);
+      if (capturedRef.current.length > MAX_CAPTURED_EVENTS) capturedRef.current.shift();
+      setCapturedCount(capturedRef.current.length);
+
+      const entry = { id: nextId.current++, event };
+      if (pausedRef.current) {
+        pendingRef.current.push(entry);
+        if (pendingRef.current.length > MAX_VISIBLE_EVENTS) pendingRef.current.shift();
+        setPendingCount(pendingRef.current.length);
+      } else {
+        setEvents((prev) => [...prev, entry].slice(-MAX_VISIBLE_EVENTS));
+      }
+    };
+    const onStatus = (next: TailStatus, detail?: string) => {
+      if (cancelled) return;
+      setStatus(next);
+      setStatusDetail(detail ?? null);
+    };
+
+    setStatus("connecting");
+    setStatusDetail(null);
+    openTailSession(worker.id, filtersRef.current, { onEvent, onStatus }, transport)
+      .then((opened) => {
+        if (cancelled) {
+          opened.close();
+          return;
+        }
+        session = opened;
+        sessionRef.current = opened;
+      })
+      .catch((err) => onStatus("error", err instanceof Error ? err.message : "Failed to start tail"));
+
+    return () => {
+      cancelled = true;
+      sessionRef.current = null;
+      session?.close();
+    };
+  }, [worker.id, transport, generation]);
+
+  useEffect(() => {
+    onBusyChange?.(modal.type !== "none");
+  }, [modal.type, onBusyChange]);
+
+  const updateFilters = (next: TailFilters) => {
+    filtersRef.current = next;
+    setFilters(next);
+    sessionRef.current?.setFilters(next);
+  };
+
+  const togglePause = () => {
+    if (pausedRef.current) {
+      const pending = pendingRef.current;
+      pendingRef.current = [];
+      setPendingCount(0);
+      setEvents((prev) => [...prev, ...pending].slice(-MAX_VISIBLE_EVENTS));
+    }
+    pausedRef.current = !pausedRef.current;
+    setPaused(pausedRef.current);
+  };
+
+  const save = async (path: string) => {
+    if (!path.trim()) {
+      setModal({ type: "save", path, error: "Enter a file path" });
+      return;
+    }
+    try {
+      const target = await saveTailLog(path, capturedRef.current);
+      setModal({ type: "none" });
+      setActionMessage(`Saved ${capturedRef.current.length} events to ${target}`);
+      setTimeout(() => setActionMessage(null), 3000);
+    } catch (err) {
+      setModal({ type: "save", path, error: err instanceof Error ? err.message : "Failed to save log" });
+    }
+  };
+
+  useScreenKeyboard((key) => {
+    if (modal.type === "search") {
+      if (key.name === "escape") {
+        setModal({ type: "none" });
+      } else if (key.name === "return") {
+        updateFilters({ ...filters, search: modal.value });
+        setModal({ type: "none" });
+      }
+      return;
+    }
+
+    if (modal.type === "save") {
+      if (key.name === "escape") {
+        setModal({ type: "none" });
+      } else if (key.name === "return") {
+        save(modal.path);
+      }
+      return;
+    }
+
+    if (key.sequence === "/") {
+      setModal({ type: "search", value: filters.search });
+      return;
+    }
+
+    switch (key.name) {
+      case "space":
+      case "p":
+        togglePause();
+        break;
+      case "o":
+        updateFilters({ ...filters, status: cycle(STATUS_FILTERS, filters.status) });
+        break;
+      case "m":
+        updateFilters({ ...filters, method: cycle(METHODS, filters.method) });
+        break;
+      case "s":
+        updateFilters({ ...filters, samplingRate: cycle(SAMPLING_RATES, filters.samplingRate) });
+        break;
+      case "w":
+        setModal({ type: "save", path: defaultLogPath(worker), error: null });
+        break;
+      case "c":
+        setEvents([]);
+        capturedRef.current = [];
+        pendingRef.current = [];
+        setPendingCount(0);
+        setCapturedCount(0);
+        break;
+      case "r":
+        if (status === "closed" || status === "error") setGeneration((g) => g + 1);
+        break;
+      case "escape":
+      case "backspace":
+        onBack();
+        break;
+    }
+  });
+
+  const statusColor = status === "live" ? colors.success : status === "connecting" ? colors.warning : colors.error;
+
+  return (
+    <box flexDirection="column" flexGrow={1} padding={1}>
+      <box flexDirection="row" justifyContent="space-between">
+        <text>
+          <span fg={statusColor}>● {status}</span>
+          {statusDetail && <span fg={colors.textMuted}> {statusDetail}</span>}
+          {paused && <span fg={colors.warning}> ❚❚ paused ({pendingCount} buffered)</span>}
+        </text>
+        <text fg={colors.textMuted}>{capturedCount} events captured</text>
+      </box>
+      <box flexDirection="row" gap={3}>
+        <text>
+          <span fg={colors.textMuted}>status </span>
+          <span fg={colors.text}>{filters.status}</span>
+        </text>
+        <text>
+          <span fg={colors.textMuted}>method </span>
+          <span fg={colors.text}>{filters.method ?? "any"}</span>
+        </text>
+        <text>
+          <span fg={colors.textMuted}>sampling </span>
+          <span fg={colors.text}>{filters.samplingRate * 100}%</span>
+        </text>
+        <text>
+          <span fg={colors.textMuted}>search </span>
+          <span fg={colors.text}>{filters.search || "—"}</span>
+        </text>
+      </box>
+
+      {actionMessage && (
+        <box backgroundColor={colors.success} padding={1}>
+          <text fg={colors.textInverse}>{actionMessage}</text>
+        </box>
+      )}
+
+      <scrollbox flexDirection="column" flexGrow={1} marginTop={1} borderStyle="single" borderColor={colors.border} stickyScroll stickyStart="bottom">
+        {events.length === 0 ? (
+          <text fg={colors.textMuted}>
+            {status === "live" ? "Waiting for requests..." : "Tail output will appear here"}
+          </text>
+        ) : (
+          events.map(({ id, event }) => {
+            const failed = event.outcome !== "ok";
+            const time = event.eventTimestamp ? new Date(event.eventTimestamp).toLocaleTimeString() : "";
+            return (
+              <box key={id} flexDirection="column">
+                <text>
+                  <span fg={colors.textMuted}>{time} </span>
+                  <span fg={failed ? colors.error : colors.success}>[{event.outcome}]</span>
+                  <span fg={colors.text}> {describeTailEvent(event)}</span>
+                </text>
+                {event.logs.map((log, index) => (
+                  <text key={`log-${index}`} fg={log.level === "error" ? colors.error : log.level === "warn" ? colors.warning : colors.textMuted}>
+                    {"  "}({log.level}) {formatLogMessage(log.message)}
+                  </text>
+                ))}
+                {event.exceptions.map((exception, index) => (
+                  <text key={`ex-${index}`} fg={colors.error}>
+                    {"  "}✗ {exception.name}: {exception.message}
+                  </text>
+                ))}
+              </box>
+            );
+          })
+        )}
+      </scrollbox>
+
+      <box marginTop={1}>
+        <text fg={colors.textMuted}>
+          Space Pause/resume • o Status • m Method • s Sampling • / Search • w Save • c Clear
+          {status === "closed" || status === "error" ? " • r Reconnect" : ""} • Esc Back
+        </text>
+      </box>
+
+      {modal.type === "search" && (
+        <box position="absolute" top={0} left={0} right={0} bottom={0} justifyContent="center" alignItems="center" backgroundColor="rgba(0,0,0,0.7)">
+          <box flexDirection="column" borderStyle="double" borderColor={colors.primary} backgroundColor={colors.surface} padding={2} minWidth={70}>
+            <text fg={colors.primary}>
+              <strong>Search Filter</strong>
+            </text>
+            <box marginTop={1}>
+              <input
+                value={modal.value}
+                onInput={(value) => setModal({ type: "search", value })}
+                placeholder="Only show events whose logs contain this text"
+                focused
+                width={60}
+                backgroundColor={colors.backgroundAlt}
+                textColor={colors.text}
+              />
+            </box>
+            <box marginTop={2}>
+              <text fg={colors.textMuted}>Enter to apply (empty clears) • Esc to cancel</text>
+            </box>
+          </box>
+        </box>
+      )}
+
+      {modal.type === "save" && (
+        <box position="absolute" top={0} left={0} right={0} bottom={0} justifyContent="center" alignItems="center" backgroundColor="rgba(0,0,0,0.7)">
+          <box flexDirection="column" borderStyle="double" borderColor={colors.primary} backgroundColor={colors.surface} padding={2} minWidth={70}>
+            <text fg={colors.primary}>
+              <strong>Save Captured Log</strong>
+            </text>
+            <box marginTop={1} flexDirection="row">
+              <box width={8}>
+                <text fg={colors.text}>File:</text>
+              </box>
+              <input
+                value={modal.path}
+                onInput={(path) => setModal((prev) => (prev.type === "save" ? { ...prev, path } : prev))}
+                placeholder="./tail.log"
+                focused
+                width={56}
+                backgroundColor={colors.backgroundAlt}
+                textColor={colors.text}
+              />
+            </box>
+            <box marginTop={1}>
+              <text fg={colors.textMuted}>Plain text by default; .json, .ndjson or .jsonl keep the raw events.</text>
+            </box>
+            {modal.error && (
+              <box marginTop={1}>
+                <text fg={colors.error}>{modal.error}</text>
+              </box>
+            )}
+            <box marginTop={2}>
+              <text fg={colors.textMuted}>Enter to save • Esc to cancel</text>
+            </box>
+          </box>
+        </box>
+      )}
+    </box>
+  );
+}
@@ -0,0 +1,462 @@
+import { useState, useEffect, useCallback } from "react";
+import { useScreenKeyboard } from "../../lib/overlay-context.tsx";
+import { useTheme } from "../../lib/theme-context.tsx";
+import {
+  listZones,
+  listAccountWorkerRoutes,
+  listWorkerSchedules,
+  createWorkerRoute,
+  updateWorkerRoute,
+  deleteWorkerRoute,
+  updateWorkerSchedules,
+  type Worker,
+  type Zone,
+  type ZoneWorkerRoute,
+  type WorkerSchedule,
+} from "../../lib/cloudflare.ts";
+import { parseCron, nextFireTimes } from "../../lib/cron.ts";
+import { validateRoutePattern, zoneForPattern, findRouteOverlaps } from "../../lib/worker-routes.ts";
+
+type Row = { kind: "route"; route: ZoneWorkerRoute } | { kind: "cron"; schedule: WorkerSchedule };
+
+type ModalState =
+  | { type: "none" }
+  | { type: "route"; original: ZoneWorkerRoute | null; pattern: string; error: string | null }
+  | { type: "cron"; original: string | null; expression: string; error: string | null }
+  | { type: "delete"; row: Row };
+
+function scriptLabel(route: ZoneWorkerRoute): string {
+  return route.script || "no worker";
+}
+
+function describeCron(expression: string): { times: Date[]; error: string | null } {
+  try {
+    return { times: nextFireTimes(parseCron(expression)), error: null };
+  } catch (err) {
+    return { times: [], error: err instanceof Error ? err.message : "Invalid cron expression" };
+  }
+}
+
+interface Props {
+  worker: Worker;
+  onBack: () => void;
+  onBusyChange?: (busy: boolean) => void;
+}
+
+export function WorkerTriggers({ worker, onBack, onBusyChange }: Props) {
+  const { theme } = useTheme();
+  const { colors } = theme;
+
+  const [zones, setZones] = useState<Zone[]>([]);
+  const [allRoutes, setAllRoutes] = useState<ZoneWorkerRoute[]>([]);
+  const [schedules, setSchedules] = useState<WorkerSchedule[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const [modal, setModal] = useState<ModalState>({ type: "none" });
+  const [working, setWorking] = useState<string | null>(null);
+  const [actionMessage, setActionMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const [zoneList, routeList, scheduleList] = await Promise.all([
+        listZones(),
+        listAccountWorkerRoutes(),
+        listWorkerSchedules(worker.id),
+      ]);
+      setZones(zoneList);
+      setAllRoutes(routeList);
+      setSchedules(scheduleList);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load triggers");
+    } finally {
+      setLoading(false);
+    }
+  }, [worker.id]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  useEffect(() => {
+    onBusyChange?.(modal.type !== "none" || working !== null);
+  }, [modal.type, working, onBusyChange]);
+
+  const routes = allRoutes.filter((route) => route.script === worker.id);
+  const rows: Row[] = [
+    ...routes.map((route) => ({ kind: "route" as const, route })),
+    ...schedules.map((schedule) => ({ kind: "cron" as const, schedule })),
+  ];
+  const current = rows[selectedIndex];
+
+  const zoneWarning = (pattern: string, zoneId?: string): string | null => {
+    const zone = zoneForPattern(pattern, zones);
+    if (!zone) return "No zone in this account matches this pattern's hostname";
+    if (zoneId && zone.id !== zoneId) return `Hostname belongs to ${zone.name}, not the route's zone`;
+    return null;
+  };
+
+  const run = async (label: string, action: () => Promise<void>, summary: string) => {
+    setModal({ type: "none" });
+    setWorking(label);
+    setError(null);
+    try {
+      await action();
+      setActionMessage(summary);
+      setTimeout(() => setActionMessage(null), 3000);
+      await load();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Request failed");
+    } finally {
+      setWorking(null);
+    }
+  };
+
+  const submitRoute = () => {
+    if (modal.type !== "route") return;
+    const pattern = modal.pattern.trim();
+    const invalid = validateRoutePattern(pattern);
+    if (invalid) {
+      setModal({ ...modal, error: invalid });
+      return;
+    }
+    const zone = zoneForPattern(pattern, zones);
+    if (!zone) {
+      setModal({ ...modal, error: "No zone in this account matches this hostname; add the zone first" });
+      return;
+    }
+    const { original } = modal;
+    if (original && original.zone_id !== zone.id) {
+      setModal({ ...modal, error: `Routes cannot move between zones; delete it and add a new route in ${zone.name}` });
+      return;
+    }
+    run(
+      `Saving route ${pattern}...`,
+      async () => {
+        if (original) await updateWorkerRoute(zone.id, original.id, pattern, worker.id);
+        else await createWorkerRoute(zone.id, pattern, worker.id);
+      },
+      original ? `Updated route ${pattern}` : `Added route ${pattern} in ${zone.name}`
+    );
+  };
+
+  const submitCron = () => {
+    if (modal.type !== "cron") return;
+    const expression = modal.expression.trim().replace(/\s+/g, " ");
+    const { error: invalid } = describeCron(expression);
+    if (invalid) {
+      setModal({ ...modal, error: invalid });
+      return;
+    }
+    const crons = schedules.map((s) => s.cron).filter((cron) => cron !== modal.original);
+    if (crons.includes(expression)) {
+      setModal({ ...modal, error: "This schedule already exists" });
+      return;
+    }
+    run(
+      `Saving schedule ${expression}...`,
+      async () => {
+        await updateWorkerSchedules(worker.id, [...crons, expression]);
+      },
+      modal.original ? `Updated schedule ${expression}` : `Added schedule ${expression}`
+    );
+  };
+
+  const confirmDelete = (row: Row) => {
+    if (row.kind === "route") {
+      run(
+        `Deleting route ${row.route.pattern}...`,
+        () => deleteWorkerRoute(row.route.zone_id, row.route.id),
+        `Deleted route ${row.route.pattern}`
+      );
+    } else {
+      const crons = schedules.map((s) => s.cron).filter((cron) => cron !== row.schedule.cron);
+      run(
+        `Deleting schedule ${row.schedule.cron}...`,
+        async () => {
+          await updateWorkerSchedules(worker.id, crons);
+        },
+        `Deleted schedule ${row.schedule.cron}`
+      );
+    }
+  };
+
+  useScreenKeyboard((key) => {
+    if (working) return;
+
+    if (modal.type === "route" || modal.type === "cron") {
+      if (key.name === "escape") {
+        setModal({ type: "none" });
+      } else if (key.name === "return") {
+        if (modal.type === "route") submitRoute();
+        else submitCron();
+      }
+      return;
+    }
+
+    if (modal.type === "delete") {
+      if (key.name === "y") {
+        confirmDelete(modal.row);
+      } else if (key.name === "n" || key.name === "escape") {
+        setModal({ type: "none" });
+      }
+      return;
+    }
+
+    switch (key.name) {
+      case "j":
+      case "down":
+        setSelectedIndex((i) => Math.min(i + 1, rows.length - 1));
+        break;
+      case "k":
+      case "up":
+        setSelectedIndex((i) => Math.max(i - 1, 0));
+        break;
+      case "return":
+      case "e":
+        if (current?.kind === "route") {
+          setModal({ type: "route", original: current.route, pattern: current.route.pattern, error: null });
+        } else if (current?.kind === "cron") {
+          setModal({ type: "cron", original: current.schedule.cron, expression: current.schedule.cron, error: null });
+        }
+        break;
+      case "a":
+        setModal({ type: "route", original: null, pattern: "", error: null });
+        break;
+      case "c":
+        setModal({ type: "cron", original: null, expression: "", error: null });
+        break;
+      case "d":
+        if (current) setModal({ type: "delete", row: current });
+        break;
+      case "r":
+        load();
+        break;
+      case "escape":
+      case "backspace":
+        onBack();
+        break;
+    }
+  });
+
+  if (loading && rows.length === 0 && !error) {
+    return (
+      <box padding={1}>
+        <text fg={colors.textMuted}>⟳ Loading routes and cron triggers...</text>
+      </box>
+    );
+  }
+
+  const routeModal = modal.type === "route" ? modal : null;
+  const routeInvalid = routeModal ? validateRoutePattern(routeModal.pattern) : null;
+  const routeZone = routeModal && !routeInvalid ? zoneForPattern(routeModal.pattern, zones) : null;
+  const routeOverlaps =
+    routeModal && routeZone
+      ? findRouteOverlaps({ id: routeModal.original?.id, pattern: routeModal.pattern, zone_id: routeZone.id, script: worker.id }, allRoutes)
+      : [];
+  const cronPreview = modal.type === "cron" && modal.expression.trim() ? describeCron(modal.expression) : null;
+  const selectedCron = current?.kind === "cron" ? describeCron(current.schedule.cron) : null;
+
+  return (
+    <box flexDirection="column" flexGrow={1} padding={1}>
+      {actionMessage && (
+        <box backgroundColor={colors.success} padding={1}>
+          <text fg={colors.textInverse}>{actionMessage}</text>
+        </box>
+      )}
+
+      {error && (
+        <box backgroundColor={colors.error} padding={1}>
+          <text fg={colors.textInverse}>{error}</text>
+        </box>
+      )}
+
+      {working && (
+        <box padding={1}>
+          <text fg={colors.warning}>⟳ {working}</text>
+        </box>
+      )}
+
+      <scrollbox flexDirection="column" flexGrow={1}>
+        <text><strong>Routes</strong> <span fg={colors.textMuted}>({routes.length})</span></text>
+        {routes.length === 0 ? (
+          <text fg={colors.textMuted}>  No routes</text>
+        ) : (
+          routes.map((route, index) => {
+            const isSelected = index === selectedIndex;
+            const overlaps = findRouteOverlaps(route, allRoutes);
+            const warning = zoneWarning(route.pattern, route.zone_id);
+            return (
+              <box key={route.id} flexDirection="column" paddingLeft={1} backgroundColor={isSelected ? colors.surfaceAlt : undefined}>
+                <box flexDirection="row">
+                  <text width="50%" fg={isSelected ? colors.primary : colors.text}>
+                    {isSelected ? "> " : "  "}{route.pattern}
+                  </text>
+                  <text width="30%" fg={colors.textMuted}>{route.zone_name}</text>
+                  <text width="20%" fg={overlaps.length || warning ? colors.warning : colors.success}>
+                    {overlaps.length || warning ? "⚠ check" : "✓"}
+                  </text>
+                </box>
+                {overlaps.map((other) => (
+                  <text key={other.id} fg={colors.warning}>
+                    {"    "}overlaps {other.pattern} → {scriptLabel(other)}
+                  </text>
+                ))}
+                {warning && <text fg={colors.warning}>{"    "}{warning}</text>}
+              </box>
+            );
+          })
+        )}
+
+        <box marginTop={1}>
+          <text><strong>Cron triggers</strong> <span fg={colors.textMuted}>({schedules.length}, UTC)</span></text>
+        </box>
+        {schedules.length === 0 ? (
+          <text fg={colors.textMuted}>  No cron triggers</text>
+        ) : (
+          schedules.map((schedule, index) => {
+            const isSelected = routes.length + index === selectedIndex;
+            const { times, error: cronError } = describeCron(schedule.cron);
+            return (
+              <box key={schedule.cron} flexDirection="row" paddingLeft={1} backgroundColor={isSelected ? colors.surfaceAlt : undefined}>
+                <text width="40%" fg={isSelected ? colors.primary : colors.text}>
+                  {isSelected ? "> " : "  "}{schedule.cron}
+                </text>
+                <text width="60%" fg={cronError ? colors.error : colors.textMuted}>
+                  {cronError ?? (times[0] ? `next ${times[0].toLocaleString()}` : "never fires")}
+                </text>
+              </box>
+            );
+          })
+        )}
+
+        {selectedCron && selectedCron.times.length > 0 && (
+          <box flexDirection="column" marginTop={1} borderStyle="single" borderColor={colors.border} paddingLeft={1}>
+            <text fg={colors.textMuted}>Next fire times (local)</text>
+            {selectedCron.times.map((time) => (
+              <text key={time.getTime()} fg={colors.text}>{time.toLocaleString()}</text>
+            ))}
+          </box>
+        )}
+      </scrollbox>
+
+      <box marginTop={1}>
+        <text fg={colors.textMuted}>
+          ↑/↓ Select • Enter Edit • a Add route • c Add cron • d Delete • r Refresh • Esc Back
+        </text>
+      </box>
+
+      {routeModal && (
+        <box position="absolute" top={0} left={0} right={0} bottom={0} justifyContent="center" alignItems="center" backgroundColor="rgba(0,0,0,0.7)">
+          <box flexDirection="column" borderStyle="double" borderColor={colors.primary} backgroundColor={colors.surface} padding={2} minWidth={70}>
+            <text fg={colors.primary}>
+              <strong>{routeModal.original ? "Edit Route" : "Add Route"}</strong>
+            </text>
+            <box marginTop={1} flexDirection="row">
+              <box width={10}>
+                <text fg={colors.text}>Pattern:</text>
+              </box>
+              <input
+                value={routeModal.pattern}
+                onInput={(pattern) => setModal((prev) => (prev.type === "route" ? { ...prev, pattern, error: null } : prev))}
+                placeholder="example.com/api/*"
+                focused
+                width={54}
+                backgroundColor={colors.backgroundAlt}
+                textColor={colors.text}
+              />
+            </box>
+            <box flexDirection="column" marginTop={1}>
+              {!routeModal.pattern.trim() ? (
+                <text fg={colors.textMuted}>Requests matching the pattern are served by {worker.id}</text>
+              ) : routeInvalid ? (
+                <text fg={colors.textMuted}>{routeInvalid}</text>
+              ) : routeZone ? (
+                <text fg={colors.success}>Zone: {routeZone.name}</text>
+              ) : (
+                <text fg={colors.warning}>⚠ No zone in this account matches this hostname</text>
+              )}
+              {routeOverlaps.map((other) => (
+                <text key={other.id} fg={colors.warning}>
+                  ⚠ Overlaps {other.pattern} → {scriptLabel(other)}
+                </text>
+              ))}
+            </box>
+            {routeModal.error && (
+              <box marginTop={1}>
+                <text fg={colors.error}>{routeModal.error}</text>
+              </box>
+            )}
+            <box marginTop={2}>
+              <text fg={colors.textMuted}>Enter Save • Esc Cancel</text>
+            </box>
+          </box>
+        </box>
+      )}
+
+      {modal.type === "cron" && (
+        <box position="absolute" top={0} left={0} right={0} bottom={0} justifyContent="center" alignItems="center" backgroundColor="rgba(0,0,0,0.7)">
+          <box flexDirection="column" borderStyle="double" borderColor={colors.primary} backgroundColor={colors.surface} padding={2} minWidth={70}>
+            <text fg={colors.primary}>
+              <strong>{modal.original ? "Edit Cron Trigger" : "Add Cron Trigger"}</strong>
+            </text>
+            <box marginTop={1} flexDirection="row">
+              <box width={10}>
+                <text fg={colors.text}>Cron:</text>
+              </box>
+              <input
+                value={modal.expression}
+                onInput={(expression) => setModal((prev) => (prev.type === "cron" ? { ...prev, expression, error: null } : prev))}
+                placeholder="*/30 * * * *"
+                focused
+                width={40}
+                backgroundColor={colors.backgroundAlt}
+                textColor={colors.text}
+              />
+            </box>
+            <box flexDirection="column" marginTop={1}>
+              <text fg={colors.textMuted}>minute hour day-of-month month day-of-week • evaluated in UTC</text>
+              {cronPreview?.error && <text fg={colors.warning}>{cronPreview.error}</text>}
+              {cronPreview && !cronPreview.error && (
+                <>
+                  <text fg={colors.text}>Next fire times (local):</text>
+                  {cronPreview.times.map((time) => (
+                    <text key={time.getTime()} fg={colors.success}>  {time.toLocaleString()}</text>
+                  ))}
+                </>
+              )}
+            </box>
+            {modal.error && (
+              <box marginTop={1}>
+                <text fg={colors.error}>{modal.error}</text>
+              </box>
+            )}
+            <box marginTop={2}>
+              <text fg={colors.textMuted}>Enter Save • Esc Cancel</text>
+            </box>
+          </box>
+        </box>
+      )}
+
+      {modal.type === "delete" && (
+        <box position="absolute" top={0} left={0} right={0} bottom={0} justifyContent="center" alignItems="center" backgroundColor="rgba(0,0,0,0.7)">
+          <box flexDirection="column" borderStyle="double" borderColor={colors.error} backgroundColor={colors.surface} padding={2} minWidth={50}>
+            <text fg={colors.error}><strong>⚠ Confirm Delete</strong></text>
+            <box marginTop={1}>
+              <text fg={colors.text}>
+                {modal.row.kind === "route"
+                  ? `Remove route ${modal.row.route.pattern} from ${modal.row.route.zone_name}?`
+                  : `Remove cron trigger ${modal.row.schedule.cron}?`}
+              </text>
+            </box>
+            <box marginTop={1}>
+              <text fg={colors.textMuted}>[y] Yes  [n] No</text>
+            </box>
+          </box>
+        </box>
+      )}
+    </box>
+  );
+}
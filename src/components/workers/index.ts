@@ -0,0 +1,8 @@
+export { WorkerDetail } from "./WorkerDetail.tsx";
+export { WorkerOverview } from "./WorkerOverview.tsx";
+export { WorkerEnvironment } from "./WorkerEnvironment.tsx";
+export { WorkerTriggers } from "./WorkerTriggers.tsx";
+export { ScriptSource } from "./ScriptSource.tsx";
+export { WorkerDeployments } from "./WorkerDeployments.tsx";
+export { WorkerDeploy } from "./WorkerDeploy.tsx";
+export { WorkerTail } from "./WorkerTail.tsx";
@@ -0,0 +1,23 @@
+import { useTheme } from "../../lib/theme-context.tsx";
+import { useZone } from "../../lib/zone-context.tsx";
+
+export function NoZoneSelected() {
+  const { theme } = useTheme();
+  const { colors } = theme;
+  const { loading, error } = useZone();
+
+  return (
+    <box flexDirection="column" flexGrow={1} padding={2}>
+      {loading ? (
+        <box flexDirection="row" gap={1}>
+          <text fg={colors.primary}>⟳</text>
+          <text fg={colors.textMuted}>Loading zones...</text>
+        </box>
+      ) : error ? (
+        <text fg={colors.error}>Error: {error}</text>
+      ) : (
+        <text fg={colors.textMuted}>No zone selected. Press Ctrl+Z to pick a zone.</text>
+      )}
+    </box>
+  );
+}
@@ -0,0 +1,130 @@
+import { useKeyboard } from "@opentui/react";
+import { useState } from "react";
+import { useTheme } from "../../lib/theme-context.tsx";
+import { useZone } from "../../lib/zone-context.tsx";
+import { useOverlayLayer } from "../../lib/overlay-context.tsx";
+import { fuzzyFilter } from "../../lib/fuzzy.ts";
+
+const VISIBLE_ZONES = 10;
+
+export function ZoneSwitcher() {
+  const { zones, activeZone, setActiveZone, closeSwitcher, loading, error } = useZone();
+  const { theme } = useTheme();
+  const { colors } = theme;
+
+  const [query, setQuery] = useState("");
+  const [selectedIndex, setSelectedIndex] = useState(0);
+
+  const matches = fuzzyFilter(zones, query, (z) => z.name);
+  const start = Math.max(0, Math.min(selectedIndex - VISIBLE_ZONES + 1, matches.length - VISIBLE_ZONES));
+  const visible = matches.slice(start, start + VISIBLE_ZONES);
+
+  useOverlayLayer();
+
+  useKeyboard((key) => {
+    if (key.name === "escape") {
+      closeSwitcher();
+    } else if (key.name === "down" || (key.name === "n" && key.ctrl)) {
+      setSelectedIndex((i) => Math.min(i + 1, matches.length - 1));
+    } else if (key.name === "up" || (key.name === "p" && key.ctrl)) {
+      setSelectedIndex((i) => Math.max(i - 1, 0));
+    } else if (key.name === "return") {
+      const zone = matches[selectedIndex];
+      if (zone) {
+        setActiveZone(zone);
+        closeSwitcher();
+      }
+    }
+  });
+
+  return (
+    <box
+      position="absolute"
+      top={0}
+      left={0}
+      right={0}
+      bottom={0}
+      alignItems="center"
+      justifyContent="center"
+    >
+      <box
+        flexDirection="column"
+        gap={1}
+        padding={2}
+        borderStyle="single"
+        borderColor={colors.border}
+        backgroundColor={colors.surface}
+        width={60}
+      >
+        <text>
+          <strong fg={colors.primary}>Switch Zone</strong>
+        </text>
+
+        <box marginTop={1}>
+          <input
+            value={query}
+            onInput={(val) => {
+              setQuery(val);
+              setSelectedIndex(0);
+            }}
+            placeholder="Type to filter zones..."
+            focused
+          />
+        </box>
+
+        <box flexDirection="column">
+          {loading && zones.length === 0 ? (
+            <text>
+              <span fg={colors.primary}>⟳ Loading zones...</span>
+            </text>
+          ) : error ? (
+            <text>
+              <span fg={colors.error}>{error}</span>
+            </text>
+          ) : matches.length === 0 ? (
+            <text>
+              <span fg={colors.textMuted}>No matching zones</span>
+            </text>
+          ) : (
+            visible.map((zone, i) => {
+              const isSelected = start + i === selectedIndex;
+              const isCurrent = zone.id === activeZone?.id;
+              return (
+                <box key={zone.id} gap={1}>
+                  <text>
+                    <span fg={isSelected ? colors.primary : colors.text}>
+                      {isSelected ? "▸ " : "  "}
+                      {isCurrent && "● "}
+                      {zone.name}
+                    </span>
+                  </text>
+                  <text>
+                    <span fg={zone.status === "active" ? colors.textMuted : colors.warning}> ({zone.status})</span>
+                  </text>
+                </box>
+              );
+            })
+          )}
+        </box>
+
+        {matches.length > VISIBLE_ZONES && (
+          <text>
+            <span fg={colors.textMuted}>
+              {selectedIndex + 1}/{matches.length}
+            </span>
+          </text>
+        )}
+
+        <box marginTop={1}>
+          <text>
+            <span fg={colors.textMuted}>
+              <strong fg={colors.primary}>↑↓</strong> Navigate •{" "}
+              <strong fg={colors.primary}>Enter</strong> Select •{" "}
+              <strong fg={colors.primary}>Esc</strong> Close
+            </span>
+          </text>
+        </box>
+      </box>
+    </box>
+  );
+}
@@ -0,0 +1,2 @@
+export { ZoneSwitcher } from "./ZoneSwitcher.tsx";
+export { NoZoneSelected } from "./NoZoneSelected.tsx";
@@ -4,9 +4,14 @@ import { useState } from "react"
 import { ThemeProvider, useTheme } from "./lib/theme-context.tsx"
 import { AuthProvider, useAuth } from "./lib/auth-context.tsx"
 import { RouterProvider, Route, Routes } from "./lib/router.tsx"
+import { ZoneProvider, useZone } from "./lib/zone-context.tsx"
+import { OverlayProvider } from "./lib/overlay-context.tsx"
 import { Layout } from "./components/layout/Layout.tsx"
 import { LoginScreen } from "./components/auth/LoginScreen.tsx"
 import { AccountSwitcher } from "./components/auth/AccountSwitcher.tsx"
+import { ZoneSwitcher } from "./components/zones/ZoneSwitcher.tsx"
+import { CommandPalette } from "./components/palette/CommandPalette.tsx"
+import { isPaletteShortcutSuppressed } from "./lib/palette.ts"
 import {
   Dashboard,
   DNS,
@@ -23,7 +28,17 @@ import {
   Stream,
   Images,
   Cache,
+  LoadBalancer,
+  Spectrum,
+  Email,
+  PageRules,
 } from "./routes/index.ts"
+import { runCli } from "./cli/index.ts"
+
+const cliArgs = process.argv.slice(2)
+if (cliArgs.length > 0) {
+  process.exit(await runCli(cliArgs))
+}
 
 const renderer = await createCliRenderer({
   exitOnCtrlC: false,
@@ -32,7 +47,9 @@ const renderer = await createCliRenderer({
 function MainApp() {
   const { toggleTheme } = useTheme()
   const { isAuthenticated, isLoading } = useAuth()
+  const { switcherOpen, openSwitcher, closeSwitcher } = useZone()
   const [showAccountSwitcher, setShowAccountSwitcher] = useState(false)
+  const [showPalette, setShowPalette] = useState(false)
 
   useKeyboard((key) => {
     if (key.name === "t" && key.ctrl) {
@@ -43,7 +60,21 @@ function MainApp() {
         setShowAccountSwitcher((prev) => !prev)
       }
     }
-    if (key.name === "q" || (key.name === "c" && key.ctrl)) {
+    if (key.name === "z" && key.ctrl) {
+      if (isAuthenticated) {
+        if (switcherOpen) closeSwitcher()
+        else openSwitcher()
+      }
+    }
+    const typing = renderer.currentFocusedRenderable?.focused || isPaletteShortcutSuppressed()
+    if (isAuthenticated && !switcherOpen && !showPalette) {
+      if ((key.name === "p" && key.ctrl) || (key.sequence === ":" && !typing)) {
+        setShowAccountSwitcher(false)
+        setShowPalette(true)
+        return
+      }
+    }
+    if ((key.name === "q" && !typing && !switcherOpen && !showPalette) || (key.name === "c" && key.ctrl)) {
       renderer.destroy()
     }
   })
@@ -111,9 +142,28 @@ function MainApp() {
           <Route route="cache">
             <Cache />
           </Route>
+          <Route route="loadbalancer">
+            <LoadBalancer />
+          </Route>
+          <Route route="spectrum">
+            <Spectrum />
+          </Route>
+          <Route route="email">
+            <Email />
+          </Route>
+          <Route route="pagerules">
+            <PageRules />
+          </Route>
         </Routes>
       </Layout>
       {showAccountSwitcher && <AccountSwitcher onClose={() => setShowAccountSwitcher(false)} />}
+      {switcherOpen && <ZoneSwitcher />}
+      {showPalette && (
+        <CommandPalette
+          onClose={() => setShowPalette(false)}
+          onSwitchAccount={() => setShowAccountSwitcher(true)}
+        />
+      )}
     </>
   )
 }
@@ -122,9 +172,13 @@ function App() {
   return (
     <ThemeProvider initialMode="dark">
       <AuthProvider>
-        <RouterProvider initialRoute="dashboard">
-          <MainApp />
-        </RouterProvider>
+        <ZoneProvider>
+          <RouterProvider initialRoute="dashboard">
+            <OverlayProvider>
+              <MainApp />
+            </OverlayProvider>
+          </RouterProvider>
+        </ZoneProvider>
       </AuthProvider>
     </ThemeProvider>
   )
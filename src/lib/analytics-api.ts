@@ -1,4 +1,6 @@
 import { getAuthHeaders, getAccountId, loadCredentials } from "./auth.ts";
+import { listZones } from "./cloudflare.ts";
+import { graphqlRequest } from "./api-client.ts";
 import type {
   TimeRange,
   TrafficMetrics,
@@ -17,8 +19,6 @@ import type {
   WorkerAnalyticsData,
 } from "../types/analytics.ts";
 
-const GRAPHQL_ENDPOINT = "https://api.cloudflare.com/client/v4/graphql";
-
 function getTimeRange(range: TimeRange): { start: string; end: string } {
   const end = new Date();
   let start: Date;
@@ -72,20 +72,7 @@ function getDateRange(range: TimeRange): { start: string; end: string } {
 
 async function graphqlQuery<T>(query: string, variables: Record<string, unknown>): Promise<GraphQLResponse<T>> {
   await loadCredentials();
-  const headers = getAuthHeaders();
-  
-  const response = await fetch(GRAPHQL_ENDPOINT, {
-    method: "POST",
-    headers,
-    body: JSON.stringify({ query, variables }),
-  });
-
-  if (!response.ok) {
-    throw new Error(`GraphQL request failed: ${response.statusText}`);
-  }
-
-  const data = await response.json() as GraphQLResponse<T>;
-  return data;
+  return graphqlRequest<T>(query, variables, { headers: getAuthHeaders() });
 }
 
 export async function fetchTrafficMetrics(zoneId: string, range: TimeRange): Promise<TrafficMetrics> {
@@ -136,10 +123,6 @@ export async function fetchTrafficMetrics(zoneId: string, range: TimeRange): Pro
   };
 
   const result = await graphqlQuery<ZoneAnalyticsData>(query, variables);
-  
-  if (result.errors?.length) {
-    throw new Error(result.errors[0]?.message ?? "GraphQL error");
-  }
 
   const zone = result.data?.viewer?.zones?.[0];
   if (!zone) {
@@ -225,10 +208,6 @@ export async function fetchPerformanceMetrics(zoneId: string, range: TimeRange):
 
   const result = await graphqlQuery<ZoneAnalyticsData>(query, { zoneTag: zoneId, start, end });
 
-  if (result.errors?.length) {
-    throw new Error(result.errors[0]?.message ?? "GraphQL error");
-  }
-
   const zone = result.data?.viewer?.zones?.[0];
   if (!zone) {
     return {
@@ -342,10 +321,6 @@ export async function fetchGeoTraffic(zoneId: string, range: TimeRange): Promise
 
   const result = await graphqlQuery<ZoneAnalyticsData>(query, { zoneTag: zoneId, start, end });
 
-  if (result.errors?.length) {
-    throw new Error(result.errors[0]?.message ?? "GraphQL error");
-  }
-
   const zone = result.data?.viewer?.zones?.[0];
   if (!zone) return [];
 
@@ -428,10 +403,6 @@ export async function fetchTopPaths(zoneId: string, range: TimeRange, limit = 10
 
   const result = await graphqlQuery<ZoneAnalyticsData>(query, { zoneTag: zoneId, start, end, limit });
 
-  if (result.errors?.length) {
-    throw new Error(result.errors[0]?.message ?? "GraphQL error");
-  }
-
   const zone = result.data?.viewer?.zones?.[0];
   if (!zone) return [];
 
@@ -469,10 +440,6 @@ export async function fetchTopReferrers(zoneId: string, range: TimeRange, limit
 
   const result = await graphqlQuery<ZoneAnalyticsData>(query, { zoneTag: zoneId, start, end, limit: limit + 10 });
 
-  if (result.errors?.length) {
-    throw new Error(result.errors[0]?.message ?? "GraphQL error");
-  }
-
   const zone = result.data?.viewer?.zones?.[0];
   if (!zone) return [];
 
@@ -512,10 +479,6 @@ export async function fetchTopUserAgents(zoneId: string, range: TimeRange, limit
 
   const result = await graphqlQuery<ZoneAnalyticsData>(query, { zoneTag: zoneId, start, end, limit: limit + 10 });
 
-  if (result.errors?.length) {
-    throw new Error(result.errors[0]?.message ?? "GraphQL error");
-  }
-
   const zone = result.data?.viewer?.zones?.[0];
   if (!zone) return [];
 
@@ -569,10 +532,6 @@ export async function fetchHTTPStatusBreakdown(zoneId: string, range: TimeRange)
 
   const result = await graphqlQuery<ZoneAnalyticsData>(query, { zoneTag: zoneId, start, end });
 
-  if (result.errors?.length) {
-    throw new Error(result.errors[0]?.message ?? "GraphQL error");
-  }
-
   const zone = result.data?.viewer?.zones?.[0];
   if (!zone) return [];
 
@@ -634,10 +593,6 @@ export async function fetchWorkerAnalytics(range: TimeRange): Promise<WorkerSumm
 
   const result = await graphqlQuery<WorkerAnalyticsData>(query, { accountTag: accountId, start, end });
 
-  if (result.errors?.length) {
-    throw new Error(result.errors[0]?.message ?? "GraphQL error");
-  }
-
   const account = result.data?.viewer?.accounts?.[0];
   if (!account) return [];
 
@@ -692,10 +647,6 @@ export async function fetchWorkerMetrics(scriptName: string, range: TimeRange):
     end 
   });
 
-  if (result.errors?.length) {
-    throw new Error(result.errors[0]?.message ?? "GraphQL error");
-  }
-
   const account = result.data?.viewer?.accounts?.[0];
   if (!account || !account.workersInvocationsAdaptive?.length) {
     return {
@@ -811,10 +762,6 @@ export async function fetchRecentRequests(zoneId: string, limit = 20): Promise<R
     limit 
   });
 
-  if (result.errors?.length) {
-    throw new Error(result.errors[0]?.message ?? "GraphQL error");
-  }
-
   const zone = result.data?.viewer?.zones?.[0];
   if (!zone) return [];
 
@@ -836,22 +783,8 @@ export async function fetchRecentRequests(zoneId: string, limit = 20): Promise<R
 
 export async function fetchZones(): Promise<Array<{ id: string; name: string }>> {
   await loadCredentials();
-  const headers = getAuthHeaders();
-
-  const response = await fetch("https://api.cloudflare.com/client/v4/zones?per_page=50", {
-    headers,
-  });
-
-  if (!response.ok) {
-    throw new Error(`Failed to fetch zones: ${response.statusText}`);
-  }
-
-  interface ZoneListResponse {
-    result: Array<{ id: string; name: string }>;
-  }
-
-  const data = await response.json() as ZoneListResponse;
-  return (data.result ?? []).map((z) => ({
+  const zones = await listZones();
+  return zones.map((z) => ({
     id: z.id,
     name: z.name,
   }));
@@ -0,0 +1,237 @@
+import type { ResultInfo } from "./pagination.ts";
+
+export const API_BASE = "https://api.cloudflare.com/client/v4";
+export const GRAPHQL_ENDPOINT = `${API_BASE}/graphql`;
+
+const DEFAULT_TIMEOUT_MS = 30_000;
+const DEFAULT_RETRIES = 3;
+const BASE_BACKOFF_MS = 500;
+const MAX_BACKOFF_MS = 8_000;
+const MAX_RETRY_AFTER_MS = 60_000;
+const IDEMPOTENT_METHODS = new Set(["GET", "HEAD", "OPTIONS", "PUT", "DELETE"]);
+
+export interface ApiErrorDetail {
+  code: number;
+  message: string;
+}
+
+export class CloudflareApiError extends Error {
+  readonly status: number;
+  readonly errors: ApiErrorDetail[];
+  readonly requestId: string | null;
+  readonly endpoint: string;
+
+  constructor(
+    message: string,
+    details: { status: number; errors?: ApiErrorDetail[]; requestId?: string | null; endpoint: string }
+  ) {
+    super(message);
+    this.name = "CloudflareApiError";
+    this.status = details.status;
+    this.errors = details.errors ?? [];
+    this.requestId = details.requestId ?? null;
+    this.endpoint = details.endpoint;
+  }
+
+  get codes(): number[] {
+    return this.errors.map((e) => e.code);
+  }
+
+  get retryable(): boolean {
+    return this.status === 0 || this.status === 429 || this.status >= 500;
+  }
+}
+
+export interface ApiRequestOptions extends Omit<RequestInit, "headers"> {
+  headers?: Record<string, string>;
+  timeoutMs?: number;
+  retries?: number;
+  retryUnsafe?: boolean;
+}
+
+export interface ApiEnvelope<T> {
+  success: boolean;
+  errors: ApiErrorDetail[];
+  messages: unknown[];
+  result: T;
+  result_info?: ResultInfo;
+}
+
+export interface GraphQLResult<T> {
+  data: T;
+  errors?: Array<{ message: string }>;
+}
+
+function resolveUrl(endpoint: string): string {
+  return /^https?:\/\//.test(endpoint) ? endpoint : `${API_BASE}${endpoint}`;
+}
+
+function formatMessage(errors: ApiErrorDetail[], fallback: string, status: number, requestId: string | null): string {
+  const base = errors.length
+    ? errors.map((e) => (e.code ? `${e.message} [${e.code}]` : e.message)).join("; ")
+    : fallback;
+  const context = [status > 0 ? `HTTP ${status}` : null, requestId ? `ray ${requestId}` : null].filter(Boolean);
+  return context.length ? `${base} (${context.join(", ")})` : base;
+}
+
+function toErrorDetails(value: unknown): ApiErrorDetail[] {
+  if (!Array.isArray(value)) return [];
+  return value.map((e) => ({
+    code: typeof e?.code === "number" ? e.code : 0,
+    message: typeof e?.message === "string" ? e.message : String(e),
+  }));
+}
+
+async function errorFromResponse(response: Response, endpoint: string): Promise<CloudflareApiError> {
+  const requestId = response.headers.get("cf-ray");
+  const text = await response.text().catch(() => "");
+  let errors: ApiErrorDetail[] = [];
+  try {
+    errors = toErrorDetails((JSON.parse(text) as { errors?: unknown }).errors);
+  } catch {}
+  const snippet = text.trim().slice(0, 200);
+  const fallback = errors.length || !snippet
+    ? response.statusText || "Cloudflare API request failed"
+    : snippet;
+  return new CloudflareApiError(formatMessage(errors, fallback, response.status, requestId), {
+    status: response.status,
+    errors,
+    requestId,
+    endpoint,
+  });
+}
+
+function parseRetryAfter(response: Response): number | null {
+  const header = response.headers.get("retry-after");
+  if (!header) return null;
+  const seconds = Number(header);
+  const ms = Number.isFinite(seconds) ? seconds * 1000 : Date.parse(header) - Date.now();
+  if (!Number.isFinite(ms)) return null;
+  return Math.min(Math.max(ms, 0), MAX_RETRY_AFTER_MS);
+}
+
+function backoff(attempt: number): number {
+  const delay = Math.min(BASE_BACKOFF_MS * 2 ** attempt, MAX_BACKOFF_MS);
+  return delay / 2 + Math.random() * (delay / 2);
+}
+
+function sleep(ms: number, signal?: AbortSignal | null): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+export async function apiResponse(endpoint: string, options: ApiRequestOptions = {}): Promise<Response> {
+  const { timeoutMs = DEFAULT_TIMEOUT_MS, retries = DEFAULT_RETRIES, retryUnsafe = false, signal, ...init } = options;
+  const method = (init.method ?? "GET").toUpperCase();
+  const canRetryServerErrors = retryUnsafe || IDEMPOTENT_METHODS.has(method);
+  const headers: Record<string, string> = { ...init.headers };
+  if (typeof init.body === "string" && !Object.keys(headers).some((h) => h.toLowerCase() === "content-type")) {
+    headers["Content-Type"] = "application/json";
+  }
+
+  for (let attempt = 0; ; attempt++) {
+    const timeout = AbortSignal.timeout(timeoutMs);
+    let response: Response;
+    try {
+      response = await fetch(resolveUrl(endpoint), {
+        ...init,
+        headers,
+        signal: signal ? AbortSignal.any([signal, timeout]) : timeout,
+      });
+    } catch (err) {
+      if (signal?.aborted) throw err;
+      const message = timeout.aborted
+        ? `Request timed out after ${timeoutMs / 1000}s`
+        : `Network error: ${err instanceof Error ? err.message : String(err)}`;
+      if (canRetryServerErrors && attempt < retries) {
+        await sleep(backoff(attempt), signal);
+        continue;
+      }
+      throw new CloudflareApiError(message, { status: 0, endpoint });
+    }
+
+    if (response.ok) return response;
+
+    const retryable = response.status === 429 || (response.status >= 500 && canRetryServerErrors);
+    if (retryable && attempt < retries) {
+      const delay = parseRetryAfter(response) ?? backoff(attempt);
+      await response.body?.cancel().catch(() => {});
+      await sleep(delay, signal);
+      continue;
+    }
+
+    throw await errorFromResponse(response, endpoint);
+  }
+}
+
+export async function apiRequest<T>(endpoint: string, options: ApiRequestOptions = {}): Promise<ApiEnvelope<T>> {
+  const response = await apiResponse(endpoint, options);
+  const requestId = response.headers.get("cf-ray");
+  const text = await response.text();
+  if (!text.trim()) {
+    return { success: true, errors: [], messages: [], result: undefined as T };
+  }
+
+  let data: ApiEnvelope<T>;
+  try {
+    data = JSON.parse(text) as ApiEnvelope<T>;
+  } catch {
+    throw new CloudflareApiError(
+      formatMessage([], "Unexpected non-JSON response from Cloudflare API", response.status, requestId),
+      { status: response.status, requestId, endpoint }
+    );
+  }
+
+  if (!data.success) {
+    const errors = toErrorDetails(data.errors);
+    throw new CloudflareApiError(
+      formatMessage(errors, "Cloudflare API request failed", response.status, requestId),
+      { status: response.status, errors, requestId, endpoint }
+    );
+  }
+
+  return data;
+}
+
+export async function apiFetch<T>(endpoint: string, options: ApiRequestOptions = {}): Promise<T> {
+  const data = await apiRequest<T>(endpoint, options);
+  return data.result;
+}
+
+export async function graphqlRequest<T>(
+  query: string,
+  variables: Record<string, unknown>,
+  options: ApiRequestOptions = {}
+): Promise<GraphQLResult<T>> {
+  const response = await apiResponse(GRAPHQL_ENDPOINT, {
+    ...options,
+    method: "POST",
+    body: JSON.stringify({ query, variables }),
+    retryUnsafe: true,
+  });
+  const requestId = response.headers.get("cf-ray");
+  const data = (await response.json()) as GraphQLResult<T>;
+
+  if (data.errors?.length) {
+    const errors = toErrorDetails(data.errors);
+    throw new CloudflareApiError(
+      formatMessage(errors, "GraphQL query failed", response.status, requestId),
+      { status: response.status, errors, requestId, endpoint: GRAPHQL_ENDPOINT }
+    );
+  }
+
+  return data;
+}
@@ -1,9 +1,9 @@
 import { chmod } from "node:fs/promises";
 import { homedir } from "node:os";
 import { join } from "node:path";
+import { apiFetch } from "./api-client.ts";
 
 const CREDENTIALS_PATH = join(homedir(), ".flarectl", "credentials.json");
-const API_BASE = "https://api.cloudflare.com/client/v4";
 
 export interface CloudflareAccount {
   email: string;
@@ -129,28 +129,9 @@ interface TokenValidation {
 }
 
 async function cfFetch<T>(endpoint: string, token: string): Promise<T> {
-  const response = await fetch(`${API_BASE}${endpoint}`, {
-    headers: {
-      Authorization: `Bearer ${token}`,
-      "Content-Type": "application/json",
-    },
+  return apiFetch<T>(endpoint, {
+    headers: { Authorization: `Bearer ${token}` },
   });
-
-  if (!response.ok) {
-    throw new Error(`API request failed: ${response.statusText}`);
-  }
-
-  const data = (await response.json()) as {
-    success: boolean;
-    errors?: Array<{ message: string }>;
-    result: T;
-  };
-
-  if (!data.success) {
-    throw new Error(data.errors?.[0]?.message || "API request failed");
-  }
-
-  return data.result;
 }
 
 async function validateToken(token: string): Promise<TokenValidation> {
@@ -214,6 +195,17 @@ export function getAuthHeaders(): Record<string, string> {
   };
 }
 
+export function getApiToken(): string {
+  if (!cachedStore) {
+    return "";
+  }
+
+  const store = cachedStore;
+  const account = store.accounts.find((a) => a.email === store.current) || store.accounts[0];
+
+  return account?.apiToken || "";
+}
+
 export function getAccountId(): string {
   if (!cachedStore) {
     return "";
@@ -225,6 +217,17 @@ export function getAccountId(): string {
   return account?.accountId || "";
 }
 
+export function getAccountScope(): string {
+  if (!cachedStore) {
+    return "anonymous";
+  }
+
+  const store = cachedStore;
+  const account = store.accounts.find((a) => a.email === store.current) || store.accounts[0];
+
+  return account ? `${account.email}/${account.accountId}` : "anonymous";
+}
+
 export function isAuthenticated(): boolean {
   return !!cachedStore?.accounts?.length;
 }
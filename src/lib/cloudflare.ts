@@ -1,44 +1,74 @@
-import { getAuthHeaders, getAccountId } from "./auth.ts";
-
-const API_BASE = "https://api.cloudflare.com/client/v4";
+import { getAuthHeaders, getAccountId, getAccountScope } from "./auth.ts";
+import { apiRequest, apiResponse, CloudflareApiError, type ApiEnvelope, type ApiRequestOptions } from "./api-client.ts";
+import { paginate, collectAll, withQuery, type PageFetcher } from "./pagination.ts";
+import { cached, invalidateCache } from "./response-cache.ts";
+
+const MINUTE = 60 * 1000;
+
+const CACHE_TTLS: Array<[RegExp, number]> = [
+  [/^\/zones$/, 5 * MINUTE],
+  [/^\/zones\/[^/]+\/dns_records$/, MINUTE],
+  [/^\/zones\/[^/]+\/load_balancers$/, MINUTE],
+  [/^\/zones\/[^/]+\/spectrum\/apps$/, MINUTE],
+  [/^\/zones\/[^/]+\/pagerules$/, MINUTE],
+  [/^\/zones\/[^/]+\/email\/routing\/rules$/, MINUTE],
+  [/^\/accounts\/[^/]+\/workers\/scripts$/, 2 * MINUTE],
+  [/^\/zones\/[^/]+\/workers\/routes$/, MINUTE],
+  [/^\/accounts\/[^/]+\/storage\/kv\/namespaces$/, 5 * MINUTE],
+  [/^\/accounts\/[^/]+\/pages\/projects$/, 2 * MINUTE],
+  [/^\/accounts\/[^/]+\/r2\/buckets$/, 5 * MINUTE],
+  [/^\/accounts\/[^/]+\/d1\/database$/, 5 * MINUTE],
+  [/^\/accounts\/[^/]+\/registrar\/domains$/, 10 * MINUTE],
+  [/^\/accounts\/[^/]+\/load_balancers\/(pools|monitors)$/, MINUTE],
+  [/^\/accounts\/[^/]+\/email\/routing\/addresses$/, MINUTE],
+];
+
+function cacheTtl(path: string): number | null {
+  const rule = CACHE_TTLS.find(([pattern]) => pattern.test(path));
+  return rule ? rule[1] : null;
+}
+
+async function cfRequest<T>(
+  endpoint: string,
+  options: ApiRequestOptions = {}
+): Promise<ApiEnvelope<T>> {
+  const send = () =>
+    apiRequest<T>(endpoint, {
+      ...options,
+      headers: {
+        ...getAuthHeaders(),
+        ...options.headers,
+      },
+    });
+
+  const method = (options.method ?? "GET").toUpperCase();
+  const path = endpoint.split("?")[0] ?? endpoint;
+  if (method === "GET") {
+    const ttl = cacheTtl(path);
+    return ttl === null ? send() : cached(getAccountScope(), endpoint, ttl, send);
+  }
 
-interface CloudflareResponse<T> {
-  success: boolean;
-  errors: Array<{ code: number; message: string }>;
-  messages: string[];
-  result: T;
-  result_info?: {
-    page: number;
-    per_page: number;
-    total_count: number;
-    total_pages: number;
-    cursor?: string;
-  };
+  const result = await send();
+  const scope = getAccountScope();
+  invalidateCache(scope, path);
+  if (method !== "POST") {
+    invalidateCache(scope, path.slice(0, path.lastIndexOf("/")));
+  }
+  return result;
 }
 
 async function cfFetch<T>(
   endpoint: string,
-  options: RequestInit = {}
+  options: ApiRequestOptions = {}
 ): Promise<T> {
-  const headers = getAuthHeaders();
-  const response = await fetch(`${API_BASE}${endpoint}`, {
-    ...options,
-    headers: {
-      ...headers,
-      ...options.headers,
-    },
-  });
-
-  const data = (await response.json()) as CloudflareResponse<T>;
-
-  if (!data.success) {
-    const errorMsg = data.errors.map((e) => e.message).join(", ");
-    throw new Error(errorMsg || "Cloudflare API request failed");
-  }
-
+  const data = await cfRequest<T>(endpoint, options);
   return data.result;
 }
 
+function pageFetcher<T>(endpoint: string): PageFetcher<T> {
+  return (query) => cfRequest<T>(withQuery(endpoint, query));
+}
+
 export interface Zone {
   id: string;
   name: string;
@@ -84,8 +114,12 @@ export interface Zone {
   };
 }
 
+export function iterateZones(): AsyncGenerator<Zone[]> {
+  return paginate(pageFetcher<Zone[]>("/zones"), { perPage: 50 });
+}
+
 export async function listZones(): Promise<Zone[]> {
-  return cfFetch<Zone[]>("/zones");
+  return collectAll(iterateZones());
 }
 
 export async function getZone(zoneId: string): Promise<Zone> {
@@ -136,8 +170,12 @@ export interface UpdateDNSRecordParams {
   comment?: string;
 }
 
+export function iterateDNSRecords(zoneId: string): AsyncGenerator<DNSRecord[]> {
+  return paginate(pageFetcher<DNSRecord[]>(`/zones/${zoneId}/dns_records`), { perPage: 500 });
+}
+
 export async function listDNSRecords(zoneId: string): Promise<DNSRecord[]> {
-  return cfFetch<DNSRecord[]>(`/zones/${zoneId}/dns_records`);
+  return collectAll(iterateDNSRecords(zoneId));
 }
 
 export async function getDNSRecord(zoneId: string, recordId: string): Promise<DNSRecord> {
@@ -191,19 +229,398 @@ export async function listWorkers(): Promise<Worker[]> {
   return response.scripts || [];
 }
 
+export interface WorkerBinding {
+  type: string;
+  name: string;
+  [key: string]: unknown;
+}
+
+export interface WorkerSettings {
+  bindings: WorkerBinding[];
+  compatibility_date?: string;
+  compatibility_flags?: string[];
+  usage_model?: string;
+  logpush?: boolean;
+  placement?: { mode?: string };
+  tags?: string[];
+  tail_consumers?: Array<{ service: string; environment?: string }>;
+}
+
+export interface WorkerModule {
+  name: string;
+  content: string;
+}
+
+export interface WorkerSchedule {
+  cron: string;
+  created_on?: string;
+  modified_on?: string;
+}
+
+export interface WorkerRoute {
+  id: string;
+  pattern: string;
+  script?: string;
+}
+
+export interface ZoneWorkerRoute extends WorkerRoute {
+  zone_id: string;
+  zone_name: string;
+}
+
+const ROUTE_SCAN_CONCURRENCY = 4;
+
+function workerScriptPath(scriptName: string): string {
+  return `/accounts/${getAccountId()}/workers/scripts/${encodeURIComponent(scriptName)}`;
+}
+
+export async function getWorkerSettings(scriptName: string): Promise<WorkerSettings> {
+  const settings = await cfFetch<WorkerSettings>(`${workerScriptPath(scriptName)}/settings`);
+  return { ...settings, bindings: settings.bindings ?? [] };
+}
+
+export async function getWorkerScriptContent(scriptName: string): Promise<WorkerModule[]> {
+  const response = await apiResponse(`${workerScriptPath(scriptName)}/content/v2`, { headers: getAuthHeaders() });
+  const contentType = response.headers.get("content-type") ?? "";
+  if (contentType.startsWith("multipart/form-data")) {
+    const form = await response.formData();
+    const modules: WorkerModule[] = [];
+    for (const [name, value] of form.entries()) {
+      modules.push({ name, content: typeof value === "string" ? value : await value.text() });
+    }
+    return modules;
+  }
+  return [{ name: response.headers.get("cf-entrypoint") ?? `${scriptName}.js`, content: await response.text() }];
+}
+
+export interface WorkerUploadMetadata {
+  main_module: string;
+  compatibility_date?: string;
+  compatibility_flags?: string[];
+  bindings: Array<Record<string, unknown>>;
+}
+
+const SCRIPT_UPLOAD_TIMEOUT_MS = 120_000;
+
+export async function uploadWorkerScript(
+  scriptName: string,
+  metadata: WorkerUploadMetadata,
+  files: File[]
+): Promise<Worker> {
+  const form = new FormData();
+  form.append("metadata", new Blob([JSON.stringify(metadata)], { type: "application/json" }));
+  for (const file of files) form.append(file.name, file, file.name);
+  return cfFetch<Worker>(workerScriptPath(scriptName), {
+    method: "PUT",
+    body: form,
+    timeoutMs: SCRIPT_UPLOAD_TIMEOUT_MS,
+  });
+}
+
+export async function listWorkerSchedules(scriptName: string): Promise<WorkerSchedule[]> {
+  const result = await cfFetch<{ schedules: WorkerSchedule[] }>(`${workerScriptPath(scriptName)}/schedules`);
+  return result.schedules ?? [];
+}
+
+export async function listWorkerRoutes(zoneId: string): Promise<WorkerRoute[]> {
+  return cfFetch<WorkerRoute[]>(`/zones/${zoneId}/workers/routes`);
+}
+
+export async function listAccountWorkerRoutes(): Promise<ZoneWorkerRoute[]> {
+  const zones = await listZones();
+  const routes: ZoneWorkerRoute[] = [];
+  let next = 0;
+  const worker = async () => {
+    while (next < zones.length) {
+      const zone = zones[next++]!;
+      const zoneRoutes = await listWorkerRoutes(zone.id).catch((err) => {
+        if (err instanceof CloudflareApiError && err.status === 403) return [];
+        throw err;
+      });
+      for (const route of zoneRoutes) {
+        routes.push({ ...route, zone_id: zone.id, zone_name: zone.name });
+      }
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(ROUTE_SCAN_CONCURRENCY, zones.length) }, worker));
+  return routes.sort((a, b) => a.zone_name.localeCompare(b.zone_name) || a.pattern.localeCompare(b.pattern));
+}
+
+export async function createWorkerRoute(zoneId: string, pattern: string, script: string): Promise<WorkerRoute> {
+  return cfFetch<WorkerRoute>(`/zones/${zoneId}/workers/routes`, {
+    method: "POST",
+    body: JSON.stringify({ pattern, script }),
+  });
+}
+
+export async function updateWorkerRoute(zoneId: string, routeId: string, pattern: string, script: string): Promise<WorkerRoute> {
+  return cfFetch<WorkerRoute>(`/zones/${zoneId}/workers/routes/${routeId}`, {
+    method: "PUT",
+    body: JSON.stringify({ pattern, script }),
+  });
+}
+
+export async function deleteWorkerRoute(zoneId: string, routeId: string): Promise<void> {
+  await cfFetch(`/zones/${zoneId}/workers/routes/${routeId}`, { method: "DELETE" });
+}
+
+export async function updateWorkerSchedules(scriptName: string, crons: string[]): Promise<WorkerSchedule[]> {
+  const result = await cfFetch<{ schedules: WorkerSchedule[] }>(`${workerScriptPath(scriptName)}/schedules`, {
+    method: "PUT",
+    body: JSON.stringify(crons.map((cron) => ({ cron }))),
+  });
+  return result.schedules ?? [];
+}
+
+export interface WorkerVersion {
+  id: string;
+  number: number;
+  metadata: {
+    author_email?: string;
+    author_id?: string;
+    created_on: string;
+    modified_on?: string;
+    source?: string;
+  };
+  annotations?: Record<string, string>;
+}
+
+export interface WorkerDeploymentVersion {
+  version_id: string;
+  percentage: number;
+}
+
+export interface WorkerDeployment {
+  id: string;
+  created_on: string;
+  source?: string;
+  strategy: "percentage";
+  author_email?: string;
+  annotations?: Record<string, string>;
+  versions: WorkerDeploymentVersion[];
+}
+
+export function iterateWorkerVersions(scriptName: string): AsyncGenerator<WorkerVersion[]> {
+  return paginate(pageFetcher<{ items: WorkerVersion[] }>(`${workerScriptPath(scriptName)}/versions`), {
+    perPage: 50,
+    select: (result) => result?.items ?? [],
+  });
+}
+
+export async function listWorkerDeployments(scriptName: string): Promise<WorkerDeployment[]> {
+  const result = await cfFetch<{ deployments: WorkerDeployment[] }>(`${workerScriptPath(scriptName)}/deployments`);
+  return result.deployments ?? [];
+}
+
+export async function createWorkerDeployment(
+  scriptName: string,
+  versions: WorkerDeploymentVersion[],
+  message?: string
+): Promise<WorkerDeployment> {
+  return cfFetch<WorkerDeployment>(`${workerScriptPath(scriptName)}/deployments`, {
+    method: "POST",
+    body: JSON.stringify({
+      strategy: "percentage",
+      versions,
+      ...(message ? { annotations: { "workers/message": message } } : {}),
+    }),
+  });
+}
+
+export interface WorkerTail {
+  id: string;
+  url: string;
+  expires_at: string;
+}
+
+export async function createWorkerTail(scriptName: string): Promise<WorkerTail> {
+  return cfFetch<WorkerTail>(`${workerScriptPath(scriptName)}/tails`, { method: "POST", body: "{}" });
+}
+
+export async function deleteWorkerTail(scriptName: string, tailId: string): Promise<void> {
+  await cfFetch(`${workerScriptPath(scriptName)}/tails/${tailId}`, { method: "DELETE" });
+}
+
+export interface WorkerSecret {
+  name: string;
+  type: string;
+}
+
+export type WorkerVariable =
+  | { name: string; type: "plain_text"; text: string }
+  | { name: string; type: "json"; json: unknown };
+
+export async function listWorkerSecrets(scriptName: string): Promise<WorkerSecret[]> {
+  return (await cfFetch<WorkerSecret[]>(`${workerScriptPath(scriptName)}/secrets`)) ?? [];
+}
+
+export async function putWorkerSecret(scriptName: string, name: string, text: string): Promise<WorkerSecret> {
+  return cfFetch<WorkerSecret>(`${workerScriptPath(scriptName)}/secrets`, {
+    method: "PUT",
+    body: JSON.stringify({ name, text, type: "secret_text" }),
+  });
+}
+
+export async function deleteWorkerSecret(scriptName: string, name: string): Promise<void> {
+  await cfFetch(`${workerScriptPath(scriptName)}/secrets/${encodeURIComponent(name)}`, { method: "DELETE" });
+}
+
+/**
+ * Replaces the script's plain-text and JSON variables. Every other binding is sent
+ * as `inherit` so secrets and resource bindings carry over to the new version untouched.
+ */
+export async function updateWorkerVariables(scriptName: string, variables: WorkerVariable[]): Promise<WorkerSettings> {
+  const settings = await getWorkerSettings(scriptName);
+  const bindings = [
+    ...settings.bindings
+      .filter((binding) => binding.type !== "plain_text" && binding.type !== "json")
+      .map((binding) => ({ name: binding.name, type: "inherit" })),
+    ...variables,
+  ];
+  const form = new FormData();
+  form.append("settings", new Blob([JSON.stringify({ bindings })], { type: "application/json" }));
+  return cfFetch<WorkerSettings>(`${workerScriptPath(scriptName)}/settings`, { method: "PATCH", body: form });
+}
+
 export interface KVNamespace {
   id: string;
   title: string;
   supports_url_encoding?: boolean;
 }
 
-export async function listKVNamespaces(): Promise<KVNamespace[]> {
+export function iterateKVNamespaces(): AsyncGenerator<KVNamespace[]> {
   const accountId = getAccountId();
-  return cfFetch<KVNamespace[]>(
-    `/accounts/${accountId}/storage/kv/namespaces`
+  return paginate(
+    pageFetcher<KVNamespace[]>(`/accounts/${accountId}/storage/kv/namespaces`),
+    { perPage: 100 }
   );
 }
 
+export async function listKVNamespaces(): Promise<KVNamespace[]> {
+  return collectAll(iterateKVNamespaces());
+}
+
+export interface KVKey {
+  name: string;
+  expiration?: number;
+  metadata?: unknown;
+}
+
+export interface KVWriteOptions {
+  expiration?: number;
+  expirationTtl?: number;
+  metadata?: unknown;
+}
+
+export interface KVBulkPair {
+  key: string;
+  value: string;
+  base64?: boolean;
+  expiration?: number;
+  expiration_ttl?: number;
+  metadata?: unknown;
+}
+
+const KV_LIST_LIMIT = 1000;
+const KV_BULK_LIMIT = 10_000;
+const KV_BULK_MAX_BYTES = 100_000_000;
+
+function kvPath(namespaceId: string): string {
+  return `/accounts/${getAccountId()}/storage/kv/namespaces/${namespaceId}`;
+}
+
+export async function* iterateKVKeys(namespaceId: string, prefix = ""): AsyncGenerator<KVKey[]> {
+  let cursor = "";
+  do {
+    const query = new URLSearchParams({ limit: KV_LIST_LIMIT.toString() });
+    if (prefix) query.set("prefix", prefix);
+    if (cursor) query.set("cursor", cursor);
+    const data = await cfRequest<KVKey[]>(withQuery(`${kvPath(namespaceId)}/keys`, query));
+    yield data.result ?? [];
+    cursor = data.result_info?.cursor ?? "";
+  } while (cursor);
+}
+
+export async function listKVKeys(namespaceId: string, prefix = ""): Promise<KVKey[]> {
+  return collectAll(iterateKVKeys(namespaceId, prefix));
+}
+
+export async function getKVValue(namespaceId: string, key: string): Promise<Uint8Array> {
+  const response = await apiResponse(`${kvPath(namespaceId)}/values/${encodeURIComponent(key)}`, {
+    headers: getAuthHeaders(),
+  });
+  return new Uint8Array(await response.arrayBuffer());
+}
+
+export async function putKVValue(
+  namespaceId: string,
+  key: string,
+  value: string | Uint8Array,
+  options: KVWriteOptions = {}
+): Promise<void> {
+  const query = new URLSearchParams();
+  if (options.expiration) query.set("expiration", options.expiration.toString());
+  if (options.expirationTtl) query.set("expiration_ttl", options.expirationTtl.toString());
+
+  const form = new FormData();
+  form.append("value", new Blob([value]));
+  if (options.metadata !== undefined) form.append("metadata", JSON.stringify(options.metadata));
+
+  await cfFetch(withQuery(`${kvPath(namespaceId)}/values/${encodeURIComponent(key)}`, query), {
+    method: "PUT",
+    body: form,
+  });
+}
+
+export async function writeKVBulk(
+  namespaceId: string,
+  pairs: KVBulkPair[],
+  onProgress?: (written: number) => void
+): Promise<void> {
+  const encoder = new TextEncoder();
+  let written = 0;
+  let chunk: string[] = [];
+  let chunkBytes = 2;
+
+  const flush = async () => {
+    await cfFetch(`${kvPath(namespaceId)}/bulk`, {
+      method: "PUT",
+      body: `[${chunk.join(",")}]`,
+    });
+    written += chunk.length;
+    onProgress?.(written);
+    chunk = [];
+    chunkBytes = 2;
+  };
+
+  for (const pair of pairs) {
+    const encoded = JSON.stringify(pair);
+    const bytes = encoder.encode(encoded).length + 1;
+    if (chunk.length > 0 && (chunk.length >= KV_BULK_LIMIT || chunkBytes + bytes > KV_BULK_MAX_BYTES)) {
+      await flush();
+    }
+    chunk.push(encoded);
+    chunkBytes += bytes;
+  }
+  if (chunk.length > 0) await flush();
+}
+
+export async function deleteKVKey(namespaceId: string, key: string): Promise<void> {
+  await cfFetch(`${kvPath(namespaceId)}/values/${encodeURIComponent(key)}`, {
+    method: "DELETE",
+  });
+}
+
+export async function deleteKVKeys(namespaceId: string, keys: string[]): Promise<void> {
+  for (let i = 0; i < keys.length; i += KV_BULK_LIMIT) {
+    await cfFetch(`${kvPath(namespaceId)}/bulk/delete`, {
+      method: "POST",
+      body: JSON.stringify(keys.slice(i, i + KV_BULK_LIMIT)),
+      retryUnsafe: true,
+    });
+  }
+}
+
 export interface PagesProject {
   id: string;
   name: string;
@@ -215,7 +632,88 @@ export interface PagesProject {
 
 export async function listPagesProjects(): Promise<PagesProject[]> {
   const accountId = getAccountId();
-  return cfFetch<PagesProject[]>(`/accounts/${accountId}/pages/projects`);
+  return collectAll(paginate(pageFetcher<PagesProject[]>(`/accounts/${accountId}/pages/projects`)));
+}
+
+export type PagesEnvironment = "production" | "preview";
+
+export interface PagesStage {
+  name: string;
+  started_on: string | null;
+  ended_on: string | null;
+  status: string;
+}
+
+export interface PagesDeployment {
+  id: string;
+  short_id: string;
+  project_name: string;
+  environment: PagesEnvironment;
+  url: string;
+  aliases: string[] | null;
+  created_on: string;
+  modified_on: string;
+  is_skipped?: boolean;
+  latest_stage: PagesStage;
+  stages: PagesStage[];
+  deployment_trigger: {
+    type: string;
+    metadata: {
+      branch?: string;
+      commit_hash?: string;
+      commit_message?: string;
+      commit_dirty?: boolean;
+    };
+  };
+}
+
+export interface PagesLogLine {
+  ts: string;
+  line: string;
+}
+
+export interface PagesDeploymentLogs {
+  total: number;
+  includes_container_logs?: boolean;
+  data: PagesLogLine[];
+}
+
+const PAGES_DEPLOYMENTS_PER_PAGE = 25;
+
+function pagesDeploymentsPath(projectName: string): string {
+  return `/accounts/${getAccountId()}/pages/projects/${encodeURIComponent(projectName)}/deployments`;
+}
+
+export function iteratePagesDeployments(
+  projectName: string,
+  environment?: PagesEnvironment
+): AsyncGenerator<PagesDeployment[]> {
+  const query = new URLSearchParams();
+  if (environment) query.set("env", environment);
+  return paginate(pageFetcher<PagesDeployment[]>(withQuery(pagesDeploymentsPath(projectName), query)), {
+    perPage: PAGES_DEPLOYMENTS_PER_PAGE,
+  });
+}
+
+export async function getPagesDeployment(projectName: string, deploymentId: string): Promise<PagesDeployment> {
+  return cfFetch<PagesDeployment>(`${pagesDeploymentsPath(projectName)}/${deploymentId}`);
+}
+
+export async function getPagesDeploymentLogs(projectName: string, deploymentId: string): Promise<PagesDeploymentLogs> {
+  const logs = await cfFetch<PagesDeploymentLogs>(`${pagesDeploymentsPath(projectName)}/${deploymentId}/history/logs`);
+  return { ...logs, data: logs.data ?? [] };
+}
+
+export async function retryPagesDeployment(projectName: string, deploymentId: string): Promise<PagesDeployment> {
+  return cfFetch<PagesDeployment>(`${pagesDeploymentsPath(projectName)}/${deploymentId}/retry`, { method: "POST" });
+}
+
+export async function rollbackPagesDeployment(projectName: string, deploymentId: string): Promise<PagesDeployment> {
+  return cfFetch<PagesDeployment>(`${pagesDeploymentsPath(projectName)}/${deploymentId}/rollback`, { method: "POST" });
+}
+
+export async function deletePagesDeployment(projectName: string, deploymentId: string, force = false): Promise<void> {
+  await cfFetch(`${pagesDeploymentsPath(projectName)}/${deploymentId}${force ? "?force=true" : ""}`, { method: "DELETE" });
 }
 
 export interface R2Bucket {
@@ -226,10 +724,235 @@ export interface R2Bucket {
 
 export async function listR2Buckets(): Promise<R2Bucket[]> {
   const accountId = getAccountId();
-  const response = await cfFetch<{ buckets: R2Bucket[] }>(
-    `/accounts/${accountId}/r2/buckets`
+  return collectAll(
+    paginate(pageFetcher<{ buckets: R2Bucket[] }>(`/accounts/${accountId}/r2/buckets`), {
+      perPage: 1000,
+      select: (result) => result.buckets || [],
+    })
   );
-  return response.buckets || [];
+}
+
+export const R2_LOCATION_HINTS = ["wnam", "enam", "weur", "eeur", "apac", "oc"] as const;
+
+export type R2LocationHint = (typeof R2_LOCATION_HINTS)[number];
+
+export interface R2CorsRule {
+  id?: string;
+  allowed: {
+    origins: string[];
+    methods: string[];
+    headers?: string[];
+  };
+  exposeHeaders?: string[];
+  maxAgeSeconds?: number;
+}
+
+export type R2LifecycleCondition =
+  | { type: "Age"; maxAge: number }
+  | { type: "Date"; date: string };
+
+export interface R2LifecycleRule {
+  id: string;
+  enabled: boolean;
+  conditions: { prefix: string };
+  deleteObjectsTransition?: { condition: R2LifecycleCondition };
+  abortMultipartUploadsTransition?: { condition: { type: "Age"; maxAge: number } };
+  storageClassTransitions?: Array<{ condition: R2LifecycleCondition; storageClass: string }>;
+}
+
+export interface R2ManagedDomain {
+  bucketId: string;
+  domain: string;
+  enabled: boolean;
+}
+
+export interface R2CustomDomain {
+  domain: string;
+  enabled: boolean;
+  zoneId?: string;
+  zoneName?: string;
+  minTLS?: string;
+  status: {
+    ownership: string;
+    ssl: string;
+  };
+}
+
+function r2BucketPath(bucket: string): string {
+  return `/accounts/${getAccountId()}/r2/buckets/${encodeURIComponent(bucket)}`;
+}
+
+export async function createR2Bucket(name: string, locationHint?: R2LocationHint): Promise<R2Bucket> {
+  return cfFetch<R2Bucket>(`/accounts/${getAccountId()}/r2/buckets`, {
+    method: "POST",
+    body: JSON.stringify(locationHint ? { name, locationHint } : { name }),
+  });
+}
+
+export async function deleteR2Bucket(name: string): Promise<void> {
+  await cfFetch(r2BucketPath(name), { method: "DELETE" });
+}
+
+export async function getR2BucketCors(bucket: string): Promise<R2CorsRule[]> {
+  try {
+    const result = await cfFetch<{ rules?: R2CorsRule[] }>(`${r2BucketPath(bucket)}/cors`);
+    return result?.rules ?? [];
+  } catch (err) {
+    // Buckets without a CORS policy answer 404 rather than an empty rule list.
+    if (err instanceof CloudflareApiError && err.status === 404) return [];
+    throw err;
+  }
+}
+
+export async function putR2BucketCors(bucket: string, rules: R2CorsRule[]): Promise<void> {
+  if (rules.length === 0) {
+    await cfFetch(`${r2BucketPath(bucket)}/cors`, { method: "DELETE" });
+    return;
+  }
+  await cfFetch(`${r2BucketPath(bucket)}/cors`, {
+    method: "PUT",
+    body: JSON.stringify({ rules }),
+  });
+}
+
+export async function getR2BucketLifecycle(bucket: string): Promise<R2LifecycleRule[]> {
+  const result = await cfFetch<{ rules?: R2LifecycleRule[] }>(`${r2BucketPath(bucket)}/lifecycle`);
+  return result?.rules ?? [];
+}
+
+export async function putR2BucketLifecycle(bucket: string, rules: R2LifecycleRule[]): Promise<void> {
+  await cfFetch(`${r2BucketPath(bucket)}/lifecycle`, {
+    method: "PUT",
+    body: JSON.stringify({ rules }),
+  });
+}
+
+export async function getR2ManagedDomain(bucket: string): Promise<R2ManagedDomain> {
+  return cfFetch<R2ManagedDomain>(`${r2BucketPath(bucket)}/domains/managed`);
+}
+
+export async function setR2ManagedDomain(bucket: string, enabled: boolean): Promise<R2ManagedDomain> {
+  return cfFetch<R2ManagedDomain>(`${r2BucketPath(bucket)}/domains/managed`, {
+    method: "PUT",
+    body: JSON.stringify({ enabled }),
+  });
+}
+
+export async function listR2CustomDomains(bucket: string): Promise<R2CustomDomain[]> {
+  const result = await cfFetch<{ domains?: R2CustomDomain[] }>(`${r2BucketPath(bucket)}/domains/custom`);
+  return result?.domains ?? [];
+}
+
+export async function attachR2CustomDomain(
+  bucket: string,
+  params: { domain: string; zoneId: string; enabled: boolean; minTLS?: string }
+): Promise<void> {
+  await cfFetch(`${r2BucketPath(bucket)}/domains/custom`, {
+    method: "POST",
+    body: JSON.stringify(params),
+  });
+}
+
+export async function updateR2CustomDomain(
+  bucket: string,
+  domain: string,
+  params: { enabled?: boolean; minTLS?: string }
+): Promise<void> {
+  await cfFetch(`${r2BucketPath(bucket)}/domains/custom/${encodeURIComponent(domain)}`, {
+    method: "PUT",
+    body: JSON.stringify(params),
+  });
+}
+
+export async function removeR2CustomDomain(bucket: string, domain: string): Promise<void> {
+  await cfFetch(`${r2BucketPath(bucket)}/domains/custom/${encodeURIComponent(domain)}`, {
+    method: "DELETE",
+  });
+}
+
+export interface R2HttpMetadata {
+  contentType?: string;
+  contentLanguage?: string;
+  contentDisposition?: string;
+  contentEncoding?: string;
+  cacheControl?: string;
+  cacheExpiry?: string;
+}
+
+export interface R2Object {
+  key: string;
+  size: number;
+  etag: string;
+  last_modified: string;
+  storage_class?: string;
+  http_metadata?: R2HttpMetadata;
+  custom_metadata?: Record<string, string>;
+}
+
+export type R2Entry =
+  | { type: "prefix"; prefix: string }
+  | { type: "object"; object: R2Object };
+
+const R2_LIST_LIMIT = 1000;
+const R2_TRANSFER_TIMEOUT_MS = 10 * MINUTE;
+
+function r2ObjectPath(bucket: string, key?: string): string {
+  const path = `${r2BucketPath(bucket)}/objects`;
+  return key === undefined ? path : `${path}/${encodeURIComponent(key)}`;
+}
+
+export async function* iterateR2Objects(bucket: string, prefix = "", delimiter = "/"): AsyncGenerator<R2Entry[]> {
+  let cursor = "";
+  do {
+    const query = new URLSearchParams({ per_page: R2_LIST_LIMIT.toString() });
+    if (prefix) query.set("prefix", prefix);
+    if (delimiter) query.set("delimiter", delimiter);
+    if (cursor) query.set("cursor", cursor);
+    const data = await cfRequest<R2Object[]>(withQuery(r2ObjectPath(bucket), query));
+    yield [
+      ...(data.result_info?.delimited ?? []).map((p): R2Entry => ({ type: "prefix", prefix: p })),
+      ...(data.result ?? []).map((object): R2Entry => ({ type: "object", object })),
+    ];
+    cursor = data.result_info?.is_truncated ? data.result_info.cursor ?? "" : "";
+  } while (cursor);
+}
+
+export async function getR2Object(bucket: string, key: string): Promise<Response> {
+  return apiResponse(r2ObjectPath(bucket, key), {
+    headers: getAuthHeaders(),
+    timeoutMs: R2_TRANSFER_TIMEOUT_MS,
+  });
+}
+
+export async function putR2Object(
+  bucket: string,
+  key: string,
+  body: Blob,
+  contentType?: string,
+  signal?: AbortSignal
+): Promise<void> {
+  await cfFetch(r2ObjectPath(bucket, key), {
+    method: "PUT",
+    body,
+    headers: contentType ? { "Content-Type": contentType } : {},
+    timeoutMs: R2_TRANSFER_TIMEOUT_MS,
+    signal,
+  });
+}
+
+export async function deleteR2Object(bucket: string, key: string): Promise<void> {
+  await cfFetch(r2ObjectPath(bucket, key), { method: "DELETE" });
+}
+
+export async function deleteR2Objects(
+  bucket: string,
+  keys: string[],
+  onProgress?: (deleted: number) => void
+): Promise<void> {
+  for (const [i, key] of keys.entries()) {
+    await deleteR2Object(bucket, key);
+    onProgress?.(i + 1);
+  }
 }
 
 export interface D1Database {
@@ -243,7 +966,99 @@ export interface D1Database {
 
 export async function listD1Databases(): Promise<D1Database[]> {
   const accountId = getAccountId();
-  return cfFetch<D1Database[]>(`/accounts/${accountId}/d1/database`);
+  return collectAll(paginate(pageFetcher<D1Database[]>(`/accounts/${accountId}/d1/database`), { perPage: 100 }));
+}
+
+export interface D1QueryMeta {
+  duration?: number;
+  rows_read?: number;
+  rows_written?: number;
+  changes?: number;
+  last_row_id?: number;
+  changed_db?: boolean;
+  size_after?: number;
+}
+
+export interface D1RawResult {
+  success: boolean;
+  results: { columns: string[]; rows: unknown[][] };
+  meta: D1QueryMeta;
+}
+
+function d1DatabasePath(databaseId: string): string {
+  return `/accounts/${getAccountId()}/d1/database/${databaseId}`;
+}
+
+export async function queryD1Database(databaseId: string, sql: string, params: unknown[] = []): Promise<D1RawResult[]> {
+  return cfFetch<D1RawResult[]>(`${d1DatabasePath(databaseId)}/raw`, {
+    method: "POST",
+    body: JSON.stringify(params.length > 0 ? { sql, params } : { sql }),
+  });
+}
+
+export interface D1ExportStatus {
+  success: boolean;
+  type: "export";
+  status?: "active" | "complete" | "error";
+  at_bookmark?: string;
+  error?: string;
+  messages?: string[];
+  result?: { filename: string; signed_url: string };
+}
+
+export interface D1ImportStatus {
+  success: boolean;
+  type: "import";
+  status?: "active" | "complete" | "error";
+  at_bookmark?: string;
+  error?: string;
+  messages?: string[];
+  filename?: string;
+  upload_url?: string;
+  result?: { num_queries?: number; final_bookmark?: string; meta?: D1QueryMeta };
+}
+
+export type D1ImportAction =
+  | { action: "init"; etag: string }
+  | { action: "ingest"; etag: string; filename: string }
+  | { action: "poll"; current_bookmark: string };
+
+export interface D1RestoreResult {
+  bookmark: string;
+  previous_bookmark?: string;
+  message?: string;
+}
+
+export async function exportD1Database(databaseId: string, currentBookmark?: string): Promise<D1ExportStatus> {
+  return cfFetch<D1ExportStatus>(`${d1DatabasePath(databaseId)}/export`, {
+    method: "POST",
+    body: JSON.stringify(
+      currentBookmark ? { output_format: "polling", current_bookmark: currentBookmark } : { output_format: "polling" }
+    ),
+  });
+}
+
+export async function importD1Database(databaseId: string, action: D1ImportAction): Promise<D1ImportStatus> {
+  return cfFetch<D1ImportStatus>(`${d1DatabasePath(databaseId)}/import`, {
+    method: "POST",
+    body: JSON.stringify(action),
+  });
+}
+
+export async function getD1Bookmark(databaseId: string, timestamp?: Date): Promise<string> {
+  const query = timestamp ? `?timestamp=${encodeURIComponent(timestamp.toISOString())}` : "";
+  const result = await cfFetch<{ bookmark: string }>(`${d1DatabasePath(databaseId)}/time_travel/bookmark${query}`);
+  return result.bookmark;
+}
+
+export async function restoreD1Database(
+  databaseId: string,
+  target: { bookmark: string } | { timestamp: Date }
+): Promise<D1RestoreResult> {
+  const query = "bookmark" in target
+    ? `bookmark=${encodeURIComponent(target.bookmark)}`
+    : `timestamp=${encodeURIComponent(target.timestamp.toISOString())}`;
+  return cfFetch<D1RestoreResult>(`${d1DatabasePath(databaseId)}/time_travel/restore?${query}`, { method: "POST" });
 }
 
 export interface Domain {
@@ -283,7 +1098,7 @@ export interface DomainAvailability {
 
 export async function listDomains(): Promise<Domain[]> {
   const accountId = getAccountId();
-  return cfFetch<Domain[]>(`/accounts/${accountId}/registrar/domains`);
+  return collectAll(paginate(pageFetcher<Domain[]>(`/accounts/${accountId}/registrar/domains`)));
 }
 
 export async function getDomain(domainName: string): Promise<Domain> {
@@ -343,9 +1158,29 @@ export interface StreamUploadParams {
   meta?: Record<string, string>;
 }
 
-export async function listStreamVideos(): Promise<StreamVideo[]> {
+const STREAM_LIST_LIMIT = 1000;
+
+export async function* iterateStreamVideos(): AsyncGenerator<StreamVideo[]> {
   const accountId = getAccountId();
-  return cfFetch<StreamVideo[]>(`/accounts/${accountId}/stream`);
+  const seen = new Set<string>();
+  let end: string | undefined;
+
+  while (true) {
+    const query = new URLSearchParams();
+    if (end) query.set("end", end);
+    const batch = await cfFetch<StreamVideo[]>(withQuery(`/accounts/${accountId}/stream`, query));
+    const fresh = batch.filter((video) => !seen.has(video.uid));
+    for (const video of fresh) seen.add(video.uid);
+    if (fresh.length > 0) yield fresh;
+
+    const last = batch[batch.length - 1];
+    if (batch.length < STREAM_LIST_LIMIT || fresh.length === 0 || !last) return;
+    end = last.created;
+  }
+}
+
+export async function listStreamVideos(): Promise<StreamVideo[]> {
+  return collectAll(iterateStreamVideos());
 }
 
 export async function getStreamVideo(videoId: string): Promise<StreamVideo> {
@@ -397,8 +1232,12 @@ export interface ImagesStats {
 
 export async function listImages(): Promise<CloudflareImage[]> {
   const accountId = getAccountId();
-  const response = await cfFetch<{ images: CloudflareImage[] }>(`/accounts/${accountId}/images/v1`);
-  return response.images || [];
+  return collectAll(
+    paginate(pageFetcher<{ images: CloudflareImage[] }>(`/accounts/${accountId}/images/v1`), {
+      perPage: 100,
+      select: (result) => result.images || [],
+    })
+  );
 }
 
 export async function getImage(imageId: string): Promise<CloudflareImage> {
@@ -562,7 +1401,7 @@ export interface LoadBalancer {
 
 export async function listLoadBalancerPools(): Promise<LoadBalancerPool[]> {
   const accountId = getAccountId();
-  return cfFetch<LoadBalancerPool[]>(`/accounts/${accountId}/load_balancers/pools`);
+  return collectAll(paginate(pageFetcher<LoadBalancerPool[]>(`/accounts/${accountId}/load_balancers/pools`)));
 }
 
 export async function getLoadBalancerPool(poolId: string): Promise<LoadBalancerPool> {
@@ -595,7 +1434,7 @@ export async function deleteLoadBalancerPool(poolId: string): Promise<void> {
 
 export async function listLoadBalancerMonitors(): Promise<LoadBalancerMonitor[]> {
   const accountId = getAccountId();
-  return cfFetch<LoadBalancerMonitor[]>(`/accounts/${accountId}/load_balancers/monitors`);
+  return collectAll(paginate(pageFetcher<LoadBalancerMonitor[]>(`/accounts/${accountId}/load_balancers/monitors`)));
 }
 
 export async function createLoadBalancerMonitor(params: Omit<LoadBalancerMonitor, "id" | "created_on" | "modified_on">): Promise<LoadBalancerMonitor> {
@@ -606,6 +1445,14 @@ export async function createLoadBalancerMonitor(params: Omit<LoadBalancerMonitor
   });
 }
 
+export async function updateLoadBalancerMonitor(monitorId: string, params: Partial<LoadBalancerMonitor>): Promise<LoadBalancerMonitor> {
+  const accountId = getAccountId();
+  return cfFetch<LoadBalancerMonitor>(`/accounts/${accountId}/load_balancers/monitors/${monitorId}`, {
+    method: "PATCH",
+    body: JSON.stringify(params),
+  });
+}
+
 export async function deleteLoadBalancerMonitor(monitorId: string): Promise<void> {
   const accountId = getAccountId();
   await cfFetch<void>(`/accounts/${accountId}/load_balancers/monitors/${monitorId}`, {
@@ -614,12 +1461,27 @@ export async function deleteLoadBalancerMonitor(monitorId: string): Promise<void
 }
 
 export async function listLoadBalancers(zoneId: string): Promise<LoadBalancer[]> {
-  return cfFetch<LoadBalancer[]>(`/zones/${zoneId}/load_balancers`);
+  return collectAll(paginate(pageFetcher<LoadBalancer[]>(`/zones/${zoneId}/load_balancers`)));
 }
 
-export async function getLoadBalancerPoolHealth(poolId: string): Promise<Record<string, unknown>> {
+export interface LoadBalancerOriginHealth {
+  healthy: boolean;
+  rtt?: string;
+  failure_reason?: string;
+  response_code?: number;
+}
+
+export interface LoadBalancerPoolHealth {
+  pool_id: string;
+  pop_health: Record<string, {
+    healthy: boolean;
+    origins: Array<Record<string, LoadBalancerOriginHealth>>;
+  }>;
+}
+
+export async function getLoadBalancerPoolHealth(poolId: string): Promise<LoadBalancerPoolHealth> {
   const accountId = getAccountId();
-  return cfFetch<Record<string, unknown>>(`/accounts/${accountId}/load_balancers/pools/${poolId}/health`);
+  return cfFetch<LoadBalancerPoolHealth>(`/accounts/${accountId}/load_balancers/pools/${poolId}/health`);
 }
 
 export interface SpectrumApp {
@@ -648,7 +1510,7 @@ export interface SpectrumApp {
 }
 
 export async function listSpectrumApps(zoneId: string): Promise<SpectrumApp[]> {
-  return cfFetch<SpectrumApp[]>(`/zones/${zoneId}/spectrum/apps`);
+  return collectAll(paginate(pageFetcher<SpectrumApp[]>(`/zones/${zoneId}/spectrum/apps`), { perPage: 100 }));
 }
 
 export async function getSpectrumApp(zoneId: string, appId: string): Promise<SpectrumApp> {
@@ -692,6 +1554,14 @@ export interface EmailRoutingRule {
   }>;
 }
 
+export interface EmailRoutingCatchAll {
+  tag: string;
+  name: string;
+  enabled: boolean;
+  matchers: Array<{ type: "all" }>;
+  actions: EmailRoutingRule["actions"];
+}
+
 export interface EmailRoutingAddress {
   id: string;
   tag: string;
@@ -729,7 +1599,7 @@ export async function disableEmailRouting(zoneId: string): Promise<EmailRoutingS
 }
 
 export async function listEmailRoutingRules(zoneId: string): Promise<EmailRoutingRule[]> {
-  return cfFetch<EmailRoutingRule[]>(`/zones/${zoneId}/email/routing/rules`);
+  return collectAll(paginate(pageFetcher<EmailRoutingRule[]>(`/zones/${zoneId}/email/routing/rules`), { perPage: 50 }));
 }
 
 export async function createEmailRoutingRule(zoneId: string, params: Omit<EmailRoutingRule, "id" | "tag">): Promise<EmailRoutingRule> {
@@ -752,9 +1622,20 @@ export async function deleteEmailRoutingRule(zoneId: string, ruleId: string): Pr
   });
 }
 
+export async function getEmailRoutingCatchAll(zoneId: string): Promise<EmailRoutingCatchAll> {
+  return cfFetch<EmailRoutingCatchAll>(`/zones/${zoneId}/email/routing/rules/catch_all`);
+}
+
+export async function updateEmailRoutingCatchAll(zoneId: string, params: Omit<EmailRoutingCatchAll, "tag">): Promise<EmailRoutingCatchAll> {
+  return cfFetch<EmailRoutingCatchAll>(`/zones/${zoneId}/email/routing/rules/catch_all`, {
+    method: "PUT",
+    body: JSON.stringify(params),
+  });
+}
+
 export async function listEmailRoutingAddresses(): Promise<EmailRoutingAddress[]> {
   const accountId = getAccountId();
-  return cfFetch<EmailRoutingAddress[]>(`/accounts/${accountId}/email/routing/addresses`);
+  return collectAll(paginate(pageFetcher<EmailRoutingAddress[]>(`/accounts/${accountId}/email/routing/addresses`), { perPage: 50 }));
 }
 
 export async function createEmailRoutingAddress(email: string): Promise<EmailRoutingAddress> {
@@ -818,3 +1699,14 @@ export async function deletePageRule(zoneId: string, ruleId: string): Promise<vo
     method: "DELETE",
   });
 }
+
+export async function reorderPageRules(
+  zoneId: string,
+  rules: Array<{ id: string; priority: number }>
+): Promise<PageRule[]> {
+  const updated: PageRule[] = [];
+  for (const { id, priority } of rules) {
+    updated.push(await updatePageRule(zoneId, id, { priority }));
+  }
+  return updated;
+}
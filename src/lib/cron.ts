@@ -0,0 +1,181 @@
+interface FieldSpec {
+  name: string;
+  min: number;
+  max: number;
+  aliases?: string[];
+}
+
+const MINUTE: FieldSpec = { name: "minute", min: 0, max: 59 };
+const HOUR: FieldSpec = { name: "hour", min: 0, max: 23 };
+const DAY_OF_MONTH: FieldSpec = { name: "day-of-month", min: 1, max: 31 };
+const MONTH: FieldSpec = {
+  name: "month",
+  min: 1,
+  max: 12,
+  aliases: ["JAN", "FEB", "MAR", "APR", "MAY", "JUN", "JUL", "AUG", "SEP", "OCT", "NOV", "DEC"],
+};
+const DAY_OF_WEEK: FieldSpec = {
+  name: "day-of-week",
+  min: 0,
+  max: 7,
+  aliases: ["SUN", "MON", "TUE", "WED", "THU", "FRI", "SAT"],
+};
+
+const MAX_SEARCH_MINUTES = 5 * 366 * 24 * 60;
+
+export interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  days: Set<number>;
+  lastDayOfMonth: boolean;
+  months: Set<number>;
+  weekdays: Set<number>;
+  nthWeekdays: Array<{ weekday: number; nth: number }>;
+  lastWeekdays: Set<number>;
+  dayRestricted: boolean;
+  weekdayRestricted: boolean;
+}
+
+function parseValue(raw: string, spec: FieldSpec): number {
+  const upper = raw.toUpperCase();
+  const alias = spec.aliases?.indexOf(upper) ?? -1;
+  if (alias !== -1) return alias + (spec === MONTH ? 1 : 0);
+  if (!/^\d+$/.test(raw)) throw new Error(`Invalid ${spec.name} value "${raw}"`);
+  const value = Number(raw);
+  if (value < spec.min || value > spec.max) {
+    throw new Error(`${spec.name} value ${value} is out of range (${spec.min}-${spec.max})`);
+  }
+  return value;
+}
+
+function parseField(field: string, spec: FieldSpec): Set<number> {
+  const values = new Set<number>();
+  for (const part of field.split(",")) {
+    if (!part) throw new Error(`Empty entry in ${spec.name} field`);
+    const [range, stepText] = part.split("/");
+    let step = 1;
+    if (stepText !== undefined) {
+      if (!/^\d+$/.test(stepText) || Number(stepText) === 0) throw new Error(`Invalid step "${stepText}" in ${spec.name} field`);
+      step = Number(stepText);
+    }
+    let start: number;
+    let end: number;
+    if (range === "*") {
+      start = spec.min;
+      end = spec.max;
+    } else if (range!.includes("-")) {
+      const [from, to] = range!.split("-");
+      start = parseValue(from ?? "", spec);
+      end = parseValue(to ?? "", spec);
+      if (start > end) throw new Error(`Range ${range} in ${spec.name} field is backwards`);
+    } else {
+      start = parseValue(range!, spec);
+      end = stepText === undefined ? start : spec.max;
+    }
+    for (let value = start; value <= end; value += step) values.add(value);
+  }
+  return values;
+}
+
+/**
+ * Parses a five-field cron expression as accepted by Workers Cron Triggers,
+ * including `L` for the last day of the month and `d#n` / `dL` weekday forms.
+ * Throws with a message naming the offending field.
+ */
+export function parseCron(expression: string): CronSchedule {
+  const fields = expression.trim().split(/\s+/).filter(Boolean);
+  if (fields.length !== 5) {
+    throw new Error(`Expected 5 fields (minute hour day-of-month month day-of-week), got ${fields.length}`);
+  }
+  const [minute, hour, dayOfMonth, month, dayOfWeek] = fields as [string, string, string, string, string];
+
+  const dayParts = dayOfMonth.split(",");
+  const lastDayOfMonth = dayParts.some((part) => part.toUpperCase() === "L");
+  const plainDays = dayParts.filter((part) => part.toUpperCase() !== "L");
+
+  const nthWeekdays: CronSchedule["nthWeekdays"] = [];
+  const lastWeekdays = new Set<number>();
+  const plainWeekdays: string[] = [];
+  for (const part of dayOfWeek.split(",")) {
+    const nth = part.match(/^(\w+)#(\d)$/);
+    const last = part.match(/^(\w+)L$/i);
+    if (nth) {
+      const n = Number(nth[2]);
+      if (n < 1 || n > 5) throw new Error(`Invalid occurrence "#${nth[2]}" in day-of-week field (1-5)`);
+      nthWeekdays.push({ weekday: parseValue(nth[1]!, DAY_OF_WEEK) % 7, nth: n });
+    } else if (last) {
+      lastWeekdays.add(parseValue(last[1]!, DAY_OF_WEEK) % 7);
+    } else {
+      plainWeekdays.push(part);
+    }
+  }
+
+  const weekdays = new Set([...(plainWeekdays.length ? parseField(plainWeekdays.join(","), DAY_OF_WEEK) : [])].map((d) => d % 7));
+
+  return {
+    minutes: parseField(minute, MINUTE),
+    hours: parseField(hour, HOUR),
+    days: plainDays.length ? parseField(plainDays.join(","), DAY_OF_MONTH) : new Set(),
+    lastDayOfMonth,
+    months: parseField(month, MONTH),
+    weekdays,
+    nthWeekdays,
+    lastWeekdays,
+    dayRestricted: dayOfMonth !== "*",
+    weekdayRestricted: dayOfWeek !== "*",
+  };
+}
+
+export function validateCron(expression: string): string | null {
+  try {
+    parseCron(expression);
+    return null;
+  } catch (err) {
+    return err instanceof Error ? err.message : "Invalid cron expression";
+  }
+}
+
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+  const day = date.getUTCDate();
+  const weekday = date.getUTCDay();
+  const lastDay = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0)).getUTCDate();
+
+  const dayMatch = schedule.days.has(day) || (schedule.lastDayOfMonth && day === lastDay);
+  const weekdayMatch =
+    schedule.weekdays.has(weekday) ||
+    schedule.nthWeekdays.some((entry) => entry.weekday === weekday && Math.ceil(day / 7) === entry.nth) ||
+    (schedule.lastWeekdays.has(weekday) && day + 7 > lastDay);
+
+  if (schedule.dayRestricted && schedule.weekdayRestricted) return dayMatch || weekdayMatch;
+  if (schedule.dayRestricted) return dayMatch;
+  if (schedule.weekdayRestricted) return weekdayMatch;
+  return true;
+}
+
+/** Cron Triggers run in UTC, so matching happens on UTC fields of each candidate minute. */
+export function nextFireTimes(schedule: CronSchedule, from: Date = new Date(), count = 5): Date[] {
+  const times: Date[] = [];
+  const cursor = new Date(from.getTime());
+  cursor.setUTCSeconds(0, 0);
+  cursor.setUTCMinutes(cursor.getUTCMinutes() + 1);
+
+  for (let steps = 0; times.length < count && steps < MAX_SEARCH_MINUTES; steps++) {
+    if (!schedule.months.has(cursor.getUTCMonth() + 1)) {
+      cursor.setUTCMonth(cursor.getUTCMonth() + 1, 1);
+      cursor.setUTCHours(0, 0);
+      continue;
+    }
+    if (!matchesDay(schedule, cursor)) {
+      cursor.setUTCDate(cursor.getUTCDate() + 1);
+      cursor.setUTCHours(0, 0);
+      continue;
+    }
+    if (!schedule.hours.has(cursor.getUTCHours())) {
+      cursor.setUTCHours(cursor.getUTCHours() + 1, 0);
+      continue;
+    }
+    if (schedule.minutes.has(cursor.getUTCMinutes())) times.push(new Date(cursor.getTime()));
+    cursor.setUTCMinutes(cursor.getUTCMinutes() + 1);
+  }
+  return times;
+}
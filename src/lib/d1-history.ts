@@ -0,0 +1,28 @@
+import { mkdir, writeFile } from "node:fs/promises";
+import { homedir } from "node:os";
+import { join } from "node:path";
+
+const HISTORY_DIR = join(homedir(), ".flarectl", "d1-history");
+const MAX_HISTORY = 500;
+
+function historyFile(databaseId: string): string {
+  return join(HISTORY_DIR, `${databaseId}.json`);
+}
+
+export async function loadQueryHistory(databaseId: string): Promise<string[]> {
+  try {
+    const data = await Bun.file(historyFile(databaseId)).json();
+    return Array.isArray(data) ? data.filter((entry): entry is string => typeof entry === "string") : [];
+  } catch {
+    return [];
+  }
+}
+
+export async function appendQueryHistory(databaseId: string, history: string[], sql: string): Promise<string[]> {
+  const next = history[history.length - 1] === sql ? history : [...history, sql].slice(-MAX_HISTORY);
+  if (next !== history) {
+    await mkdir(HISTORY_DIR, { recursive: true, mode: 0o700 });
+    await writeFile(historyFile(databaseId), JSON.stringify(next, null, 2), { mode: 0o600 });
+  }
+  return next;
+}
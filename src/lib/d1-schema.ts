@@ -0,0 +1,121 @@
+import { queryD1Database, type D1RawResult } from "./cloudflare.ts";
+import { splitStatements } from "./d1-sql.ts";
+
+export type SchemaObjectType = "table" | "view" | "index" | "trigger";
+
+export interface SchemaObject {
+  type: SchemaObjectType;
+  name: string;
+  tableName: string;
+  sql: string | null;
+}
+
+export interface ColumnInfo {
+  name: string;
+  type: string;
+  notNull: boolean;
+  defaultValue: string | null;
+  primaryKey: number;
+}
+
+export interface ForeignKey {
+  from: string;
+  table: string;
+  to: string | null;
+  onUpdate: string;
+  onDelete: string;
+}
+
+export interface TableDescription {
+  columns: ColumnInfo[];
+  foreignKeys: ForeignKey[];
+}
+
+export interface RowQuery {
+  where?: string;
+  orderBy?: string;
+  descending?: boolean;
+  limit: number;
+  offset: number;
+}
+
+export interface RowPage {
+  columns: string[];
+  rows: unknown[][];
+  total: number;
+}
+
+export function quoteIdentifier(name: string): string {
+  return `"${name.replace(/"/g, '""')}"`;
+}
+
+function records(result: D1RawResult | undefined): Record<string, unknown>[] {
+  if (!result) return [];
+  const { columns, rows } = result.results;
+  return rows.map((row) => Object.fromEntries(columns.map((column, i) => [column, row[i]])));
+}
+
+async function queryRecords(databaseId: string, sql: string): Promise<Record<string, unknown>[]> {
+  const [result] = await queryD1Database(databaseId, sql);
+  return records(result);
+}
+
+export async function loadSchema(databaseId: string): Promise<SchemaObject[]> {
+  const rows = await queryRecords(
+    databaseId,
+    "SELECT type, name, tbl_name, sql FROM sqlite_master " +
+      "WHERE name NOT LIKE 'sqlite_%' AND name NOT LIKE '_cf_%' ORDER BY tbl_name, type, name"
+  );
+  return rows.map((row) => ({
+    type: row.type as SchemaObjectType,
+    name: String(row.name),
+    tableName: String(row.tbl_name),
+    sql: typeof row.sql === "string" ? row.sql : null,
+  }));
+}
+
+export async function describeTable(databaseId: string, table: string): Promise<TableDescription> {
+  const [columns, foreignKeys] = await Promise.all([
+    queryRecords(databaseId, `PRAGMA table_info(${quoteIdentifier(table)})`),
+    queryRecords(databaseId, `PRAGMA foreign_key_list(${quoteIdentifier(table)})`),
+  ]);
+  return {
+    columns: columns.map((c) => ({
+      name: String(c.name),
+      type: String(c.type ?? ""),
+      notNull: Boolean(c.notnull),
+      defaultValue: c.dflt_value === null || c.dflt_value === undefined ? null : String(c.dflt_value),
+      primaryKey: Number(c.pk ?? 0),
+    })),
+    foreignKeys: foreignKeys.map((fk) => ({
+      from: String(fk.from),
+      table: String(fk.table),
+      to: fk.to === null || fk.to === undefined ? null : String(fk.to),
+      onUpdate: String(fk.on_update ?? "NO ACTION"),
+      onDelete: String(fk.on_delete ?? "NO ACTION"),
+    })),
+  };
+}
+
+export function validateWhereClause(where: string): string | null {
+  if (splitStatements(`SELECT 1 WHERE ${where}`).length !== 1) {
+    return "Filter must be a single expression";
+  }
+  return null;
+}
+
+export async function fetchRows(databaseId: string, table: string, query: RowQuery): Promise<RowPage> {
+  const where = query.where?.trim() ? ` WHERE ${query.where.trim()}` : "";
+  const order = query.orderBy ? ` ORDER BY ${quoteIdentifier(query.orderBy)} ${query.descending ? "DESC" : "ASC"}` : "";
+  const from = `FROM ${quoteIdentifier(table)}${where}`;
+
+  const [[page], [count]] = await Promise.all([
+    queryD1Database(databaseId, `SELECT * ${from}${order} LIMIT ${query.limit} OFFSET ${query.offset}`),
+    queryD1Database(databaseId, `SELECT COUNT(*) AS total ${from}`),
+  ]);
+  return {
+    columns: page?.results.columns ?? [],
+    rows: page?.results.rows ?? [],
+    total: Number(count?.results.rows[0]?.[0] ?? 0),
+  };
+}
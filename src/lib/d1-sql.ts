@@ -0,0 +1,70 @@
+const READ_KEYWORDS = new Set(["SELECT", "EXPLAIN", "VALUES"]);
+const WRITE_KEYWORDS = /\b(INSERT|UPDATE|DELETE|REPLACE|CREATE|DROP|ALTER)\b/i;
+
+function stripComments(sql: string): string {
+  return sql.replace(/--[^\n]*/g, " ").replace(/\/\*[\s\S]*?\*\//g, " ");
+}
+
+export function splitStatements(sql: string): string[] {
+  const statements: string[] = [];
+  let current = "";
+  let quote: string | null = null;
+
+  for (let i = 0; i < sql.length; i++) {
+    const ch = sql[i]!;
+    if (quote) {
+      current += ch;
+      if (ch === quote) quote = null;
+      continue;
+    }
+    if (ch === "-" && sql[i + 1] === "-") {
+      const end = sql.indexOf("\n", i);
+      i = end === -1 ? sql.length : end;
+      current += "\n";
+      continue;
+    }
+    if (ch === "/" && sql[i + 1] === "*") {
+      const end = sql.indexOf("*/", i + 2);
+      i = end === -1 ? sql.length : end + 1;
+      current += " ";
+      continue;
+    }
+    if (ch === "'" || ch === '"' || ch === "`") {
+      quote = ch;
+    } else if (ch === "[") {
+      quote = "]";
+    } else if (ch === ";") {
+      if (current.trim()) statements.push(current.trim());
+      current = "";
+      continue;
+    }
+    current += ch;
+  }
+
+  if (current.trim()) statements.push(current.trim());
+  return statements;
+}
+
+function withoutLiterals(sql: string): string {
+  return sql.replace(/'(?:[^']|'')*'|"(?:[^"]|"")*"|`[^`]*`|\[[^\]]*\]/g, "''");
+}
+
+export function isWriteStatement(statement: string): boolean {
+  const sql = withoutLiterals(stripComments(statement)).trim();
+  const keyword = sql.match(/^[A-Za-z]+/)?.[0]?.toUpperCase() ?? "";
+  if (READ_KEYWORDS.has(keyword)) return false;
+  if (keyword === "WITH") return WRITE_KEYWORDS.test(sql);
+  if (keyword === "PRAGMA") return sql.includes("=");
+  return true;
+}
+
+export function hasWriteStatement(sql: string): boolean {
+  return splitStatements(sql).some(isWriteStatement);
+}
+
+export function formatSqlValue(value: unknown, maxWidth = Infinity): string {
+  if (value === null || value === undefined) return "NULL";
+  const text = typeof value === "object" ? JSON.stringify(value) : String(value);
+  const flat = text.replace(/\s+/g, " ");
+  return flat.length > maxWidth ? `${flat.slice(0, maxWidth - 1)}…` : flat;
+}
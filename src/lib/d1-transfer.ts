@@ -0,0 +1,118 @@
+import { createHash } from "node:crypto";
+import { rename, rm } from "node:fs/promises";
+import { apiResponse } from "./api-client.ts";
+import { exportD1Database, importD1Database, type D1ExportStatus, type D1ImportStatus } from "./cloudflare.ts";
+import { expandHome } from "./paths.ts";
+
+const POLL_INTERVAL_MS = 1000;
+const TRANSFER_TIMEOUT_MS = 10 * 60 * 1000;
+
+export interface D1TransferProgress {
+  stage: string;
+  done: number;
+  total: number;
+  message?: string;
+}
+
+export type D1ProgressHandler = (progress: D1TransferProgress) => void;
+
+export interface D1ExportResult {
+  path: string;
+  bytes: number;
+}
+
+export interface D1ImportResult {
+  queries: number;
+  bookmark: string | null;
+}
+
+function lastMessage(status: D1ExportStatus | D1ImportStatus): string | undefined {
+  return status.messages?.[status.messages.length - 1];
+}
+
+function failure(status: D1ExportStatus | D1ImportStatus, fallback: string): Error {
+  return new Error(status.error ?? lastMessage(status) ?? fallback);
+}
+
+export async function exportD1ToFile(
+  databaseId: string,
+  path: string,
+  onProgress?: D1ProgressHandler
+): Promise<D1ExportResult> {
+  const target = expandHome(path);
+  onProgress?.({ stage: "Preparing export", done: 0, total: 0 });
+
+  let status = await exportD1Database(databaseId);
+  while (status.status !== "complete") {
+    if (status.status === "error" || !status.success) throw failure(status, "Export failed");
+    onProgress?.({ stage: "Preparing export", done: 0, total: 0, message: lastMessage(status) });
+    await Bun.sleep(POLL_INTERVAL_MS);
+    status = await exportD1Database(databaseId, status.at_bookmark);
+  }
+  if (!status.result?.signed_url) throw failure(status, "Export finished without a download URL");
+
+  const response = await apiResponse(status.result.signed_url, { timeoutMs: TRANSFER_TIMEOUT_MS });
+  const total = Number(response.headers.get("content-length") ?? 0);
+  // Download next to the target and move it into place only once complete, so
+  // a failed download never leaves a truncated .sql that looks like an export.
+  const partial = `${target}.partial`;
+  const writer = Bun.file(partial).writer();
+  let bytes = 0;
+  try {
+    try {
+      const reader = response.body?.getReader();
+      while (reader) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        writer.write(value);
+        bytes += value.byteLength;
+        onProgress?.({ stage: "Downloading", done: bytes, total: Math.max(total, bytes) });
+      }
+    } finally {
+      await writer.end();
+    }
+    if (bytes < total) {
+      throw new Error(`Export download ended after ${bytes} of ${total} bytes`);
+    }
+    await rename(partial, target);
+  } catch (err) {
+    await rm(partial, { force: true });
+    throw err;
+  }
+  return { path: target, bytes };
+}
+
+export async function importD1FromFile(
+  databaseId: string,
+  path: string,
+  onProgress?: D1ProgressHandler
+): Promise<D1ImportResult> {
+  const file = Bun.file(expandHome(path));
+  if (!(await file.exists())) throw new Error(`File not found: ${path}`);
+  const body = new Uint8Array(await file.arrayBuffer());
+  const etag = createHash("md5").update(body).digest("hex");
+
+  onProgress?.({ stage: "Uploading", done: 0, total: body.byteLength });
+  const init = await importD1Database(databaseId, { action: "init", etag });
+  if (!init.upload_url || !init.filename) throw failure(init, "Import could not be started");
+
+  const upload = await apiResponse(init.upload_url, { method: "PUT", body, timeoutMs: TRANSFER_TIMEOUT_MS });
+  const uploadedEtag = upload.headers.get("etag")?.replace(/"/g, "");
+  if (uploadedEtag && uploadedEtag !== etag) {
+    throw new Error("Upload was corrupted in transit (checksum mismatch)");
+  }
+  onProgress?.({ stage: "Uploading", done: body.byteLength, total: body.byteLength });
+
+  let status = await importD1Database(databaseId, { action: "ingest", etag, filename: init.filename });
+  while (status.status !== "complete") {
+    if (status.status === "error" || !status.success) throw failure(status, "Import failed");
+    if (!status.at_bookmark) throw failure(status, "Import did not report its progress bookmark");
+    onProgress?.({ stage: "Applying SQL", done: 0, total: 0, message: lastMessage(status) });
+    await Bun.sleep(POLL_INTERVAL_MS);
+    status = await importD1Database(databaseId, { action: "poll", current_bookmark: status.at_bookmark });
+  }
+  return {
+    queries: status.result?.num_queries ?? 0,
+    bookmark: status.result?.final_bookmark ?? null,
+  };
+}
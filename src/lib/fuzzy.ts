@@ -0,0 +1,27 @@
+export function fuzzyScore(query: string, target: string): number | null {
+  const q = query.toLowerCase();
+  const t = target.toLowerCase();
+  if (!q) return 0;
+
+  let score = 0;
+  let ti = 0;
+  let streak = 0;
+  for (const ch of q) {
+    const found = t.indexOf(ch, ti);
+    if (found === -1) return null;
+    streak = found === ti ? streak + 1 : 0;
+    score += 1 + streak * 2 - Math.min(found - ti, 5) * 0.1;
+    if (found === 0 || ".-_ /".includes(t[found - 1] ?? "")) score += 3;
+    ti = found + 1;
+  }
+  return score - t.length * 0.01;
+}
+
+export function fuzzyFilter<T>(items: T[], query: string, text: (item: T) => string): T[] {
+  if (!query.trim()) return items;
+  return items
+    .map((item) => ({ item, score: fuzzyScore(query.trim(), text(item)) }))
+    .filter((entry): entry is { item: T; score: number } => entry.score !== null)
+    .sort((a, b) => b.score - a.score)
+    .map((entry) => entry.item);
+}
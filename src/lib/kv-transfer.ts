@@ -0,0 +1,156 @@
+import { extname } from "node:path";
+import { CloudflareApiError } from "./api-client.ts";
+import { listKVKeys, getKVValue, writeKVBulk, type KVBulkPair } from "./cloudflare.ts";
+import { decodeText } from "./kv-values.ts";
+import { expandHome } from "./paths.ts";
+
+export type KVDumpFormat = "json" | "ndjson";
+
+export type TransferProgress = (done: number, total: number) => void;
+
+export interface KVImportResult {
+  written: number;
+  skipped: number;
+}
+
+export interface KVDump {
+  pairs: KVBulkPair[];
+  /** Keys that were listed but deleted before their value could be read. */
+  missing: number;
+}
+
+export interface KVExportResult {
+  exported: number;
+  missing: number;
+}
+
+const FETCH_CONCURRENCY = 8;
+const MIN_EXPIRATION_LEAD_SECONDS = 60;
+
+export function detectDumpFormat(path: string): KVDumpFormat {
+  const ext = extname(path).toLowerCase();
+  return ext === ".ndjson" || ext === ".jsonl" ? "ndjson" : "json";
+}
+
+function encodeValue(bytes: Uint8Array): Pick<KVBulkPair, "value" | "base64"> {
+  const text = decodeText(bytes);
+  return text === null ? { value: Buffer.from(bytes).toString("base64"), base64: true } : { value: text };
+}
+
+async function fetchValue(namespaceId: string, key: string): Promise<Uint8Array | null> {
+  try {
+    return await getKVValue(namespaceId, key);
+  } catch (err) {
+    if (err instanceof CloudflareApiError && err.status === 404) return null;
+    throw err;
+  }
+}
+
+export async function dumpKVNamespace(namespaceId: string, onProgress?: TransferProgress): Promise<KVDump> {
+  const keys = await listKVKeys(namespaceId);
+  const pairs = new Array<KVBulkPair | null>(keys.length);
+  let next = 0;
+  let done = 0;
+  onProgress?.(0, keys.length);
+
+  const worker = async () => {
+    while (next < keys.length) {
+      const index = next++;
+      const key = keys[index]!;
+      const bytes = await fetchValue(namespaceId, key.name);
+      if (bytes) {
+        const pair: KVBulkPair = { key: key.name, ...encodeValue(bytes) };
+        if (key.expiration) pair.expiration = key.expiration;
+        if (key.metadata !== undefined) pair.metadata = key.metadata;
+        pairs[index] = pair;
+      } else {
+        pairs[index] = null;
+      }
+      onProgress?.(++done, keys.length);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(FETCH_CONCURRENCY, keys.length) }, worker));
+  const found = pairs.filter((pair): pair is KVBulkPair => pair !== null);
+  return { pairs: found, missing: keys.length - found.length };
+}
+
+export function serializeDump(pairs: KVBulkPair[], format: KVDumpFormat): string {
+  if (format === "ndjson") {
+    return pairs.map((pair) => JSON.stringify(pair)).join("\n") + "\n";
+  }
+  return JSON.stringify(pairs, null, 2) + "\n";
+}
+
+function toPair(record: unknown, location: string): KVBulkPair {
+  if (!record || typeof record !== "object") {
+    throw new Error(`${location}: expected an object with "key" and "value"`);
+  }
+  const { key, value, base64, expiration, expiration_ttl, metadata } = record as Record<string, unknown>;
+  if (typeof key !== "string" || !key) throw new Error(`${location}: "key" must be a non-empty string`);
+  if (typeof value !== "string") throw new Error(`${location}: "value" must be a string`);
+
+  const pair: KVBulkPair = { key, value };
+  if (base64 === true) pair.base64 = true;
+  if (typeof expiration === "number") pair.expiration = expiration;
+  if (typeof expiration_ttl === "number") pair.expiration_ttl = expiration_ttl;
+  if (metadata !== undefined) pair.metadata = metadata;
+  return pair;
+}
+
+/** Accepts either a JSON array or one JSON object per line, whatever the file extension says. */
+export function parseDump(content: string): KVBulkPair[] {
+  const trimmed = content.trim();
+  if (!trimmed) return [];
+  if (trimmed.startsWith("[")) {
+    let records: unknown[];
+    try {
+      records = JSON.parse(trimmed);
+    } catch (err) {
+      throw new Error(`Invalid JSON: ${err instanceof Error ? err.message : String(err)}`);
+    }
+    return records.map((record, i) => toPair(record, `Entry ${i + 1}`));
+  }
+
+  const pairs: KVBulkPair[] = [];
+  content.split("\n").forEach((line, i) => {
+    if (!line.trim()) return;
+    let record: unknown;
+    try {
+      record = JSON.parse(line);
+    } catch {
+      throw new Error(`Line ${i + 1}: invalid JSON`);
+    }
+    pairs.push(toPair(record, `Line ${i + 1}`));
+  });
+  return pairs;
+}
+
+export async function exportKVNamespace(
+  namespaceId: string,
+  path: string,
+  onProgress?: TransferProgress
+): Promise<KVExportResult> {
+  const target = expandHome(path);
+  const { pairs, missing } = await dumpKVNamespace(namespaceId, onProgress);
+  await Bun.write(target, serializeDump(pairs, detectDumpFormat(target)));
+  return { exported: pairs.length, missing };
+}
+
+export async function importKVNamespace(
+  namespaceId: string,
+  path: string,
+  onProgress?: TransferProgress
+): Promise<KVImportResult> {
+  const file = Bun.file(expandHome(path));
+  if (!(await file.exists())) {
+    throw new Error(`File not found: ${path}`);
+  }
+  const parsed = parseDump(await file.text());
+  // KV rejects absolute expirations that are already past (or under a minute away).
+  const cutoff = Math.floor(Date.now() / 1000) + MIN_EXPIRATION_LEAD_SECONDS;
+  const pairs = parsed.filter((pair) => !pair.expiration || pair.expiration >= cutoff);
+
+  onProgress?.(0, pairs.length);
+  await writeKVBulk(namespaceId, pairs, (written) => onProgress?.(written, pairs.length));
+  return { written: pairs.length, skipped: parsed.length - pairs.length };
+}
@@ -0,0 +1,42 @@
+export type KVValueView =
+  | { kind: "json"; text: string }
+  | { kind: "text"; text: string }
+  | { kind: "binary" };
+
+const HEX_ROW = 16;
+
+export function decodeText(bytes: Uint8Array): string | null {
+  try {
+    const text = new TextDecoder("utf-8", { fatal: true }).decode(bytes);
+    return /[\u0000-\u0008\u000e-\u001f]/.test(text) ? null : text;
+  } catch {
+    return null;
+  }
+}
+
+export function describeKVValue(bytes: Uint8Array): KVValueView {
+  const text = decodeText(bytes);
+  if (text === null) return { kind: "binary" };
+  const trimmed = text.trim();
+  if (trimmed.startsWith("{") || trimmed.startsWith("[")) {
+    try {
+      return { kind: "json", text: JSON.stringify(JSON.parse(trimmed), null, 2) };
+    } catch {}
+  }
+  return { kind: "text", text };
+}
+
+export function hexDump(bytes: Uint8Array, maxBytes = 4096): string[] {
+  const lines: string[] = [];
+  const end = Math.min(bytes.length, maxBytes);
+  for (let offset = 0; offset < end; offset += HEX_ROW) {
+    const row = bytes.subarray(offset, Math.min(offset + HEX_ROW, end));
+    const hex = Array.from(row, (b) => b.toString(16).padStart(2, "0")).join(" ");
+    const ascii = Array.from(row, (b) => (b >= 0x20 && b < 0x7f ? String.fromCharCode(b) : ".")).join("");
+    lines.push(`${offset.toString(16).padStart(8, "0")}  ${hex.padEnd(HEX_ROW * 3 - 1)}  |${ascii}|`);
+  }
+  if (bytes.length > end) {
+    lines.push(`… ${bytes.length - end} more bytes`);
+  }
+  return lines;
+}
@@ -0,0 +1,43 @@
+import { mkdir, writeFile } from "node:fs/promises";
+import { homedir } from "node:os";
+import { join } from "node:path";
+import { getAccountScope } from "./auth.ts";
+
+const STATE_DIR = join(homedir(), ".flarectl");
+const DRAIN_FILE = join(STATE_DIR, "drained-origins.json");
+
+function drainKey(poolId: string, originName: string): string {
+  return `${getAccountScope()}/${poolId}/${originName}`;
+}
+
+async function readDrained(): Promise<Record<string, number>> {
+  try {
+    const data = await Bun.file(DRAIN_FILE).json();
+    return data && typeof data === "object" ? (data as Record<string, number>) : {};
+  } catch {
+    return {};
+  }
+}
+
+async function writeDrained(drained: Record<string, number>): Promise<void> {
+  await mkdir(STATE_DIR, { recursive: true, mode: 0o700 });
+  await writeFile(DRAIN_FILE, JSON.stringify(drained, null, 2), { mode: 0o600 });
+}
+
+/** The weight an origin had before it was drained, if it was drained from this machine. */
+export async function loadDrainedWeight(poolId: string, originName: string): Promise<number | null> {
+  const weight = (await readDrained())[drainKey(poolId, originName)];
+  return typeof weight === "number" ? weight : null;
+}
+
+export async function saveDrainedWeight(poolId: string, originName: string, weight: number): Promise<void> {
+  const drained = await readDrained();
+  drained[drainKey(poolId, originName)] = weight;
+  await writeDrained(drained);
+}
+
+export async function clearDrainedWeight(poolId: string, originName: string): Promise<void> {
+  const drained = await readDrained();
+  delete drained[drainKey(poolId, originName)];
+  await writeDrained(drained);
+}
@@ -0,0 +1,49 @@
+import { createContext, useContext, useState, useEffect, useCallback, type ReactNode } from "react";
+import { useKeyboard } from "@opentui/react";
+import type { KeyEvent } from "@opentui/core";
+
+interface OverlayContextValue {
+  overlayOpen: boolean;
+  registerOverlay: () => () => void;
+}
+
+const OverlayContext = createContext<OverlayContextValue | null>(null);
+
+export function OverlayProvider({ children }: { children: ReactNode }) {
+  const [openCount, setOpenCount] = useState(0);
+
+  const registerOverlay = useCallback(() => {
+    setOpenCount((count) => count + 1);
+    return () => setOpenCount((count) => count - 1);
+  }, []);
+
+  const value: OverlayContextValue = {
+    overlayOpen: openCount > 0,
+    registerOverlay,
+  };
+
+  return <OverlayContext.Provider value={value}>{children}</OverlayContext.Provider>;
+}
+
+export function useOverlay(): OverlayContextValue {
+  const context = useContext(OverlayContext);
+  if (!context) {
+    throw new Error("useOverlay must be used within an OverlayProvider");
+  }
+  return context;
+}
+
+/** Marks a global overlay (palette, switcher) as open for as long as the calling component is mounted. */
+export function useOverlayLayer(): void {
+  const { registerOverlay } = useOverlay();
+  useEffect(() => registerOverlay(), [registerOverlay]);
+}
+
+/** `useKeyboard` for screens and the sidebar: keys go to the open overlay instead while one is shown. */
+export function useScreenKeyboard(handler: (key: KeyEvent) => void): void {
+  const { overlayOpen } = useOverlay();
+  useKeyboard((key) => {
+    if (overlayOpen) return;
+    handler(key);
+  });
+}
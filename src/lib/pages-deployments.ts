@@ -0,0 +1,49 @@
+import type { PagesDeployment, PagesLogLine, PagesStage } from "./cloudflare.ts";
+
+const RUNNING_STATUSES = new Set(["idle", "active"]);
+
+export interface StageLogs {
+  stage: PagesStage;
+  lines: PagesLogLine[];
+}
+
+export function isDeploymentRunning(deployment: PagesDeployment): boolean {
+  return RUNNING_STATUSES.has(deployment.latest_stage.status);
+}
+
+export function deploymentCommit(deployment: PagesDeployment): { hash: string; message: string; branch: string } {
+  const metadata = deployment.deployment_trigger?.metadata ?? {};
+  return {
+    hash: metadata.commit_hash?.slice(0, 7) ?? "",
+    message: metadata.commit_message?.split("\n")[0] ?? "",
+    branch: metadata.branch ?? "",
+  };
+}
+
+/**
+ * The logs endpoint returns one flat list, so lines are assigned to the last
+ * stage that had started by their timestamp. Lines before the first stage
+ * start go to the first stage.
+ */
+export function groupLogsByStage(stages: PagesStage[], lines: PagesLogLine[]): StageLogs[] {
+  const groups: StageLogs[] = stages.map((stage) => ({ stage, lines: [] }));
+  const starts = stages.map((stage) => (stage.started_on ? Date.parse(stage.started_on) : Number.POSITIVE_INFINITY));
+  if (groups.length === 0) return groups;
+
+  for (const line of lines) {
+    const ts = Date.parse(line.ts);
+    let index = 0;
+    for (let i = 0; i < starts.length; i++) {
+      if (starts[i]! <= ts) index = i;
+    }
+    groups[index]!.lines.push(line);
+  }
+  return groups;
+}
+
+export function stageDuration(stage: PagesStage, now = Date.now()): string {
+  if (!stage.started_on) return "";
+  const end = stage.ended_on ? Date.parse(stage.ended_on) : now;
+  const seconds = Math.max(0, Math.round((end - Date.parse(stage.started_on)) / 1000));
+  return seconds >= 60 ? `${Math.floor(seconds / 60)}m ${seconds % 60}s` : `${seconds}s`;
+}
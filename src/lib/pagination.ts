@@ -0,0 +1,77 @@
+export interface ResultInfo {
+  page?: number;
+  per_page?: number;
+  count?: number;
+  total_count?: number;
+  total_pages?: number;
+  cursor?: string;
+  is_truncated?: boolean;
+  delimited?: string[];
+}
+
+export interface PageResponse<T> {
+  result: T;
+  result_info?: ResultInfo;
+}
+
+export type PageFetcher<T> = (query: URLSearchParams) => Promise<PageResponse<T>>;
+
+export interface PaginateOptions<R, T> {
+  perPage?: number;
+  select?: (result: R) => T[];
+}
+
+export function withQuery(endpoint: string, query: URLSearchParams): string {
+  const qs = query.toString();
+  if (!qs) return endpoint;
+  return `${endpoint}${endpoint.includes("?") ? "&" : "?"}${qs}`;
+}
+
+export async function* paginate<R, T = R extends Array<infer U> ? U : never>(
+  fetchPage: PageFetcher<R>,
+  options: PaginateOptions<R, T> = {}
+): AsyncGenerator<T[], void, undefined> {
+  const select = options.select ?? ((result: R) => (result as unknown as T[]) ?? []);
+  let page = 1;
+  let cursor: string | undefined;
+
+  while (true) {
+    const query = new URLSearchParams();
+    if (options.perPage) query.set("per_page", options.perPage.toString());
+    if (cursor) {
+      query.set("cursor", cursor);
+    } else {
+      query.set("page", page.toString());
+    }
+
+    const { result, result_info } = await fetchPage(query);
+    const items = select(result);
+    yield items;
+
+    if (items.length === 0) return;
+
+    if (result_info?.cursor) {
+      if (result_info.cursor === cursor) return;
+      cursor = result_info.cursor;
+      continue;
+    }
+
+    const currentPage = result_info?.page ?? page;
+    if (result_info?.total_pages !== undefined) {
+      if (currentPage >= result_info.total_pages) return;
+    } else if (result_info?.total_count !== undefined && result_info.per_page) {
+      if (currentPage * result_info.per_page >= result_info.total_count) return;
+    } else if (!options.perPage || items.length < options.perPage) {
+      return;
+    }
+    page = currentPage + 1;
+  }
+}
+
+export async function collectAll<T>(pages: AsyncIterable<T[]>): Promise<T[]> {
+  const all: T[] = [];
+  for await (const items of pages) {
+    all.push(...items);
+  }
+  return all;
+}
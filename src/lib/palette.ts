@@ -0,0 +1,80 @@
+import { useEffect } from "react";
+import type { RouteId } from "../types/index.ts";
+
+export interface PaletteActionContext {
+  navigate: (route: RouteId, params?: Record<string, string>) => void;
+  openAccountSwitcher: () => void;
+  openZoneSwitcher: () => void;
+  toggleTheme: () => void;
+}
+
+export interface PaletteAction {
+  id: string;
+  label: string;
+  hint?: string;
+  run: (ctx: PaletteActionContext) => void;
+}
+
+const actions = new Map<string, PaletteAction>();
+let shortcutSuppressors = 0;
+
+export function registerPaletteAction(action: PaletteAction): () => void {
+  actions.set(action.id, action);
+  return () => {
+    actions.delete(action.id);
+  };
+}
+
+export function getPaletteActions(): PaletteAction[] {
+  return [...actions.values()];
+}
+
+export function isPaletteShortcutSuppressed(): boolean {
+  return shortcutSuppressors > 0;
+}
+
+/** Keeps `:` from opening the palette while a screen captures raw keystrokes as text. */
+export function useSuppressPaletteShortcut(active: boolean): void {
+  useEffect(() => {
+    if (!active) return;
+    shortcutSuppressors++;
+    return () => {
+      shortcutSuppressors--;
+    };
+  }, [active]);
+}
+
+registerPaletteAction({
+  id: "cache.purge-everything",
+  label: "Purge everything",
+  hint: "Cache",
+  run: ({ navigate }) => navigate("cache", { action: "purge-everything" }),
+});
+
+registerPaletteAction({
+  id: "cache.toggle-dev-mode",
+  label: "Toggle dev mode",
+  hint: "Cache",
+  run: ({ navigate }) => navigate("cache", { action: "toggle-dev-mode" }),
+});
+
+registerPaletteAction({
+  id: "account.switch",
+  label: "Switch account",
+  hint: "Ctrl+A",
+  run: ({ openAccountSwitcher }) => openAccountSwitcher(),
+});
+
+registerPaletteAction({
+  id: "zone.switch",
+  label: "Switch zone",
+  hint: "Ctrl+Z",
+  run: ({ openZoneSwitcher }) => openZoneSwitcher(),
+});
+
+registerPaletteAction({
+  id: "theme.toggle",
+  label: "Toggle theme",
+  hint: "Ctrl+T",
+  run: ({ toggleTheme }) => toggleTheme(),
+});
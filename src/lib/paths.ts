@@ -0,0 +1,8 @@
+import { homedir } from "node:os";
+import { join } from "node:path";
+
+export function expandHome(path: string): string {
+  const trimmed = path.trim();
+  if (trimmed === "~") return homedir();
+  return trimmed.startsWith("~/") ? join(homedir(), trimmed.slice(2)) : trimmed;
+}
@@ -0,0 +1,270 @@
+import { createHash, createHmac } from "node:crypto";
+import { getAccountId, getApiToken, getAuthHeaders } from "./auth.ts";
+import { apiFetch, apiResponse, CloudflareApiError, type ApiRequestOptions } from "./api-client.ts";
+
+// Multipart uploads are only exposed through R2's S3-compatible API, so these
+// calls are SigV4-signed. Credentials default to the ones R2 derives from the
+// current API token (token id + SHA-256 of the token value).
+
+export interface R2Credentials {
+  accessKeyId: string;
+  secretAccessKey: string;
+}
+
+export interface R2UploadedPart {
+  partNumber: number;
+  etag: string;
+  size: number;
+}
+
+export interface R2MultipartUpload {
+  key: string;
+  uploadId: string;
+  initiated: string;
+}
+
+const UNSIGNED_PAYLOAD = "UNSIGNED-PAYLOAD";
+const PART_TIMEOUT_MS = 10 * 60 * 1000;
+const PART_ATTEMPTS = 4;
+const PART_RETRY_BASE_MS = 1000;
+
+const credentialCache = new Map<string, Promise<R2Credentials>>();
+
+function sha256Hex(data: string): string {
+  return createHash("sha256").update(data).digest("hex");
+}
+
+function hmac(key: string | Buffer, data: string): Buffer {
+  return createHmac("sha256", key).update(data).digest();
+}
+
+function encodeRfc3986(value: string): string {
+  return encodeURIComponent(value).replace(/[!'()*]/g, (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+function decodeXml(value: string): string {
+  return value
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, "\"")
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&");
+}
+
+function xmlValue(xml: string, tag: string): string | undefined {
+  const match = xml.match(new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`));
+  return match?.[1] === undefined ? undefined : decodeXml(match[1]);
+}
+
+function xmlBlocks(xml: string, tag: string): string[] {
+  return [...xml.matchAll(new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`, "g"))].map((m) => m[1] ?? "");
+}
+
+export async function getR2Credentials(): Promise<R2Credentials> {
+  if (Bun.env.R2_ACCESS_KEY_ID && Bun.env.R2_SECRET_ACCESS_KEY) {
+    return { accessKeyId: Bun.env.R2_ACCESS_KEY_ID, secretAccessKey: Bun.env.R2_SECRET_ACCESS_KEY };
+  }
+  const token = getApiToken();
+  let credentials = credentialCache.get(token);
+  if (!credentials) {
+    credentials = apiFetch<{ id: string }>("/user/tokens/verify", { headers: getAuthHeaders() }).then(({ id }) => ({
+      accessKeyId: id,
+      secretAccessKey: sha256Hex(token),
+    }));
+    credentials.catch(() => credentialCache.delete(token));
+    credentialCache.set(token, credentials);
+  }
+  return credentials;
+}
+
+function signHeaders(
+  method: string,
+  host: string,
+  path: string,
+  query: URLSearchParams,
+  headers: Record<string, string>,
+  credentials: R2Credentials
+): Record<string, string> {
+  const amzDate = new Date().toISOString().replace(/[:-]|\.\d{3}/g, "");
+  const date = amzDate.slice(0, 8);
+  const signed: Record<string, string> = {
+    ...Object.fromEntries(Object.entries(headers).map(([k, v]) => [k.toLowerCase(), v.trim()])),
+    host,
+    "x-amz-content-sha256": UNSIGNED_PAYLOAD,
+    "x-amz-date": amzDate,
+  };
+  const names = Object.keys(signed).sort();
+  const canonicalQuery = [...query]
+    .map(([k, v]) => `${encodeRfc3986(k)}=${encodeRfc3986(v)}`)
+    .sort()
+    .join("&");
+  const canonicalRequest = [
+    method,
+    path,
+    canonicalQuery,
+    names.map((n) => `${n}:${signed[n]}\n`).join(""),
+    names.join(";"),
+    UNSIGNED_PAYLOAD,
+  ].join("\n");
+  const scope = `${date}/auto/s3/aws4_request`;
+  const stringToSign = ["AWS4-HMAC-SHA256", amzDate, scope, sha256Hex(canonicalRequest)].join("\n");
+  const key = hmac(hmac(hmac(hmac(`AWS4${credentials.secretAccessKey}`, date), "auto"), "s3"), "aws4_request");
+  const signature = createHmac("sha256", key).update(stringToSign).digest("hex");
+
+  const { host: _host, ...rest } = signed;
+  return {
+    ...rest,
+    Authorization: `AWS4-HMAC-SHA256 Credential=${credentials.accessKeyId}/${scope}, SignedHeaders=${names.join(";")}, Signature=${signature}`,
+  };
+}
+
+async function s3Request(
+  method: string,
+  bucket: string,
+  key: string | null,
+  query: URLSearchParams,
+  options: Omit<ApiRequestOptions, "method"> = {}
+): Promise<Response> {
+  const credentials = await getR2Credentials();
+  const host = `${getAccountId()}.r2.cloudflarestorage.com`;
+  const path = key === null
+    ? `/${encodeRfc3986(bucket)}`
+    : `/${encodeRfc3986(bucket)}/${key.split("/").map(encodeRfc3986).join("/")}`;
+  const qs = [...query].map(([k, v]) => (v ? `${encodeRfc3986(k)}=${encodeRfc3986(v)}` : encodeRfc3986(k))).join("&");
+  return apiResponse(`https://${host}${path}${qs ? `?${qs}` : ""}`, {
+    ...options,
+    method,
+    headers: signHeaders(method, host, path, query, options.headers ?? {}, credentials),
+  });
+}
+
+export async function createMultipartUpload(bucket: string, key: string, contentType?: string): Promise<string> {
+  const headers: Record<string, string> = contentType ? { "Content-Type": contentType } : {};
+  const response = await s3Request("POST", bucket, key, new URLSearchParams({ uploads: "" }), { headers });
+  const uploadId = xmlValue(await response.text(), "UploadId");
+  if (!uploadId) throw new Error(`R2 did not return an upload id for "${key}"`);
+  return uploadId;
+}
+
+function countingStream(body: Blob, onBytes: (sent: number) => void): ReadableStream<Uint8Array> {
+  let sent = 0;
+  return body.stream().pipeThrough(
+    new TransformStream<Uint8Array, Uint8Array>({
+      transform(chunk, controller) {
+        sent += chunk.byteLength;
+        onBytes(sent);
+        controller.enqueue(chunk);
+      },
+    })
+  );
+}
+
+/**
+ * Streams the part so `onBytes` sees bytes as they are sent. A stream can't be
+ * replayed, so failed attempts are retried here with a fresh one instead of
+ * inside apiResponse.
+ */
+export async function uploadPart(
+  bucket: string,
+  key: string,
+  uploadId: string,
+  partNumber: number,
+  body: Blob,
+  signal?: AbortSignal,
+  onBytes: (sent: number) => void = () => {}
+): Promise<string> {
+  const query = new URLSearchParams({ partNumber: partNumber.toString(), uploadId });
+  for (let attempt = 1; ; attempt++) {
+    onBytes(0);
+    try {
+      const response = await s3Request("PUT", bucket, key, query, {
+        body: countingStream(body, onBytes),
+        headers: { "Content-Length": body.size.toString() },
+        timeoutMs: PART_TIMEOUT_MS,
+        retries: 0,
+        signal,
+      });
+      const etag = response.headers.get("etag");
+      await response.body?.cancel().catch(() => {});
+      if (!etag) throw new Error(`R2 did not return an ETag for part ${partNumber} of "${key}"`);
+      return etag;
+    } catch (err) {
+      const retryable = err instanceof CloudflareApiError && err.retryable;
+      if (!retryable || signal?.aborted || attempt >= PART_ATTEMPTS) throw err;
+      await Bun.sleep(PART_RETRY_BASE_MS * 2 ** (attempt - 1));
+    }
+  }
+}
+
+export async function completeMultipartUpload(
+  bucket: string,
+  key: string,
+  uploadId: string,
+  parts: Array<Pick<R2UploadedPart, "partNumber" | "etag">>
+): Promise<void> {
+  const body = [
+    "<CompleteMultipartUpload>",
+    ...[...parts]
+      .sort((a, b) => a.partNumber - b.partNumber)
+      .map((p) => `<Part><PartNumber>${p.partNumber}</PartNumber><ETag>${p.etag}</ETag></Part>`),
+    "</CompleteMultipartUpload>",
+  ].join("");
+  const response = await s3Request("POST", bucket, key, new URLSearchParams({ uploadId }), {
+    body,
+    headers: { "Content-Type": "application/xml" },
+    timeoutMs: PART_TIMEOUT_MS,
+    retryUnsafe: true,
+  });
+  // CompleteMultipartUpload can fail after a 200 status, reporting the error in the body.
+  const text = await response.text();
+  if (text.includes("<Error>")) {
+    throw new Error(xmlValue(text, "Message") ?? `Failed to complete upload of "${key}"`);
+  }
+}
+
+export async function abortMultipartUpload(bucket: string, key: string, uploadId: string): Promise<void> {
+  const response = await s3Request("DELETE", bucket, key, new URLSearchParams({ uploadId }));
+  await response.body?.cancel().catch(() => {});
+}
+
+export async function listUploadedParts(bucket: string, key: string, uploadId: string): Promise<R2UploadedPart[]> {
+  const parts: R2UploadedPart[] = [];
+  let marker = "";
+  while (true) {
+    const query = new URLSearchParams({ uploadId });
+    if (marker) query.set("part-number-marker", marker);
+    const xml = await (await s3Request("GET", bucket, key, query)).text();
+    for (const block of xmlBlocks(xml, "Part")) {
+      parts.push({
+        partNumber: Number(xmlValue(block, "PartNumber")),
+        etag: xmlValue(block, "ETag") ?? "",
+        size: Number(xmlValue(block, "Size") ?? 0),
+      });
+    }
+    marker = xmlValue(xml, "NextPartNumberMarker") ?? "";
+    if (xmlValue(xml, "IsTruncated") !== "true" || !marker) return parts;
+  }
+}
+
+export async function listMultipartUploads(bucket: string, prefix = ""): Promise<R2MultipartUpload[]> {
+  const uploads: R2MultipartUpload[] = [];
+  let keyMarker = "";
+  let uploadIdMarker = "";
+  while (true) {
+    const query = new URLSearchParams({ uploads: "" });
+    if (prefix) query.set("prefix", prefix);
+    if (keyMarker) query.set("key-marker", keyMarker);
+    if (uploadIdMarker) query.set("upload-id-marker", uploadIdMarker);
+    const xml = await (await s3Request("GET", bucket, null, query)).text();
+    for (const block of xmlBlocks(xml, "Upload")) {
+      uploads.push({
+        key: xmlValue(block, "Key") ?? "",
+        uploadId: xmlValue(block, "UploadId") ?? "",
+        initiated: xmlValue(block, "Initiated") ?? "",
+      });
+    }
+    keyMarker = xmlValue(xml, "NextKeyMarker") ?? "";
+    uploadIdMarker = xmlValue(xml, "NextUploadIdMarker") ?? "";
+    if (xmlValue(xml, "IsTruncated") !== "true" || !keyMarker) return uploads;
+  }
+}
@@ -0,0 +1,263 @@
+import { mkdir, readdir, rm, stat } from "node:fs/promises";
+import { createHash } from "node:crypto";
+import { homedir } from "node:os";
+import { basename, join, relative, sep } from "node:path";
+import { getAccountScope } from "./auth.ts";
+import { CloudflareApiError } from "./api-client.ts";
+import { putR2Object } from "./cloudflare.ts";
+import { expandHome } from "./paths.ts";
+import {
+  createMultipartUpload,
+  uploadPart,
+  completeMultipartUpload,
+  abortMultipartUpload,
+  listUploadedParts,
+} from "./r2-s3.ts";
+
+const UPLOAD_STATE_DIR = join(homedir(), ".flarectl", "uploads");
+const MIB = 1024 * 1024;
+const MULTIPART_THRESHOLD = 100 * MIB;
+const MIN_PART_SIZE = 8 * MIB;
+const MAX_PARTS = 10_000;
+const PART_CONCURRENCY = 4;
+
+export interface UploadFile {
+  path: string;
+  key: string;
+  size: number;
+}
+
+export interface UploadProgress {
+  file: UploadFile;
+  fileIndex: number;
+  fileCount: number;
+  fileBytes: number;
+  doneBytes: number;
+  totalBytes: number;
+}
+
+export interface UploadState {
+  scope: string;
+  bucket: string;
+  key: string;
+  path: string;
+  size: number;
+  mtimeMs: number;
+  uploadId: string;
+  partSize: number;
+  contentType?: string;
+  parts: Record<string, string>;
+  createdAt: string;
+}
+
+function stateFile(scope: string, bucket: string, key: string): string {
+  const hash = createHash("sha256").update(`${scope} ${bucket} ${key}`).digest("hex").slice(0, 32);
+  return join(UPLOAD_STATE_DIR, `${hash}.json`);
+}
+
+async function saveState(state: UploadState): Promise<void> {
+  await mkdir(UPLOAD_STATE_DIR, { recursive: true });
+  await Bun.write(stateFile(state.scope, state.bucket, state.key), JSON.stringify(state, null, 2));
+}
+
+async function loadState(bucket: string, key: string): Promise<UploadState | null> {
+  const file = Bun.file(stateFile(getAccountScope(), bucket, key));
+  if (!(await file.exists())) return null;
+  try {
+    return (await file.json()) as UploadState;
+  } catch {
+    return null;
+  }
+}
+
+export async function clearUploadState(bucket: string, key: string): Promise<void> {
+  await rm(stateFile(getAccountScope(), bucket, key), { force: true });
+}
+
+export async function listUploadStates(bucket: string): Promise<UploadState[]> {
+  let names: string[];
+  try {
+    names = await readdir(UPLOAD_STATE_DIR);
+  } catch {
+    return [];
+  }
+  const scope = getAccountScope();
+  const states: UploadState[] = [];
+  for (const name of names.filter((n) => n.endsWith(".json"))) {
+    try {
+      const state = (await Bun.file(join(UPLOAD_STATE_DIR, name)).json()) as UploadState;
+      if (state.scope === scope && state.bucket === bucket) states.push(state);
+    } catch {}
+  }
+  return states;
+}
+
+export async function abortUpload(bucket: string, key: string, uploadId: string): Promise<void> {
+  await abortMultipartUpload(bucket, key, uploadId);
+  const state = await loadState(bucket, key);
+  if (state?.uploadId === uploadId) await clearUploadState(bucket, key);
+}
+
+/** Expands a local file or directory into the objects it becomes under `prefix`. */
+export async function collectUploadFiles(localPath: string, prefix: string): Promise<UploadFile[]> {
+  const root = expandHome(localPath).replace(/[\\/]+$/, "") || "/";
+  const info = await stat(root).catch(() => null);
+  if (!info) throw new Error(`Not found: ${localPath}`);
+  if (info.isFile()) {
+    return [{ path: root, key: `${prefix}${basename(root)}`, size: info.size }];
+  }
+
+  const files: UploadFile[] = [];
+  const dirName = basename(root);
+  for (const entry of (await readdir(root, { recursive: true, withFileTypes: true })).sort((a, b) =>
+    join(a.parentPath, a.name).localeCompare(join(b.parentPath, b.name))
+  )) {
+    if (!entry.isFile()) continue;
+    const path = join(entry.parentPath, entry.name);
+    const rel = relative(root, path).split(sep).join("/");
+    files.push({ path, key: `${prefix}${dirName}/${rel}`, size: (await stat(path)).size });
+  }
+  return files;
+}
+
+function choosePartSize(size: number): number {
+  const minimum = Math.ceil(size / MAX_PARTS / MIB) * MIB;
+  return Math.max(MIN_PART_SIZE, minimum);
+}
+
+async function resumeOrCreate(bucket: string, file: UploadFile, mtimeMs: number, contentType: string): Promise<UploadState> {
+  const saved = await loadState(bucket, file.key);
+  if (saved && saved.path === file.path && saved.size === file.size && saved.mtimeMs === mtimeMs) {
+    try {
+      const uploaded = await listUploadedParts(bucket, file.key, saved.uploadId);
+      // Trust only parts that R2 still has; anything else gets uploaded again.
+      const remote = new Map(uploaded.map((p) => [p.partNumber.toString(), p.etag]));
+      saved.parts = Object.fromEntries(Object.entries(saved.parts).filter(([n, etag]) => remote.get(n) === etag));
+      return saved;
+    } catch (err) {
+      if (!(err instanceof CloudflareApiError && err.status === 404)) throw err;
+    }
+  } else if (saved) {
+    // The local file changed since the last attempt, so its parts are useless but still stored (and billed).
+    try {
+      await abortMultipartUpload(bucket, file.key, saved.uploadId);
+    } catch (err) {
+      if (!(err instanceof CloudflareApiError && err.status === 404)) throw err;
+    }
+  }
+
+  const state: UploadState = {
+    scope: getAccountScope(),
+    bucket,
+    key: file.key,
+    path: file.path,
+    size: file.size,
+    mtimeMs,
+    uploadId: await createMultipartUpload(bucket, file.key, contentType || undefined),
+    partSize: choosePartSize(file.size),
+    contentType: contentType || undefined,
+    parts: {},
+    createdAt: new Date().toISOString(),
+  };
+  await saveState(state);
+  return state;
+}
+
+async function uploadMultipart(
+  bucket: string,
+  file: UploadFile,
+  onBytes: (bytes: number) => void,
+  signal?: AbortSignal
+): Promise<void> {
+  const blob = Bun.file(file.path);
+  const { mtimeMs } = await stat(file.path);
+  const state = await resumeOrCreate(bucket, file, mtimeMs, blob.type);
+  const partCount = Math.ceil(file.size / state.partSize);
+  const partBytes = (n: number) => Math.min(state.partSize, file.size - (n - 1) * state.partSize);
+
+  const pending: number[] = [];
+  let uploaded = 0;
+  for (let n = 1; n <= partCount; n++) {
+    if (state.parts[n.toString()]) uploaded += partBytes(n);
+    else pending.push(n);
+  }
+  const sending = new Map<number, number>();
+  const report = () => onBytes(uploaded + [...sending.values()].reduce((sum, bytes) => sum + bytes, 0));
+  report();
+
+  // Stops the other workers as soon as one part fails, not just on cancel.
+  const controller = new AbortController();
+  const partSignal = signal ? AbortSignal.any([signal, controller.signal]) : controller.signal;
+  let saving = Promise.resolve();
+  const worker = async () => {
+    try {
+      while (pending.length > 0) {
+        partSignal.throwIfAborted();
+        const n = pending.shift()!;
+        const start = (n - 1) * state.partSize;
+        const etag = await uploadPart(
+          bucket,
+          file.key,
+          state.uploadId,
+          n,
+          blob.slice(start, start + partBytes(n)),
+          partSignal,
+          (sent) => {
+            sending.set(n, sent);
+            report();
+          }
+        );
+        state.parts[n.toString()] = etag;
+        saving = saving.then(() => saveState(state));
+        await saving;
+        sending.delete(n);
+        uploaded += partBytes(n);
+        report();
+      }
+    } catch (err) {
+      controller.abort(err);
+      throw err;
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(PART_CONCURRENCY, pending.length) }, worker));
+
+  signal?.throwIfAborted();
+  await completeMultipartUpload(
+    bucket,
+    file.key,
+    state.uploadId,
+    Object.entries(state.parts).map(([n, etag]) => ({ partNumber: Number(n), etag }))
+  );
+  await clearUploadState(bucket, file.key);
+}
+
+/**
+ * Uploads files in order. Files over the multipart threshold keep their state
+ * under ~/.flarectl/uploads, so aborting and re-running the same upload
+ * resumes from the last finished part.
+ */
+export async function uploadFiles(
+  bucket: string,
+  files: UploadFile[],
+  onProgress?: (progress: UploadProgress) => void,
+  signal?: AbortSignal
+): Promise<void> {
+  const totalBytes = files.reduce((sum, f) => sum + f.size, 0);
+  let completedBytes = 0;
+
+  for (const [fileIndex, file] of files.entries()) {
+    signal?.throwIfAborted();
+    const report = (fileBytes: number) =>
+      onProgress?.({ file, fileIndex, fileCount: files.length, fileBytes, doneBytes: completedBytes + fileBytes, totalBytes });
+    report(0);
+
+    if (file.size > MULTIPART_THRESHOLD) {
+      await uploadMultipart(bucket, file, report, signal);
+    } else {
+      const blob = Bun.file(file.path);
+      await putR2Object(bucket, file.key, blob, blob.type || undefined, signal);
+    }
+    report(file.size);
+    completedBytes += file.size;
+  }
+}
@@ -0,0 +1,164 @@
+import { mkdir, readdir, rm, writeFile } from "node:fs/promises";
+import { createHash } from "node:crypto";
+import { homedir } from "node:os";
+import { join } from "node:path";
+
+const CACHE_DIR = join(homedir(), ".flarectl", "cache");
+const MAX_DISK_AGE_MS = 24 * 60 * 60 * 1000;
+
+interface CacheEntry<T> {
+  scope: string;
+  endpoint: string;
+  value: T;
+  fetchedAt: number;
+}
+
+type CacheListener = (scope: string, endpoint: string) => void;
+
+const memory = new Map<string, CacheEntry<unknown>>();
+const inflight = new Map<string, Promise<unknown>>();
+const tombstones = new Map<string, number>();
+const listeners = new Set<CacheListener>();
+const activeSince = new Map<symbol, number>();
+let enabled = true;
+
+function cacheKey(scope: string, endpoint: string): string {
+  return `${scope} ${endpoint}`;
+}
+
+function cacheFile(key: string): string {
+  return join(CACHE_DIR, `${createHash("sha256").update(key).digest("hex").slice(0, 32)}.json`);
+}
+
+function isInvalidated(entry: CacheEntry<unknown>): boolean {
+  for (const [prefix, at] of tombstones) {
+    if (cacheKey(entry.scope, entry.endpoint).startsWith(prefix) && entry.fetchedAt <= at) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * A tombstone has to outlive every read, fetch and disk sweep that started
+ * before it, or a slow one could put the invalidated data back.
+ */
+function pruneTombstones(): void {
+  const oldest = Math.min(...activeSince.values());
+  for (const [prefix, at] of tombstones) {
+    if (at < oldest) tombstones.delete(prefix);
+  }
+}
+
+function track<T>(work: () => Promise<T>, startedAt = Date.now()): Promise<T> {
+  const id = Symbol();
+  activeSince.set(id, startedAt);
+  return work().finally(() => {
+    activeSince.delete(id);
+    pruneTombstones();
+  });
+}
+
+async function readDisk<T>(key: string): Promise<CacheEntry<T> | null> {
+  try {
+    const entry = (await Bun.file(cacheFile(key)).json()) as CacheEntry<T>;
+    if (cacheKey(entry.scope, entry.endpoint) !== key) return null;
+    if (Date.now() - entry.fetchedAt > MAX_DISK_AGE_MS || isInvalidated(entry)) return null;
+    memory.set(key, entry);
+    return entry;
+  } catch {
+    return null;
+  }
+}
+
+async function writeDisk(key: string, entry: CacheEntry<unknown>): Promise<void> {
+  try {
+    await mkdir(CACHE_DIR, { recursive: true, mode: 0o700 });
+    await writeFile(cacheFile(key), JSON.stringify(entry), { mode: 0o600 });
+  } catch {}
+}
+
+async function removeFromDisk(prefix: string, before: number): Promise<void> {
+  try {
+    const files = await readdir(CACHE_DIR);
+    await Promise.all(
+      files.map(async (file) => {
+        const path = join(CACHE_DIR, file);
+        try {
+          const entry = (await Bun.file(path).json()) as CacheEntry<unknown>;
+          if (cacheKey(entry.scope, entry.endpoint).startsWith(prefix) && entry.fetchedAt <= before) {
+            await rm(path, { force: true });
+          }
+        } catch {
+          await rm(path, { force: true });
+        }
+      })
+    );
+  } catch {}
+}
+
+function revalidate<T>(scope: string, endpoint: string, fetcher: () => Promise<T>, background: boolean): Promise<T> {
+  const key = cacheKey(scope, endpoint);
+  const pending = inflight.get(key);
+  if (pending) return pending as Promise<T>;
+
+  const startedAt = Date.now();
+  const promise = track(
+    () =>
+      fetcher().then((value) => {
+        const entry: CacheEntry<T> = { scope, endpoint, value, fetchedAt: startedAt };
+        if (!isInvalidated(entry)) {
+          memory.set(key, entry);
+          writeDisk(key, entry);
+          if (background) {
+            for (const listener of listeners) listener(scope, endpoint);
+          }
+        }
+        return value;
+      }),
+    startedAt
+  ).finally(() => inflight.delete(key));
+
+  inflight.set(key, promise);
+  return promise;
+}
+
+export async function cached<T>(
+  scope: string,
+  endpoint: string,
+  ttlMs: number,
+  fetcher: () => Promise<T>
+): Promise<T> {
+  if (!enabled) return fetcher();
+
+  const key = cacheKey(scope, endpoint);
+  const entry = (memory.get(key) as CacheEntry<T> | undefined) ?? (await track(() => readDisk<T>(key)));
+  if (entry && !isInvalidated(entry)) {
+    if (Date.now() - entry.fetchedAt >= ttlMs) {
+      revalidate(scope, endpoint, fetcher, true).catch(() => {});
+    }
+    return entry.value;
+  }
+  return revalidate(scope, endpoint, fetcher, false);
+}
+
+export function invalidateCache(scope: string, endpointPrefix: string): void {
+  const prefix = cacheKey(scope, endpointPrefix);
+  const now = Date.now();
+  tombstones.set(prefix, now);
+  for (const key of memory.keys()) {
+    if (key.startsWith(prefix)) memory.delete(key);
+  }
+  track(() => removeFromDisk(prefix, now), now);
+}
+
+export function onCacheRefresh(listener: CacheListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function setCacheEnabled(value: boolean): void {
+  enabled = value;
+}
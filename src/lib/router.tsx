@@ -3,7 +3,7 @@ import type { RouteId } from "../types/index.ts";
 
 interface RouterContextValue {
   currentRoute: RouteId;
-  navigate: (route: RouteId) => void;
+  navigate: (route: RouteId, params?: Record<string, string>) => void;
   params: Record<string, string>;
   setParams: (params: Record<string, string>) => void;
 }
@@ -19,9 +19,9 @@ export function RouterProvider({ children, initialRoute = "dashboard" }: RouterP
   const [currentRoute, setCurrentRoute] = useState<RouteId>(initialRoute);
   const [params, setParams] = useState<Record<string, string>>({});
 
-  const navigate = useCallback((route: RouteId) => {
+  const navigate = useCallback((route: RouteId, nextParams: Record<string, string> = {}) => {
     setCurrentRoute(route);
-    setParams({});
+    setParams(nextParams);
   }, []);
 
   const value: RouterContextValue = {
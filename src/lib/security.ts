@@ -16,21 +16,8 @@ import type {
   BotAnalytics,
   SSLMode,
 } from "../types/security"
-
-const API_BASE = "https://api.cloudflare.com/client/v4"
-
-interface CloudflareResponse<T> {
-  success: boolean
-  errors: Array<{ code: number; message: string }>
-  messages: string[]
-  result: T
-  result_info?: {
-    page: number
-    per_page: number
-    total_count: number
-    total_pages: number
-  }
-}
+import { apiFetch, apiRequest, type ApiRequestOptions } from "./api-client.ts"
+import { paginate, collectAll, withQuery, type PageFetcher, type ResultInfo } from "./pagination.ts"
 
 function getAuthHeaders(): Record<string, string> {
   const headers: Record<string, string> = { "Content-Type": "application/json" }
@@ -51,40 +38,15 @@ function getAuthHeaders(): Record<string, string> {
   return headers
 }
 
-async function cfFetch<T>(endpoint: string, options: RequestInit = {}): Promise<T> {
-  const headers = getAuthHeaders()
-  const response = await fetch(`${API_BASE}${endpoint}`, {
-    ...options,
-    headers: { ...headers, ...options.headers },
-  })
-
-  const data = (await response.json()) as CloudflareResponse<T>
-
-  if (!data.success) {
-    const errorMsg = data.errors.map((e) => e.message).join(", ")
-    throw new Error(errorMsg || "Cloudflare API request failed")
-  }
-
-  return data.result
+async function cfFetch<T>(endpoint: string, options: ApiRequestOptions = {}): Promise<T> {
+  return apiFetch<T>(endpoint, { ...options, headers: { ...getAuthHeaders(), ...options.headers } })
 }
 
 async function cfFetchWithInfo<T>(
   endpoint: string,
-  options: RequestInit = {}
-): Promise<{ result: T; result_info?: CloudflareResponse<T>["result_info"] }> {
-  const headers = getAuthHeaders()
-  const response = await fetch(`${API_BASE}${endpoint}`, {
-    ...options,
-    headers: { ...headers, ...options.headers },
-  })
-
-  const data = (await response.json()) as CloudflareResponse<T>
-
-  if (!data.success) {
-    const errorMsg = data.errors.map((e) => e.message).join(", ")
-    throw new Error(errorMsg || "Cloudflare API request failed")
-  }
-
+  options: ApiRequestOptions = {}
+): Promise<{ result: T; result_info?: ResultInfo }> {
+  const data = await apiRequest<T>(endpoint, { ...options, headers: { ...getAuthHeaders(), ...options.headers } })
   return { result: data.result, result_info: data.result_info }
 }
 
@@ -95,10 +57,23 @@ export interface ListFirewallRulesResult {
   per_page: number
 }
 
+function pageFetcher<T>(endpoint: string): PageFetcher<T> {
+  return (query) => cfFetchWithInfo<T>(withQuery(endpoint, query))
+}
+
+export function iterateFirewallRules(zoneId: string): AsyncGenerator<FirewallRule[]> {
+  return paginate(pageFetcher<FirewallRule[]>(`/zones/${zoneId}/firewall/rules`), { perPage: 100 })
+}
+
 export async function listFirewallRules(
   zoneId: string,
   options?: { page?: number; per_page?: number }
 ): Promise<ListFirewallRulesResult> {
+  if (!options?.page) {
+    const rules = await collectAll(iterateFirewallRules(zoneId))
+    return { rules, total_count: rules.length, page: 1, per_page: rules.length }
+  }
+
   const params = new URLSearchParams()
   if (options?.page) params.append("page", options.page.toString())
   if (options?.per_page) params.append("per_page", options.per_page.toString())
@@ -344,7 +319,7 @@ export async function getSecurityEvents(
 }
 
 export async function listRateLimitRules(zoneId: string): Promise<RateLimitRule[]> {
-  return cfFetch<RateLimitRule[]>(`/zones/${zoneId}/rate_limits`)
+  return collectAll(paginate(pageFetcher<RateLimitRule[]>(`/zones/${zoneId}/rate_limits`), { perPage: 100 }))
 }
 
 export async function getRateLimitRule(zoneId: string, ruleId: string): Promise<RateLimitRule> {
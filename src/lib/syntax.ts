@@ -0,0 +1,107 @@
+export type TokenKind = "plain" | "keyword" | "string" | "comment" | "number";
+
+export interface Token {
+  kind: TokenKind;
+  text: string;
+}
+
+type LineState = "code" | "block-comment" | "template";
+
+const KEYWORDS = new Set([
+  "async", "await", "break", "case", "catch", "class", "const", "continue", "default", "delete", "do", "else",
+  "export", "extends", "false", "finally", "for", "from", "function", "if", "import", "in", "instanceof", "let",
+  "new", "null", "of", "return", "static", "super", "switch", "this", "throw", "true", "try", "typeof",
+  "undefined", "var", "void", "while", "yield",
+]);
+
+const DECLARATION = /^(export\s+(default\s+)?)?(async\s+)?(function\*?|class|const|let|var)\s|^export\s+default\b/;
+
+/**
+ * Splits JavaScript source into coloured tokens line by line. Block comments and
+ * template literals carry over between lines, so lines are tokenized in order.
+ */
+export function highlightSource(source: string): Token[][] {
+  const lines = source.split("\n");
+  const result: Token[][] = [];
+  let state: LineState = "code";
+
+  for (const line of lines) {
+    const tokens: Token[] = [];
+    const push = (kind: TokenKind, text: string) => {
+      if (!text) return;
+      const last = tokens[tokens.length - 1];
+      if (last && last.kind === kind) last.text += text;
+      else tokens.push({ kind, text });
+    };
+
+    let i = 0;
+    while (i < line.length) {
+      if (state === "block-comment") {
+        const end = line.indexOf("*/", i);
+        const stop = end === -1 ? line.length : end + 2;
+        push("comment", line.slice(i, stop));
+        i = stop;
+        if (end !== -1) state = "code";
+        continue;
+      }
+      if (state === "template") {
+        let j = i;
+        while (j < line.length && line[j] !== "`") j += line[j] === "\\" ? 2 : 1;
+        push("string", line.slice(i, Math.min(j + 1, line.length)));
+        i = j + 1;
+        if (j < line.length) state = "code";
+        continue;
+      }
+
+      const ch = line[i]!;
+      const rest = line.slice(i);
+      if (rest.startsWith("//")) {
+        push("comment", rest);
+        break;
+      }
+      if (rest.startsWith("/*")) {
+        state = "block-comment";
+        push("comment", "/*");
+        i += 2;
+        continue;
+      }
+      if (ch === "`") {
+        state = "template";
+        push("string", "`");
+        i++;
+        continue;
+      }
+      if (ch === '"' || ch === "'") {
+        let j = i + 1;
+        while (j < line.length && line[j] !== ch) j += line[j] === "\\" ? 2 : 1;
+        push("string", line.slice(i, j + 1));
+        i = j + 1;
+        continue;
+      }
+      const number = rest.match(/^(0x[\da-f]+|\d+(\.\d+)?(e[+-]?\d+)?)n?\b/i);
+      if (number && !/[\w$]/.test(line[i - 1] ?? "")) {
+        push("number", number[0]);
+        i += number[0].length;
+        continue;
+      }
+      const word = rest.match(/^[A-Za-z_$][\w$]*/);
+      if (word) {
+        push(KEYWORDS.has(word[0]) && line[i - 1] !== "." ? "keyword" : "plain", word[0]);
+        i += word[0].length;
+        continue;
+      }
+      push("plain", ch);
+      i++;
+    }
+    result.push(tokens);
+  }
+  return result;
+}
+
+export function declarationLines(source: string): number[] {
+  const lines: number[] = [];
+  source.split("\n").forEach((line, index) => {
+    if (DECLARATION.test(line)) lines.push(index);
+  });
+  return lines;
+}
@@ -0,0 +1,15 @@
+import { useEffect, useRef } from "react";
+import { onCacheRefresh } from "./response-cache.ts";
+
+export function useCacheRefresh(endpoint: string, onRefresh: () => void): void {
+  const callbackRef = useRef(onRefresh);
+  callbackRef.current = onRefresh;
+
+  useEffect(() => {
+    return onCacheRefresh((_scope, refreshed) => {
+      if (refreshed === endpoint || refreshed.startsWith(`${endpoint}?`)) {
+        callbackRef.current();
+      }
+    });
+  }, [endpoint]);
+}
@@ -0,0 +1,93 @@
+import { useState, useRef, useCallback, useEffect } from "react";
+
+const LOAD_AHEAD = 10;
+
+export type PageSource<T> = () => AsyncIterable<T[]>;
+
+export interface PaginatedList<T> {
+  items: T[];
+  loading: boolean;
+  hasMore: boolean;
+  error: string | null;
+  reload: () => void;
+  loadMore: () => void;
+  ensureLoaded: (index: number) => void;
+}
+
+export function usePaginatedList<T>(
+  source: PageSource<T> | null,
+  fallbackError = "Failed to load"
+): PaginatedList<T> {
+  const [items, setItems] = useState<T[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [hasMore, setHasMore] = useState(source !== null);
+  const [error, setError] = useState<string | null>(null);
+  const iteratorRef = useRef<AsyncIterator<T[]> | null>(null);
+  const busyRef = useRef(false);
+  const generationRef = useRef(0);
+
+  const fetchNext = useCallback(async (generation: number) => {
+    const iterator = iteratorRef.current;
+    if (!iterator || busyRef.current) return;
+    busyRef.current = true;
+    setLoading(true);
+    try {
+      const next = await iterator.next();
+      if (generation !== generationRef.current) return;
+      if (next.done) {
+        iteratorRef.current = null;
+        setHasMore(false);
+      } else {
+        setItems((prev) => [...prev, ...next.value]);
+      }
+    } catch (err) {
+      if (generation !== generationRef.current) return;
+      iteratorRef.current = null;
+      setHasMore(false);
+      setError(err instanceof Error ? err.message : fallbackError);
+    } finally {
+      if (generation === generationRef.current) {
+        busyRef.current = false;
+        setLoading(false);
+      }
+    }
+  }, [fallbackError]);
+
+  const reload = useCallback(() => {
+    const generation = ++generationRef.current;
+    busyRef.current = false;
+    setItems([]);
+    setError(null);
+    if (!source) {
+      iteratorRef.current = null;
+      setHasMore(false);
+      setLoading(false);
+      return;
+    }
+    iteratorRef.current = source()[Symbol.asyncIterator]();
+    setHasMore(true);
+    fetchNext(generation);
+  }, [source, fetchNext]);
+
+  const loadMore = useCallback(() => {
+    fetchNext(generationRef.current);
+  }, [fetchNext]);
+
+  const ensureLoaded = useCallback((index: number) => {
+    if (hasMore && index >= items.length - LOAD_AHEAD) {
+      loadMore();
+    }
+  }, [hasMore, items.length, loadMore]);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  useEffect(() => {
+    if (hasMore && !loading && items.length === 0) {
+      loadMore();
+    }
+  }, [hasMore, loading, items.length, loadMore]);
+
+  return { items, loading, hasMore, error, reload, loadMore, ensureLoaded };
+}
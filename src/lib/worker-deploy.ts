@@ -0,0 +1,187 @@
+import { basename } from "node:path";
+import { getWorkerSettings, uploadWorkerScript, type Worker, type WorkerBinding } from "./cloudflare.ts";
+import { CloudflareApiError } from "./api-client.ts";
+import { expandHome } from "./paths.ts";
+
+const MIB = 1024 * 1024;
+
+/** Compressed script size limits per Workers plan. */
+export const WORKER_SIZE_LIMITS = { free: 3 * MIB, paid: 10 * MIB };
+
+export type WorkerSizeStatus = "ok" | "paid-only" | "too-large";
+
+export interface WorkerSizeCheck {
+  bytes: number;
+  gzipBytes: number;
+  status: WorkerSizeStatus;
+}
+
+export interface BindingOverride {
+  type: string;
+  [key: string]: unknown;
+}
+
+export type BindingOverrides = Record<string, BindingOverride | null>;
+
+export type BindingChangeAction = "add" | "change" | "remove" | "keep";
+
+export interface BindingChange {
+  name: string;
+  type: string;
+  action: BindingChangeAction;
+}
+
+export interface WorkerDeployOptions {
+  modulePath: string;
+  sourceMapPath?: string;
+  compatibilityDate?: string;
+  compatibilityFlags?: string[];
+  bindingsPath?: string;
+}
+
+export interface WorkerDeployPlan {
+  scriptName: string;
+  exists: boolean;
+  module: File;
+  sourceMap: File | null;
+  size: WorkerSizeCheck;
+  compatibilityDate: string;
+  compatibilityFlags: string[];
+  previous: { compatibilityDate?: string; compatibilityFlags: string[] };
+  changes: BindingChange[];
+  bindings: Array<Record<string, unknown>>;
+}
+
+export function checkWorkerSize(content: ArrayBuffer): WorkerSizeCheck {
+  const gzipBytes = Bun.gzipSync(content).length;
+  const status = gzipBytes > WORKER_SIZE_LIMITS.paid ? "too-large" : gzipBytes > WORKER_SIZE_LIMITS.free ? "paid-only" : "ok";
+  return { bytes: content.byteLength, gzipBytes, status };
+}
+
+function stableJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(stableJson).join(",")}]`;
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value as Record<string, unknown>).sort(([a], [b]) => a.localeCompare(b));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${stableJson(v)}`).join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Merges binding overrides into the script's current bindings. Untouched bindings
+ * are uploaded as `inherit`, so secrets keep their values without being re-sent;
+ * a `null` override removes the binding.
+ */
+export function planBindings(
+  existing: WorkerBinding[],
+  overrides: BindingOverrides
+): { changes: BindingChange[]; bindings: Array<Record<string, unknown>> } {
+  const changes: BindingChange[] = [];
+  const bindings: Array<Record<string, unknown>> = [];
+  const current = new Map(existing.map((binding) => [binding.name, binding]));
+
+  for (const binding of existing) {
+    const override = overrides[binding.name];
+    if (override === undefined) {
+      changes.push({ name: binding.name, type: binding.type, action: "keep" });
+      bindings.push({ name: binding.name, type: "inherit" });
+    } else if (override === null) {
+      changes.push({ name: binding.name, type: binding.type, action: "remove" });
+    } else {
+      const { name: _name, ...previous } = binding;
+      const changed = stableJson(previous) !== stableJson(override);
+      changes.push({ name: binding.name, type: override.type, action: changed ? "change" : "keep" });
+      bindings.push(changed ? { ...override, name: binding.name } : { name: binding.name, type: "inherit" });
+    }
+  }
+
+  for (const [name, override] of Object.entries(overrides)) {
+    if (current.has(name) || override === null) continue;
+    changes.push({ name, type: override.type, action: "add" });
+    bindings.push({ ...override, name });
+  }
+
+  return { changes, bindings };
+}
+
+export async function readBindingOverrides(path: string): Promise<BindingOverrides> {
+  const file = Bun.file(expandHome(path));
+  if (!(await file.exists())) throw new Error(`Bindings file not found: ${path}`);
+  const parsed: unknown = await file.json();
+  if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+    throw new Error('Bindings file must be a JSON object of { "NAME": { "type": ... } | null }');
+  }
+  for (const [name, value] of Object.entries(parsed)) {
+    if (value !== null && (typeof value !== "object" || typeof (value as { type?: unknown }).type !== "string")) {
+      throw new Error(`Binding ${name} needs a "type" (or null to remove it)`);
+    }
+  }
+  return parsed as BindingOverrides;
+}
+
+async function readLocalFile(path: string, type: string): Promise<File> {
+  const target = expandHome(path);
+  const file = Bun.file(target);
+  if (!(await file.exists())) throw new Error(`File not found: ${path}`);
+  return new File([await file.arrayBuffer()], basename(target), { type });
+}
+
+export function defaultSourceMapPath(modulePath: string): string {
+  return `${modulePath.trim()}.map`;
+}
+
+export async function planWorkerDeploy(scriptName: string, options: WorkerDeployOptions): Promise<WorkerDeployPlan> {
+  const module = await readLocalFile(options.modulePath, "application/javascript+module");
+  const content = await module.arrayBuffer();
+  if (!/\bexport\b/.test(new TextDecoder().decode(content))) {
+    throw new Error(`${module.name} has no exports; deploy a bundled ES module with a default export`);
+  }
+  const sourceMap = options.sourceMapPath ? await readLocalFile(options.sourceMapPath, "application/source-map") : null;
+  const overrides = options.bindingsPath ? await readBindingOverrides(options.bindingsPath) : {};
+
+  let exists = true;
+  let existing: WorkerBinding[] = [];
+  let previous: WorkerDeployPlan["previous"] = { compatibilityFlags: [] };
+  try {
+    const settings = await getWorkerSettings(scriptName);
+    existing = settings.bindings;
+    previous = { compatibilityDate: settings.compatibility_date, compatibilityFlags: settings.compatibility_flags ?? [] };
+  } catch (err) {
+    if (!(err instanceof CloudflareApiError && err.status === 404)) throw err;
+    exists = false;
+  }
+
+  const compatibilityDate = options.compatibilityDate ?? previous.compatibilityDate ?? new Date().toISOString().slice(0, 10);
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(compatibilityDate)) {
+    throw new Error(`Compatibility date must look like YYYY-MM-DD, got ${compatibilityDate}`);
+  }
+
+  return {
+    scriptName,
+    exists,
+    module,
+    sourceMap,
+    size: checkWorkerSize(content),
+    compatibilityDate,
+    compatibilityFlags: options.compatibilityFlags ?? previous.compatibilityFlags,
+    previous,
+    ...planBindings(existing, overrides),
+  };
+}
+
+export async function deployWorker(plan: WorkerDeployPlan): Promise<Worker> {
+  if (plan.size.status === "too-large") {
+    throw new Error(`${plan.module.name} is over the ${WORKER_SIZE_LIMITS.paid / MIB} MiB compressed size limit`);
+  }
+  const files = plan.sourceMap ? [plan.module, plan.sourceMap] : [plan.module];
+  return uploadWorkerScript(
+    plan.scriptName,
+    {
+      main_module: plan.module.name,
+      compatibility_date: plan.compatibilityDate,
+      compatibility_flags: plan.compatibilityFlags,
+      bindings: plan.bindings,
+    },
+    files
+  );
+}
@@ -0,0 +1,83 @@
+import { expandHome } from "./paths.ts";
+
+const DOTENV_LINE = /^\s*(?:export\s+)?([A-Za-z_][A-Za-z0-9_.-]*)\s*=\s*(.*)?$/;
+
+/**
+ * Parses `.dev.vars` / dotenv content. Double-quoted values may span lines and
+ * understand `\n`-style escapes; single-quoted values are taken literally.
+ */
+export function parseDotenv(content: string): Map<string, string> {
+  const values = new Map<string, string>();
+  const lines = content.replace(/\r\n?/g, "\n").split("\n");
+
+  for (let i = 0; i < lines.length; i++) {
+    const match = lines[i]!.match(DOTENV_LINE);
+    if (!match) continue;
+    const name = match[1]!;
+    let raw = (match[2] ?? "").trim();
+
+    const quote = raw[0];
+    if (quote === '"' || quote === "'" || quote === "`") {
+      while (!hasClosingQuote(raw, quote) && i + 1 < lines.length) {
+        raw += `\n${lines[++i]}`;
+      }
+      const end = raw.lastIndexOf(quote);
+      const body = end > 0 ? raw.slice(1, end) : raw.slice(1);
+      values.set(name, quote === '"' ? unescapeDoubleQuoted(body) : body);
+      continue;
+    }
+
+    const comment = raw.search(/\s#/);
+    values.set(name, (comment === -1 ? raw : raw.slice(0, comment)).trim());
+  }
+  return values;
+}
+
+function hasClosingQuote(raw: string, quote: string): boolean {
+  for (let i = 1; i < raw.length; i++) {
+    if (raw[i] === "\\" && quote === '"') i++;
+    else if (raw[i] === quote) return true;
+  }
+  return false;
+}
+
+function unescapeDoubleQuoted(body: string): string {
+  return body.replace(/\\([nrt"\\])/g, (_, ch: string) =>
+    ch === "n" ? "\n" : ch === "r" ? "\r" : ch === "t" ? "\t" : ch
+  );
+}
+
+export async function readDotenvFile(path: string): Promise<Map<string, string>> {
+  const file = Bun.file(expandHome(path));
+  if (!(await file.exists())) throw new Error(`File not found: ${path}`);
+  return parseDotenv(await file.text());
+}
+
+export type SecretImportAction = "create" | "rotate" | "conflict";
+
+export interface SecretImportChange {
+  name: string;
+  action: SecretImportAction;
+  length: number;
+}
+
+/**
+ * Compares a dotenv file against the script. Secret values are never readable
+ * from the API, so existing names are always reported as rotations; names taken
+ * by a variable or any other binding are conflicts and are skipped when applying.
+ */
+export function planSecretImport(
+  values: Map<string, string>,
+  secretNames: string[],
+  bindingNames: string[]
+): SecretImportChange[] {
+  const secrets = new Set(secretNames);
+  const taken = new Set(bindingNames);
+  return [...values.entries()]
+    .map(([name, value]) => ({
+      name,
+      length: value.length,
+      action: taken.has(name) ? "conflict" : secrets.has(name) ? "rotate" : "create",
+    }) satisfies SecretImportChange)
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
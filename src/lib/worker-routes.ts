@@ -0,0 +1,77 @@
+import type { Zone, ZoneWorkerRoute } from "./cloudflare.ts";
+
+function normalizePattern(pattern: string): string {
+  return pattern.trim().replace(/^https?:\/\//i, "").toLowerCase();
+}
+
+export function routeHost(pattern: string): string {
+  const normalized = normalizePattern(pattern);
+  const slash = normalized.indexOf("/");
+  return (slash === -1 ? normalized : normalized.slice(0, slash)).replace(/^\*\.?/, "").replace(/:\d+$/, "");
+}
+
+export function validateRoutePattern(pattern: string): string | null {
+  const normalized = normalizePattern(pattern);
+  if (!normalized) return "Enter a route pattern";
+  if (!normalized.includes("/")) return "Patterns need a path, for example example.com/*";
+  if (!routeHost(normalized).includes(".")) return "Pattern must start with a hostname";
+  if (/\*./.test(normalized.slice(normalized.indexOf("/")))) return "Wildcards in the path are only allowed at the end";
+  return null;
+}
+
+/** Picks the zone with the longest name that the pattern's host falls under. */
+export function zoneForPattern(pattern: string, zones: Zone[]): Zone | null {
+  const host = routeHost(pattern);
+  let best: Zone | null = null;
+  for (const zone of zones) {
+    const name = zone.name.toLowerCase();
+    if ((host === name || host.endsWith(`.${name}`)) && (!best || name.length > best.name.length)) best = zone;
+  }
+  return best;
+}
+
+/**
+ * Whether some URL could match both patterns. Both are treated as globs where
+ * `*` matches any run of characters, which covers leading host and trailing
+ * path wildcards.
+ */
+export function patternsOverlap(a: string, b: string): boolean {
+  const left = normalizePattern(a);
+  const right = normalizePattern(b);
+  const memo = new Map<number, boolean>();
+
+  const visit = (i: number, j: number): boolean => {
+    const key = i * (right.length + 1) + j;
+    const seen = memo.get(key);
+    if (seen !== undefined) return seen;
+
+    let result = false;
+    if (i === left.length && j === right.length) {
+      result = true;
+    } else if (left[i] === "*") {
+      result = visit(i + 1, j) || (j < right.length && visit(i, j + 1));
+    } else if (right[j] === "*") {
+      result = visit(i, j + 1) || (i < left.length && visit(i + 1, j));
+    } else if (i < left.length && j < right.length && left[i] === right[j]) {
+      result = visit(i + 1, j + 1);
+    }
+    memo.set(key, result);
+    return result;
+  };
+
+  return visit(0, 0);
+}
+
+/** Routes in the same zone, served by a different script (or none), that can match the same requests. */
+export function findRouteOverlaps(
+  route: { pattern: string; zone_id: string; script?: string; id?: string },
+  routes: ZoneWorkerRoute[]
+): ZoneWorkerRoute[] {
+  return routes.filter(
+    (other) =>
+      other.id !== route.id &&
+      other.zone_id === route.zone_id &&
+      (other.script ?? "") !== (route.script ?? "") &&
+      patternsOverlap(other.pattern, route.pattern)
+  );
+}
@@ -0,0 +1,128 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, test } from "bun:test";
+import type { Server, ServerWebSocket } from "bun";
+import {
+  connectTail,
+  tailFilterMessage,
+  DEFAULT_TAIL_FILTERS,
+  type TailEvent,
+  type TailSession,
+  type TailStatus,
+} from "./worker-tail.ts";
+
+interface Received {
+  protocol: string | null;
+  messages: string[];
+  sockets: ServerWebSocket<unknown>[];
+}
+
+const EVENT: TailEvent = { outcome: "ok", scriptName: "api", eventTimestamp: 1700000000000, logs: [], exceptions: [] };
+
+let server: Server;
+let received: Received;
+let sessions: TailSession[];
+
+beforeAll(() => {
+  server = Bun.serve({
+    port: 0,
+    fetch(req, srv) {
+      received.protocol = req.headers.get("sec-websocket-protocol");
+      if (srv.upgrade(req, { headers: { "Sec-WebSocket-Protocol": "trace-v1" } })) return;
+      return new Response("expected a websocket", { status: 400 });
+    },
+    websocket: {
+      open(ws) {
+        received.sockets.push(ws);
+      },
+      message(_ws, message) {
+        received.messages.push(typeof message === "string" ? message : new TextDecoder().decode(message));
+      },
+    },
+  });
+});
+
+afterAll(() => {
+  server.stop(true);
+});
+
+beforeEach(async () => {
+  await Promise.all((sessions ?? []).map((session) => session.close()));
+  received = { protocol: null, messages: [], sockets: [] };
+  sessions = [];
+});
+
+async function waitFor(check: () => boolean, timeoutMs = 2000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!check()) {
+    if (Date.now() > deadline) throw new Error("Timed out waiting for the tail socket");
+    await Bun.sleep(5);
+  }
+}
+
+function connect(filters = DEFAULT_TAIL_FILTERS) {
+  const events: TailEvent[] = [];
+  const statuses: Array<[TailStatus, string | undefined]> = [];
+  const session = connectTail(`ws://localhost:${server.port}/tail`, filters, {
+    onEvent: (event) => events.push(event),
+    onStatus: (status, detail) => statuses.push([status, detail]),
+  });
+  sessions.push(session);
+  const lastStatus = () => statuses.at(-1)?.[0];
+  return { session, events, statuses, lastStatus };
+}
+
+describe("connectTail", () => {
+  test("negotiates trace-v1 and sends the filters once open", async () => {
+    const filters = { ...DEFAULT_TAIL_FILTERS, status: "error" as const, method: "POST" };
+    const { statuses, lastStatus } = connect(filters);
+    expect(statuses).toEqual([["connecting", undefined]]);
+
+    await waitFor(() => lastStatus() === "live" && received.messages.length === 1);
+    expect(received.protocol).toBe("trace-v1");
+    expect(received.messages).toEqual([tailFilterMessage(filters)]);
+    expect(JSON.parse(received.messages[0]!).filters).toContainEqual({ method: ["POST"] });
+  });
+
+  test("parses text and binary frames and reports malformed ones", async () => {
+    const { events, statuses, lastStatus } = connect();
+    await waitFor(() => lastStatus() === "live" && received.sockets.length === 1);
+
+    const socket = received.sockets[0]!;
+    socket.send(JSON.stringify(EVENT));
+    socket.send(new TextEncoder().encode(JSON.stringify({ ...EVENT, outcome: "exception" })));
+    await waitFor(() => events.length === 2);
+    expect(events.map((e) => e.outcome)).toEqual(["ok", "exception"]);
+
+    socket.send("{not json");
+    await waitFor(() => lastStatus() === "error");
+    expect(statuses.at(-1)).toEqual(["error", "Received a malformed tail event"]);
+  });
+
+  test("sends filter changes while connected", async () => {
+    const { session, lastStatus } = connect();
+    await waitFor(() => lastStatus() === "live" && received.messages.length === 1);
+
+    const sampled = { ...DEFAULT_TAIL_FILTERS, samplingRate: 0.5, search: "timeout" };
+    session.setFilters(sampled);
+    await waitFor(() => received.messages.length === 2);
+    expect(received.messages[1]).toBe(tailFilterMessage(sampled));
+  });
+
+  test("reports closes from either side and can connect again", async () => {
+    const first = connect();
+    await waitFor(() => first.lastStatus() === "live" && received.sockets.length === 1);
+
+    received.sockets[0]!.close(1000, "tail expired");
+    await waitFor(() => first.lastStatus() === "closed");
+    expect(first.statuses.map(([status]) => status)).toEqual(["connecting", "live", "closed"]);
+    expect(first.statuses.at(-1)).toEqual(["closed", "tail expired"]);
+
+    first.session.setFilters({ ...DEFAULT_TAIL_FILTERS, status: "ok" });
+    await Bun.sleep(20);
+    expect(received.messages).toHaveLength(1);
+
+    const second = connect();
+    await waitFor(() => second.lastStatus() === "live" && received.sockets.length === 2);
+    await second.session.close();
+    await waitFor(() => second.lastStatus() === "closed");
+  });
+});
@@ -0,0 +1,189 @@
+import { extname } from "node:path";
+import { createWorkerTail, deleteWorkerTail } from "./cloudflare.ts";
+import { expandHome } from "./paths.ts";
+
+export type TailStatusFilter = "all" | "ok" | "error";
+
+export interface TailFilters {
+  status: TailStatusFilter;
+  method: string | null;
+  samplingRate: number;
+  search: string;
+}
+
+export const DEFAULT_TAIL_FILTERS: TailFilters = { status: "all", method: null, samplingRate: 1, search: "" };
+
+export interface TailLog {
+  message: unknown[];
+  level: string;
+  timestamp: number;
+}
+
+export interface TailException {
+  name: string;
+  message: string;
+  timestamp: number;
+}
+
+export interface TailEvent {
+  outcome: string;
+  scriptName?: string;
+  eventTimestamp: number | null;
+  logs: TailLog[];
+  exceptions: TailException[];
+  event?: {
+    request?: { url: string; method: string; headers?: Record<string, string>; cf?: Record<string, unknown> };
+    response?: { status: number };
+    cron?: string;
+    scheduledTime?: number;
+    queue?: string;
+    batchSize?: number;
+  } | null;
+}
+
+export type TailStatus = "connecting" | "live" | "closed" | "error";
+
+export interface TailConnection {
+  send: (message: string) => void;
+  close: () => void;
+}
+
+export interface TailTransportHandlers {
+  onOpen: () => void;
+  onMessage: (data: string) => void;
+  onClose: (reason: string) => void;
+  onError: (error: Error) => void;
+}
+
+/** Opens the stream behind a tail URL. Swap in another transport to replay or stub tail traffic. */
+export type TailTransport = (url: string, handlers: TailTransportHandlers) => TailConnection;
+
+export const webSocketTransport: TailTransport = (url, handlers) => {
+  const socket = new WebSocket(url, "trace-v1");
+  socket.binaryType = "arraybuffer";
+  socket.onopen = () => handlers.onOpen();
+  socket.onmessage = (message) => {
+    handlers.onMessage(typeof message.data === "string" ? message.data : new TextDecoder().decode(message.data));
+  };
+  socket.onclose = (event) => handlers.onClose(event.reason || `closed (${event.code})`);
+  socket.onerror = () => handlers.onError(new Error("Tail connection failed"));
+  return {
+    send: (message) => socket.send(message),
+    close: () => socket.close(),
+  };
+};
+
+const ERROR_OUTCOMES = ["exception", "exceededCpu", "exceededMemory", "scriptNotFound", "unknown"];
+
+export function tailFilterMessage(filters: TailFilters): string {
+  const list: Array<Record<string, unknown>> = [];
+  if (filters.status === "ok") list.push({ outcome: ["ok"] });
+  if (filters.status === "error") list.push({ outcome: ERROR_OUTCOMES });
+  if (filters.method) list.push({ method: [filters.method] });
+  if (filters.samplingRate < 1) list.push({ sampling_rate: filters.samplingRate });
+  if (filters.search.trim()) list.push({ query: filters.search.trim() });
+  return JSON.stringify({ filters: list, debug: false });
+}
+
+export interface TailHandlers {
+  onEvent: (event: TailEvent) => void;
+  onStatus: (status: TailStatus, detail?: string) => void;
+}
+
+export interface TailSession {
+  setFilters: (filters: TailFilters) => void;
+  close: () => Promise<void>;
+}
+
+/** Streams tail events from a tail URL without touching the Cloudflare API. */
+export function connectTail(
+  url: string,
+  filters: TailFilters,
+  handlers: TailHandlers,
+  transport: TailTransport = webSocketTransport
+): TailSession {
+  let current = filters;
+  let open = false;
+  handlers.onStatus("connecting");
+
+  const connection = transport(url, {
+    onOpen: () => {
+      open = true;
+      connection.send(tailFilterMessage(current));
+      handlers.onStatus("live");
+    },
+    onMessage: (data) => {
+      try {
+        handlers.onEvent(JSON.parse(data) as TailEvent);
+      } catch {
+        handlers.onStatus("error", "Received a malformed tail event");
+      }
+    },
+    onClose: (reason) => {
+      open = false;
+      handlers.onStatus("closed", reason);
+    },
+    onError: (error) => handlers.onStatus("error", error.message),
+  });
+
+  return {
+    setFilters: (filters) => {
+      current = filters;
+      if (open) connection.send(tailFilterMessage(filters));
+    },
+    close: async () => {
+      connection.close();
+    },
+  };
+}
+
+export async function openTailSession(
+  scriptName: string,
+  filters: TailFilters,
+  handlers: TailHandlers,
+  transport: TailTransport = webSocketTransport
+): Promise<TailSession> {
+  const tail = await createWorkerTail(scriptName);
+  const session = connectTail(tail.url, filters, handlers, transport);
+  return {
+    setFilters: session.setFilters,
+    close: async () => {
+      await session.close();
+      await deleteWorkerTail(scriptName, tail.id).catch(() => undefined);
+    },
+  };
+}
+
+export function formatLogMessage(message: unknown[]): string {
+  return message.map((part) => (typeof part === "string" ? part : JSON.stringify(part))).join(" ");
+}
+
+export function describeTailEvent(event: TailEvent): string {
+  const request = event.event?.request;
+  if (request) {
+    const status = event.event?.response?.status;
+    return `${request.method} ${status ?? "—"} ${request.url}`;
+  }
+  if (event.event?.cron) return `cron ${event.event.cron}`;
+  if (event.event?.queue) return `queue ${event.event.queue} (${event.event.batchSize ?? 0} messages)`;
+  return "event";
+}
+
+export function formatTailEvent(event: TailEvent): string[] {
+  const time = new Date(event.eventTimestamp ?? Date.now()).toISOString();
+  const lines = [`${time} [${event.outcome}] ${describeTailEvent(event)}`];
+  for (const log of event.logs) lines.push(`  (${log.level}) ${formatLogMessage(log.message)}`);
+  for (const exception of event.exceptions) lines.push(`  ✗ ${exception.name}: ${exception.message}`);
+  return lines;
+}
+
+export async function saveTailLog(path: string, events: TailEvent[]): Promise<string> {
+  const target = expandHome(path);
+  const ext = extname(target).toLowerCase();
+  let content: string;
+  if (ext === ".json") content = JSON.stringify(events, null, 2) + "\n";
+  else if (ext === ".ndjson" || ext === ".jsonl") content = events.map((event) => JSON.stringify(event)).join("\n") + "\n";
+  else content = events.flatMap(formatTailEvent).join("\n") + "\n";
+  await Bun.write(target, content);
+  return target;
+}
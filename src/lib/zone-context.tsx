@@ -0,0 +1,87 @@
+import { createContext, useContext, useState, useEffect, useCallback, type ReactNode } from "react";
+import { listZones, type Zone } from "./cloudflare.ts";
+import { useAuth } from "./auth-context.tsx";
+import { useCacheRefresh } from "./use-cache-refresh.ts";
+
+interface ZoneContextValue {
+  zones: Zone[];
+  activeZone: Zone | null;
+  setActiveZone: (zone: Zone) => void;
+  loading: boolean;
+  error: string | null;
+  reload: () => Promise<void>;
+  switcherOpen: boolean;
+  openSwitcher: () => void;
+  closeSwitcher: () => void;
+}
+
+const ZoneContext = createContext<ZoneContextValue | null>(null);
+
+export function ZoneProvider({ children }: { children: ReactNode }) {
+  const { isAuthenticated, currentAccount } = useAuth();
+  const [zones, setZones] = useState<Zone[]>([]);
+  const [activeZoneId, setActiveZoneId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [switcherOpen, setSwitcherOpen] = useState(false);
+
+  const applyZones = useCallback((data: Zone[]) => {
+    setZones(data);
+    setActiveZoneId((id) => (id && data.some((z) => z.id === id) ? id : data[0]?.id ?? null));
+  }, []);
+
+  const reload = useCallback(async () => {
+    if (!isAuthenticated) {
+      setZones([]);
+      setActiveZoneId(null);
+      return;
+    }
+    setLoading(true);
+    setError(null);
+    try {
+      applyZones(await listZones());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load zones");
+    } finally {
+      setLoading(false);
+    }
+  }, [isAuthenticated, applyZones]);
+
+  useEffect(() => {
+    setActiveZoneId(null);
+    reload();
+  }, [reload, currentAccount?.email]);
+
+  useCacheRefresh("/zones", () => {
+    listZones().then(applyZones).catch(() => {});
+  });
+
+  const setActiveZone = useCallback((zone: Zone) => {
+    setActiveZoneId(zone.id);
+  }, []);
+
+  const openSwitcher = useCallback(() => setSwitcherOpen(true), []);
+  const closeSwitcher = useCallback(() => setSwitcherOpen(false), []);
+
+  const value: ZoneContextValue = {
+    zones,
+    activeZone: zones.find((z) => z.id === activeZoneId) ?? null,
+    setActiveZone,
+    loading,
+    error,
+    reload,
+    switcherOpen,
+    openSwitcher,
+    closeSwitcher,
+  };
+
+  return <ZoneContext.Provider value={value}>{children}</ZoneContext.Provider>;
+}
+
+export function useZone(): ZoneContextValue {
+  const context = useContext(ZoneContext);
+  if (!context) {
+    throw new Error("useZone must be used within a ZoneProvider");
+  }
+  return context;
+}
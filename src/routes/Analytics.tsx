@@ -1,5 +1,5 @@
 import { useState, useEffect, useCallback } from "react";
-import { useKeyboard } from "@opentui/react";
+import { useScreenKeyboard } from "../lib/overlay-context.tsx";
 import { useTheme } from "../lib/theme-context.tsx";
 import type { TimeRange, TrafficMetrics, PerformanceMetrics, GeoTraffic, WorkerSummary, RequestLog } from "../types/analytics.ts";
 import { TIME_RANGES } from "../types/analytics.ts";
@@ -9,7 +9,6 @@ import {
   fetchGeoTraffic,
   fetchWorkerAnalytics,
   fetchRecentRequests,
-  fetchZones,
 } from "../lib/analytics-api.ts";
 import {
   sparklineFromPoints,
@@ -23,22 +22,18 @@ import {
   timelineLabels,
 } from "../lib/ascii-charts.ts";
 import { renderWorldMapWithHeat, generateWorldMapData, renderTopCountriesTable } from "../lib/ascii-worldmap.ts";
+import { useZone } from "../lib/zone-context.tsx";
+import { NoZoneSelected } from "../components/zones/NoZoneSelected.tsx";
 
 type AnalyticsView = "overview" | "traffic" | "performance" | "geo" | "workers" | "realtime";
 
-interface Zone {
-  id: string;
-  name: string;
-}
-
 export function Analytics() {
   const { theme } = useTheme();
   const { colors } = theme;
 
   const [view, setView] = useState<AnalyticsView>("overview");
   const [timeRange, setTimeRange] = useState<TimeRange>("24h");
-  const [zones, setZones] = useState<Zone[]>([]);
-  const [selectedZoneIndex, setSelectedZoneIndex] = useState(0);
+  const { zones, activeZone: selectedZone, setActiveZone } = useZone();
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
@@ -48,20 +43,6 @@ export function Analytics() {
   const [workers, setWorkers] = useState<WorkerSummary[]>([]);
   const [recentRequests, setRecentRequests] = useState<RequestLog[]>([]);
 
-  const selectedZone = zones[selectedZoneIndex];
-
-  const loadZones = useCallback(async () => {
-    try {
-      const fetchedZones = await fetchZones();
-      setZones(fetchedZones);
-      if (fetchedZones.length > 0) {
-        setSelectedZoneIndex(0);
-      }
-    } catch (err) {
-      setError(err instanceof Error ? err.message : "Failed to load zones");
-    }
-  }, []);
-
   const loadAnalytics = useCallback(async () => {
     if (!selectedZone) return;
 
@@ -96,10 +77,6 @@ export function Analytics() {
     }
   }, [selectedZone]);
 
-  useEffect(() => {
-    loadZones();
-  }, [loadZones]);
-
   useEffect(() => {
     if (selectedZone) {
       loadAnalytics();
@@ -114,7 +91,7 @@ export function Analytics() {
     }
   }, [view, selectedZone, loadRealtimeRequests]);
 
-  useKeyboard((key) => {
+  useScreenKeyboard((key) => {
     if (key.name === "1") setView("overview");
     if (key.name === "2") setView("traffic");
     if (key.name === "3") setView("performance");
@@ -137,7 +114,9 @@ export function Analytics() {
     }
 
     if (key.name === "tab" && zones.length > 1) {
-      setSelectedZoneIndex((prev) => (prev + 1) % zones.length);
+      const index = zones.findIndex((z) => z.id === selectedZone?.id);
+      const next = zones[(index + 1) % zones.length];
+      if (next) setActiveZone(next);
     }
   });
 
@@ -676,6 +655,10 @@ export function Analytics() {
   };
 
   const renderContent = () => {
+    if (!selectedZone) {
+      return <NoZoneSelected />;
+    }
+
     if (loading) {
       return (
         <box marginTop={2}>
@@ -699,16 +682,6 @@ export function Analytics() {
       );
     }
 
-    if (zones.length === 0) {
-      return (
-        <box marginTop={2}>
-          <text>
-            <span fg={colors.textMuted}>No zones found. Make sure you're authenticated.</span>
-          </text>
-        </box>
-      );
-    }
-
     switch (view) {
       case "overview":
         return renderOverview();
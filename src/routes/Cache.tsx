@@ -1,16 +1,17 @@
 import { useState, useEffect, useCallback } from "react";
-import { useKeyboard } from "@opentui/react";
+import { useScreenKeyboard } from "../lib/overlay-context.tsx";
 import { useTheme } from "../lib/theme-context.tsx";
 import {
-  listZones,
   purgeCache,
   getCacheSettings,
   updateCacheSetting,
   listCacheRules,
-  type Zone,
   type CacheSettings,
   type CacheRule,
 } from "../lib/cloudflare.ts";
+import { useZone } from "../lib/zone-context.tsx";
+import { useRouter } from "../lib/router.tsx";
+import { useSuppressPaletteShortcut } from "../lib/palette.ts";
 
 type Tab = "purge" | "settings" | "rules";
 type PurgeMode = "everything" | "urls" | "tags" | "hosts" | "prefixes";
@@ -19,14 +20,12 @@ export function Cache() {
   const { theme } = useTheme();
   const { colors } = theme;
   const [tab, setTab] = useState<Tab>("purge");
-  const [zones, setZones] = useState<Zone[]>([]);
-  const [selectedZone, setSelectedZone] = useState<Zone | null>(null);
+  const { activeZone: selectedZone, openSwitcher } = useZone();
+  const { params, setParams } = useRouter();
   const [cacheSettings, setCacheSettings] = useState<CacheSettings | null>(null);
   const [cacheRules, setCacheRules] = useState<CacheRule[]>([]);
-  const [loading, setLoading] = useState(true);
+  const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [zoneSelectIndex, setZoneSelectIndex] = useState(0);
-  const [zoneSelectMode, setZoneSelectMode] = useState(true);
   const [purgeMode, setPurgeMode] = useState<PurgeMode>("everything");
   const [purgeInput, setPurgeInput] = useState("");
   const [inputMode, setInputMode] = useState(false);
@@ -34,22 +33,7 @@ export function Cache() {
   const [confirmPurge, setConfirmPurge] = useState(false);
   const [ruleIndex, setRuleIndex] = useState(0);
 
-  const loadZones = useCallback(async () => {
-    setLoading(true);
-    setError(null);
-    try {
-      const data = await listZones();
-      setZones(data);
-      if (data.length > 0 && data[0]) {
-        setSelectedZone(data[0]);
-        setZoneSelectMode(false);
-      }
-    } catch (err) {
-      setError(err instanceof Error ? err.message : "Failed to load zones");
-    } finally {
-      setLoading(false);
-    }
-  }, []);
+  useSuppressPaletteShortcut(inputMode);
 
   const loadCacheSettings = useCallback(async () => {
     if (!selectedZone) return;
@@ -71,10 +55,6 @@ export function Cache() {
     }
   }, [selectedZone]);
 
-  useEffect(() => {
-    loadZones();
-  }, [loadZones]);
-
   useEffect(() => {
     if (selectedZone) {
       loadCacheSettings();
@@ -129,7 +109,22 @@ export function Cache() {
     }
   };
 
-  useKeyboard((key) => {
+  useEffect(() => {
+    if (!selectedZone) return;
+    if (params.action === "purge-everything") {
+      setTab("purge");
+      setPurgeMode("everything");
+      setInputMode(false);
+      setConfirmPurge(true);
+      setParams({});
+    } else if (params.action === "toggle-dev-mode" && cacheSettings) {
+      setTab("settings");
+      toggleDevelopmentMode();
+      setParams({});
+    }
+  }, [params.action, selectedZone, cacheSettings]);
+
+  useScreenKeyboard((key) => {
     if (inputMode) {
       if (key.name === "escape") {
         setInputMode(false);
@@ -156,20 +151,8 @@ export function Cache() {
       return;
     }
 
-    if (zoneSelectMode) {
-      if (key.name === "up" || key.name === "k") {
-        setZoneSelectIndex((prev) => Math.max(0, prev - 1));
-      } else if (key.name === "down" || key.name === "j") {
-        setZoneSelectIndex((prev) => Math.min(zones.length - 1, prev + 1));
-      } else if (key.name === "return" && zones[zoneSelectIndex]) {
-        setSelectedZone(zones[zoneSelectIndex]);
-        setZoneSelectMode(false);
-      }
-      return;
-    }
-
     if (key.name === "z") {
-      setZoneSelectMode(true);
+      openSwitcher();
       return;
     }
 
@@ -234,48 +217,6 @@ export function Cache() {
     </box>
   );
 
-  const renderZoneSelector = () => (
-    <box flexDirection="column" gap={1}>
-      <text>
-        <span fg={colors.primary}>Select Zone</span>
-      </text>
-      {loading ? (
-        <box borderStyle="single" borderColor={colors.border} padding={1}>
-          <text>
-            <span fg={colors.info}>Loading zones...</span>
-          </text>
-        </box>
-      ) : zones.length === 0 ? (
-        <box borderStyle="single" borderColor={colors.border} padding={1}>
-          <text>
-            <span fg={colors.textMuted}>No zones found</span>
-          </text>
-        </box>
-      ) : (
-        <box flexDirection="column">
-          {zones.map((zone, index) => (
-            <box
-              key={zone.id}
-              paddingLeft={1}
-              paddingRight={1}
-              backgroundColor={index === zoneSelectIndex ? colors.surfaceAlt : undefined}
-            >
-              <text>
-                <span fg={index === zoneSelectIndex ? colors.primary : colors.text}>{zone.name}</span>
-                <span fg={colors.textMuted}> ({zone.status})</span>
-              </text>
-            </box>
-          ))}
-        </box>
-      )}
-      <box marginTop={1}>
-        <text>
-          <span fg={colors.textMuted}>↑/↓ Navigate • Enter Select</span>
-        </text>
-      </box>
-    </box>
-  );
-
   const renderPurge = () => (
     <box flexDirection="column" gap={1}>
       <box borderStyle="single" borderColor={colors.border} padding={1}>
@@ -630,9 +571,7 @@ export function Cache() {
         </box>
       )}
 
-      {zoneSelectMode ? (
-        renderZoneSelector()
-      ) : !selectedZone ? (
+      {!selectedZone ? (
         <box borderStyle="single" borderColor={colors.border} padding={1}>
           <text>
             <span fg={colors.textMuted}>No zone selected. Press 'z' to select a zone.</span>
@@ -1,11 +1,29 @@
 import { useState, useEffect, useCallback } from "react";
-import { useKeyboard } from "@opentui/react";
+import { useScreenKeyboard } from "../lib/overlay-context.tsx";
 import { useTheme } from "../lib/theme-context.tsx";
 import { listD1Databases, type D1Database } from "../lib/cloudflare.ts";
 import { isAuthenticated } from "../lib/auth.ts";
+import { useRouter } from "../lib/router.tsx";
+import { DatabaseDetail } from "../components/d1/DatabaseDetail.tsx";
+import { exportD1ToFile, importD1FromFile, type D1TransferProgress } from "../lib/d1-transfer.ts";
+import { progressBar, formatBytes as formatByteCount } from "../lib/ascii-charts.ts";
 
 type ViewState = "list" | "details";
 
+interface TransferState {
+  mode: "export" | "import";
+  database: D1Database;
+  path: string;
+  running: boolean;
+  progress: D1TransferProgress | null;
+  result: string | null;
+  error: string | null;
+}
+
+function defaultDumpPath(database: D1Database): string {
+  return `./${database.name.replace(/[^\w.-]+/g, "_")}.sql`;
+}
+
 function formatBytes(bytes: number | undefined, decimals = 2) {
   if (bytes === undefined || bytes === null) return '-';
   if (bytes === 0) return '0 Bytes';
@@ -26,6 +44,8 @@ export function D1() {
   const [error, setError] = useState<string | null>(null);
   const [selectedIndex, setSelectedIndex] = useState(0);
   const [selectedDatabase, setSelectedDatabase] = useState<D1Database | null>(null);
+  const [transfer, setTransfer] = useState<TransferState | null>(null);
+  const { params, setParams } = useRouter();
 
   const loadDatabases = useCallback(async () => {
     if (!isAuthenticated()) {
@@ -52,11 +72,64 @@ export function D1() {
     loadDatabases();
   }, [loadDatabases]);
 
-  useKeyboard((key) => {
-    if (view === "details") {
-      if (key.name === "escape" || key.name === "backspace") {
-        setView("list");
-        setSelectedDatabase(null);
+  useEffect(() => {
+    if (!params.database) return;
+    const index = databases.findIndex((db) => db.uuid === params.database || db.name === params.database);
+    if (index === -1) return;
+    setView("list");
+    setSelectedDatabase(null);
+    setSelectedIndex(index);
+    setParams({});
+  }, [params.database, databases, setParams]);
+
+  const openTransfer = (mode: TransferState["mode"]) => {
+    const database = databases[selectedIndex];
+    if (!database) return;
+    setTransfer({
+      mode,
+      database,
+      path: defaultDumpPath(database),
+      running: false,
+      progress: null,
+      result: null,
+      error: null,
+    });
+  };
+
+  const runTransfer = async (state: TransferState) => {
+    if (!state.path.trim()) {
+      setTransfer({ ...state, error: "Enter a file path" });
+      return;
+    }
+    setTransfer({ ...state, running: true, progress: null, error: null });
+    const onProgress = (progress: D1TransferProgress) => {
+      setTransfer((prev) => (prev ? { ...prev, progress } : prev));
+    };
+    try {
+      let result: string;
+      if (state.mode === "export") {
+        const { path, bytes } = await exportD1ToFile(state.database.uuid, state.path, onProgress);
+        result = `Exported ${state.database.name} to ${path} (${formatByteCount(bytes)})`;
+      } else {
+        const { queries } = await importD1FromFile(state.database.uuid, state.path, onProgress);
+        result = `Imported ${state.path} into ${state.database.name} (${queries} queries)`;
+      }
+      setTransfer((prev) => (prev ? { ...prev, running: false, result } : prev));
+    } catch (err) {
+      const message = err instanceof Error ? err.message : `Failed to ${state.mode} database`;
+      setTransfer((prev) => (prev ? { ...prev, running: false, error: message } : prev));
+    }
+  };
+
+  useScreenKeyboard((key) => {
+    if (view === "details") return;
+
+    if (transfer) {
+      if (transfer.running) return;
+      if (key.name === "escape" || (transfer.result && key.name === "return")) {
+        setTransfer(null);
+      } else if (key.name === "return") {
+        runTransfer(transfer);
       }
       return;
     }
@@ -79,6 +152,12 @@ export function D1() {
           setView("details");
         }
         break;
+      case "x":
+        openTransfer("export");
+        break;
+      case "i":
+        openTransfer("import");
+        break;
       case "r":
         loadDatabases();
         break;
@@ -114,37 +193,36 @@ export function D1() {
           <text><strong>{selectedDatabase.name}</strong></text>
         </box>
 
-        <box flexDirection="column" borderStyle="single" borderColor={colors.border} padding={1}>
-          <box flexDirection="row" gap={2} marginBottom={1}>
-            <text fg={colors.textMuted} width={20}>Database Name:</text>
-            <text>{selectedDatabase.name}</text>
-          </box>
-          
-          <box flexDirection="row" gap={2} marginBottom={1}>
-            <text fg={colors.textMuted} width={20}>UUID:</text>
-            <text>{selectedDatabase.uuid}</text>
-          </box>
-
-          <box flexDirection="row" gap={2} marginBottom={1}>
-            <text fg={colors.textMuted} width={20}>Version:</text>
-            <text>{selectedDatabase.version}</text>
-          </box>
-
-          <box flexDirection="row" gap={2} marginBottom={1}>
-            <text fg={colors.textMuted} width={20}>Created:</text>
-            <text>{new Date(selectedDatabase.created_at).toLocaleString()}</text>
-          </box>
-
-          <box flexDirection="row" gap={2} marginBottom={1}>
-            <text fg={colors.textMuted} width={20}>Tables:</text>
-            <text>{selectedDatabase.num_tables ?? 0}</text>
-          </box>
-
-          <box flexDirection="row" gap={2} marginBottom={1}>
-            <text fg={colors.textMuted} width={20}>Size:</text>
-            <text>{formatBytes(selectedDatabase.file_size)}</text>
-          </box>
+        <box flexDirection="row" gap={3} paddingLeft={1} marginBottom={1}>
+          <text>
+            <span fg={colors.textMuted}>UUID </span>
+            <span fg={colors.text}>{selectedDatabase.uuid}</span>
+          </text>
+          <text>
+            <span fg={colors.textMuted}>Version </span>
+            <span fg={colors.text}>{selectedDatabase.version}</span>
+          </text>
+          <text>
+            <span fg={colors.textMuted}>Tables </span>
+            <span fg={colors.text}>{selectedDatabase.num_tables ?? 0}</span>
+          </text>
+          <text>
+            <span fg={colors.textMuted}>Size </span>
+            <span fg={colors.text}>{formatBytes(selectedDatabase.file_size)}</span>
+          </text>
+          <text>
+            <span fg={colors.textMuted}>Created </span>
+            <span fg={colors.text}>{new Date(selectedDatabase.created_at).toLocaleString()}</span>
+          </text>
         </box>
+
+        <DatabaseDetail
+          database={selectedDatabase}
+          onBack={() => {
+            setView("list");
+            setSelectedDatabase(null);
+          }}
+        />
       </box>
     );
   }
@@ -220,9 +298,85 @@ export function D1() {
       
       <box marginTop={1}>
         <text fg={colors.textMuted}>
-          ↑/↓: Navigate • Enter: Details • r: Refresh
+          ↑/↓: Navigate • Enter: Open console and schema • x: Export • i: Import • r: Refresh
         </text>
       </box>
+
+      {transfer && (
+        <box position="absolute" top={0} left={0} right={0} bottom={0} justifyContent="center" alignItems="center" backgroundColor="rgba(0,0,0,0.7)">
+          <box flexDirection="column" borderStyle="double" borderColor={colors.primary} backgroundColor={colors.surface} padding={2} minWidth={70}>
+            <text fg={colors.primary}>
+              <strong>
+                {transfer.mode === "export" ? `Export "${transfer.database.name}"` : `Import into "${transfer.database.name}"`}
+              </strong>
+            </text>
+            <box marginTop={1} flexDirection="row">
+              <box width={8}>
+                <text fg={colors.text}>File:</text>
+              </box>
+              {transfer.running || transfer.result ? (
+                <text fg={colors.textMuted}>{transfer.path}</text>
+              ) : (
+                <input
+                  value={transfer.path}
+                  onInput={(path) => setTransfer((prev) => (prev ? { ...prev, path } : prev))}
+                  placeholder="./database.sql"
+                  focused
+                  width={56}
+                  backgroundColor={colors.backgroundAlt}
+                  textColor={colors.text}
+                />
+              )}
+            </box>
+            <box marginTop={1}>
+              <text fg={colors.textMuted}>
+                {transfer.mode === "export"
+                  ? "Writes a SQL dump of the schema and data. The database is unavailable to queries while exporting."
+                  : "Runs every statement in the file against the database. Existing tables are not dropped first."}
+              </text>
+            </box>
+            {transfer.progress && (
+              <box marginTop={1} flexDirection="column">
+                <box flexDirection="row" gap={2}>
+                  <text fg={colors.text}>{transfer.progress.stage}</text>
+                  {transfer.progress.total > 0 ? (
+                    <text fg={colors.primary}>
+                      {progressBar(transfer.progress.done, transfer.progress.total, { width: 30 })}
+                    </text>
+                  ) : (
+                    transfer.running && <text fg={colors.textMuted}>⟳</text>
+                  )}
+                  {transfer.progress.total > 0 && (
+                    <text fg={colors.textMuted}>
+                      {formatByteCount(transfer.progress.done)}/{formatByteCount(transfer.progress.total)}
+                    </text>
+                  )}
+                </box>
+                {transfer.progress.message && <text fg={colors.textMuted}>{transfer.progress.message}</text>}
+              </box>
+            )}
+            {transfer.result && (
+              <box marginTop={1}>
+                <text fg={colors.success}>✓ {transfer.result}</text>
+              </box>
+            )}
+            {transfer.error && (
+              <box marginTop={1}>
+                <text fg={colors.error}>{transfer.error}</text>
+              </box>
+            )}
+            <box marginTop={2}>
+              <text fg={colors.textMuted}>
+                {transfer.running
+                  ? transfer.mode === "export" ? "⟳ Exporting..." : "⟳ Importing..."
+                  : transfer.result
+                  ? "Enter/Esc to close"
+                  : `Enter to ${transfer.mode} • Esc to cancel`}
+              </text>
+            </box>
+          </box>
+        </box>
+      )}
     </box>
   );
 }
@@ -1,21 +1,18 @@
-import { useState, useEffect, useCallback } from "react";
-import { useKeyboard } from "@opentui/react";
+import { useState, useEffect, useCallback, useMemo } from "react";
+import { useScreenKeyboard } from "../lib/overlay-context.tsx";
 import { useTheme } from "../lib/theme-context.tsx";
 import {
-  listZones,
-  listDNSRecords,
+  iterateDNSRecords,
   createDNSRecord,
   updateDNSRecord,
   deleteDNSRecord,
-  type Zone,
   type DNSRecord,
   type CreateDNSRecordParams,
 } from "../lib/cloudflare.ts";
 import { isAuthenticated } from "../lib/auth.ts";
-
-type DNSView =
-  | { type: "zones" }
-  | { type: "records"; zone: Zone };
+import { usePaginatedList } from "../lib/use-paginated-list.ts";
+import { useZone } from "../lib/zone-context.tsx";
+import { NoZoneSelected } from "../components/zones/NoZoneSelected.tsx";
 
 type ModalState =
   | { type: "none" }
@@ -29,10 +26,7 @@ export function DNS() {
   const { theme } = useTheme();
   const { colors } = theme;
 
-  const [view, setView] = useState<DNSView>({ type: "zones" });
-  const [zones, setZones] = useState<Zone[]>([]);
-  const [records, setRecords] = useState<DNSRecord[]>([]);
-  const [loading, setLoading] = useState(true);
+  const { activeZone: zone } = useZone();
   const [error, setError] = useState<string | null>(null);
   const [selectedIndex, setSelectedIndex] = useState(0);
   const [modal, setModal] = useState<ModalState>({ type: "none" });
@@ -45,48 +39,28 @@ export function DNS() {
   const [formPriority, setFormPriority] = useState("10");
   const [formField, setFormField] = useState(0);
 
-  const loadZones = useCallback(async () => {
-    if (!isAuthenticated()) {
-      setError("Not authenticated. Set CLOUDFLARE_API_TOKEN environment variable.");
-      setLoading(false);
-      return;
-    }
-    setLoading(true);
-    setError(null);
-    try {
-      const data = await listZones();
-      setZones(data);
-      if (selectedIndex >= data.length) {
-        setSelectedIndex(Math.max(0, data.length - 1));
-      }
-    } catch (err) {
-      setError(err instanceof Error ? err.message : "Failed to load zones");
-    } finally {
-      setLoading(false);
-    }
-  }, [selectedIndex]);
+  const authenticated = isAuthenticated();
 
-  const loadRecords = useCallback(async (zone: Zone) => {
-    setLoading(true);
-    setError(null);
-    try {
-      const data = await listDNSRecords(zone.id);
-      setRecords(data);
-      setSelectedIndex(0);
-    } catch (err) {
-      setError(err instanceof Error ? err.message : "Failed to load records");
-    } finally {
-      setLoading(false);
-    }
-  }, []);
+  const recordSource = useMemo(
+    () => (authenticated && zone ? () => iterateDNSRecords(zone.id) : null),
+    [authenticated, zone?.id]
+  );
+  const recordList = usePaginatedList(recordSource, "Failed to load records");
+  const records = recordList.items;
+  const loading = authenticated && (recordList.loading || (recordList.hasMore && records.length === 0));
+  const displayError = !authenticated
+    ? "Not authenticated. Set CLOUDFLARE_API_TOKEN environment variable."
+    : error ?? recordList.error;
 
   useEffect(() => {
-    if (view.type === "zones") {
-      loadZones();
-    } else if (view.type === "records") {
-      loadRecords(view.zone);
-    }
-  }, [view, loadZones, loadRecords]);
+    setSelectedIndex(0);
+    setModal({ type: "none" });
+  }, [zone?.id]);
+
+  const reloadRecords = useCallback(() => {
+    recordList.reload();
+    setSelectedIndex(0);
+  }, [recordList.reload]);
 
   const resetForm = useCallback(() => {
     setFormType("A");
@@ -114,13 +88,11 @@ export function DNS() {
       await createDNSRecord(modal.zoneId, params);
       setModal({ type: "none" });
       resetForm();
-      if (view.type === "records") {
-        loadRecords(view.zone);
-      }
+      reloadRecords();
     } catch (err) {
       setError(err instanceof Error ? err.message : "Failed to create record");
     }
-  }, [modal, formType, formName, formContent, formTTL, formProxied, formPriority, view, loadRecords, resetForm]);
+  }, [modal, formType, formName, formContent, formTTL, formProxied, formPriority, reloadRecords, resetForm]);
 
   const handleUpdate = useCallback(async () => {
     if (modal.type !== "edit") return;
@@ -135,26 +107,22 @@ export function DNS() {
       });
       setModal({ type: "none" });
       resetForm();
-      if (view.type === "records") {
-        loadRecords(view.zone);
-      }
+      reloadRecords();
     } catch (err) {
       setError(err instanceof Error ? err.message : "Failed to update record");
     }
-  }, [modal, formType, formName, formContent, formTTL, formProxied, formPriority, view, loadRecords, resetForm]);
+  }, [modal, formType, formName, formContent, formTTL, formProxied, formPriority, reloadRecords, resetForm]);
 
   const handleDelete = useCallback(async () => {
     if (modal.type !== "delete") return;
     try {
       await deleteDNSRecord(modal.zoneId, modal.record.id);
       setModal({ type: "none" });
-      if (view.type === "records") {
-        loadRecords(view.zone);
-      }
+      reloadRecords();
     } catch (err) {
       setError(err instanceof Error ? err.message : "Failed to delete record");
     }
-  }, [modal, view, loadRecords]);
+  }, [modal, reloadRecords]);
 
   const openEditModal = useCallback((record: DNSRecord, zoneId: string) => {
     setFormType(record.type);
@@ -167,7 +135,7 @@ export function DNS() {
     setModal({ type: "edit", record, zoneId });
   }, []);
 
-  useKeyboard((key) => {
+  useScreenKeyboard((key) => {
     if (modal.type !== "none") {
       if (key.name === "escape") {
         setModal({ type: "none" });
@@ -217,63 +185,53 @@ export function DNS() {
       return;
     }
 
-    const maxIndex = view.type === "zones" ? zones.length - 1 : records.length - 1;
+    if (!zone) return;
+    const maxIndex = records.length - 1;
 
     switch (key.name) {
       case "j":
       case "down":
         setSelectedIndex((i) => Math.min(i + 1, maxIndex));
+        recordList.ensureLoaded(selectedIndex + 1);
         break;
       case "k":
       case "up":
         setSelectedIndex((i) => Math.max(i - 1, 0));
         break;
-      case "return":
-        if (view.type === "zones" && zones[selectedIndex]) {
-          setView({ type: "records", zone: zones[selectedIndex] });
-          setSelectedIndex(0);
-        }
-        break;
-      case "escape":
-      case "backspace":
-        if (view.type === "records") {
-          setView({ type: "zones" });
-          setSelectedIndex(0);
-        }
-        break;
       case "c":
-        if (view.type === "records") {
-          resetForm();
-          setModal({ type: "create", zoneId: view.zone.id });
-        }
+        resetForm();
+        setModal({ type: "create", zoneId: zone.id });
         break;
       case "e":
-        if (view.type === "records" && records[selectedIndex]) {
-          openEditModal(records[selectedIndex], view.zone.id);
+        if (records[selectedIndex]) {
+          openEditModal(records[selectedIndex], zone.id);
         }
         break;
       case "d":
       case "x":
-        if (view.type === "records" && records[selectedIndex]) {
-          setModal({ type: "delete", record: records[selectedIndex], zoneId: view.zone.id });
+        if (records[selectedIndex]) {
+          setModal({ type: "delete", record: records[selectedIndex], zoneId: zone.id });
         }
         break;
       case "p":
-        if (view.type === "records" && records[selectedIndex] && records[selectedIndex].proxiable) {
+        if (records[selectedIndex] && records[selectedIndex].proxiable) {
           const record = records[selectedIndex];
-          updateDNSRecord(view.zone.id, record.id, { proxied: !record.proxied })
-            .then(() => loadRecords(view.zone))
+          updateDNSRecord(zone.id, record.id, { proxied: !record.proxied })
+            .then(() => reloadRecords())
             .catch((err) => setError(err instanceof Error ? err.message : "Failed to toggle proxy"));
         }
         break;
       case "r":
-        if (view.type === "zones") loadZones();
-        else if (view.type === "records") loadRecords(view.zone);
+        reloadRecords();
         break;
     }
   });
 
-  if (loading && ((view.type === "zones" && zones.length === 0) || (view.type === "records" && records.length === 0))) {
+  if (!zone) {
+    return <NoZoneSelected />;
+  }
+
+  if (loading && records.length === 0) {
     return (
       <box flexDirection="column" flexGrow={1} padding={2}>
         <box flexDirection="row" gap={1}>
@@ -310,131 +268,78 @@ export function DNS() {
           <text fg={colors.primary}>
             <strong>◉ DNS Management</strong>
           </text>
-          {view.type === "zones" ? (
-            <text fg={colors.textMuted}>{zones.length} zones</text>
-          ) : (
-            <text fg={colors.textMuted}>
-              {view.zone.name} • {records.length} records
-            </text>
-          )}
+          <text fg={colors.textMuted}>
+            {zone.name} • {records.length}{recordList.hasMore ? "+" : ""} records
+          </text>
         </box>
         {loading && <text fg={colors.warning}>⟳</text>}
       </box>
 
-      {error && (
+      {displayError && (
         <box padding={1} backgroundColor={colors.error}>
-          <text fg={colors.textInverse}>❌ {error}</text>
+          <text fg={colors.textInverse}>❌ {displayError}</text>
         </box>
       )}
 
       <box flexDirection="column" flexGrow={1} padding={1}>
-        {view.type === "zones" && (
-          <>
-            <box flexDirection="row" padding={1} borderStyle="single" borderColor={colors.border} backgroundColor={colors.surfaceAlt}>
-              <box width={35}><text fg={colors.textMuted}><strong>DOMAIN</strong></text></box>
-              <box width={12}><text fg={colors.textMuted}><strong>STATUS</strong></text></box>
-              <box width={15}><text fg={colors.textMuted}><strong>PLAN</strong></text></box>
-              <box flexGrow={1}><text fg={colors.textMuted}><strong>NAMESERVERS</strong></text></box>
+        <box flexDirection="row" padding={1} borderStyle="single" borderColor={colors.border} backgroundColor={colors.surfaceAlt}>
+          <box width={8}><text fg={colors.textMuted}><strong>TYPE</strong></text></box>
+          <box width={30}><text fg={colors.textMuted}><strong>NAME</strong></text></box>
+          <box width={35}><text fg={colors.textMuted}><strong>CONTENT</strong></text></box>
+          <box width={8}><text fg={colors.textMuted}><strong>TTL</strong></text></box>
+          <box width={8}><text fg={colors.textMuted}><strong>PROXY</strong></text></box>
+        </box>
+        <scrollbox flexGrow={1} focused>
+          {records.length === 0 ? (
+            <box padding={2} flexDirection="column" alignItems="center">
+              <text fg={colors.textMuted}>No records • Press [c] to create</text>
             </box>
-            <scrollbox flexGrow={1} focused>
-              {zones.length === 0 ? (
-                <box padding={2} flexDirection="column" alignItems="center">
-                  <text fg={colors.textMuted}>No zones found</text>
+          ) : (
+            records.map((record, index) => {
+              const isSelected = index === selectedIndex;
+              const shortName = record.name.replace(`.${zone.name}`, "").replace(zone.name, "@");
+              const shortContent = record.content.length > 32 ? record.content.slice(0, 32) + "…" : record.content;
+              return (
+                <box key={record.id} flexDirection="row" padding={1} backgroundColor={isSelected ? colors.surfaceAlt : "transparent"}>
+                  <box width={8}>
+                    <text fg={getTypeColor(record.type)}>
+                      {isSelected ? "▸" : " "}{record.type.padEnd(5)}
+                    </text>
+                  </box>
+                  <box width={30}>
+                    <text fg={isSelected ? colors.primary : colors.text}>{shortName}</text>
+                  </box>
+                  <box width={35}>
+                    <text fg={colors.textMuted}>{shortContent}</text>
+                  </box>
+                  <box width={8}>
+                    <text fg={colors.textMuted}>{record.ttl === 1 ? "Auto" : record.ttl}</text>
+                  </box>
+                  <box width={8}>
+                    <text fg={record.proxied ? colors.warning : colors.textMuted}>
+                      {record.proxied ? "☁️" : "⚫"}
+                    </text>
+                  </box>
                 </box>
-              ) : (
-                zones.map((zone, index) => {
-                  const isSelected = index === selectedIndex;
-                  const statusColor = zone.status === "active" ? colors.success : colors.warning;
-                  return (
-                    <box key={zone.id} flexDirection="row" padding={1} backgroundColor={isSelected ? colors.surfaceAlt : "transparent"}>
-                      <box width={35}>
-                        <text fg={isSelected ? colors.primary : colors.text}>
-                          {isSelected ? "▸ " : "  "}🌐 {zone.name}
-                        </text>
-                      </box>
-                      <box width={12}>
-                        <text fg={statusColor}>{zone.status}</text>
-                      </box>
-                      <box width={15}>
-                        <text fg={colors.info}>{zone.plan.name}</text>
-                      </box>
-                      <box flexGrow={1}>
-                        <text fg={colors.textMuted}>{zone.name_servers.slice(0, 2).join(", ")}</text>
-                      </box>
-                    </box>
-                  );
-                })
-              )}
-            </scrollbox>
-          </>
-        )}
-
-        {view.type === "records" && (
-          <>
-            <box flexDirection="row" padding={1} borderStyle="single" borderColor={colors.border} backgroundColor={colors.surfaceAlt}>
-              <box width={8}><text fg={colors.textMuted}><strong>TYPE</strong></text></box>
-              <box width={30}><text fg={colors.textMuted}><strong>NAME</strong></text></box>
-              <box width={35}><text fg={colors.textMuted}><strong>CONTENT</strong></text></box>
-              <box width={8}><text fg={colors.textMuted}><strong>TTL</strong></text></box>
-              <box width={8}><text fg={colors.textMuted}><strong>PROXY</strong></text></box>
+              );
+            })
+          )}
+          {recordList.hasMore && records.length > 0 && (
+            <box padding={1}>
+              <text fg={colors.textMuted}>{recordList.loading ? "⟳ Loading more…" : "↓ More records below"}</text>
             </box>
-            <scrollbox flexGrow={1} focused>
-              {records.length === 0 ? (
-                <box padding={2} flexDirection="column" alignItems="center">
-                  <text fg={colors.textMuted}>No records • Press [c] to create</text>
-                </box>
-              ) : (
-                records.map((record, index) => {
-                  const isSelected = index === selectedIndex;
-                  const shortName = record.name.replace(`.${view.zone.name}`, "").replace(view.zone.name, "@");
-                  const shortContent = record.content.length > 32 ? record.content.slice(0, 32) + "…" : record.content;
-                  return (
-                    <box key={record.id} flexDirection="row" padding={1} backgroundColor={isSelected ? colors.surfaceAlt : "transparent"}>
-                      <box width={8}>
-                        <text fg={getTypeColor(record.type)}>
-                          {isSelected ? "▸" : " "}{record.type.padEnd(5)}
-                        </text>
-                      </box>
-                      <box width={30}>
-                        <text fg={isSelected ? colors.primary : colors.text}>{shortName}</text>
-                      </box>
-                      <box width={35}>
-                        <text fg={colors.textMuted}>{shortContent}</text>
-                      </box>
-                      <box width={8}>
-                        <text fg={colors.textMuted}>{record.ttl === 1 ? "Auto" : record.ttl}</text>
-                      </box>
-                      <box width={8}>
-                        <text fg={record.proxied ? colors.warning : colors.textMuted}>
-                          {record.proxied ? "☁️" : "⚫"}
-                        </text>
-                      </box>
-                    </box>
-                  );
-                })
-              )}
-            </scrollbox>
-          </>
-        )}
+          )}
+        </scrollbox>
       </box>
 
       <box flexDirection="row" gap={2} padding={1} borderStyle="single" borderColor={colors.border} backgroundColor={colors.backgroundAlt}>
         <text fg={colors.primary}>[j/k]</text><text fg={colors.textMuted}>Navigate</text>
-        {view.type === "zones" && (
-          <>
-            <text fg={colors.primary}>[Enter]</text><text fg={colors.textMuted}>View Records</text>
-          </>
-        )}
-        {view.type === "records" && (
-          <>
-            <text fg={colors.primary}>[c]</text><text fg={colors.textMuted}>Create</text>
-            <text fg={colors.primary}>[e]</text><text fg={colors.textMuted}>Edit</text>
-            <text fg={colors.primary}>[d]</text><text fg={colors.textMuted}>Delete</text>
-            <text fg={colors.primary}>[p]</text><text fg={colors.textMuted}>Toggle Proxy</text>
-            <text fg={colors.primary}>[Esc]</text><text fg={colors.textMuted}>Back</text>
-          </>
-        )}
+        <text fg={colors.primary}>[c]</text><text fg={colors.textMuted}>Create</text>
+        <text fg={colors.primary}>[e]</text><text fg={colors.textMuted}>Edit</text>
+        <text fg={colors.primary}>[d]</text><text fg={colors.textMuted}>Delete</text>
+        <text fg={colors.primary}>[p]</text><text fg={colors.textMuted}>Toggle Proxy</text>
         <text fg={colors.primary}>[r]</text><text fg={colors.textMuted}>Refresh</text>
+        <text fg={colors.primary}>[Ctrl+Z]</text><text fg={colors.textMuted}>Zone</text>
       </box>
 
       {modal.type === "delete" && (
@@ -1,5 +1,5 @@
 import { useState, useEffect, useCallback } from "react";
-import { useKeyboard } from "@opentui/react";
+import { useScreenKeyboard } from "../lib/overlay-context.tsx";
 import { useTheme } from "../lib/theme-context.tsx";
 import {
   listDomains,
@@ -82,7 +82,7 @@ export function Domains() {
     }
   };
 
-  useKeyboard((key) => {
+  useScreenKeyboard((key) => {
     if (inputMode) {
       if (key.name === "escape") {
         setInputMode(false);
@@ -0,0 +1,768 @@
+import { useState, useEffect, useCallback } from "react";
+import { useScreenKeyboard } from "../lib/overlay-context.tsx";
+import { useTheme } from "../lib/theme-context.tsx";
+import {
+  listDNSRecords,
+  getEmailRoutingSettings,
+  enableEmailRouting,
+  disableEmailRouting,
+  listEmailRoutingRules,
+  createEmailRoutingRule,
+  updateEmailRoutingRule,
+  deleteEmailRoutingRule,
+  getEmailRoutingCatchAll,
+  updateEmailRoutingCatchAll,
+  listEmailRoutingAddresses,
+  createEmailRoutingAddress,
+  deleteEmailRoutingAddress,
+  type DNSRecord,
+  type EmailRoutingSettings,
+  type EmailRoutingRule,
+  type EmailRoutingCatchAll,
+  type EmailRoutingAddress,
+} from "../lib/cloudflare.ts";
+import { isAuthenticated } from "../lib/auth.ts";
+import { useZone } from "../lib/zone-context.tsx";
+import { NoZoneSelected } from "../components/zones/NoZoneSelected.tsx";
+
+type Tab = "rules" | "addresses";
+type MatcherType = "literal" | "all";
+type ActionType = "forward" | "drop" | "worker";
+
+type RuleRow =
+  | { kind: "rule"; rule: EmailRoutingRule }
+  | { kind: "catchall"; rule: EmailRoutingCatchAll };
+
+type ModalState =
+  | { type: "none" }
+  | { type: "rule"; row: RuleRow | null }
+  | { type: "address" }
+  | { type: "deleteRule"; rule: EmailRoutingRule }
+  | { type: "deleteAddress"; address: EmailRoutingAddress };
+
+interface RuleFormData {
+  matcher: MatcherType;
+  address: string;
+  action: ActionType;
+  value: string;
+  name: string;
+  enabled: boolean;
+}
+
+interface DNSStatus {
+  mx: boolean;
+  spf: boolean;
+}
+
+const ACTION_TYPES: ActionType[] = ["forward", "drop", "worker"];
+const RULE_FIELD_COUNT = 6;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+function checkEmailDNS(records: DNSRecord[], zoneName: string): DNSStatus {
+  const apex = records.filter((r) => r.name === zoneName);
+  return {
+    mx: apex.some((r) => r.type === "MX" && r.content.toLowerCase().endsWith("mx.cloudflare.net")),
+    spf: apex.some(
+      (r) => r.type === "TXT" && r.content.includes("v=spf1") && r.content.includes("include:_spf.mx.cloudflare.net"),
+    ),
+  };
+}
+
+function describeMatchers(row: RuleRow): string {
+  if (row.kind === "catchall") return "* (catch-all)";
+  return row.rule.matchers
+    .map((m) => (m.type === "all" ? "* (all)" : `${m.field} = ${m.value}`))
+    .join(" & ");
+}
+
+function describeActions(actions: EmailRoutingRule["actions"]): string {
+  return actions
+    .map((a) => (a.type === "drop" ? "drop" : `${a.type} → ${(a.value ?? []).join(", ")}`))
+    .join("; ");
+}
+
+function formFromRow(row: RuleRow | null): RuleFormData {
+  if (!row) {
+    return { matcher: "literal", address: "", action: "forward", value: "", name: "", enabled: true };
+  }
+  const action = row.rule.actions[0];
+  const matcher = row.kind === "catchall" ? undefined : row.rule.matchers.find((m) => m.type === "literal");
+  return {
+    matcher: row.kind === "catchall" ? "all" : "literal",
+    address: matcher?.value ?? "",
+    action: action && ACTION_TYPES.includes(action.type as ActionType) ? (action.type as ActionType) : "forward",
+    value: (action?.value ?? []).join(", "),
+    name: row.rule.name,
+    enabled: row.rule.enabled,
+  };
+}
+
+export function Email() {
+  const { theme } = useTheme();
+  const { colors } = theme;
+
+  const [tab, setTab] = useState<Tab>("rules");
+  const { activeZone: selectedZone, openSwitcher } = useZone();
+  const [settings, setSettings] = useState<EmailRoutingSettings | null>(null);
+  const [dnsStatus, setDnsStatus] = useState<DNSStatus | null>(null);
+  const [rules, setRules] = useState<EmailRoutingRule[]>([]);
+  const [catchAll, setCatchAll] = useState<EmailRoutingCatchAll | null>(null);
+  const [addresses, setAddresses] = useState<EmailRoutingAddress[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [actionMessage, setActionMessage] = useState<string | null>(null);
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const [modal, setModal] = useState<ModalState>({ type: "none" });
+  const [form, setForm] = useState<RuleFormData>(formFromRow(null));
+  const [formField, setFormField] = useState(0);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [newAddress, setNewAddress] = useState("");
+
+  const rows: RuleRow[] = [
+    ...rules.map((rule): RuleRow => ({ kind: "rule", rule })),
+    ...(catchAll ? [{ kind: "catchall", rule: catchAll } as RuleRow] : []),
+  ];
+
+  const showMessage = (message: string) => {
+    setActionMessage(message);
+    setTimeout(() => setActionMessage(null), 3000);
+  };
+
+  const loadAddresses = useCallback(async () => {
+    try {
+      const data = await listEmailRoutingAddresses();
+      setAddresses(data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load destination addresses");
+    }
+  }, []);
+
+  const loadZoneEmail = useCallback(async () => {
+    if (!selectedZone) return;
+    if (!isAuthenticated()) {
+      setError("Not authenticated. Set CLOUDFLARE_API_TOKEN environment variable.");
+      setLoading(false);
+      return;
+    }
+    setLoading(true);
+    setError(null);
+    try {
+      const [settingsData, rulesData, records] = await Promise.all([
+        getEmailRoutingSettings(selectedZone.id),
+        listEmailRoutingRules(selectedZone.id),
+        listDNSRecords(selectedZone.id),
+      ]);
+      setSettings(settingsData);
+      setRules(
+        rulesData
+          .filter((rule) => !rule.matchers.some((m) => m.type === "all"))
+          .sort((a, b) => a.priority - b.priority),
+      );
+      setDnsStatus(checkEmailDNS(records, selectedZone.name));
+      try {
+        setCatchAll(await getEmailRoutingCatchAll(selectedZone.id));
+      } catch {
+        setCatchAll(null);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load email routing");
+    } finally {
+      setLoading(false);
+    }
+  }, [selectedZone]);
+
+  useEffect(() => {
+    loadAddresses();
+  }, [loadAddresses]);
+
+  useEffect(() => {
+    setSelectedIndex(0);
+  }, [selectedZone?.id]);
+
+  useEffect(() => {
+    if (selectedZone) {
+      loadZoneEmail();
+    }
+  }, [selectedZone, loadZoneEmail]);
+
+  const toggleRouting = async () => {
+    if (!selectedZone || !settings) return;
+    try {
+      const updated = settings.enabled
+        ? await disableEmailRouting(selectedZone.id)
+        : await enableEmailRouting(selectedZone.id);
+      setSettings(updated);
+      showMessage(`Email routing ${updated.enabled ? "enabled" : "disabled"} for ${selectedZone.name}`);
+      loadZoneEmail();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to update email routing");
+    }
+  };
+
+  const openRuleForm = (row: RuleRow | null) => {
+    setForm(formFromRow(row));
+    setFormField(0);
+    setFormError(null);
+    setModal({ type: "rule", row });
+  };
+
+  const handleSaveRule = async () => {
+    if (modal.type !== "rule" || !selectedZone) return;
+
+    if (form.matcher === "all" && modal.row?.kind === "rule") {
+      setFormError("An existing rule can't become the catch-all; edit the catch-all row instead");
+      return;
+    }
+
+    const verified = addresses.filter((a) => a.verified).map((a) => a.email.toLowerCase());
+    let address = form.address.trim();
+    if (form.matcher === "literal") {
+      if (!address) {
+        setFormError("Custom address is required");
+        return;
+      }
+      if (!address.includes("@")) {
+        address = `${address}@${selectedZone.name}`;
+      }
+      if (!EMAIL_PATTERN.test(address) || !address.toLowerCase().endsWith(`@${selectedZone.name}`)) {
+        setFormError(`Custom address must be on ${selectedZone.name}`);
+        return;
+      }
+    }
+
+    const values = form.value.split(",").map((v) => v.trim()).filter(Boolean);
+    if (form.action === "forward") {
+      if (values.length === 0) {
+        setFormError("At least one destination address is required");
+        return;
+      }
+      const unverified = values.filter((v) => !verified.includes(v.toLowerCase()));
+      if (unverified.length > 0) {
+        setFormError(`Not a verified destination: ${unverified.join(", ")}`);
+        return;
+      }
+    } else if (form.action === "worker" && values.length !== 1) {
+      setFormError("Enter the name of one Worker script");
+      return;
+    }
+
+    const actions = [{ type: form.action, value: form.action === "drop" ? [] : values }];
+    const name = form.name.trim() || (form.matcher === "all" ? "Catch-all" : `Route ${address}`);
+
+    try {
+      setFormError(null);
+      if (form.matcher === "all") {
+        const updated = await updateEmailRoutingCatchAll(selectedZone.id, {
+          name,
+          enabled: form.enabled,
+          matchers: [{ type: "all" }],
+          actions,
+        });
+        setCatchAll(updated);
+      } else {
+        const params = {
+          name,
+          enabled: form.enabled,
+          priority: modal.row?.kind === "rule" ? modal.row.rule.priority : rules.length,
+          matchers: [{ type: "literal", field: "to", value: address }],
+          actions,
+        };
+        if (modal.row?.kind === "rule") {
+          await updateEmailRoutingRule(selectedZone.id, modal.row.rule.id, params);
+        } else {
+          await createEmailRoutingRule(selectedZone.id, params);
+        }
+      }
+      setModal({ type: "none" });
+      showMessage(`Rule ${modal.row ? "updated" : "created"}`);
+      loadZoneEmail();
+    } catch (err) {
+      setFormError(err instanceof Error ? err.message : "Failed to save rule");
+    }
+  };
+
+  const toggleRule = async (row: RuleRow) => {
+    if (!selectedZone) return;
+    try {
+      if (row.kind === "catchall") {
+        const { tag: _tag, ...params } = row.rule;
+        setCatchAll(await updateEmailRoutingCatchAll(selectedZone.id, { ...params, enabled: !row.rule.enabled }));
+      } else {
+        await updateEmailRoutingRule(selectedZone.id, row.rule.id, { ...row.rule, enabled: !row.rule.enabled });
+        loadZoneEmail();
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to toggle rule");
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!selectedZone) return;
+    try {
+      if (modal.type === "deleteRule") {
+        await deleteEmailRoutingRule(selectedZone.id, modal.rule.id);
+        showMessage(`Rule ${modal.rule.name} deleted`);
+        loadZoneEmail();
+      } else if (modal.type === "deleteAddress") {
+        await deleteEmailRoutingAddress(modal.address.id);
+        showMessage(`Destination ${modal.address.email} removed`);
+        loadAddresses();
+      }
+      setSelectedIndex(0);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to delete");
+    } finally {
+      setModal({ type: "none" });
+    }
+  };
+
+  const handleAddAddress = async () => {
+    const email = newAddress.trim();
+    if (!EMAIL_PATTERN.test(email)) {
+      setFormError("Enter a valid email address");
+      return;
+    }
+    try {
+      await createEmailRoutingAddress(email);
+      setModal({ type: "none" });
+      setNewAddress("");
+      showMessage(`Verification email sent to ${email}`);
+      loadAddresses();
+    } catch (err) {
+      setFormError(err instanceof Error ? err.message : "Failed to add address");
+    }
+  };
+
+  useScreenKeyboard((key) => {
+    if (modal.type === "deleteRule" || modal.type === "deleteAddress") {
+      if (key.name === "y") {
+        handleDelete();
+      } else if (key.name === "n" || key.name === "escape") {
+        setModal({ type: "none" });
+      }
+      return;
+    }
+
+    if (modal.type === "address") {
+      if (key.name === "escape") {
+        setModal({ type: "none" });
+      } else if (key.name === "return") {
+        handleAddAddress();
+      }
+      return;
+    }
+
+    if (modal.type === "rule") {
+      if (key.name === "escape") {
+        setModal({ type: "none" });
+        return;
+      }
+      if (key.ctrl && key.name === "s") {
+        handleSaveRule();
+        return;
+      }
+      if (key.name === "tab" || key.name === "down") {
+        setFormField((f) => (f + 1) % RULE_FIELD_COUNT);
+        return;
+      }
+      if (key.name === "up") {
+        setFormField((f) => (f - 1 + RULE_FIELD_COUNT) % RULE_FIELD_COUNT);
+        return;
+      }
+      const direction = key.name === "left" ? -1 : key.name === "right" ? 1 : 0;
+      if (formField === 0 && direction !== 0 && modal.row === null) {
+        setForm((prev) => ({ ...prev, matcher: prev.matcher === "literal" ? "all" : "literal" }));
+      } else if (formField === 2 && direction !== 0) {
+        setForm((prev) => ({
+          ...prev,
+          action: ACTION_TYPES[(ACTION_TYPES.indexOf(prev.action) + direction + ACTION_TYPES.length) % ACTION_TYPES.length]!,
+        }));
+      } else if (formField === 5 && (key.name === "space" || direction !== 0)) {
+        setForm((prev) => ({ ...prev, enabled: !prev.enabled }));
+      }
+      return;
+    }
+
+    const listLength = tab === "rules" ? rows.length : addresses.length;
+
+    if (key.name === "tab" || key.name === "left" || key.name === "right") {
+      setTab((t) => (t === "rules" ? "addresses" : "rules"));
+      setSelectedIndex(0);
+      return;
+    }
+
+    switch (key.name) {
+      case "j":
+      case "down":
+        setSelectedIndex((i) => Math.min(i + 1, listLength - 1));
+        break;
+      case "k":
+      case "up":
+        setSelectedIndex((i) => Math.max(i - 1, 0));
+        break;
+      case "n":
+      case "c":
+        if (tab === "rules") {
+          openRuleForm(null);
+        } else {
+          setNewAddress("");
+          setFormError(null);
+          setModal({ type: "address" });
+        }
+        break;
+      case "e":
+      case "return":
+        if (tab === "rules" && rows[selectedIndex]) openRuleForm(rows[selectedIndex]);
+        break;
+      case "space":
+        if (tab === "rules" && rows[selectedIndex]) toggleRule(rows[selectedIndex]);
+        break;
+      case "d":
+      case "x": {
+        const row = rows[selectedIndex];
+        if (tab === "rules" && row?.kind === "rule") {
+          setModal({ type: "deleteRule", rule: row.rule });
+        } else if (tab === "addresses" && addresses[selectedIndex]) {
+          setModal({ type: "deleteAddress", address: addresses[selectedIndex] });
+        }
+        break;
+      }
+      case "t":
+        toggleRouting();
+        break;
+      case "z":
+        openSwitcher();
+        break;
+      case "r":
+        loadZoneEmail();
+        loadAddresses();
+        break;
+    }
+  });
+
+  const renderCheck = (label: string, ok: boolean | undefined) => (
+    <text>
+      <span fg={colors.textMuted}>{label} </span>
+      <span fg={ok === undefined ? colors.textMuted : ok ? colors.success : colors.error}>
+        {ok === undefined ? "…" : ok ? "✓ present" : "✕ missing"}
+      </span>
+    </text>
+  );
+
+  const renderStatus = () => (
+    <box flexDirection="row" gap={4} borderStyle="single" borderColor={colors.border} paddingLeft={1} paddingRight={1} marginBottom={1}>
+      <text>
+        <span fg={colors.textMuted}>Zone: </span>
+        <span fg={colors.primary}>{selectedZone?.name ?? "none"}</span>
+      </text>
+      <text>
+        <span fg={colors.textMuted}>Routing: </span>
+        <span fg={settings?.enabled ? colors.success : colors.warning}>
+          {settings ? (settings.enabled ? "enabled" : "disabled") : "…"}
+        </span>
+        {settings?.status && <span fg={colors.textMuted}> ({settings.status})</span>}
+      </text>
+      {renderCheck("MX:", dnsStatus?.mx)}
+      {renderCheck("SPF:", dnsStatus?.spf)}
+    </box>
+  );
+
+  const renderRules = () =>
+    rows.length === 0 ? (
+      <box borderStyle="single" borderColor={colors.border} padding={1}>
+        <text>
+          <span fg={colors.textMuted}>No routing rules • Press [n] to create one</span>
+        </text>
+      </box>
+    ) : (
+      <box flexDirection="column" flexGrow={1}>
+        <box flexDirection="row" padding={1} borderStyle="single" borderColor={colors.border} backgroundColor={colors.surfaceAlt}>
+          <box width={10}><text fg={colors.textMuted}><strong>STATUS</strong></text></box>
+          <box width={24}><text fg={colors.textMuted}><strong>NAME</strong></text></box>
+          <box width={36}><text fg={colors.textMuted}><strong>MATCHER</strong></text></box>
+          <box flexGrow={1}><text fg={colors.textMuted}><strong>ACTION</strong></text></box>
+        </box>
+        <scrollbox flexGrow={1}>
+          {rows.map((row, index) => {
+            const isSelected = index === selectedIndex;
+            return (
+              <box key={row.kind === "rule" ? row.rule.id : "catch_all"} flexDirection="row" padding={1} backgroundColor={isSelected ? colors.surfaceAlt : undefined}>
+                <box width={10}>
+                  <text fg={row.rule.enabled ? colors.success : colors.warning}>
+                    {isSelected ? "▸ " : "  "}{row.rule.enabled ? "on" : "off"}
+                  </text>
+                </box>
+                <box width={24}>
+                  <text fg={isSelected ? colors.primary : colors.text}>{row.rule.name || "-"}</text>
+                </box>
+                <box width={36}>
+                  <text fg={row.kind === "catchall" ? colors.info : colors.text}>{describeMatchers(row)}</text>
+                </box>
+                <box flexGrow={1}>
+                  <text fg={colors.textMuted}>{describeActions(row.rule.actions)}</text>
+                </box>
+              </box>
+            );
+          })}
+        </scrollbox>
+      </box>
+    );
+
+  const renderAddresses = () =>
+    addresses.length === 0 ? (
+      <box borderStyle="single" borderColor={colors.border} padding={1}>
+        <text>
+          <span fg={colors.textMuted}>No destination addresses • Press [n] to add one</span>
+        </text>
+      </box>
+    ) : (
+      <box flexDirection="column" flexGrow={1}>
+        <box flexDirection="row" padding={1} borderStyle="single" borderColor={colors.border} backgroundColor={colors.surfaceAlt}>
+          <box width={40}><text fg={colors.textMuted}><strong>ADDRESS</strong></text></box>
+          <box width={24}><text fg={colors.textMuted}><strong>VERIFICATION</strong></text></box>
+          <box flexGrow={1}><text fg={colors.textMuted}><strong>ADDED</strong></text></box>
+        </box>
+        <scrollbox flexGrow={1}>
+          {addresses.map((address, index) => {
+            const isSelected = index === selectedIndex;
+            return (
+              <box key={address.id} flexDirection="row" padding={1} backgroundColor={isSelected ? colors.surfaceAlt : undefined}>
+                <box width={40}>
+                  <text fg={isSelected ? colors.primary : colors.text}>
+                    {isSelected ? "▸ " : "  "}{address.email}
+                  </text>
+                </box>
+                <box width={24}>
+                  <text fg={address.verified ? colors.success : colors.warning}>
+                    {address.verified ? `✓ ${new Date(address.verified).toLocaleDateString()}` : "⧗ pending"}
+                  </text>
+                </box>
+                <box flexGrow={1}>
+                  <text fg={colors.textMuted}>{new Date(address.created).toLocaleDateString()}</text>
+                </box>
+              </box>
+            );
+          })}
+        </scrollbox>
+      </box>
+    );
+
+  const renderRuleForm = () => {
+    const verified = addresses.filter((a) => a.verified).map((a) => a.email);
+    const fieldColor = (field: number) => (formField === field ? colors.primary : colors.text);
+    const inputProps = (field: number) => ({
+      focused: formField === field,
+      backgroundColor: formField === field ? colors.backgroundAlt : colors.surface,
+      textColor: colors.text,
+    });
+    return (
+      <>
+        <text fg={colors.primary}>
+          <strong>{modal.type === "rule" && modal.row ? "Edit Routing Rule" : "Create Routing Rule"}</strong>
+        </text>
+        <box marginTop={1} flexDirection="row">
+          <box width={18}><text fg={fieldColor(0)}>Match:</text></box>
+          <text fg={formField === 0 ? colors.primary : colors.info}>
+            {form.matcher === "literal" ? "Custom address" : "Catch-all"}
+          </text>
+          <text fg={colors.textMuted}>{modal.type === "rule" && modal.row ? "" : " (←/→)"}</text>
+        </box>
+        <box marginTop={1} flexDirection="row">
+          <box width={18}><text fg={fieldColor(1)}>Address:</text></box>
+          {form.matcher === "literal" ? (
+            <>
+              <input
+                value={form.address}
+                onInput={(v) => setForm((prev) => ({ ...prev, address: v }))}
+                placeholder="support"
+                width={30}
+                {...inputProps(1)}
+              />
+              <text fg={colors.textMuted}> @{selectedZone?.name}</text>
+            </>
+          ) : (
+            <text fg={colors.textMuted}>any address on {selectedZone?.name}</text>
+          )}
+        </box>
+        <box marginTop={1} flexDirection="row">
+          <box width={18}><text fg={fieldColor(2)}>Action:</text></box>
+          <text fg={formField === 2 ? colors.primary : colors.info}>
+            {formField === 2 ? `‹ ${form.action} ›` : form.action}
+          </text>
+          <text fg={colors.textMuted}> (←/→)</text>
+        </box>
+        <box marginTop={1} flexDirection="row">
+          <box width={18}>
+            <text fg={fieldColor(3)}>{form.action === "worker" ? "Worker:" : "Destinations:"}</text>
+          </box>
+          {form.action === "drop" ? (
+            <text fg={colors.textMuted}>messages are dropped</text>
+          ) : (
+            <input
+              value={form.value}
+              onInput={(v) => setForm((prev) => ({ ...prev, value: v }))}
+              placeholder={form.action === "worker" ? "email-worker" : verified[0] ?? "you@example.com"}
+              width={40}
+              {...inputProps(3)}
+            />
+          )}
+        </box>
+        {form.action === "forward" && verified.length > 0 && (
+          <text fg={colors.textMuted}>Verified: {verified.join(", ")}</text>
+        )}
+        <box marginTop={1} flexDirection="row">
+          <box width={18}><text fg={fieldColor(4)}>Name:</text></box>
+          <input
+            value={form.name}
+            onInput={(v) => setForm((prev) => ({ ...prev, name: v }))}
+            placeholder="optional"
+            width={30}
+            {...inputProps(4)}
+          />
+        </box>
+        <box marginTop={1} flexDirection="row">
+          <box width={18}><text fg={fieldColor(5)}>Enabled:</text></box>
+          <text fg={form.enabled ? colors.success : colors.warning}>{form.enabled ? "Yes" : "No"}</text>
+          <text fg={colors.textMuted}> (Space to toggle)</text>
+        </box>
+      </>
+    );
+  };
+
+  if (!selectedZone) {
+    return <NoZoneSelected />;
+  }
+
+  if (loading && !settings) {
+    return (
+      <box flexDirection="column" flexGrow={1} padding={2}>
+        <box flexDirection="row" gap={1}>
+          <text fg={colors.primary}>⟳</text>
+          <text fg={colors.textMuted}>Loading email routing...</text>
+        </box>
+      </box>
+    );
+  }
+
+  return (
+    <box flexDirection="column" flexGrow={1}>
+      <box flexDirection="row" justifyContent="space-between" marginBottom={1}>
+        <box flexDirection="column">
+          <text>
+            <strong fg={colors.primary}>Email Routing</strong>
+          </text>
+          <text>
+            <span fg={colors.textMuted}>Custom addresses and forwarding rules</span>
+          </text>
+        </box>
+        {loading && <text fg={colors.warning}>⟳</text>}
+      </box>
+
+      {actionMessage && (
+        <box backgroundColor={colors.success} padding={1}>
+          <text>
+            <span fg={colors.textInverse}>{actionMessage}</span>
+          </text>
+        </box>
+      )}
+
+      {error && (
+        <box backgroundColor={colors.error} padding={1}>
+          <text>
+            <span fg={colors.textInverse}>{error}</span>
+          </text>
+        </box>
+      )}
+
+      {renderStatus()}
+      {dnsStatus && (!dnsStatus.mx || !dnsStatus.spf) && (
+        <box borderStyle="single" borderColor={colors.warning} padding={1} marginBottom={1}>
+          <text fg={colors.warning}>
+            ⚠ Missing {[!dnsStatus.mx && "MX", !dnsStatus.spf && "SPF"].filter(Boolean).join(" and ")} records.
+            Enabling routing adds route1-3.mx.cloudflare.net and include:_spf.mx.cloudflare.net.
+          </text>
+        </box>
+      )}
+      <box flexDirection="row" gap={2} marginBottom={1}>
+        {(["rules", "addresses"] as Tab[]).map((t) => (
+          <box
+            key={t}
+            paddingLeft={2}
+            paddingRight={2}
+            borderStyle={tab === t ? "single" : undefined}
+            borderColor={tab === t ? colors.primary : undefined}
+            backgroundColor={tab === t ? colors.surfaceAlt : undefined}
+          >
+            <text>
+              <span fg={tab === t ? colors.primary : colors.textMuted}>
+                {t === "rules" ? `Routing Rules (${rows.length})` : `Destinations (${addresses.length})`}
+              </span>
+            </text>
+          </box>
+        ))}
+      </box>
+      {tab === "rules" ? renderRules() : renderAddresses()}
+      <box marginTop={1}>
+        <text fg={colors.textMuted}>
+          Tab Switch • ↑/↓ Navigate • n New
+          {tab === "rules" ? " • e Edit • Space Enable/Disable • d Delete" : " • d Remove"}
+          {" • t Toggle routing • z Change zone • r Refresh"}
+        </text>
+      </box>
+
+      {(modal.type === "deleteRule" || modal.type === "deleteAddress") && (
+        <box position="absolute" top={0} left={0} right={0} bottom={0} justifyContent="center" alignItems="center" backgroundColor="rgba(0,0,0,0.7)">
+          <box flexDirection="column" borderStyle="double" borderColor={colors.error} backgroundColor={colors.surface} padding={2} minWidth={50}>
+            <text fg={colors.error}><strong>⚠ Confirm Delete</strong></text>
+            <box marginTop={1}>
+              <text fg={colors.text}>
+                {modal.type === "deleteRule"
+                  ? `Delete rule "${modal.rule.name || describeMatchers({ kind: "rule", rule: modal.rule })}"?`
+                  : `Remove destination "${modal.address.email}"?`}
+              </text>
+            </box>
+            <box marginTop={1}>
+              <text fg={colors.textMuted}>[y] Yes  [n] No</text>
+            </box>
+          </box>
+        </box>
+      )}
+
+      {(modal.type === "rule" || modal.type === "address") && (
+        <box position="absolute" top={0} left={0} right={0} bottom={0} justifyContent="center" alignItems="center" backgroundColor="rgba(0,0,0,0.7)">
+          <box flexDirection="column" borderStyle="double" borderColor={colors.primary} backgroundColor={colors.surface} padding={2} minWidth={70}>
+            {modal.type === "rule" ? (
+              renderRuleForm()
+            ) : (
+              <>
+                <text fg={colors.primary}><strong>Add Destination Address</strong></text>
+                <box marginTop={1}>
+                  <input
+                    value={newAddress}
+                    onInput={setNewAddress}
+                    placeholder="you@example.com"
+                    focused
+                    width={40}
+                    backgroundColor={colors.backgroundAlt}
+                    textColor={colors.text}
+                  />
+                </box>
+                <text fg={colors.textMuted}>Cloudflare emails a verification link before the address can receive mail.</text>
+              </>
+            )}
+            {formError && (
+              <box marginTop={1}>
+                <text fg={colors.error}>✕ {formError}</text>
+              </box>
+            )}
+            <box marginTop={2}>
+              <text fg={colors.textMuted}>
+                {modal.type === "rule" ? "Tab/↓ next field • Ctrl+S to save • Esc to cancel" : "Enter to add • Esc to cancel"}
+              </text>
+            </box>
+          </box>
+        </box>
+      )}
+    </box>
+  );
+}
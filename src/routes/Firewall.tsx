@@ -1,5 +1,5 @@
 import { useState, useEffect, useCallback } from "react"
-import { useKeyboard } from "@opentui/react"
+import { useScreenKeyboard } from "../lib/overlay-context.tsx"
 import { useTheme } from "../lib/theme-context.tsx"
 import type {
   FirewallRule,
@@ -20,9 +20,10 @@ import {
   deleteFirewallRule,
   reorderFirewallRules,
 } from "../lib/security"
-import { listZones, type Zone } from "../lib/cloudflare"
+import { useZone } from "../lib/zone-context.tsx"
+import { NoZoneSelected } from "../components/zones/NoZoneSelected.tsx"
 
-type ViewMode = "zones" | "list" | "create" | "edit" | "delete" | "reorder" | "help"
+type ViewMode = "list" | "create" | "edit" | "delete" | "reorder" | "help"
 
 const ACTION_COLORS: Record<FirewallAction, string> = {
   block: "#EF4444",
@@ -50,13 +51,12 @@ export function Firewall() {
   const { theme } = useTheme()
   const { colors } = theme
 
-  const [zones, setZones] = useState<Zone[]>([])
-  const [selectedZone, setSelectedZone] = useState<Zone | null>(null)
+  const { activeZone: selectedZone } = useZone()
   const [rules, setRules] = useState<FirewallRule[]>([])
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
   const [selectedIndex, setSelectedIndex] = useState(0)
-  const [mode, setMode] = useState<ViewMode>("zones")
+  const [mode, setMode] = useState<ViewMode>("list")
 
   const [formData, setFormData] = useState<FirewallRuleFormData>({
     description: "",
@@ -74,19 +74,6 @@ export function Firewall() {
   const [activeField, setActiveField] = useState<"description" | "expression" | "action">("description")
   const [formStatus, setFormStatus] = useState<string | null>(null)
 
-  const loadZones = useCallback(async () => {
-    try {
-      setLoading(true)
-      setError(null)
-      const result = await listZones()
-      setZones(result)
-    } catch (err) {
-      setError(err instanceof Error ? err.message : "Failed to load zones")
-    } finally {
-      setLoading(false)
-    }
-  }, [])
-
   const loadRules = useCallback(async () => {
     if (!selectedZone) return
     try {
@@ -102,8 +89,9 @@ export function Firewall() {
   }, [selectedZone])
 
   useEffect(() => {
-    loadZones()
-  }, [loadZones])
+    setMode("list")
+    setSelectedIndex(0)
+  }, [selectedZone?.id])
 
   useEffect(() => {
     if (selectedZone) {
@@ -226,23 +214,9 @@ export function Firewall() {
     setShowSuggestions(false)
   }
 
-  useKeyboard((key) => {
-    if (mode === "zones") {
-      if (key.name === "up" || key.name === "k") {
-        setSelectedIndex((i) => Math.max(0, i - 1))
-      } else if (key.name === "down" || key.name === "j") {
-        setSelectedIndex((i) => Math.min(zones.length - 1, i + 1))
-      } else if (key.name === "return") {
-        const zone = zones[selectedIndex]
-        if (zone) {
-          setSelectedZone(zone)
-          setMode("list")
-          setSelectedIndex(0)
-        }
-      } else if (key.name === "l") {
-        loadZones()
-      }
-    } else if (mode === "list") {
+  useScreenKeyboard((key) => {
+    if (!selectedZone) return
+    if (mode === "list") {
       if (key.name === "up" || key.name === "k") {
         setSelectedIndex((i) => Math.max(0, i - 1))
       } else if (key.name === "down" || key.name === "j") {
@@ -264,10 +238,6 @@ export function Firewall() {
         if (rule) updateFirewallRule(selectedZone.id, rule.id, { paused: !rule.paused }).then(loadRules)
       } else if (key.name === "l") {
         loadRules()
-      } else if (key.name === "escape" || key.name === "backspace") {
-        setMode("zones")
-        setSelectedZone(null)
-        setSelectedIndex(0)
       }
     } else if (mode === "reorder") {
       if (key.name === "up" || key.name === "k") {
@@ -325,6 +295,10 @@ export function Firewall() {
     }
   })
 
+  if (!selectedZone) {
+    return <NoZoneSelected />
+  }
+
   if (mode === "help") {
     return (
       <box flexDirection="column" gap={1}>
@@ -362,64 +336,6 @@ export function Firewall() {
     )
   }
 
-  if (mode === "zones") {
-    return (
-      <box flexDirection="column" gap={1}>
-        <text>
-          <strong fg={colors.primary}>Firewall Rules</strong>
-          <span fg={colors.textMuted}> - Select a zone</span>
-        </text>
-
-        {error && (
-          <box borderStyle="single" borderColor={colors.error} padding={1}>
-            <text>
-              <span fg={colors.error}>{error}</span>
-            </text>
-          </box>
-        )}
-
-        {loading ? (
-          <text>
-            <span fg={colors.textMuted}>Loading zones...</span>
-          </text>
-        ) : zones.length === 0 ? (
-          <box marginTop={1} borderStyle="single" borderColor={colors.border} padding={1}>
-            <text>
-              <span fg={colors.textMuted}>No zones found. Add a domain to Cloudflare first.</span>
-            </text>
-          </box>
-        ) : (
-          <box marginTop={1} flexDirection="column">
-            {zones.map((zone, i) => (
-              <box
-                key={zone.id}
-                padding={1}
-                backgroundColor={i === selectedIndex ? colors.surfaceAlt : undefined}
-                flexDirection="row"
-                gap={2}
-              >
-                <text>
-                  <span fg={i === selectedIndex ? colors.primary : colors.text}>{zone.name}</span>
-                </text>
-                <text>
-                  <span fg={zone.status === "active" ? colors.success : colors.warning}>
-                    {zone.status}
-                  </span>
-                </text>
-              </box>
-            ))}
-          </box>
-        )}
-
-        <box marginTop={2}>
-          <text>
-            <span fg={colors.textMuted}>Enter: Select zone | L: Refresh</span>
-          </text>
-        </box>
-      </box>
-    )
-  }
-
   if (mode === "create" || mode === "edit") {
     return (
       <box flexDirection="column" gap={1}>
@@ -699,7 +615,7 @@ export function Firewall() {
           <span fg={colors.textMuted}>L: Refresh</span>
         </text>
         <text>
-          <span fg={colors.textMuted}>ESC: Back</span>
+          <span fg={colors.textMuted}>Ctrl+Z: Switch zone</span>
         </text>
         <text>
           <span fg={colors.textMuted}>?: Help</span>
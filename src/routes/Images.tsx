@@ -1,5 +1,5 @@
 import { useState, useEffect, useCallback } from "react";
-import { useKeyboard } from "@opentui/react";
+import { useScreenKeyboard } from "../lib/overlay-context.tsx";
 import { useTheme } from "../lib/theme-context.tsx";
 import {
   listImages,
@@ -123,7 +123,7 @@ export function Images() {
     }
   };
 
-  useKeyboard((key) => {
+  useScreenKeyboard((key) => {
     if (inputField) {
       if (key.name === "escape") {
         setInputField(null);
@@ -1,52 +1,120 @@
-import { useState, useEffect, useCallback } from "react";
-import { useKeyboard } from "@opentui/react";
+import { useState, useEffect, useMemo } from "react";
+import { useScreenKeyboard } from "../lib/overlay-context.tsx";
 import { useTheme } from "../lib/theme-context.tsx";
-import { listKVNamespaces, type KVNamespace } from "../lib/cloudflare.ts";
+import { iterateKVNamespaces, type KVNamespace } from "../lib/cloudflare.ts";
 import { isAuthenticated } from "../lib/auth.ts";
+import { usePaginatedList } from "../lib/use-paginated-list.ts";
+import { useRouter } from "../lib/router.tsx";
+import { KeyBrowser } from "../components/kv/KeyBrowser.tsx";
+import { exportKVNamespace, importKVNamespace } from "../lib/kv-transfer.ts";
+import { progressBar } from "../lib/ascii-charts.ts";
 
-type ViewState = "list" | "details";
+type ViewState = "list" | "keys";
+
+interface TransferState {
+  mode: "export" | "import";
+  namespace: KVNamespace;
+  path: string;
+  running: boolean;
+  done: number;
+  total: number;
+  result: string | null;
+  error: string | null;
+}
+
+function defaultDumpPath(namespace: KVNamespace): string {
+  return `./${namespace.title.replace(/[^\w.-]+/g, "_")}.json`;
+}
 
 export function KV() {
   const { theme } = useTheme();
   const { colors } = theme;
 
   const [view, setView] = useState<ViewState>("list");
-  const [namespaces, setNamespaces] = useState<KVNamespace[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
   const [selectedIndex, setSelectedIndex] = useState(0);
   const [selectedNamespace, setSelectedNamespace] = useState<KVNamespace | null>(null);
+  const [transfer, setTransfer] = useState<TransferState | null>(null);
+  const { params, setParams } = useRouter();
+
+  const authenticated = isAuthenticated();
+  const source = useMemo(() => (authenticated ? () => iterateKVNamespaces() : null), [authenticated]);
+  const namespaceList = usePaginatedList(source, "Failed to load KV namespaces");
+  const namespaces = namespaceList.items;
+  const loading = namespaceList.loading || (namespaceList.hasMore && namespaces.length === 0);
+  const error = authenticated
+    ? namespaceList.error
+    : "Not authenticated. Set CLOUDFLARE_API_TOKEN environment variable.";
+
+  const loadNamespaces = () => {
+    namespaceList.reload();
+    setSelectedIndex(0);
+  };
+
+  useEffect(() => {
+    if (!params.namespace) return;
+    const index = namespaces.findIndex((ns) => ns.id === params.namespace);
+    if (index === -1) {
+      if (namespaceList.hasMore) namespaceList.loadMore();
+      else if (!namespaceList.loading) setParams({});
+      return;
+    }
+    setView("list");
+    setSelectedNamespace(null);
+    setSelectedIndex(index);
+    setParams({});
+  }, [params.namespace, namespaces, namespaceList.hasMore, namespaceList.loading, namespaceList.loadMore, setParams]);
+
+  const openTransfer = (mode: TransferState["mode"]) => {
+    const namespace = namespaces[selectedIndex];
+    if (!namespace) return;
+    setTransfer({
+      mode,
+      namespace,
+      path: defaultDumpPath(namespace),
+      running: false,
+      done: 0,
+      total: 0,
+      result: null,
+      error: null,
+    });
+  };
 
-  const loadNamespaces = useCallback(async () => {
-    if (!isAuthenticated()) {
-      setError("Not authenticated. Set CLOUDFLARE_API_TOKEN environment variable.");
-      setLoading(false);
+  const runTransfer = async (state: TransferState) => {
+    if (!state.path.trim()) {
+      setTransfer({ ...state, error: "Enter a file path" });
       return;
     }
-    setLoading(true);
-    setError(null);
+    setTransfer({ ...state, running: true, done: 0, total: 0, error: null });
+    const onProgress = (done: number, total: number) => {
+      setTransfer((prev) => (prev ? { ...prev, done, total } : prev));
+    };
     try {
-      const data = await listKVNamespaces();
-      setNamespaces(data);
-      if (selectedIndex >= data.length) {
-        setSelectedIndex(Math.max(0, data.length - 1));
+      let result: string;
+      if (state.mode === "export") {
+        const { exported, missing } = await exportKVNamespace(state.namespace.id, state.path, onProgress);
+        result = `Exported ${exported} keys to ${state.path}`;
+        if (missing > 0) result += ` (skipped ${missing} deleted during export)`;
+      } else {
+        const { written, skipped } = await importKVNamespace(state.namespace.id, state.path, onProgress);
+        result = `Imported ${written} keys into ${state.namespace.title}`;
+        if (skipped > 0) result += ` (skipped ${skipped} already expired)`;
       }
+      setTransfer((prev) => (prev ? { ...prev, running: false, result } : prev));
     } catch (err) {
-      setError(err instanceof Error ? err.message : "Failed to load KV namespaces");
-    } finally {
-      setLoading(false);
+      const message = err instanceof Error ? err.message : `Failed to ${state.mode} keys`;
+      setTransfer((prev) => (prev ? { ...prev, running: false, error: message } : prev));
     }
-  }, [selectedIndex]);
+  };
 
-  useEffect(() => {
-    loadNamespaces();
-  }, [loadNamespaces]);
-
-  useKeyboard((key) => {
-    if (view === "details") {
-      if (key.name === "escape" || key.name === "backspace") {
-        setView("list");
-        setSelectedNamespace(null);
+  useScreenKeyboard((key) => {
+    if (view === "keys") return;
+
+    if (transfer) {
+      if (transfer.running) return;
+      if (key.name === "escape" || (transfer.result && key.name === "return")) {
+        setTransfer(null);
+      } else if (key.name === "return") {
+        runTransfer(transfer);
       }
       return;
     }
@@ -57,6 +125,7 @@ export function KV() {
       case "j":
       case "down":
         setSelectedIndex((i) => Math.min(i + 1, maxIndex));
+        namespaceList.ensureLoaded(selectedIndex + 1);
         break;
       case "k":
       case "up":
@@ -66,9 +135,15 @@ export function KV() {
       case "enter":
         if (namespaces[selectedIndex]) {
           setSelectedNamespace(namespaces[selectedIndex]);
-          setView("details");
+          setView("keys");
         }
         break;
+      case "x":
+        openTransfer("export");
+        break;
+      case "i":
+        openTransfer("import");
+        break;
       case "r":
         loadNamespaces();
         break;
@@ -95,32 +170,15 @@ export function KV() {
     );
   }
 
-  if (view === "details" && selectedNamespace) {
+  if (view === "keys" && selectedNamespace) {
     return (
-      <box flexDirection="column" flexGrow={1} padding={1}>
-        <box flexDirection="row" gap={1} marginBottom={1}>
-          <text fg={colors.primary}>‹ Back (Esc)</text>
-          <text>|</text>
-          <text><strong>{selectedNamespace.title}</strong></text>
-        </box>
-
-        <box flexDirection="column" borderStyle="single" borderColor={colors.border} padding={1}>
-          <box flexDirection="row" gap={2} marginBottom={1}>
-            <text fg={colors.textMuted} width={20}>ID:</text>
-            <text>{selectedNamespace.id}</text>
-          </box>
-          
-          <box flexDirection="row" gap={2} marginBottom={1}>
-            <text fg={colors.textMuted} width={20}>Title:</text>
-            <text>{selectedNamespace.title}</text>
-          </box>
-
-          <box flexDirection="row" gap={2} marginBottom={1}>
-            <text fg={colors.textMuted} width={20}>URL Encoding:</text>
-            <text>{selectedNamespace.supports_url_encoding ? "Supported" : "Not Supported"}</text>
-          </box>
-        </box>
-      </box>
+      <KeyBrowser
+        namespace={selectedNamespace}
+        onBack={() => {
+          setView("list");
+          setSelectedNamespace(null);
+        }}
+      />
     );
   }
 
@@ -136,7 +194,7 @@ export function KV() {
           </text>
         </box>
         <text fg={colors.textMuted}>
-          {namespaces.length} namespaces • Press 'r' to refresh
+          {namespaces.length}{namespaceList.hasMore ? "+" : ""} namespaces • Press 'r' to refresh
         </text>
       </box>
 
@@ -177,15 +235,84 @@ export function KV() {
                 </box>
               );
             })}
+            {namespaceList.hasMore && (
+              <box padding={1}>
+                <text fg={colors.textMuted}>{loading ? "⟳ Loading more…" : "↓ More namespaces below"}</text>
+              </box>
+            )}
           </scrollbox>
         </box>
       )}
       
       <box marginTop={1}>
         <text fg={colors.textMuted}>
-          ↑/↓: Navigate • Enter: Details • r: Refresh
+          ↑/↓: Navigate • Enter: Browse keys • x: Export • i: Import • r: Refresh
         </text>
       </box>
+
+      {transfer && (
+        <box position="absolute" top={0} left={0} right={0} bottom={0} justifyContent="center" alignItems="center" backgroundColor="rgba(0,0,0,0.7)">
+          <box flexDirection="column" borderStyle="double" borderColor={colors.primary} backgroundColor={colors.surface} padding={2} minWidth={70}>
+            <text fg={colors.primary}>
+              <strong>
+                {transfer.mode === "export" ? `Export "${transfer.namespace.title}"` : `Import into "${transfer.namespace.title}"`}
+              </strong>
+            </text>
+            <box marginTop={1} flexDirection="row">
+              <box width={8}>
+                <text fg={colors.text}>File:</text>
+              </box>
+              {transfer.running || transfer.result ? (
+                <text fg={colors.textMuted}>{transfer.path}</text>
+              ) : (
+                <input
+                  value={transfer.path}
+                  onInput={(path) => setTransfer((prev) => (prev ? { ...prev, path } : prev))}
+                  placeholder="./namespace.json or ./namespace.ndjson"
+                  focused
+                  width={56}
+                  backgroundColor={colors.backgroundAlt}
+                  textColor={colors.text}
+                />
+              )}
+            </box>
+            <box marginTop={1}>
+              <text fg={colors.textMuted}>
+                {transfer.mode === "export"
+                  ? "Writes keys, values, metadata and expiration. Use .ndjson or .jsonl for one pair per line."
+                  : "Accepts a JSON array or NDJSON. Existing keys with the same name are overwritten."}
+              </text>
+            </box>
+            {(transfer.running || transfer.result) && (
+              <box marginTop={1} flexDirection="row" gap={2}>
+                <text fg={colors.primary}>{progressBar(transfer.done, Math.max(transfer.total, 1), { width: 40 })}</text>
+                <text fg={colors.textMuted}>
+                  {transfer.done}/{transfer.total} keys
+                </text>
+              </box>
+            )}
+            {transfer.result && (
+              <box marginTop={1}>
+                <text fg={colors.success}>✓ {transfer.result}</text>
+              </box>
+            )}
+            {transfer.error && (
+              <box marginTop={1}>
+                <text fg={colors.error}>{transfer.error}</text>
+              </box>
+            )}
+            <box marginTop={2}>
+              <text fg={colors.textMuted}>
+                {transfer.running
+                  ? transfer.mode === "export" ? "⟳ Exporting..." : "⟳ Importing..."
+                  : transfer.result
+                  ? "Enter/Esc to close"
+                  : `Enter to ${transfer.mode} • Esc to cancel`}
+              </text>
+            </box>
+          </box>
+        </box>
+      )}
     </box>
   );
 }
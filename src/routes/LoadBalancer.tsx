@@ -0,0 +1,940 @@
+import { useState, useEffect, useCallback } from "react";
+import { useScreenKeyboard } from "../lib/overlay-context.tsx";
+import { useTheme } from "../lib/theme-context.tsx";
+import {
+  listLoadBalancers,
+  listLoadBalancerPools,
+  createLoadBalancerPool,
+  updateLoadBalancerPool,
+  listLoadBalancerMonitors,
+  createLoadBalancerMonitor,
+  updateLoadBalancerMonitor,
+  getLoadBalancerPoolHealth,
+  type LoadBalancer as LoadBalancerConfig,
+  type LoadBalancerPool,
+  type LoadBalancerMonitor,
+  type LoadBalancerPoolHealth,
+} from "../lib/cloudflare.ts";
+import { isAuthenticated } from "../lib/auth.ts";
+import { loadDrainedWeight, saveDrainedWeight, clearDrainedWeight } from "../lib/lb-drain.ts";
+import { useZone } from "../lib/zone-context.tsx";
+
+type Tab = "balancers" | "pools" | "monitors";
+
+type LBView =
+  | { type: "list" }
+  | { type: "pool"; pool: LoadBalancerPool };
+
+type ModalState =
+  | { type: "none" }
+  | { type: "pool"; pool: LoadBalancerPool | null }
+  | { type: "monitor"; monitor: LoadBalancerMonitor | null }
+  | { type: "origin"; pool: LoadBalancerPool; index: number; action: OriginAction; weight: string; error: string | null };
+
+type OriginAction = "enable" | "disable" | "drain" | "restore";
+
+type Origin = LoadBalancerPool["origins"][number];
+
+interface OriginHealthSummary {
+  healthyPops: number;
+  totalPops: number;
+  rtt?: string;
+  failureReason?: string;
+}
+
+const TABS: Tab[] = ["balancers", "pools", "monitors"];
+const MONITOR_TYPES = ["http", "https", "tcp", "udp_icmp", "icmp_ping", "smtp"];
+const MONITOR_METHODS = ["GET", "HEAD"];
+const POOL_FIELD_COUNT = 7;
+const MONITOR_FIELD_COUNT = 9;
+
+function summarizeOriginHealth(health: LoadBalancerPoolHealth | undefined): Record<string, OriginHealthSummary> {
+  const summary: Record<string, OriginHealthSummary> = {};
+  if (!health?.pop_health) return summary;
+
+  for (const pop of Object.values(health.pop_health)) {
+    for (const entry of pop.origins ?? []) {
+      for (const [address, status] of Object.entries(entry)) {
+        const current = summary[address] ?? { healthyPops: 0, totalPops: 0 };
+        current.totalPops += 1;
+        if (status.healthy) {
+          current.healthyPops += 1;
+          current.rtt = current.rtt ?? status.rtt;
+        } else if (status.failure_reason) {
+          current.failureReason = status.failure_reason;
+        }
+        summary[address] = current;
+      }
+    }
+  }
+
+  return summary;
+}
+
+function formatOrigins(origins: Origin[]): string {
+  return origins.map((o) => `${o.name}=${o.address}@${o.weight}`).join(", ");
+}
+
+function parseOrigins(input: string, existing: Origin[]): { origins: Origin[]; error?: string } {
+  const origins: Origin[] = [];
+  const entries = input.split(",").map((e) => e.trim()).filter(Boolean);
+
+  for (const entry of entries) {
+    const match = entry.match(/^([^=]+)=([^@]+)(?:@([\d.]+))?$/);
+    if (!match) {
+      return { origins: [], error: `Invalid origin "${entry}" (expected name=address@weight)` };
+    }
+    const name = match[1]!.trim();
+    const address = match[2]!.trim();
+    const weight = match[3] !== undefined ? parseFloat(match[3]) : 1;
+    if (isNaN(weight) || weight < 0 || weight > 1) {
+      return { origins: [], error: `Weight for "${name}" must be between 0 and 1` };
+    }
+    const previous = existing.find((o) => o.name === name);
+    origins.push({ ...previous, name, address, weight, enabled: previous?.enabled ?? true });
+  }
+
+  if (origins.length === 0) {
+    return { origins: [], error: "At least one origin is required" };
+  }
+
+  return { origins };
+}
+
+export function LoadBalancer() {
+  const { theme } = useTheme();
+  const { colors } = theme;
+
+  const [tab, setTab] = useState<Tab>("pools");
+  const [view, setView] = useState<LBView>({ type: "list" });
+  const [modal, setModal] = useState<ModalState>({ type: "none" });
+  const { activeZone: selectedZone, openSwitcher } = useZone();
+  const [balancers, setBalancers] = useState<LoadBalancerConfig[]>([]);
+  const [pools, setPools] = useState<LoadBalancerPool[]>([]);
+  const [monitors, setMonitors] = useState<LoadBalancerMonitor[]>([]);
+  const [poolHealth, setPoolHealth] = useState<Record<string, LoadBalancerPoolHealth>>({});
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [actionMessage, setActionMessage] = useState<string | null>(null);
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const [originIndex, setOriginIndex] = useState(0);
+
+  const [formField, setFormField] = useState(0);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [poolName, setPoolName] = useState("");
+  const [poolDescription, setPoolDescription] = useState("");
+  const [poolOrigins, setPoolOrigins] = useState("");
+  const [poolMonitor, setPoolMonitor] = useState("");
+  const [poolMinOrigins, setPoolMinOrigins] = useState("1");
+  const [poolEmail, setPoolEmail] = useState("");
+  const [poolEnabled, setPoolEnabled] = useState(true);
+  const [monitorType, setMonitorType] = useState("https");
+  const [monitorDescription, setMonitorDescription] = useState("");
+  const [monitorMethod, setMonitorMethod] = useState("GET");
+  const [monitorPath, setMonitorPath] = useState("/");
+  const [monitorPort, setMonitorPort] = useState("");
+  const [monitorCodes, setMonitorCodes] = useState("2xx");
+  const [monitorInterval, setMonitorInterval] = useState("60");
+  const [monitorTimeout, setMonitorTimeout] = useState("5");
+  const [monitorRetries, setMonitorRetries] = useState("2");
+
+  const showMessage = (message: string) => {
+    setActionMessage(message);
+    setTimeout(() => setActionMessage(null), 3000);
+  };
+
+  const loadPools = useCallback(async () => {
+    if (!isAuthenticated()) {
+      setError("Not authenticated. Set CLOUDFLARE_API_TOKEN environment variable.");
+      setLoading(false);
+      return;
+    }
+    setLoading(true);
+    setError(null);
+    try {
+      const [poolData, monitorData] = await Promise.all([
+        listLoadBalancerPools(),
+        listLoadBalancerMonitors(),
+      ]);
+      setPools(poolData);
+      setMonitors(monitorData);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load pools");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const loadBalancers = useCallback(async () => {
+    if (!selectedZone) return;
+    setLoading(true);
+    try {
+      const data = await listLoadBalancers(selectedZone.id);
+      setBalancers(data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load load balancers");
+    } finally {
+      setLoading(false);
+    }
+  }, [selectedZone]);
+
+  const loadPoolHealth = useCallback(async (poolId: string) => {
+    try {
+      const health = await getLoadBalancerPoolHealth(poolId);
+      setPoolHealth((prev) => ({ ...prev, [poolId]: health }));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load pool health");
+    }
+  }, []);
+
+  useEffect(() => {
+    loadPools();
+  }, [loadPools]);
+
+  useEffect(() => {
+    if (selectedZone) {
+      loadBalancers();
+    }
+  }, [selectedZone, loadBalancers]);
+
+  useEffect(() => {
+    if (view.type === "pool") {
+      loadPoolHealth(view.pool.id);
+    }
+  }, [view, loadPoolHealth]);
+
+  const poolNameById = (id: string) => pools.find((p) => p.id === id)?.name ?? id.slice(0, 8);
+
+  const openPoolForm = (pool: LoadBalancerPool | null) => {
+    setPoolName(pool?.name ?? "");
+    setPoolDescription(pool?.description ?? "");
+    setPoolOrigins(pool ? formatOrigins(pool.origins) : "");
+    setPoolMonitor(pool?.monitor ?? "");
+    setPoolMinOrigins((pool?.minimum_origins ?? 1).toString());
+    setPoolEmail(pool?.notification_email ?? "");
+    setPoolEnabled(pool?.enabled ?? true);
+    setFormField(0);
+    setFormError(null);
+    setModal({ type: "pool", pool });
+  };
+
+  const openMonitorForm = (monitor: LoadBalancerMonitor | null) => {
+    setMonitorType(monitor?.type ?? "https");
+    setMonitorDescription(monitor?.description ?? "");
+    setMonitorMethod(monitor?.method ?? "GET");
+    setMonitorPath(monitor?.path ?? "/");
+    setMonitorPort(monitor?.port?.toString() ?? "");
+    setMonitorCodes(monitor?.expected_codes ?? "2xx");
+    setMonitorInterval((monitor?.interval ?? 60).toString());
+    setMonitorTimeout((monitor?.timeout ?? 5).toString());
+    setMonitorRetries((monitor?.retries ?? 2).toString());
+    setFormField(0);
+    setFormError(null);
+    setModal({ type: "monitor", monitor });
+  };
+
+  const handleSavePool = async () => {
+    if (modal.type !== "pool") return;
+    if (!poolName.trim()) {
+      setFormError("Name is required");
+      return;
+    }
+    const { origins, error: originsError } = parseOrigins(poolOrigins, modal.pool?.origins ?? []);
+    if (originsError) {
+      setFormError(originsError);
+      return;
+    }
+    const minimumOrigins = parseInt(poolMinOrigins);
+    if (isNaN(minimumOrigins) || minimumOrigins < 1 || minimumOrigins > origins.length) {
+      setFormError(`Minimum origins must be between 1 and ${origins.length}`);
+      return;
+    }
+    const params = {
+      name: poolName.trim(),
+      description: poolDescription || undefined,
+      enabled: poolEnabled,
+      minimum_origins: minimumOrigins,
+      monitor: poolMonitor || undefined,
+      origins,
+      notification_email: poolEmail || undefined,
+    };
+    try {
+      setFormError(null);
+      const saved = modal.pool
+        ? await updateLoadBalancerPool(modal.pool.id, params)
+        : await createLoadBalancerPool(params);
+      setModal({ type: "none" });
+      showMessage(`Pool ${saved.name} ${modal.pool ? "updated" : "created"}`);
+      if (view.type === "pool") {
+        setView({ type: "pool", pool: saved });
+      }
+      loadPools();
+    } catch (err) {
+      setFormError(err instanceof Error ? err.message : "Failed to save pool");
+    }
+  };
+
+  const handleSaveMonitor = async () => {
+    if (modal.type !== "monitor") return;
+    const interval = parseInt(monitorInterval);
+    const timeout = parseInt(monitorTimeout);
+    const retries = parseInt(monitorRetries);
+    const port = monitorPort ? parseInt(monitorPort) : undefined;
+    if (isNaN(interval) || interval < 10) {
+      setFormError("Interval must be at least 10 seconds");
+      return;
+    }
+    if (isNaN(timeout) || timeout < 1 || timeout >= interval) {
+      setFormError("Timeout must be at least 1 second and shorter than the interval");
+      return;
+    }
+    if (isNaN(retries) || retries < 0 || retries > 5) {
+      setFormError("Retries must be between 0 and 5");
+      return;
+    }
+    if (port !== undefined && (isNaN(port) || port < 1 || port > 65535)) {
+      setFormError("Port must be between 1 and 65535");
+      return;
+    }
+    const isHttp = monitorType === "http" || monitorType === "https";
+    const params = {
+      type: monitorType,
+      description: monitorDescription || undefined,
+      method: isHttp ? monitorMethod : undefined,
+      path: isHttp ? monitorPath || "/" : undefined,
+      expected_codes: isHttp ? monitorCodes || "2xx" : undefined,
+      port,
+      interval,
+      timeout,
+      retries,
+    };
+    try {
+      setFormError(null);
+      if (modal.monitor) {
+        await updateLoadBalancerMonitor(modal.monitor.id, params);
+      } else {
+        await createLoadBalancerMonitor(params);
+      }
+      setModal({ type: "none" });
+      showMessage(`Monitor ${modal.monitor ? "updated" : "created"}`);
+      loadPools();
+    } catch (err) {
+      setFormError(err instanceof Error ? err.message : "Failed to save monitor");
+    }
+  };
+
+  const updateOrigin = async (pool: LoadBalancerPool, index: number, changes: Partial<Origin>, message: string) => {
+    const origins = pool.origins.map((o, i) => (i === index ? { ...o, ...changes } : o));
+    try {
+      const updated = await updateLoadBalancerPool(pool.id, { origins });
+      setView({ type: "pool", pool: updated });
+      setPools((prev) => prev.map((p) => (p.id === updated.id ? updated : p)));
+      showMessage(message);
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to update origin");
+      return false;
+    }
+  };
+
+  const requestDrainToggle = async (pool: LoadBalancerPool, index: number, origin: Origin) => {
+    if (origin.weight > 0) {
+      setModal({ type: "origin", pool, index, action: "drain", weight: "0", error: null });
+      return;
+    }
+    const previous = await loadDrainedWeight(pool.id, origin.name);
+    setModal({
+      type: "origin",
+      pool,
+      index,
+      action: "restore",
+      weight: previous?.toString() ?? "",
+      error: previous === null ? "Weight before draining is unknown; enter the weight to restore" : null,
+    });
+  };
+
+  const confirmOriginAction = async () => {
+    if (modal.type !== "origin") return;
+    const { pool, index, action } = modal;
+    const origin = pool.origins[index];
+    if (!origin) return;
+
+    if (action === "restore") {
+      const weight = parseFloat(modal.weight);
+      if (isNaN(weight) || weight <= 0 || weight > 1) {
+        setModal({ ...modal, error: "Weight must be greater than 0 and at most 1" });
+        return;
+      }
+      setModal({ type: "none" });
+      if (await updateOrigin(pool, index, { weight }, `${origin.name} restored to weight ${weight}`)) {
+        await clearDrainedWeight(pool.id, origin.name).catch(() => {});
+      }
+      return;
+    }
+
+    setModal({ type: "none" });
+    if (action === "drain") {
+      try {
+        await saveDrainedWeight(pool.id, origin.name, origin.weight);
+      } catch (err) {
+        setError(`Could not save the current weight, not draining: ${err instanceof Error ? err.message : String(err)}`);
+        return;
+      }
+      await updateOrigin(pool, index, { weight: 0 }, `${origin.name} draining (was weight ${origin.weight})`);
+    } else {
+      await updateOrigin(pool, index, { enabled: action === "enable" }, `${origin.name} ${action}d`);
+    }
+  };
+
+  const cycle = (values: string[], current: string, direction: 1 | -1) => {
+    const idx = values.indexOf(current);
+    return values[(idx + direction + values.length) % values.length] ?? current;
+  };
+
+  useScreenKeyboard((key) => {
+    if (modal.type === "origin") {
+      if (key.name === "escape" || (modal.action !== "restore" && key.name === "n")) {
+        setModal({ type: "none" });
+      } else if (key.name === "return" || (modal.action !== "restore" && key.name === "y")) {
+        confirmOriginAction();
+      }
+      return;
+    }
+
+    if (modal.type !== "none") {
+      if (key.name === "escape") {
+        setModal({ type: "none" });
+        return;
+      }
+      if (key.ctrl && key.name === "s") {
+        if (modal.type === "pool") handleSavePool();
+        else handleSaveMonitor();
+        return;
+      }
+      const fieldCount = modal.type === "pool" ? POOL_FIELD_COUNT : MONITOR_FIELD_COUNT;
+      if (key.name === "tab" || key.name === "down") {
+        setFormField((f) => (f + 1) % fieldCount);
+        return;
+      }
+      if (key.name === "up") {
+        setFormField((f) => (f - 1 + fieldCount) % fieldCount);
+        return;
+      }
+      const direction = key.name === "left" ? -1 : key.name === "right" ? 1 : 0;
+      if (modal.type === "pool") {
+        if (formField === 3 && direction !== 0) {
+          const monitorIds = ["", ...monitors.map((m) => m.id)];
+          setPoolMonitor((current) => cycle(monitorIds, current, direction));
+        } else if (formField === 6 && (key.name === "space" || direction !== 0)) {
+          setPoolEnabled((v) => !v);
+        }
+      } else if (direction !== 0) {
+        if (formField === 0) setMonitorType((current) => cycle(MONITOR_TYPES, current, direction));
+        else if (formField === 2) setMonitorMethod((current) => cycle(MONITOR_METHODS, current, direction));
+      }
+      return;
+    }
+
+
+    if (view.type === "pool") {
+      const pool = view.pool;
+      const origin = pool.origins[originIndex];
+      if (key.name === "escape" || key.name === "backspace") {
+        setView({ type: "list" });
+        setOriginIndex(0);
+      } else if (key.name === "up" || key.name === "k") {
+        setOriginIndex((i) => Math.max(0, i - 1));
+      } else if (key.name === "down" || key.name === "j") {
+        setOriginIndex((i) => Math.min(pool.origins.length - 1, i + 1));
+      } else if (key.name === "space" && origin) {
+        setModal({ type: "origin", pool, index: originIndex, action: origin.enabled ? "disable" : "enable", weight: "", error: null });
+      } else if (key.name === "d" && origin) {
+        requestDrainToggle(pool, originIndex, origin);
+      } else if (key.name === "e") {
+        openPoolForm(pool);
+      } else if (key.name === "r") {
+        loadPoolHealth(pool.id);
+      }
+      return;
+    }
+
+    const listLength = tab === "balancers" ? balancers.length : tab === "pools" ? pools.length : monitors.length;
+
+    if (key.name === "tab" || key.name === "right" || key.name === "left") {
+      const direction = key.name === "left" ? -1 : 1;
+      const nextTab = TABS[(TABS.indexOf(tab) + direction + TABS.length) % TABS.length];
+      if (nextTab) setTab(nextTab);
+      setSelectedIndex(0);
+      return;
+    }
+
+    switch (key.name) {
+      case "j":
+      case "down":
+        setSelectedIndex((i) => Math.min(i + 1, listLength - 1));
+        break;
+      case "k":
+      case "up":
+        setSelectedIndex((i) => Math.max(i - 1, 0));
+        break;
+      case "return":
+        if (tab === "pools" && pools[selectedIndex]) {
+          setView({ type: "pool", pool: pools[selectedIndex] });
+          setOriginIndex(0);
+        }
+        break;
+      case "n":
+        if (tab === "pools") openPoolForm(null);
+        else if (tab === "monitors") openMonitorForm(null);
+        break;
+      case "e":
+        if (tab === "pools" && pools[selectedIndex]) openPoolForm(pools[selectedIndex]);
+        else if (tab === "monitors" && monitors[selectedIndex]) openMonitorForm(monitors[selectedIndex]);
+        break;
+      case "z":
+        if (tab === "balancers") openSwitcher();
+        break;
+      case "r":
+        if (tab === "balancers") loadBalancers();
+        else loadPools();
+        break;
+    }
+  });
+
+  const renderTabs = () => (
+    <box flexDirection="row" gap={2} marginBottom={1}>
+      {TABS.map((t) => (
+        <box
+          key={t}
+          paddingLeft={2}
+          paddingRight={2}
+          borderStyle={tab === t ? "single" : undefined}
+          borderColor={tab === t ? colors.primary : undefined}
+          backgroundColor={tab === t ? colors.surfaceAlt : undefined}
+        >
+          <text>
+            <span fg={tab === t ? colors.primary : colors.textMuted}>
+              {t === "balancers" ? "Load Balancers" : t === "pools" ? "Pools" : "Monitors"}
+            </span>
+          </text>
+        </box>
+      ))}
+    </box>
+  );
+
+  const renderBalancers = () => (
+    <box flexDirection="column" flexGrow={1}>
+      <box borderStyle="single" borderColor={colors.primary} paddingLeft={1} paddingRight={1} marginBottom={1}>
+        <text>
+          <span fg={colors.textMuted}>Zone: </span>
+          <span fg={colors.primary}>{selectedZone?.name ?? "none"}</span>
+          <span fg={colors.textMuted}> [z to change]</span>
+        </text>
+      </box>
+      {balancers.length === 0 ? (
+        <box borderStyle="single" borderColor={colors.border} padding={1}>
+          <text>
+            <span fg={colors.textMuted}>No load balancers configured for this zone</span>
+          </text>
+        </box>
+      ) : (
+        <>
+          <box flexDirection="row" padding={1} borderStyle="single" borderColor={colors.border} backgroundColor={colors.surfaceAlt}>
+            <box width={32}><text fg={colors.textMuted}><strong>HOSTNAME</strong></text></box>
+            <box width={10}><text fg={colors.textMuted}><strong>STATUS</strong></text></box>
+            <box width={10}><text fg={colors.textMuted}><strong>PROXY</strong></text></box>
+            <box width={16}><text fg={colors.textMuted}><strong>STEERING</strong></text></box>
+            <box flexGrow={1}><text fg={colors.textMuted}><strong>POOLS (FALLBACK)</strong></text></box>
+          </box>
+          <scrollbox flexGrow={1}>
+            {balancers.map((lb, index) => {
+              const isSelected = index === selectedIndex;
+              return (
+                <box key={lb.id} flexDirection="row" padding={1} backgroundColor={isSelected ? colors.surfaceAlt : undefined}>
+                  <box width={32}>
+                    <text fg={isSelected ? colors.primary : colors.text}>
+                      {isSelected ? "▸ " : "  "}{lb.name}
+                    </text>
+                  </box>
+                  <box width={10}>
+                    <text fg={lb.enabled ? colors.success : colors.warning}>{lb.enabled ? "enabled" : "disabled"}</text>
+                  </box>
+                  <box width={10}>
+                    <text fg={lb.proxied ? colors.warning : colors.textMuted}>{lb.proxied ? "☁️" : "⚫"}</text>
+                  </box>
+                  <box width={16}>
+                    <text fg={colors.info}>{lb.steering_policy || "off"}</text>
+                  </box>
+                  <box flexGrow={1}>
+                    <text fg={colors.textMuted}>
+                      {lb.default_pools.map(poolNameById).join(", ")} ({poolNameById(lb.fallback_pool)})
+                    </text>
+                  </box>
+                </box>
+              );
+            })}
+          </scrollbox>
+        </>
+      )}
+    </box>
+  );
+
+  const renderPools = () =>
+    pools.length === 0 ? (
+      <box borderStyle="single" borderColor={colors.border} padding={1}>
+        <text>
+          <span fg={colors.textMuted}>No pools found • Press [n] to create one</span>
+        </text>
+      </box>
+    ) : (
+      <box flexDirection="column" flexGrow={1}>
+        <box flexDirection="row" padding={1} borderStyle="single" borderColor={colors.border} backgroundColor={colors.surfaceAlt}>
+          <box width={28}><text fg={colors.textMuted}><strong>NAME</strong></text></box>
+          <box width={12}><text fg={colors.textMuted}><strong>HEALTH</strong></text></box>
+          <box width={10}><text fg={colors.textMuted}><strong>ORIGINS</strong></text></box>
+          <box flexGrow={1}><text fg={colors.textMuted}><strong>MONITOR</strong></text></box>
+        </box>
+        <scrollbox flexGrow={1}>
+          {pools.map((pool, index) => {
+            const isSelected = index === selectedIndex;
+            const monitor = monitors.find((m) => m.id === pool.monitor);
+            const enabledOrigins = pool.origins.filter((o) => o.enabled).length;
+            return (
+              <box key={pool.id} flexDirection="row" padding={1} backgroundColor={isSelected ? colors.surfaceAlt : undefined}>
+                <box width={28}>
+                  <text fg={isSelected ? colors.primary : colors.text}>
+                    {isSelected ? "▸ " : "  "}{pool.name}
+                  </text>
+                </box>
+                <box width={12}>
+                  <text fg={!pool.enabled ? colors.textMuted : pool.healthy === false ? colors.error : colors.success}>
+                    {!pool.enabled ? "disabled" : pool.healthy === false ? "unhealthy" : "healthy"}
+                  </text>
+                </box>
+                <box width={10}>
+                  <text fg={colors.text}>{enabledOrigins}/{pool.origins.length}</text>
+                </box>
+                <box flexGrow={1}>
+                  <text fg={colors.textMuted}>
+                    {monitor ? `${monitor.type} ${monitor.path ?? ""}`.trim() : "none"}
+                  </text>
+                </box>
+              </box>
+            );
+          })}
+        </scrollbox>
+      </box>
+    );
+
+  const renderMonitors = () =>
+    monitors.length === 0 ? (
+      <box borderStyle="single" borderColor={colors.border} padding={1}>
+        <text>
+          <span fg={colors.textMuted}>No monitors found • Press [n] to create one</span>
+        </text>
+      </box>
+    ) : (
+      <box flexDirection="column" flexGrow={1}>
+        <box flexDirection="row" padding={1} borderStyle="single" borderColor={colors.border} backgroundColor={colors.surfaceAlt}>
+          <box width={10}><text fg={colors.textMuted}><strong>TYPE</strong></text></box>
+          <box width={28}><text fg={colors.textMuted}><strong>DESCRIPTION</strong></text></box>
+          <box width={20}><text fg={colors.textMuted}><strong>CHECK</strong></text></box>
+          <box flexGrow={1}><text fg={colors.textMuted}><strong>INTERVAL / TIMEOUT / RETRIES</strong></text></box>
+        </box>
+        <scrollbox flexGrow={1}>
+          {monitors.map((monitor, index) => {
+            const isSelected = index === selectedIndex;
+            const check = monitor.type === "http" || monitor.type === "https"
+              ? `${monitor.method ?? "GET"} ${monitor.path ?? "/"}`
+              : monitor.port ? `port ${monitor.port}` : "-";
+            return (
+              <box key={monitor.id} flexDirection="row" padding={1} backgroundColor={isSelected ? colors.surfaceAlt : undefined}>
+                <box width={10}>
+                  <text fg={colors.info}>{isSelected ? "▸" : " "}{monitor.type}</text>
+                </box>
+                <box width={28}>
+                  <text fg={isSelected ? colors.primary : colors.text}>{monitor.description || monitor.id.slice(0, 8)}</text>
+                </box>
+                <box width={20}>
+                  <text fg={colors.textMuted}>{check}</text>
+                </box>
+                <box flexGrow={1}>
+                  <text fg={colors.textMuted}>
+                    {monitor.interval}s / {monitor.timeout}s / {monitor.retries}
+                  </text>
+                </box>
+              </box>
+            );
+          })}
+        </scrollbox>
+      </box>
+    );
+
+  const renderPoolDetails = (pool: LoadBalancerPool) => {
+    const health = summarizeOriginHealth(poolHealth[pool.id]);
+    const hasHealth = !!poolHealth[pool.id];
+    return (
+      <box flexDirection="column" flexGrow={1}>
+        <box flexDirection="row" gap={1} marginBottom={1}>
+          <text fg={colors.primary}>‹ Back (Esc)</text>
+          <text>|</text>
+          <text><strong>{pool.name}</strong></text>
+          {pool.description && <text fg={colors.textMuted}>{pool.description}</text>}
+        </box>
+        <box flexDirection="row" padding={1} borderStyle="single" borderColor={colors.border} backgroundColor={colors.surfaceAlt}>
+          <box width={20}><text fg={colors.textMuted}><strong>ORIGIN</strong></text></box>
+          <box width={28}><text fg={colors.textMuted}><strong>ADDRESS</strong></text></box>
+          <box width={10}><text fg={colors.textMuted}><strong>WEIGHT</strong></text></box>
+          <box width={12}><text fg={colors.textMuted}><strong>STATE</strong></text></box>
+          <box flexGrow={1}><text fg={colors.textMuted}><strong>HEALTH (POPS)</strong></text></box>
+        </box>
+        <scrollbox flexGrow={1}>
+          {pool.origins.map((origin, index) => {
+            const isSelected = index === originIndex;
+            const status = health[origin.address];
+            const state = !origin.enabled ? "disabled" : origin.weight === 0 ? "draining" : "enabled";
+            const healthColor = !status
+              ? colors.textMuted
+              : status.healthyPops === status.totalPops
+                ? colors.success
+                : status.healthyPops === 0
+                  ? colors.error
+                  : colors.warning;
+            return (
+              <box key={origin.name} flexDirection="row" padding={1} backgroundColor={isSelected ? colors.surfaceAlt : undefined}>
+                <box width={20}>
+                  <text fg={isSelected ? colors.primary : colors.text}>
+                    {isSelected ? "▸ " : "  "}{origin.name}
+                  </text>
+                </box>
+                <box width={28}>
+                  <text fg={colors.textMuted}>{origin.address}</text>
+                </box>
+                <box width={10}>
+                  <text fg={colors.text}>{origin.weight}</text>
+                </box>
+                <box width={12}>
+                  <text fg={state === "enabled" ? colors.success : colors.warning}>{state}</text>
+                </box>
+                <box flexGrow={1}>
+                  <text fg={healthColor}>
+                    {!hasHealth
+                      ? "loading..."
+                      : !status
+                        ? "no data"
+                        : `${status.healthyPops}/${status.totalPops} healthy${status.rtt ? ` • ${status.rtt}` : ""}${status.failureReason && status.healthyPops < status.totalPops ? ` • ${status.failureReason}` : ""}`}
+                  </text>
+                </box>
+              </box>
+            );
+          })}
+        </scrollbox>
+        <box marginTop={1}>
+          <text fg={colors.textMuted}>
+            ↑/↓ Navigate • Space Enable/Disable • d Drain/Restore • e Edit pool • r Refresh health • Esc Back
+          </text>
+        </box>
+      </box>
+    );
+  };
+
+  const renderOriginConfirm = (confirm: Extract<ModalState, { type: "origin" }>) => {
+    const origin = confirm.pool.origins[confirm.index];
+    const descriptions: Record<OriginAction, string> = {
+      enable: `Enable ${origin?.name} in ${confirm.pool.name}? It will start receiving traffic.`,
+      disable: `Disable ${origin?.name} in ${confirm.pool.name}? It will stop receiving traffic.`,
+      drain: `Drain ${origin?.name} in ${confirm.pool.name}? Its weight goes from ${origin?.weight} to 0.`,
+      restore: `Restore ${origin?.name} in ${confirm.pool.name} to weight:`,
+    };
+    return (
+      <box position="absolute" top={0} left={0} right={0} bottom={0} justifyContent="center" alignItems="center" backgroundColor="rgba(0,0,0,0.7)">
+        <box flexDirection="column" borderStyle="double" borderColor={colors.warning} backgroundColor={colors.surface} padding={2} minWidth={50}>
+          <text fg={colors.warning}>
+            <strong>⚠ Confirm {confirm.action}</strong>
+          </text>
+          <box marginTop={1}>
+            <text fg={colors.text}>{descriptions[confirm.action]}</text>
+          </box>
+          {confirm.action === "restore" && (
+            <box marginTop={1}>
+              <input
+                value={confirm.weight}
+                onInput={(value) => setModal((prev) => (prev.type === "origin" ? { ...prev, weight: value, error: null } : prev))}
+                placeholder="0.5"
+                focused
+                width={10}
+                backgroundColor={colors.backgroundAlt}
+                textColor={colors.text}
+              />
+            </box>
+          )}
+          {confirm.error && (
+            <box marginTop={1}>
+              <text fg={colors.error}>{confirm.error}</text>
+            </box>
+          )}
+          <box marginTop={1}>
+            <text fg={colors.textMuted}>{confirm.action === "restore" ? "Enter Restore  Esc Cancel" : "[y] Yes  [n] No"}</text>
+          </box>
+        </box>
+      </box>
+    );
+  };
+
+  const renderFormInput = (
+    label: string,
+    field: number,
+    value: string,
+    onInput: (value: string) => void,
+    placeholder: string,
+    width = 40,
+  ) => (
+    <box marginTop={1} flexDirection="row">
+      <box width={18}>
+        <text fg={formField === field ? colors.primary : colors.text}>{label}</text>
+      </box>
+      <input
+        value={value}
+        onInput={onInput}
+        placeholder={placeholder}
+        focused={formField === field}
+        width={width}
+        backgroundColor={formField === field ? colors.backgroundAlt : colors.surface}
+        textColor={colors.text}
+      />
+    </box>
+  );
+
+  const renderFormChoice = (label: string, field: number, value: string, hint: string) => (
+    <box marginTop={1} flexDirection="row">
+      <box width={18}>
+        <text fg={formField === field ? colors.primary : colors.text}>{label}</text>
+      </box>
+      <text fg={formField === field ? colors.primary : colors.info}>
+        {formField === field ? `‹ ${value} ›` : value}
+      </text>
+      <text fg={colors.textMuted}> {hint}</text>
+    </box>
+  );
+
+  const renderPoolForm = () => {
+    const monitor = monitors.find((m) => m.id === poolMonitor);
+    return (
+      <>
+        <text fg={colors.primary}>
+          <strong>{modal.type === "pool" && modal.pool ? "Edit Pool" : "Create Pool"}</strong>
+        </text>
+        {renderFormInput("Name:", 0, poolName, setPoolName, "primary-pool")}
+        {renderFormInput("Description:", 1, poolDescription, setPoolDescription, "optional")}
+        {renderFormInput("Origins:", 2, poolOrigins, setPoolOrigins, "web1=192.0.2.1@1, web2=192.0.2.2@0.5", 60)}
+        {renderFormChoice("Monitor:", 3, monitor ? `${monitor.type} ${monitor.description || monitor.id.slice(0, 8)}` : "none", "(←/→)")}
+        {renderFormInput("Min origins:", 4, poolMinOrigins, setPoolMinOrigins, "1", 10)}
+        {renderFormInput("Notify email:", 5, poolEmail, setPoolEmail, "optional")}
+        {renderFormChoice("Enabled:", 6, poolEnabled ? "Yes" : "No", "(Space to toggle)")}
+      </>
+    );
+  };
+
+  const renderMonitorForm = () => {
+    const isHttp = monitorType === "http" || monitorType === "https";
+    return (
+      <>
+        <text fg={colors.primary}>
+          <strong>{modal.type === "monitor" && modal.monitor ? "Edit Monitor" : "Create Monitor"}</strong>
+        </text>
+        {renderFormChoice("Type:", 0, monitorType, "(←/→)")}
+        {renderFormInput("Description:", 1, monitorDescription, setMonitorDescription, "optional")}
+        {renderFormChoice("Method:", 2, isHttp ? monitorMethod : "n/a", isHttp ? "(←/→)" : "")}
+        {renderFormInput("Path:", 3, monitorPath, setMonitorPath, "/health")}
+        {renderFormInput("Port:", 4, monitorPort, setMonitorPort, "default", 10)}
+        {renderFormInput("Expected codes:", 5, monitorCodes, setMonitorCodes, "2xx", 10)}
+        {renderFormInput("Interval (s):", 6, monitorInterval, setMonitorInterval, "60", 10)}
+        {renderFormInput("Timeout (s):", 7, monitorTimeout, setMonitorTimeout, "5", 10)}
+        {renderFormInput("Retries:", 8, monitorRetries, setMonitorRetries, "2", 10)}
+      </>
+    );
+  };
+
+  if (loading && pools.length === 0 && monitors.length === 0 && balancers.length === 0) {
+    return (
+      <box flexDirection="column" flexGrow={1} padding={2}>
+        <box flexDirection="row" gap={1}>
+          <text fg={colors.primary}>⟳</text>
+          <text fg={colors.textMuted}>Loading load balancing configuration...</text>
+        </box>
+      </box>
+    );
+  }
+
+  return (
+    <box flexDirection="column" flexGrow={1}>
+      <box flexDirection="row" justifyContent="space-between" marginBottom={1}>
+        <box flexDirection="column">
+          <text>
+            <strong fg={colors.primary}>Load Balancing</strong>
+          </text>
+          <text>
+            <span fg={colors.textMuted}>Pools, origins and health monitors</span>
+          </text>
+        </box>
+        <text fg={colors.textMuted}>
+          {balancers.length} load balancers • {pools.length} pools • {monitors.length} monitors
+        </text>
+      </box>
+
+      {actionMessage && (
+        <box backgroundColor={colors.success} padding={1}>
+          <text>
+            <span fg={colors.textInverse}>{actionMessage}</span>
+          </text>
+        </box>
+      )}
+
+      {error && (
+        <box backgroundColor={colors.error} padding={1}>
+          <text>
+            <span fg={colors.textInverse}>{error}</span>
+          </text>
+        </box>
+      )}
+
+      {view.type === "pool" ? (
+        renderPoolDetails(view.pool)
+      ) : (
+        <>
+          {renderTabs()}
+          {tab === "balancers" && renderBalancers()}
+          {tab === "pools" && renderPools()}
+          {tab === "monitors" && renderMonitors()}
+          <box marginTop={1}>
+            <text fg={colors.textMuted}>
+              Tab Switch tab • ↑/↓ Navigate
+              {tab === "balancers" && " • z Change zone"}
+              {tab === "pools" && " • Enter Origins • n New • e Edit"}
+              {tab === "monitors" && " • n New • e Edit"}
+              {" • r Refresh"}
+            </text>
+          </box>
+        </>
+      )}
+
+      {modal.type === "origin" && renderOriginConfirm(modal)}
+
+      {(modal.type === "pool" || modal.type === "monitor") && (
+        <box position="absolute" top={0} left={0} right={0} bottom={0} justifyContent="center" alignItems="center" backgroundColor="rgba(0,0,0,0.7)">
+          <box flexDirection="column" borderStyle="double" borderColor={colors.primary} backgroundColor={colors.surface} padding={2} minWidth={70}>
+            {modal.type === "pool" ? renderPoolForm() : renderMonitorForm()}
+            {formError && (
+              <box marginTop={1}>
+                <text fg={colors.error}>✕ {formError}</text>
+              </box>
+            )}
+            <box marginTop={2}>
+              <text fg={colors.textMuted}>Tab/↓ next field • Ctrl+S to save • Esc to cancel</text>
+            </box>
+          </box>
+        </box>
+      )}
+    </box>
+  );
+}
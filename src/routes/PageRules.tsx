@@ -0,0 +1,739 @@
+import { useState, useEffect, useCallback } from "react";
+import { useScreenKeyboard } from "../lib/overlay-context.tsx";
+import { useTheme } from "../lib/theme-context.tsx";
+import {
+  listPageRules,
+  createPageRule,
+  updatePageRule,
+  deletePageRule,
+  reorderPageRules,
+  type PageRule,
+} from "../lib/cloudflare.ts";
+import { isAuthenticated } from "../lib/auth.ts";
+import { useZone } from "../lib/zone-context.tsx";
+import { NoZoneSelected } from "../components/zones/NoZoneSelected.tsx";
+
+type ViewMode = "list" | "reorder";
+type ActionValueKind = "none" | "choice" | "number" | "text" | "forward";
+type PageRuleAction = PageRule["actions"][number];
+
+interface PageRuleActionDef {
+  id: string;
+  label: string;
+  kind: ActionValueKind;
+  choices?: string[];
+}
+
+interface RuleFormData {
+  target: string;
+  status: PageRule["status"];
+  actions: PageRuleAction[];
+}
+
+interface ActionEditorState {
+  index: number | null;
+  id: string;
+  text: string;
+  choice: string;
+  statusCode: number;
+  field: number;
+}
+
+type ModalState =
+  | { type: "none" }
+  | { type: "form"; rule: PageRule | null }
+  | { type: "delete"; rule: PageRule };
+
+const ON_OFF = ["on", "off"];
+
+const PAGE_RULE_ACTIONS: PageRuleActionDef[] = [
+  { id: "forwarding_url", label: "Forwarding URL", kind: "forward" },
+  { id: "always_use_https", label: "Always Use HTTPS", kind: "none" },
+  { id: "cache_level", label: "Cache Level", kind: "choice", choices: ["bypass", "basic", "simplified", "aggressive", "cache_everything"] },
+  { id: "edge_cache_ttl", label: "Edge Cache TTL (s)", kind: "number" },
+  { id: "browser_cache_ttl", label: "Browser Cache TTL (s)", kind: "number" },
+  { id: "ssl", label: "SSL", kind: "choice", choices: ["off", "flexible", "full", "strict"] },
+  { id: "security_level", label: "Security Level", kind: "choice", choices: ["essentially_off", "low", "medium", "high", "under_attack"] },
+  { id: "automatic_https_rewrites", label: "Automatic HTTPS Rewrites", kind: "choice", choices: ON_OFF },
+  { id: "browser_check", label: "Browser Integrity Check", kind: "choice", choices: ON_OFF },
+  { id: "email_obfuscation", label: "Email Obfuscation", kind: "choice", choices: ON_OFF },
+  { id: "rocket_loader", label: "Rocket Loader", kind: "choice", choices: ON_OFF },
+  { id: "cache_deception_armor", label: "Cache Deception Armor", kind: "choice", choices: ON_OFF },
+  { id: "host_header_override", label: "Host Header Override", kind: "text" },
+  { id: "resolve_override", label: "Resolve Override", kind: "text" },
+  { id: "disable_apps", label: "Disable Apps", kind: "none" },
+  { id: "disable_performance", label: "Disable Performance", kind: "none" },
+  { id: "disable_security", label: "Disable Security", kind: "none" },
+];
+
+const FORWARD_STATUS_CODES = [301, 302];
+
+function getActionDef(id: string): PageRuleActionDef {
+  return PAGE_RULE_ACTIONS.find((a) => a.id === id) ?? { id, label: id, kind: "text" };
+}
+
+function formatActionValue(action: PageRuleAction): string {
+  if (action.value === undefined || action.value === null) return "";
+  if (action.id === "forwarding_url") {
+    const forward = action.value as { url?: string; status_code?: number };
+    return `${forward.status_code ?? 301} → ${forward.url ?? ""}`;
+  }
+  if (typeof action.value === "object") return JSON.stringify(action.value);
+  return String(action.value);
+}
+
+function formatActions(actions: PageRuleAction[]): string {
+  return actions
+    .map((a) => {
+      const value = formatActionValue(a);
+      return value ? `${a.id}: ${value}` : a.id;
+    })
+    .join(", ");
+}
+
+function getTarget(rule: PageRule): string {
+  return rule.targets[0]?.constraint.value ?? "";
+}
+
+function sortByPriority(rules: PageRule[]): PageRule[] {
+  return [...rules].sort((a, b) => b.priority - a.priority);
+}
+
+function editorFromAction(action: PageRuleAction | null, index: number | null): ActionEditorState {
+  const def = getActionDef(action?.id ?? PAGE_RULE_ACTIONS[0]!.id);
+  const forward = action?.id === "forwarding_url" ? (action.value as { url?: string; status_code?: number }) : null;
+  return {
+    index,
+    id: def.id,
+    text: forward?.url ?? (def.kind === "number" || def.kind === "text" ? formatActionValue(action ?? { id: def.id }) : ""),
+    choice: def.kind === "choice" ? String(action?.value ?? def.choices?.[0] ?? "") : "",
+    statusCode: forward?.status_code ?? 301,
+    field: index === null ? 0 : 1,
+  };
+}
+
+function buildAction(editor: ActionEditorState): { action?: PageRuleAction; error?: string } {
+  const def = getActionDef(editor.id);
+  switch (def.kind) {
+    case "none":
+      return { action: { id: def.id } };
+    case "choice":
+      return { action: { id: def.id, value: editor.choice } };
+    case "number": {
+      const value = parseInt(editor.text);
+      if (isNaN(value) || value < 0 || String(value) !== editor.text.trim()) {
+        return { error: `${def.label} must be a whole number of seconds` };
+      }
+      return { action: { id: def.id, value } };
+    }
+    case "forward": {
+      const url = editor.text.trim();
+      if (!/^https?:\/\/\S+$/.test(url)) {
+        return { error: "Forwarding URL must start with http:// or https://" };
+      }
+      return { action: { id: def.id, value: { url, status_code: editor.statusCode } } };
+    }
+    default:
+      if (!editor.text.trim()) {
+        return { error: `${def.label} requires a value` };
+      }
+      return { action: { id: def.id, value: editor.text.trim() } };
+  }
+}
+
+function validateRuleForm(form: RuleFormData, zoneName: string): string | null {
+  const target = form.target.trim();
+  if (!target) return "URL pattern is required";
+  const host = target.replace(/^https?:\/\//, "").replace(/^\*/, "").split("/")[0]!.replace(/:(\d+|\*)$/, "").toLowerCase();
+  if (host !== zoneName && !host.endsWith(`.${zoneName}`)) {
+    return `URL pattern must match a hostname on ${zoneName}`;
+  }
+  if (form.actions.length === 0) return "Add at least one action";
+  const ids = form.actions.map((a) => a.id);
+  if (new Set(ids).size !== ids.length) return "Each action can only be used once per rule";
+  if (ids.includes("forwarding_url") && ids.length > 1) {
+    return "Forwarding URL cannot be combined with other actions";
+  }
+  if (ids.includes("always_use_https") && ids.length > 1) {
+    return "Always Use HTTPS cannot be combined with other actions";
+  }
+  return null;
+}
+
+export function PageRules() {
+  const { theme } = useTheme();
+  const { colors } = theme;
+
+  const { activeZone: selectedZone, openSwitcher } = useZone();
+  const [rules, setRules] = useState<PageRule[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [actionMessage, setActionMessage] = useState<string | null>(null);
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const [mode, setMode] = useState<ViewMode>("list");
+  const [modal, setModal] = useState<ModalState>({ type: "none" });
+  const [form, setForm] = useState<RuleFormData>({ target: "", status: "active", actions: [] });
+  const [formField, setFormField] = useState(0);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [actionIndex, setActionIndex] = useState(0);
+  const [editor, setEditor] = useState<ActionEditorState | null>(null);
+  const [savingOrder, setSavingOrder] = useState(false);
+
+  const loadRules = useCallback(async () => {
+    if (!selectedZone) return;
+    if (!isAuthenticated()) {
+      setError("Not authenticated. Set CLOUDFLARE_API_TOKEN environment variable.");
+      setLoading(false);
+      return;
+    }
+    setLoading(true);
+    setError(null);
+    try {
+      const data = await listPageRules(selectedZone.id);
+      setRules(sortByPriority(data));
+      setSelectedIndex((i) => Math.min(i, Math.max(0, data.length - 1)));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load page rules");
+    } finally {
+      setLoading(false);
+    }
+  }, [selectedZone]);
+
+  useEffect(() => {
+    setMode("list");
+    setSelectedIndex(0);
+  }, [selectedZone?.id]);
+
+  useEffect(() => {
+    if (selectedZone) {
+      loadRules();
+    }
+  }, [selectedZone, loadRules]);
+
+  const showMessage = (message: string) => {
+    setActionMessage(message);
+    setTimeout(() => setActionMessage(null), 3000);
+  };
+
+  const openForm = (rule: PageRule | null) => {
+    setForm(
+      rule
+        ? { target: getTarget(rule), status: rule.status, actions: rule.actions.map((a) => ({ ...a })) }
+        : { target: selectedZone ? `*${selectedZone.name}/*` : "", status: "active", actions: [] },
+    );
+    setFormField(0);
+    setFormError(null);
+    setActionIndex(0);
+    setEditor(null);
+    setModal({ type: "form", rule });
+  };
+
+  const handleSave = async () => {
+    if (modal.type !== "form" || !selectedZone) return;
+    const validationError = validateRuleForm(form, selectedZone.name);
+    if (validationError) {
+      setFormError(validationError);
+      return;
+    }
+    const params = {
+      targets: [{ target: "url", constraint: { operator: "matches", value: form.target.trim() } }],
+      actions: form.actions,
+      status: form.status,
+    };
+    try {
+      setFormError(null);
+      if (modal.rule) {
+        await updatePageRule(selectedZone.id, modal.rule.id, params);
+      } else {
+        await createPageRule(selectedZone.id, { ...params, priority: 1 });
+      }
+      setModal({ type: "none" });
+      showMessage(`Page rule ${modal.rule ? "updated" : "created"}`);
+      loadRules();
+    } catch (err) {
+      setFormError(err instanceof Error ? err.message : "Failed to save page rule");
+    }
+  };
+
+  const handleDelete = async () => {
+    if (modal.type !== "delete" || !selectedZone) return;
+    try {
+      await deletePageRule(selectedZone.id, modal.rule.id);
+      showMessage("Page rule deleted");
+      loadRules();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to delete page rule");
+    } finally {
+      setModal({ type: "none" });
+    }
+  };
+
+  const toggleStatus = async (rule: PageRule) => {
+    if (!selectedZone) return;
+    try {
+      await updatePageRule(selectedZone.id, rule.id, { status: rule.status === "active" ? "disabled" : "active" });
+      loadRules();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to update page rule");
+    }
+  };
+
+  const handleReorder = (direction: "up" | "down") => {
+    const newIndex = direction === "up" ? selectedIndex - 1 : selectedIndex + 1;
+    if (newIndex < 0 || newIndex >= rules.length) return;
+
+    const newRules = [...rules];
+    const currentRule = newRules[selectedIndex];
+    const swapRule = newRules[newIndex];
+    if (!currentRule || !swapRule) return;
+    newRules[selectedIndex] = swapRule;
+    newRules[newIndex] = currentRule;
+    setRules(newRules);
+    setSelectedIndex(newIndex);
+  };
+
+  const saveOrder = async () => {
+    if (!selectedZone) return;
+    const changed = rules
+      .map((r, i) => ({ id: r.id, priority: rules.length - i, previous: r.priority }))
+      .filter((r) => r.priority !== r.previous)
+      .map(({ id, priority }) => ({ id, priority }));
+
+    if (changed.length === 0) {
+      setMode("list");
+      return;
+    }
+    setSavingOrder(true);
+    setError(null);
+    try {
+      await reorderPageRules(selectedZone.id, changed);
+      showMessage("Page rule order saved");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to reorder");
+    } finally {
+      setSavingOrder(false);
+      setMode("list");
+      loadRules();
+    }
+  };
+
+  const applyEditor = () => {
+    if (!editor) return;
+    const { action, error: actionError } = buildAction(editor);
+    if (!action) {
+      setFormError(actionError ?? "Invalid action");
+      return;
+    }
+    setForm((prev) => {
+      const actions = [...prev.actions];
+      if (editor.index === null) actions.push(action);
+      else actions[editor.index] = action;
+      return { ...prev, actions };
+    });
+    setActionIndex(editor.index ?? form.actions.length);
+    setFormError(null);
+    setEditor(null);
+  };
+
+  const cycle = <T,>(values: T[], current: T, direction: number): T => {
+    const idx = values.indexOf(current);
+    return values[(idx + direction + values.length) % values.length] ?? current;
+  };
+
+  useScreenKeyboard((key) => {
+    if (modal.type === "delete") {
+      if (key.name === "y") {
+        handleDelete();
+      } else if (key.name === "n" || key.name === "escape") {
+        setModal({ type: "none" });
+      }
+      return;
+    }
+
+    if (modal.type === "form" && editor) {
+      const def = getActionDef(editor.id);
+      const fieldCount = def.kind === "forward" ? 3 : 2;
+      const direction = key.name === "left" ? -1 : key.name === "right" ? 1 : 0;
+      if (key.name === "escape") {
+        setEditor(null);
+        setFormError(null);
+      } else if (key.name === "return") {
+        applyEditor();
+      } else if (key.name === "tab" || key.name === "down") {
+        setEditor({ ...editor, field: editor.field + 1 >= fieldCount ? (editor.index === null ? 0 : 1) : editor.field + 1 });
+      } else if (key.name === "up") {
+        setEditor({ ...editor, field: Math.max(editor.index === null ? 0 : 1, editor.field - 1) });
+      } else if (direction !== 0 && editor.field === 0) {
+        const next = cycle(PAGE_RULE_ACTIONS, def, direction);
+        setEditor({ ...editorFromAction({ id: next.id }, null), field: 0 });
+      } else if (direction !== 0 && editor.field === 1 && def.kind === "choice") {
+        setEditor({ ...editor, choice: cycle(def.choices ?? [], editor.choice, direction) });
+      } else if (direction !== 0 && editor.field === 2) {
+        setEditor({ ...editor, statusCode: cycle(FORWARD_STATUS_CODES, editor.statusCode, direction) });
+      }
+      return;
+    }
+
+    if (modal.type === "form") {
+      if (key.name === "escape") {
+        setModal({ type: "none" });
+        return;
+      }
+      if (key.ctrl && key.name === "s") {
+        handleSave();
+        return;
+      }
+      if (key.name === "tab") {
+        setFormField((f) => (f + 1) % 3);
+        return;
+      }
+      if (formField === 1 && (key.name === "space" || key.name === "left" || key.name === "right")) {
+        setForm((prev) => ({ ...prev, status: prev.status === "active" ? "disabled" : "active" }));
+      } else if (formField === 2) {
+        if (key.name === "up" || key.name === "k") {
+          setActionIndex((i) => Math.max(0, i - 1));
+        } else if (key.name === "down" || key.name === "j") {
+          setActionIndex((i) => Math.min(form.actions.length - 1, i + 1));
+        } else if (key.name === "a") {
+          setEditor(editorFromAction(null, null));
+        } else if (key.name === "return" && form.actions[actionIndex]) {
+          setEditor(editorFromAction(form.actions[actionIndex], actionIndex));
+        } else if ((key.name === "x" || key.name === "delete") && form.actions[actionIndex]) {
+          setForm((prev) => ({ ...prev, actions: prev.actions.filter((_, i) => i !== actionIndex) }));
+          setActionIndex((i) => Math.max(0, i - 1));
+        }
+      } else if (key.name === "down") {
+        setFormField((f) => f + 1);
+      } else if (key.name === "up") {
+        setFormField((f) => Math.max(0, f - 1));
+      }
+      return;
+    }
+
+    if (mode === "reorder") {
+      if (savingOrder) return;
+      if (key.name === "up" || key.name === "k") {
+        handleReorder("up");
+      } else if (key.name === "down" || key.name === "j") {
+        handleReorder("down");
+      } else if (key.name === "return") {
+        saveOrder();
+      } else if (key.name === "escape") {
+        setMode("list");
+        setRules((prev) => sortByPriority(prev));
+      }
+      return;
+    }
+
+    switch (key.name) {
+      case "j":
+      case "down":
+        setSelectedIndex((i) => Math.min(i + 1, rules.length - 1));
+        break;
+      case "k":
+      case "up":
+        setSelectedIndex((i) => Math.max(i - 1, 0));
+        break;
+      case "n":
+      case "c":
+        if (selectedZone) openForm(null);
+        break;
+      case "e":
+      case "return":
+        if (rules[selectedIndex]) openForm(rules[selectedIndex]);
+        break;
+      case "d":
+      case "x":
+        if (rules[selectedIndex]) setModal({ type: "delete", rule: rules[selectedIndex] });
+        break;
+      case "p":
+      case "space":
+        if (rules[selectedIndex]) toggleStatus(rules[selectedIndex]);
+        break;
+      case "o":
+        if (rules.length > 1) setMode("reorder");
+        break;
+      case "z":
+        openSwitcher();
+        break;
+      case "r":
+        loadRules();
+        break;
+    }
+  });
+
+  const renderEditor = (state: ActionEditorState) => {
+    const def = getActionDef(state.id);
+    return (
+      <box flexDirection="column" borderStyle="single" borderColor={colors.info} padding={1} marginTop={1}>
+        <text fg={colors.info}>
+          <strong>{state.index === null ? "Add Action" : "Edit Action"}</strong>
+        </text>
+        <box flexDirection="row" marginTop={1}>
+          <box width={18}>
+            <text fg={state.field === 0 ? colors.primary : colors.text}>Setting:</text>
+          </box>
+          <text fg={state.field === 0 ? colors.primary : colors.info}>
+            {state.field === 0 ? `‹ ${def.label} ›` : def.label}
+          </text>
+        </box>
+        <box flexDirection="row" marginTop={1}>
+          <box width={18}>
+            <text fg={state.field === 1 ? colors.primary : colors.text}>
+              {def.kind === "forward" ? "Destination:" : "Value:"}
+            </text>
+          </box>
+          {def.kind === "none" && <text fg={colors.textMuted}>no value</text>}
+          {def.kind === "choice" && (
+            <text fg={state.field === 1 ? colors.primary : colors.info}>
+              {state.field === 1 ? `‹ ${state.choice} ›` : state.choice}
+            </text>
+          )}
+          {(def.kind === "number" || def.kind === "text" || def.kind === "forward") && (
+            <input
+              value={state.text}
+              onInput={(v) => setEditor((prev) => (prev ? { ...prev, text: v } : prev))}
+              placeholder={def.kind === "number" ? "14400" : def.kind === "forward" ? "https://www.example.com/$1" : "value"}
+              focused={state.field === 1}
+              width={44}
+              backgroundColor={state.field === 1 ? colors.backgroundAlt : colors.surface}
+              textColor={colors.text}
+            />
+          )}
+        </box>
+        {def.kind === "forward" && (
+          <box flexDirection="row" marginTop={1}>
+            <box width={18}>
+              <text fg={state.field === 2 ? colors.primary : colors.text}>Status code:</text>
+            </box>
+            <text fg={state.field === 2 ? colors.primary : colors.info}>
+              {state.field === 2 ? `‹ ${state.statusCode} ›` : state.statusCode}
+            </text>
+          </box>
+        )}
+        <box marginTop={1}>
+          <text fg={colors.textMuted}>←/→ change • Tab next • Enter apply • Esc discard</text>
+        </box>
+      </box>
+    );
+  };
+
+  const renderForm = () => (
+    <box flexDirection="column" borderStyle="double" borderColor={colors.primary} backgroundColor={colors.surface} padding={2} minWidth={80}>
+      <text fg={colors.primary}>
+        <strong>{modal.type === "form" && modal.rule ? "Edit Page Rule" : "Create Page Rule"}</strong>
+      </text>
+      <box marginTop={1} flexDirection="row">
+        <box width={18}>
+          <text fg={formField === 0 ? colors.primary : colors.text}>URL pattern:</text>
+        </box>
+        <input
+          value={form.target}
+          onInput={(v) => setForm((prev) => ({ ...prev, target: v }))}
+          placeholder="*example.com/images/*"
+          focused={formField === 0 && !editor}
+          width={50}
+          backgroundColor={formField === 0 ? colors.backgroundAlt : colors.surface}
+          textColor={colors.text}
+        />
+      </box>
+      <box marginTop={1} flexDirection="row">
+        <box width={18}>
+          <text fg={formField === 1 ? colors.primary : colors.text}>Status:</text>
+        </box>
+        <text fg={form.status === "active" ? colors.success : colors.warning}>{form.status}</text>
+        <text fg={colors.textMuted}> (Space to toggle)</text>
+      </box>
+      <box marginTop={1} flexDirection="column">
+        <text fg={formField === 2 ? colors.primary : colors.text}>Actions:</text>
+        {form.actions.length === 0 ? (
+          <text fg={colors.textMuted}>  No actions • Tab here and press [a] to add one</text>
+        ) : (
+          form.actions.map((action, index) => {
+            const isSelected = formField === 2 && index === actionIndex;
+            return (
+              <box key={`${action.id}-${index}`} flexDirection="row" paddingLeft={1} backgroundColor={isSelected ? colors.surfaceAlt : undefined}>
+                <box width={28}>
+                  <text fg={isSelected ? colors.primary : colors.text}>
+                    {isSelected ? "▸ " : "  "}{getActionDef(action.id).label}
+                  </text>
+                </box>
+                <text fg={colors.info}>{formatActionValue(action)}</text>
+              </box>
+            );
+          })
+        )}
+      </box>
+      {editor && renderEditor(editor)}
+      {formError && (
+        <box marginTop={1}>
+          <text fg={colors.error}>✕ {formError}</text>
+        </box>
+      )}
+      <box marginTop={2}>
+        <text fg={colors.textMuted}>
+          Tab next field • a Add action • Enter Edit action • x Remove action • Ctrl+S save • Esc cancel
+        </text>
+      </box>
+    </box>
+  );
+
+  if (!selectedZone) {
+    return <NoZoneSelected />;
+  }
+
+  if (loading && rules.length === 0) {
+    return (
+      <box flexDirection="column" flexGrow={1} padding={2}>
+        <box flexDirection="row" gap={1}>
+          <text fg={colors.primary}>⟳</text>
+          <text fg={colors.textMuted}>Loading page rules...</text>
+        </box>
+      </box>
+    );
+  }
+
+  if (mode === "reorder") {
+    return (
+      <box flexDirection="column" gap={1}>
+        <text>
+          <strong fg={colors.primary}>Reorder Page Rules</strong>
+          <span fg={colors.textMuted}> - Use ↑/↓ to move selected rule (top rule wins)</span>
+        </text>
+        <box marginTop={1} flexDirection="column">
+          {rules.map((rule, i) => (
+            <box
+              key={rule.id}
+              padding={1}
+              backgroundColor={i === selectedIndex ? colors.primary : undefined}
+              flexDirection="row"
+              gap={2}
+            >
+              <text>
+                <span fg={i === selectedIndex ? colors.textInverse : colors.textMuted}>
+                  {(i + 1).toString().padStart(2)}
+                </span>
+              </text>
+              <text>
+                <span fg={i === selectedIndex ? colors.textInverse : colors.text}>{getTarget(rule)}</span>
+              </text>
+            </box>
+          ))}
+        </box>
+        <text marginTop={1}>
+          <span fg={savingOrder ? colors.warning : colors.textMuted}>
+            {savingOrder ? "⟳ Saving order..." : "Enter Save order • Esc Discard changes"}
+          </span>
+        </text>
+      </box>
+    );
+  }
+
+  return (
+    <box flexDirection="column" flexGrow={1}>
+      <box flexDirection="row" justifyContent="space-between" marginBottom={1}>
+        <box flexDirection="column">
+          <text>
+            <strong fg={colors.primary}>Page Rules</strong>
+          </text>
+          <text>
+            <span fg={colors.textMuted}>URL-based settings overrides, evaluated top to bottom</span>
+          </text>
+        </box>
+        <text fg={colors.textMuted}>
+          {rules.length}
+          {selectedZone ? ` / ${selectedZone.meta.page_rule_quota}` : ""} rules
+        </text>
+      </box>
+
+      {actionMessage && (
+        <box backgroundColor={colors.success} padding={1}>
+          <text>
+            <span fg={colors.textInverse}>{actionMessage}</span>
+          </text>
+        </box>
+      )}
+
+      {error && (
+        <box backgroundColor={colors.error} padding={1}>
+          <text>
+            <span fg={colors.textInverse}>{error}</span>
+          </text>
+        </box>
+      )}
+
+      <box borderStyle="single" borderColor={colors.primary} paddingLeft={1} paddingRight={1} marginBottom={1}>
+        <text>
+          <span fg={colors.textMuted}>Zone: </span>
+          <span fg={colors.primary}>{selectedZone?.name ?? "none"}</span>
+          <span fg={colors.textMuted}> [z to change]</span>
+        </text>
+      </box>
+
+      {rules.length === 0 ? (
+        <box borderStyle="single" borderColor={colors.border} padding={1}>
+          <text>
+            <span fg={colors.textMuted}>No page rules configured • Press [n] to create one</span>
+          </text>
+        </box>
+      ) : (
+        <box flexDirection="column" flexGrow={1}>
+          <box flexDirection="row" padding={1} borderStyle="single" borderColor={colors.border} backgroundColor={colors.surfaceAlt}>
+            <box width={5}><text fg={colors.textMuted}><strong>#</strong></text></box>
+            <box width={10}><text fg={colors.textMuted}><strong>STATUS</strong></text></box>
+            <box width={36}><text fg={colors.textMuted}><strong>URL PATTERN</strong></text></box>
+            <box flexGrow={1}><text fg={colors.textMuted}><strong>ACTIONS</strong></text></box>
+          </box>
+          <scrollbox flexGrow={1}>
+            {rules.map((rule, index) => {
+              const isSelected = index === selectedIndex;
+              const actions = formatActions(rule.actions);
+              return (
+                <box key={rule.id} flexDirection="row" padding={1} backgroundColor={isSelected ? colors.surfaceAlt : undefined}>
+                  <box width={5}>
+                    <text fg={isSelected ? colors.primary : colors.textMuted}>{index + 1}</text>
+                  </box>
+                  <box width={10}>
+                    <text fg={rule.status === "active" ? colors.success : colors.warning}>{rule.status}</text>
+                  </box>
+                  <box width={36}>
+                    <text fg={isSelected ? colors.primary : colors.text}>{getTarget(rule)}</text>
+                  </box>
+                  <box flexGrow={1}>
+                    <text fg={colors.textMuted}>{actions.length > 70 ? actions.slice(0, 70) + "…" : actions}</text>
+                  </box>
+                </box>
+              );
+            })}
+          </scrollbox>
+        </box>
+      )}
+
+      <box marginTop={1}>
+        <text fg={colors.textMuted}>
+          ↑/↓ Navigate • n New • e Edit • d Delete • p Enable/Disable • o Reorder • z Change zone • r Refresh
+        </text>
+      </box>
+
+      {modal.type === "delete" && (
+        <box position="absolute" top={0} left={0} right={0} bottom={0} justifyContent="center" alignItems="center" backgroundColor="rgba(0,0,0,0.7)">
+          <box flexDirection="column" borderStyle="double" borderColor={colors.error} backgroundColor={colors.surface} padding={2} minWidth={50}>
+            <text fg={colors.error}><strong>⚠ Confirm Delete</strong></text>
+            <box marginTop={1}>
+              <text fg={colors.text}>Delete page rule "{getTarget(modal.rule)}"?</text>
+            </box>
+            <box marginTop={1}>
+              <text fg={colors.textMuted}>[y] Yes  [n] No</text>
+            </box>
+          </box>
+        </box>
+      )}
+
+      {modal.type === "form" && (
+        <box position="absolute" top={0} left={0} right={0} bottom={0} justifyContent="center" alignItems="center" backgroundColor="rgba(0,0,0,0.7)">
+          {renderForm()}
+        </box>
+      )}
+    </box>
+  );
+}
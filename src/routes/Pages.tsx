@@ -1,8 +1,9 @@
 import { useState, useEffect, useCallback } from "react";
-import { useKeyboard } from "@opentui/react";
+import { useScreenKeyboard } from "../lib/overlay-context.tsx";
 import { useTheme } from "../lib/theme-context.tsx";
 import { listPagesProjects, type PagesProject } from "../lib/cloudflare.ts";
 import { isAuthenticated } from "../lib/auth.ts";
+import { ProjectDetail } from "../components/pages/ProjectDetail.tsx";
 
 type ViewState = "list" | "details";
 
@@ -42,14 +43,8 @@ export function Pages() {
     loadProjects();
   }, [loadProjects]);
 
-  useKeyboard((key) => {
-    if (view === "details") {
-      if (key.name === "escape" || key.name === "backspace") {
-        setView("list");
-        setSelectedProject(null);
-      }
-      return;
-    }
+  useScreenKeyboard((key) => {
+    if (view === "details") return;
 
     const maxIndex = projects.length - 1;
 
@@ -97,49 +92,13 @@ export function Pages() {
 
   if (view === "details" && selectedProject) {
     return (
-      <box flexDirection="column" flexGrow={1} padding={1}>
-        <box flexDirection="row" gap={1} marginBottom={1}>
-          <text fg={colors.primary}>‹ Back (Esc)</text>
-          <text>|</text>
-          <text><strong>{selectedProject.name}</strong></text>
-        </box>
-
-        <box flexDirection="column" borderStyle="single" borderColor={colors.border} padding={1}>
-          <box flexDirection="row" gap={2} marginBottom={1}>
-            <text fg={colors.textMuted} width={20}>Project Name:</text>
-            <text>{selectedProject.name}</text>
-          </box>
-          
-          <box flexDirection="row" gap={2} marginBottom={1}>
-            <text fg={colors.textMuted} width={20}>Subdomain:</text>
-            <text>{selectedProject.subdomain}</text>
-          </box>
-
-          <box flexDirection="row" gap={2} marginBottom={1}>
-            <text fg={colors.textMuted} width={20}>Production Branch:</text>
-            <text>{selectedProject.production_branch}</text>
-          </box>
-
-          <box flexDirection="row" gap={2} marginBottom={1}>
-            <text fg={colors.textMuted} width={20}>Created:</text>
-            <text>{new Date(selectedProject.created_on).toLocaleString()}</text>
-          </box>
-
-          <box flexDirection="row" gap={2} marginBottom={1}>
-            <text fg={colors.textMuted} width={20}>ID:</text>
-            <text>{selectedProject.id}</text>
-          </box>
-
-          {selectedProject.domains && selectedProject.domains.length > 0 && (
-            <box flexDirection="column" marginTop={1}>
-              <text fg={colors.textMuted} marginBottom={1}>Custom Domains:</text>
-              {selectedProject.domains.map((domain) => (
-                <text key={domain}>• {domain}</text>
-              ))}
-            </box>
-          )}
-        </box>
-      </box>
+      <ProjectDetail
+        project={selectedProject}
+        onBack={() => {
+          setView("list");
+          setSelectedProject(null);
+        }}
+      />
     );
   }
 
@@ -210,7 +169,7 @@ export function Pages() {
       
       <box marginTop={1}>
         <text fg={colors.textMuted}>
-          ↑/↓: Navigate • Enter: Details • r: Refresh
+          ↑/↓: Navigate • Enter: Deployments • r: Refresh
         </text>
       </box>
     </box>
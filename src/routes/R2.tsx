@@ -1,10 +1,35 @@
 import { useState, useEffect, useCallback } from "react";
-import { useKeyboard } from "@opentui/react";
+import { useScreenKeyboard } from "../lib/overlay-context.tsx";
 import { useTheme } from "../lib/theme-context.tsx";
-import { listR2Buckets, type R2Bucket } from "../lib/cloudflare.ts";
+import {
+  listR2Buckets,
+  createR2Bucket,
+  deleteR2Bucket,
+  R2_LOCATION_HINTS,
+  type R2Bucket,
+  type R2LocationHint,
+} from "../lib/cloudflare.ts";
 import { isAuthenticated } from "../lib/auth.ts";
+import { useRouter } from "../lib/router.tsx";
+import { BucketDetail } from "../components/r2/BucketDetail.tsx";
 
-type ViewState = "list" | "details";
+type ViewState = "list" | "bucket";
+
+type ModalState =
+  | { type: "none" }
+  | { type: "create" }
+  | { type: "delete"; bucket: R2Bucket };
+
+const LOCATION_LABELS: Record<R2LocationHint, string> = {
+  wnam: "Western North America",
+  enam: "Eastern North America",
+  weur: "Western Europe",
+  eeur: "Eastern Europe",
+  apac: "Asia-Pacific",
+  oc: "Oceania",
+};
+
+const LOCATION_CHOICES: Array<R2LocationHint | null> = [null, ...R2_LOCATION_HINTS];
 
 export function R2() {
   const { theme } = useTheme();
@@ -16,6 +41,18 @@ export function R2() {
   const [error, setError] = useState<string | null>(null);
   const [selectedIndex, setSelectedIndex] = useState(0);
   const [selectedBucket, setSelectedBucket] = useState<R2Bucket | null>(null);
+  const [modal, setModal] = useState<ModalState>({ type: "none" });
+  const [newName, setNewName] = useState("");
+  const [locationIndex, setLocationIndex] = useState(0);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [actionMessage, setActionMessage] = useState<string | null>(null);
+  const [actionError, setActionError] = useState<string | null>(null);
+  const { params, setParams } = useRouter();
+
+  const showMessage = (message: string) => {
+    setActionMessage(message);
+    setTimeout(() => setActionMessage(null), 3000);
+  };
 
   const loadBuckets = useCallback(async () => {
     if (!isAuthenticated()) {
@@ -42,11 +79,65 @@ export function R2() {
     loadBuckets();
   }, [loadBuckets]);
 
-  useKeyboard((key) => {
-    if (view === "details") {
-      if (key.name === "escape" || key.name === "backspace") {
-        setView("list");
-        setSelectedBucket(null);
+  useEffect(() => {
+    if (!params.bucket) return;
+    const index = buckets.findIndex((b) => b.name === params.bucket);
+    if (index === -1) return;
+    setView("list");
+    setSelectedBucket(null);
+    setSelectedIndex(index);
+    setParams({});
+  }, [params.bucket, buckets, setParams]);
+
+  const createBucket = async () => {
+    const name = newName.trim();
+    if (!/^[a-z0-9][a-z0-9-]{1,61}[a-z0-9]$/.test(name)) {
+      setFormError("Names are 3-63 characters: lowercase letters, digits and hyphens, not starting or ending with a hyphen");
+      return;
+    }
+    const location = LOCATION_CHOICES[locationIndex] ?? undefined;
+    try {
+      await createR2Bucket(name, location);
+      setModal({ type: "none" });
+      showMessage(`Created bucket ${name}${location ? ` in ${LOCATION_LABELS[location]}` : ""}`);
+      loadBuckets();
+    } catch (err) {
+      setFormError(err instanceof Error ? err.message : "Failed to create bucket");
+    }
+  };
+
+  const removeBucket = async (bucket: R2Bucket) => {
+    setActionError(null);
+    try {
+      await deleteR2Bucket(bucket.name);
+      showMessage(`Deleted bucket ${bucket.name}`);
+      loadBuckets();
+    } catch (err) {
+      setActionError(err instanceof Error ? err.message : "Failed to delete bucket");
+    }
+  };
+
+  useScreenKeyboard((key) => {
+    if (view === "bucket") return;
+
+    if (modal.type === "delete") {
+      if (key.name === "y") {
+        removeBucket(modal.bucket);
+        setModal({ type: "none" });
+      } else if (key.name === "n" || key.name === "escape") {
+        setModal({ type: "none" });
+      }
+      return;
+    }
+
+    if (modal.type === "create") {
+      if (key.name === "escape") {
+        setModal({ type: "none" });
+      } else if (key.name === "return") {
+        createBucket();
+      } else if (key.name === "tab") {
+        const step = key.shift ? -1 : 1;
+        setLocationIndex((i) => (i + step + LOCATION_CHOICES.length) % LOCATION_CHOICES.length);
       }
       return;
     }
@@ -66,9 +157,18 @@ export function R2() {
       case "enter":
         if (buckets[selectedIndex]) {
           setSelectedBucket(buckets[selectedIndex]);
-          setView("details");
+          setView("bucket");
         }
         break;
+      case "n":
+        setNewName("");
+        setLocationIndex(0);
+        setFormError(null);
+        setModal({ type: "create" });
+        break;
+      case "d":
+        if (buckets[selectedIndex]) setModal({ type: "delete", bucket: buckets[selectedIndex] });
+        break;
       case "r":
         loadBuckets();
         break;
@@ -95,32 +195,15 @@ export function R2() {
     );
   }
 
-  if (view === "details" && selectedBucket) {
+  if (view === "bucket" && selectedBucket) {
     return (
-      <box flexDirection="column" flexGrow={1} padding={1}>
-        <box flexDirection="row" gap={1} marginBottom={1}>
-          <text fg={colors.primary}>‹ Back (Esc)</text>
-          <text>|</text>
-          <text><strong>{selectedBucket.name}</strong></text>
-        </box>
-
-        <box flexDirection="column" borderStyle="single" borderColor={colors.border} padding={1}>
-          <box flexDirection="row" gap={2} marginBottom={1}>
-            <text fg={colors.textMuted} width={20}>Bucket Name:</text>
-            <text>{selectedBucket.name}</text>
-          </box>
-          
-          <box flexDirection="row" gap={2} marginBottom={1}>
-            <text fg={colors.textMuted} width={20}>Location:</text>
-            <text>{selectedBucket.location || "Auto"}</text>
-          </box>
-
-          <box flexDirection="row" gap={2} marginBottom={1}>
-            <text fg={colors.textMuted} width={20}>Created:</text>
-            <text>{new Date(selectedBucket.creation_date).toLocaleString()}</text>
-          </box>
-        </box>
-      </box>
+      <BucketDetail
+        bucket={selectedBucket}
+        onBack={() => {
+          setView("list");
+          setSelectedBucket(null);
+        }}
+      />
     );
   }
 
@@ -140,6 +223,18 @@ export function R2() {
         </text>
       </box>
 
+      {actionMessage && (
+        <box backgroundColor={colors.success} padding={1}>
+          <text fg={colors.textInverse}>{actionMessage}</text>
+        </box>
+      )}
+
+      {actionError && (
+        <box backgroundColor={colors.error} padding={1}>
+          <text fg={colors.textInverse}>{actionError}</text>
+        </box>
+      )}
+
       {buckets.length === 0 ? (
         <box marginTop={1} borderStyle="single" borderColor={colors.border} padding={1}>
           <text>
@@ -187,9 +282,65 @@ export function R2() {
       
       <box marginTop={1}>
         <text fg={colors.textMuted}>
-          ↑/↓: Navigate • Enter: Details • r: Refresh
+          ↑/↓: Navigate • Enter: Open bucket • n: New bucket • d: Delete bucket • r: Refresh
         </text>
       </box>
+
+      {modal.type === "delete" && (
+        <box position="absolute" top={0} left={0} right={0} bottom={0} justifyContent="center" alignItems="center" backgroundColor="rgba(0,0,0,0.7)">
+          <box flexDirection="column" borderStyle="double" borderColor={colors.error} backgroundColor={colors.surface} padding={2} minWidth={50}>
+            <text fg={colors.error}><strong>⚠ Confirm Delete</strong></text>
+            <box marginTop={1}>
+              <text fg={colors.text}>Delete bucket "{modal.bucket.name}"? It must be empty.</text>
+            </box>
+            <box marginTop={1}>
+              <text fg={colors.textMuted}>[y] Yes  [n] No</text>
+            </box>
+          </box>
+        </box>
+      )}
+
+      {modal.type === "create" && (
+        <box position="absolute" top={0} left={0} right={0} bottom={0} justifyContent="center" alignItems="center" backgroundColor="rgba(0,0,0,0.7)">
+          <box flexDirection="column" borderStyle="double" borderColor={colors.primary} backgroundColor={colors.surface} padding={2} minWidth={70}>
+            <text fg={colors.primary}>
+              <strong>Create Bucket</strong>
+            </text>
+            <box marginTop={1} flexDirection="row">
+              <box width={12}>
+                <text fg={colors.text}>Name:</text>
+              </box>
+              <input
+                value={newName}
+                onInput={setNewName}
+                placeholder="my-bucket"
+                focused
+                width={48}
+                backgroundColor={colors.backgroundAlt}
+                textColor={colors.text}
+              />
+            </box>
+            <box marginTop={1} flexDirection="row">
+              <box width={12}>
+                <text fg={colors.text}>Location:</text>
+              </box>
+              <text fg={colors.primary}>
+                {LOCATION_CHOICES[locationIndex]
+                  ? `${LOCATION_CHOICES[locationIndex]} (${LOCATION_LABELS[LOCATION_CHOICES[locationIndex]!]})`
+                  : "Automatic"}
+              </text>
+            </box>
+            {formError && (
+              <box marginTop={1}>
+                <text fg={colors.error}>{formError}</text>
+              </box>
+            )}
+            <box marginTop={2}>
+              <text fg={colors.textMuted}>Tab cycle location hint • Enter to create • Esc to cancel</text>
+            </box>
+          </box>
+        </box>
+      )}
     </box>
   );
 }
@@ -1,5 +1,5 @@
 import { useState, useEffect, useCallback } from "react"
-import { useKeyboard } from "@opentui/react"
+import { useScreenKeyboard } from "../lib/overlay-context.tsx"
 import { useTheme } from "../lib/theme-context.tsx"
 import type { SSLSettings, SSLCertificate, SSLMode } from "../types/security"
 import {
@@ -9,9 +9,10 @@ import {
   updateSSLSetting,
   listSSLCertificates,
 } from "../lib/security"
-import { listZones, type Zone } from "../lib/cloudflare"
+import { useZone } from "../lib/zone-context.tsx"
+import { NoZoneSelected } from "../components/zones/NoZoneSelected.tsx"
 
-type ViewMode = "zones" | "settings" | "certificates" | "details"
+type ViewMode = "settings" | "certificates" | "details"
 type Tab = "settings" | "certificates"
 
 const SSL_MODES: { value: SSLMode; label: string; description: string; color: string }[] = [
@@ -40,31 +41,17 @@ export function SSL() {
   const { theme } = useTheme()
   const { colors } = theme
 
-  const [zones, setZones] = useState<Zone[]>([])
-  const [selectedZone, setSelectedZone] = useState<Zone | null>(null)
+  const { activeZone: selectedZone } = useZone()
   const [settings, setSettings] = useState<SSLSettings | null>(null)
   const [certificates, setCertificates] = useState<SSLCertificate[]>([])
   const [selectedCert, setSelectedCert] = useState<SSLCertificate | null>(null)
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
   const [selectedIndex, setSelectedIndex] = useState(0)
-  const [mode, setMode] = useState<ViewMode>("zones")
+  const [mode, setMode] = useState<ViewMode>("settings")
   const [activeTab, setActiveTab] = useState<Tab>("settings")
   const [statusMessage, setStatusMessage] = useState<string | null>(null)
 
-  const loadZones = useCallback(async () => {
-    try {
-      setLoading(true)
-      setError(null)
-      const result = await listZones()
-      setZones(result)
-    } catch (err) {
-      setError(err instanceof Error ? err.message : "Failed to load zones")
-    } finally {
-      setLoading(false)
-    }
-  }, [])
-
   const loadSettings = useCallback(async () => {
     if (!selectedZone) return
     try {
@@ -84,8 +71,10 @@ export function SSL() {
   }, [selectedZone])
 
   useEffect(() => {
-    loadZones()
-  }, [loadZones])
+    setMode("settings")
+    setSelectedCert(null)
+    setSelectedIndex(0)
+  }, [selectedZone?.id])
 
   useEffect(() => {
     if (selectedZone) {
@@ -139,30 +128,12 @@ export function SSL() {
     }
   }
 
-  useKeyboard((key) => {
-    if (mode === "zones") {
-      if (key.name === "up" || key.name === "k") {
-        setSelectedIndex((i) => Math.max(0, i - 1))
-      } else if (key.name === "down" || key.name === "j") {
-        setSelectedIndex((i) => Math.min(zones.length - 1, i + 1))
-      } else if (key.name === "return") {
-        const zone = zones[selectedIndex]
-        if (zone) {
-          setSelectedZone(zone)
-          setMode("settings")
-          setSelectedIndex(0)
-        }
-      } else if (key.name === "l") {
-        loadZones()
-      }
-    } else if (mode === "settings") {
+  useScreenKeyboard((key) => {
+    if (!selectedZone) return
+    if (mode === "settings") {
       if (key.name === "tab") {
         setActiveTab(activeTab === "settings" ? "certificates" : "settings")
         setSelectedIndex(0)
-      } else if (key.name === "escape" || key.name === "backspace") {
-        setMode("zones")
-        setSelectedZone(null)
-        setSelectedIndex(0)
       } else if (key.name === "l") {
         loadSettings()
       }
@@ -221,6 +192,10 @@ export function SSL() {
     }
   })
 
+  if (!selectedZone) {
+    return <NoZoneSelected />
+  }
+
   if (mode === "details" && selectedCert) {
     const daysLeft = getDaysUntilExpiry(selectedCert.expires_on)
     const expiryColor = getExpiryColor(daysLeft)
@@ -335,64 +310,6 @@ export function SSL() {
     )
   }
 
-  if (mode === "zones") {
-    return (
-      <box flexDirection="column" gap={1}>
-        <text>
-          <strong fg={colors.primary}>SSL/TLS</strong>
-          <span fg={colors.textMuted}> - Select a zone</span>
-        </text>
-
-        {error && (
-          <box borderStyle="single" borderColor={colors.error} padding={1}>
-            <text>
-              <span fg={colors.error}>{error}</span>
-            </text>
-          </box>
-        )}
-
-        {loading ? (
-          <text>
-            <span fg={colors.textMuted}>Loading zones...</span>
-          </text>
-        ) : zones.length === 0 ? (
-          <box marginTop={1} borderStyle="single" borderColor={colors.border} padding={1}>
-            <text>
-              <span fg={colors.textMuted}>No zones found.</span>
-            </text>
-          </box>
-        ) : (
-          <box marginTop={1} flexDirection="column">
-            {zones.map((zone, i) => (
-              <box
-                key={zone.id}
-                padding={1}
-                backgroundColor={i === selectedIndex ? colors.surfaceAlt : undefined}
-                flexDirection="row"
-                gap={2}
-              >
-                <text>
-                  <span fg={i === selectedIndex ? colors.primary : colors.text}>{zone.name}</span>
-                </text>
-                <text>
-                  <span fg={zone.status === "active" ? colors.success : colors.warning}>
-                    {zone.status}
-                  </span>
-                </text>
-              </box>
-            ))}
-          </box>
-        )}
-
-        <box marginTop={2}>
-          <text>
-            <span fg={colors.textMuted}>Enter: Select zone | L: Refresh</span>
-          </text>
-        </box>
-      </box>
-    )
-  }
-
   const settingsItems = [
     {
       key: "mode",
@@ -585,7 +502,7 @@ export function SSL() {
           <span fg={colors.textMuted}>L: Refresh</span>
         </text>
         <text>
-          <span fg={colors.textMuted}>ESC: Back</span>
+          <span fg={colors.textMuted}>Ctrl+Z: Switch zone</span>
         </text>
       </box>
     </box>
@@ -0,0 +1,561 @@
+import { useState, useEffect, useCallback } from "react";
+import { useScreenKeyboard } from "../lib/overlay-context.tsx";
+import { useTheme } from "../lib/theme-context.tsx";
+import {
+  listSpectrumApps,
+  createSpectrumApp,
+  updateSpectrumApp,
+  deleteSpectrumApp,
+  type SpectrumApp,
+} from "../lib/cloudflare.ts";
+import { isAuthenticated } from "../lib/auth.ts";
+import { useZone } from "../lib/zone-context.tsx";
+import { NoZoneSelected } from "../components/zones/NoZoneSelected.tsx";
+
+type ModalState =
+  | { type: "none" }
+  | { type: "form"; app: SpectrumApp | null }
+  | { type: "delete"; app: SpectrumApp };
+
+type Transport = "tcp" | "udp";
+type OriginMode = "dns" | "direct";
+
+interface SpectrumFormData {
+  dnsName: string;
+  transport: Transport;
+  edgePort: string;
+  originMode: OriginMode;
+  origin: string;
+  originPort: string;
+  tls: string;
+  edgeIps: string;
+  staticIps: string[];
+  proxyProtocol: string;
+  ipFirewall: boolean;
+}
+
+interface PortRange {
+  start: number;
+  end: number;
+}
+
+const TLS_MODES = ["off", "flexible", "full", "strict"];
+const EDGE_IP_MODES = ["all", "ipv4", "ipv6"];
+const TCP_PROXY_PROTOCOLS = ["off", "v1", "v2", "simple"];
+const UDP_PROXY_PROTOCOLS = ["off", "simple"];
+const FORM_FIELD_COUNT = 10;
+const HOSTNAME_PATTERN = /^(?=.{1,253}$)([a-z0-9*]([a-z0-9-]{0,61}[a-z0-9])?\.)+[a-z]{2,63}$/i;
+
+const EMPTY_FORM: SpectrumFormData = {
+  dnsName: "",
+  transport: "tcp",
+  edgePort: "22",
+  originMode: "direct",
+  origin: "",
+  originPort: "22",
+  tls: "off",
+  edgeIps: "all",
+  staticIps: [],
+  proxyProtocol: "off",
+  ipFirewall: true,
+};
+
+function parsePortRange(value: string): PortRange | null {
+  const match = value.trim().match(/^(\d+)(?:-(\d+))?$/);
+  if (!match) return null;
+  const start = parseInt(match[1]!);
+  const end = match[2] !== undefined ? parseInt(match[2]) : start;
+  if (start < 1 || end > 65535 || start > end) return null;
+  return { start, end };
+}
+
+function rangeSize(range: PortRange): number {
+  return range.end - range.start + 1;
+}
+
+function formFromApp(app: SpectrumApp): SpectrumFormData {
+  const [transport, edgePort] = app.protocol.split("/");
+  return {
+    dnsName: app.dns.name,
+    transport: transport === "udp" ? "udp" : "tcp",
+    edgePort: edgePort ?? "",
+    originMode: app.origin_dns ? "dns" : "direct",
+    origin: app.origin_dns?.name ?? (app.origin_direct ?? []).join(", "),
+    originPort: app.origin_port?.toString() ?? "",
+    tls: app.tls ?? "off",
+    edgeIps: app.edge_ips?.ips?.length ? "static" : (app.edge_ips?.connectivity ?? "all"),
+    staticIps: app.edge_ips?.ips ?? [],
+    proxyProtocol: app.proxy_protocol ?? "off",
+    ipFirewall: app.ip_firewall,
+  };
+}
+
+function validateSpectrumForm(form: SpectrumFormData): string | null {
+  if (!HOSTNAME_PATTERN.test(form.dnsName.trim())) {
+    return "Edge hostname must be a valid DNS name on this zone";
+  }
+
+  const edgeRange = parsePortRange(form.edgePort);
+  if (!edgeRange) {
+    return "Edge port must be a port (1-65535) or a range like 1000-2000";
+  }
+
+  if (form.originMode === "dns") {
+    if (!HOSTNAME_PATTERN.test(form.origin.trim())) {
+      return "Origin hostname must be a valid DNS name";
+    }
+    const originRange = parsePortRange(form.originPort);
+    if (!originRange) {
+      return "Origin port must be a port (1-65535) or a range like 1000-2000";
+    }
+    if (rangeSize(originRange) !== 1 && rangeSize(originRange) !== rangeSize(edgeRange)) {
+      return `Origin port range must cover ${rangeSize(edgeRange)} ports to match the edge range`;
+    }
+  } else {
+    if (rangeSize(edgeRange) !== 1) {
+      return "Port ranges require a DNS origin; direct origins take a single port";
+    }
+    const addresses = form.origin.split(",").map((a) => a.trim()).filter(Boolean);
+    if (addresses.length === 0) {
+      return "At least one direct origin is required";
+    }
+    for (const address of addresses) {
+      const match = address.match(/^(tcp|udp):\/\/(\[[0-9a-f:]+\]|[^:/\s]+):(\d+)$/i);
+      if (!match) {
+        return `Invalid origin "${address}" (expected ${form.transport}://host:port)`;
+      }
+      if (match[1]!.toLowerCase() !== form.transport) {
+        return `Origin "${address}" must use ${form.transport}:// to match the edge protocol`;
+      }
+      if (!parsePortRange(match[3]!)) {
+        return `Origin "${address}" has an invalid port`;
+      }
+    }
+  }
+
+  if (form.transport === "udp" && form.tls !== "off") {
+    return "TLS termination is only available for TCP applications";
+  }
+
+  return null;
+}
+
+function buildSpectrumParams(form: SpectrumFormData): Omit<SpectrumApp, "id" | "created_on" | "modified_on"> {
+  const params: Omit<SpectrumApp, "id" | "created_on" | "modified_on"> = {
+    protocol: `${form.transport}/${form.edgePort.trim()}`,
+    dns: { type: "CNAME", name: form.dnsName.trim() },
+    ip_firewall: form.ipFirewall,
+    proxy_protocol: form.proxyProtocol,
+    tls: form.tls,
+    edge_ips:
+      form.edgeIps === "static"
+        ? { type: "static", ips: form.staticIps }
+        : { type: "dynamic", connectivity: form.edgeIps },
+  };
+
+  if (form.originMode === "dns") {
+    const originPort = form.originPort.trim();
+    params.origin_dns = { name: form.origin.trim() };
+    params.origin_port = originPort.includes("-") ? originPort : parseInt(originPort);
+  } else {
+    params.origin_direct = form.origin.split(",").map((a) => a.trim()).filter(Boolean);
+  }
+
+  return params;
+}
+
+function describeOrigin(app: SpectrumApp): string {
+  if (app.origin_dns) {
+    return `${app.origin_dns.name}${app.origin_port !== undefined ? `:${app.origin_port}` : ""}`;
+  }
+  return (app.origin_direct ?? []).join(", ") || "-";
+}
+
+function describeEdgeIps(app: SpectrumApp): string {
+  if (!app.edge_ips) return "dynamic";
+  if (app.edge_ips.ips?.length) return app.edge_ips.ips.join(", ");
+  return `${app.edge_ips.type}${app.edge_ips.connectivity ? ` (${app.edge_ips.connectivity})` : ""}`;
+}
+
+export function Spectrum() {
+  const { theme } = useTheme();
+  const { colors } = theme;
+
+  const { activeZone: selectedZone, openSwitcher } = useZone();
+  const [apps, setApps] = useState<SpectrumApp[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [actionMessage, setActionMessage] = useState<string | null>(null);
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const [modal, setModal] = useState<ModalState>({ type: "none" });
+  const [form, setForm] = useState<SpectrumFormData>(EMPTY_FORM);
+  const [formField, setFormField] = useState(0);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const loadApps = useCallback(async () => {
+    if (!selectedZone) return;
+    if (!isAuthenticated()) {
+      setError("Not authenticated. Set CLOUDFLARE_API_TOKEN environment variable.");
+      setLoading(false);
+      return;
+    }
+    setLoading(true);
+    setError(null);
+    try {
+      const data = await listSpectrumApps(selectedZone.id);
+      setApps(data);
+      setSelectedIndex((i) => Math.min(i, Math.max(0, data.length - 1)));
+    } catch (err) {
+      setApps([]);
+      setError(err instanceof Error ? err.message : "Failed to load Spectrum applications");
+    } finally {
+      setLoading(false);
+    }
+  }, [selectedZone]);
+
+  useEffect(() => {
+    setSelectedIndex(0);
+  }, [selectedZone?.id]);
+
+  useEffect(() => {
+    if (selectedZone) {
+      loadApps();
+    }
+  }, [selectedZone, loadApps]);
+
+  const updateForm = (changes: Partial<SpectrumFormData>) => {
+    setForm((prev) => ({ ...prev, ...changes }));
+  };
+
+  const openForm = (app: SpectrumApp | null) => {
+    setForm(app ? formFromApp(app) : { ...EMPTY_FORM, dnsName: selectedZone ? `ssh.${selectedZone.name}` : "" });
+    setFormField(0);
+    setFormError(null);
+    setModal({ type: "form", app });
+  };
+
+  const handleSave = async () => {
+    if (modal.type !== "form" || !selectedZone) return;
+    const validationError = validateSpectrumForm(form);
+    if (validationError) {
+      setFormError(validationError);
+      return;
+    }
+    try {
+      setFormError(null);
+      const params = buildSpectrumParams(form);
+      if (modal.app) {
+        await updateSpectrumApp(selectedZone.id, modal.app.id, params);
+      } else {
+        await createSpectrumApp(selectedZone.id, params);
+      }
+      setModal({ type: "none" });
+      setActionMessage(`Application ${params.dns.name} ${modal.app ? "updated" : "created"}`);
+      setTimeout(() => setActionMessage(null), 3000);
+      loadApps();
+    } catch (err) {
+      setFormError(err instanceof Error ? err.message : "Failed to save application");
+    }
+  };
+
+  const handleDelete = async () => {
+    if (modal.type !== "delete" || !selectedZone) return;
+    try {
+      await deleteSpectrumApp(selectedZone.id, modal.app.id);
+      setModal({ type: "none" });
+      setActionMessage(`Application ${modal.app.dns.name} deleted`);
+      setTimeout(() => setActionMessage(null), 3000);
+      loadApps();
+    } catch (err) {
+      setModal({ type: "none" });
+      setError(err instanceof Error ? err.message : "Failed to delete application");
+    }
+  };
+
+  const cycle = (values: string[], current: string, direction: 1 | -1) => {
+    const idx = values.indexOf(current);
+    return values[(idx + direction + values.length) % values.length] ?? current;
+  };
+
+  useScreenKeyboard((key) => {
+    if (modal.type === "delete") {
+      if (key.name === "y") {
+        handleDelete();
+      } else if (key.name === "n" || key.name === "escape") {
+        setModal({ type: "none" });
+      }
+      return;
+    }
+
+    if (modal.type === "form") {
+      if (key.name === "escape") {
+        setModal({ type: "none" });
+        return;
+      }
+      if (key.ctrl && key.name === "s") {
+        handleSave();
+        return;
+      }
+      if (key.name === "tab" || key.name === "down") {
+        setFormField((f) => (f + 1) % FORM_FIELD_COUNT);
+        return;
+      }
+      if (key.name === "up") {
+        setFormField((f) => (f - 1 + FORM_FIELD_COUNT) % FORM_FIELD_COUNT);
+        return;
+      }
+      const direction = key.name === "left" ? -1 : key.name === "right" ? 1 : 0;
+      if (direction === 0 && key.name !== "space") return;
+      const step = direction === 0 ? 1 : direction;
+      switch (formField) {
+        case 1: {
+          const transport = form.transport === "tcp" ? "udp" : "tcp";
+          updateForm({
+            transport,
+            tls: transport === "udp" ? "off" : form.tls,
+            proxyProtocol: transport === "udp" && !UDP_PROXY_PROTOCOLS.includes(form.proxyProtocol) ? "off" : form.proxyProtocol,
+          });
+          break;
+        }
+        case 3:
+          updateForm({ originMode: form.originMode === "dns" ? "direct" : "dns" });
+          break;
+        case 6:
+          if (form.transport === "tcp") updateForm({ tls: cycle(TLS_MODES, form.tls, step) });
+          break;
+        case 7:
+          updateForm({
+            edgeIps: cycle(form.staticIps.length ? [...EDGE_IP_MODES, "static"] : EDGE_IP_MODES, form.edgeIps, step),
+          });
+          break;
+        case 8:
+          updateForm({
+            proxyProtocol: cycle(form.transport === "tcp" ? TCP_PROXY_PROTOCOLS : UDP_PROXY_PROTOCOLS, form.proxyProtocol, step),
+          });
+          break;
+        case 9:
+          updateForm({ ipFirewall: !form.ipFirewall });
+          break;
+      }
+      return;
+    }
+
+    switch (key.name) {
+      case "j":
+      case "down":
+        setSelectedIndex((i) => Math.min(i + 1, apps.length - 1));
+        break;
+      case "k":
+      case "up":
+        setSelectedIndex((i) => Math.max(i - 1, 0));
+        break;
+      case "c":
+      case "n":
+        if (selectedZone) openForm(null);
+        break;
+      case "e":
+      case "return":
+        if (apps[selectedIndex]) openForm(apps[selectedIndex]);
+        break;
+      case "d":
+      case "x":
+        if (apps[selectedIndex]) setModal({ type: "delete", app: apps[selectedIndex] });
+        break;
+      case "z":
+        openSwitcher();
+        break;
+      case "r":
+        loadApps();
+        break;
+    }
+  });
+
+  const renderInput = (label: string, field: number, value: string, key: keyof SpectrumFormData, placeholder: string, width = 40) => (
+    <box marginTop={1} flexDirection="row">
+      <box width={18}>
+        <text fg={formField === field ? colors.primary : colors.text}>{label}</text>
+      </box>
+      <input
+        value={value}
+        onInput={(v) => updateForm({ [key]: v })}
+        placeholder={placeholder}
+        focused={formField === field}
+        width={width}
+        backgroundColor={formField === field ? colors.backgroundAlt : colors.surface}
+        textColor={colors.text}
+      />
+    </box>
+  );
+
+  const renderChoice = (label: string, field: number, value: string, hint = "(←/→)") => (
+    <box marginTop={1} flexDirection="row">
+      <box width={18}>
+        <text fg={formField === field ? colors.primary : colors.text}>{label}</text>
+      </box>
+      <text fg={formField === field ? colors.primary : colors.info}>
+        {formField === field ? `‹ ${value} ›` : value}
+      </text>
+      <text fg={colors.textMuted}> {hint}</text>
+    </box>
+  );
+
+  if (!selectedZone) {
+    return <NoZoneSelected />;
+  }
+
+  if (loading && apps.length === 0) {
+    return (
+      <box flexDirection="column" flexGrow={1} padding={2}>
+        <box flexDirection="row" gap={1}>
+          <text fg={colors.primary}>⟳</text>
+          <text fg={colors.textMuted}>Loading Spectrum applications...</text>
+        </box>
+      </box>
+    );
+  }
+
+  return (
+    <box flexDirection="column" flexGrow={1}>
+      <box flexDirection="row" justifyContent="space-between" marginBottom={1}>
+        <box flexDirection="column">
+          <text>
+            <strong fg={colors.primary}>Spectrum</strong>
+          </text>
+          <text>
+            <span fg={colors.textMuted}>TCP/UDP proxy applications</span>
+          </text>
+        </box>
+        <text fg={colors.textMuted}>{apps.length} applications</text>
+      </box>
+
+      {actionMessage && (
+        <box backgroundColor={colors.success} padding={1}>
+          <text>
+            <span fg={colors.textInverse}>{actionMessage}</span>
+          </text>
+        </box>
+      )}
+
+      {error && (
+        <box backgroundColor={colors.error} padding={1}>
+          <text>
+            <span fg={colors.textInverse}>{error}</span>
+          </text>
+        </box>
+      )}
+
+      <box borderStyle="single" borderColor={colors.primary} paddingLeft={1} paddingRight={1} marginBottom={1}>
+        <text>
+          <span fg={colors.textMuted}>Zone: </span>
+          <span fg={colors.primary}>{selectedZone?.name ?? "none"}</span>
+          <span fg={colors.textMuted}> [z to change]</span>
+        </text>
+      </box>
+
+      {apps.length === 0 ? (
+        <box borderStyle="single" borderColor={colors.border} padding={1}>
+          <text>
+            <span fg={colors.textMuted}>No Spectrum applications • Press [c] to create</span>
+          </text>
+        </box>
+      ) : (
+        <box flexDirection="column" flexGrow={1}>
+          <box flexDirection="row" padding={1} borderStyle="single" borderColor={colors.border} backgroundColor={colors.surfaceAlt}>
+            <box width={28}><text fg={colors.textMuted}><strong>HOSTNAME</strong></text></box>
+            <box width={16}><text fg={colors.textMuted}><strong>PROTOCOL</strong></text></box>
+            <box width={32}><text fg={colors.textMuted}><strong>ORIGIN</strong></text></box>
+            <box width={22}><text fg={colors.textMuted}><strong>EDGE IPS</strong></text></box>
+            <box flexGrow={1}><text fg={colors.textMuted}><strong>TLS</strong></text></box>
+          </box>
+          <scrollbox flexGrow={1}>
+            {apps.map((app, index) => {
+              const isSelected = index === selectedIndex;
+              return (
+                <box key={app.id} flexDirection="row" padding={1} backgroundColor={isSelected ? colors.surfaceAlt : undefined}>
+                  <box width={28}>
+                    <text fg={isSelected ? colors.primary : colors.text}>
+                      {isSelected ? "▸ " : "  "}{app.dns.name}
+                    </text>
+                  </box>
+                  <box width={16}>
+                    <text fg={app.protocol.startsWith("udp") ? colors.warning : colors.info}>{app.protocol}</text>
+                  </box>
+                  <box width={32}>
+                    <text fg={colors.textMuted}>{describeOrigin(app)}</text>
+                  </box>
+                  <box width={22}>
+                    <text fg={colors.textMuted}>{describeEdgeIps(app)}</text>
+                  </box>
+                  <box flexGrow={1}>
+                    <text fg={app.tls && app.tls !== "off" ? colors.success : colors.textMuted}>{app.tls ?? "off"}</text>
+                  </box>
+                </box>
+              );
+            })}
+          </scrollbox>
+        </box>
+      )}
+
+      <box marginTop={1}>
+        <text fg={colors.textMuted}>
+          ↑/↓ Navigate • c Create • e Edit • d Delete • z Change zone • r Refresh
+        </text>
+      </box>
+
+      {modal.type === "delete" && (
+        <box position="absolute" top={0} left={0} right={0} bottom={0} justifyContent="center" alignItems="center" backgroundColor="rgba(0,0,0,0.7)">
+          <box flexDirection="column" borderStyle="double" borderColor={colors.error} backgroundColor={colors.surface} padding={2} minWidth={50}>
+            <text fg={colors.error}><strong>⚠ Confirm Delete</strong></text>
+            <box marginTop={1}>
+              <text fg={colors.text}>Delete Spectrum application "{modal.app.dns.name}" ({modal.app.protocol})?</text>
+            </box>
+            <box marginTop={1}>
+              <text fg={colors.textMuted}>[y] Yes  [n] No</text>
+            </box>
+          </box>
+        </box>
+      )}
+
+      {modal.type === "form" && (
+        <box position="absolute" top={0} left={0} right={0} bottom={0} justifyContent="center" alignItems="center" backgroundColor="rgba(0,0,0,0.7)">
+          <box flexDirection="column" borderStyle="double" borderColor={colors.primary} backgroundColor={colors.surface} padding={2} minWidth={70}>
+            <text fg={colors.primary}>
+              <strong>{modal.app ? "Edit Spectrum Application" : "Create Spectrum Application"}</strong>
+            </text>
+            {renderInput("Edge hostname:", 0, form.dnsName, "dnsName", "ssh.example.com")}
+            {renderChoice("Transport:", 1, form.transport)}
+            {renderInput("Edge port(s):", 2, form.edgePort, "edgePort", "22 or 27015-27020", 20)}
+            {renderChoice("Origin type:", 3, form.originMode === "dns" ? "DNS hostname" : "Direct IP")}
+            {renderInput(
+              form.originMode === "dns" ? "Origin host:" : "Origins:",
+              4,
+              form.origin,
+              "origin",
+              form.originMode === "dns" ? "origin.example.com" : `${form.transport}://192.0.2.1:22`,
+              50,
+            )}
+            {form.originMode === "dns"
+              ? renderInput("Origin port(s):", 5, form.originPort, "originPort", "22 or 27015-27020", 20)
+              : renderChoice("Origin port(s):", 5, "from origin address", "")}
+            {renderChoice("TLS:", 6, form.tls, form.transport === "udp" ? "(TCP only)" : "(←/→)")}
+            {renderChoice(
+              "Edge IPs:",
+              7,
+              form.edgeIps === "static" ? `static ${form.staticIps.join(", ")}` : `dynamic ${form.edgeIps}`,
+            )}
+            {renderChoice("Proxy protocol:", 8, form.proxyProtocol)}
+            {renderChoice("IP firewall:", 9, form.ipFirewall ? "On" : "Off", "(Space to toggle)")}
+            {formError && (
+              <box marginTop={1}>
+                <text fg={colors.error}>✕ {formError}</text>
+              </box>
+            )}
+            <box marginTop={2}>
+              <text fg={colors.textMuted}>Tab/↓ next field • Ctrl+S to save • Esc to cancel</text>
+            </box>
+          </box>
+        </box>
+      )}
+    </box>
+  );
+}
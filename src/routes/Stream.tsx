@@ -1,13 +1,14 @@
-import { useState, useEffect, useCallback } from "react";
-import { useKeyboard } from "@opentui/react";
+import { useState } from "react";
+import { useScreenKeyboard } from "../lib/overlay-context.tsx";
 import { useTheme } from "../lib/theme-context.tsx";
 import {
-  listStreamVideos,
+  iterateStreamVideos,
   getStreamVideo,
   deleteStreamVideo,
   createStreamDirectUpload,
   type StreamVideo,
 } from "../lib/cloudflare.ts";
+import { usePaginatedList } from "../lib/use-paginated-list.ts";
 
 type View = "list" | "details" | "upload" | "settings";
 type Tab = "videos" | "upload" | "settings";
@@ -25,9 +26,10 @@ export function Stream() {
   const { colors } = theme;
   const [view, setView] = useState<View>("list");
   const [tab, setTab] = useState<Tab>("videos");
-  const [videos, setVideos] = useState<StreamVideo[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+  const videoList = usePaginatedList(iterateStreamVideos, "Failed to load videos");
+  const videos = videoList.items;
+  const [deleteError, setDeleteError] = useState<string | null>(null);
+  const error = deleteError ?? videoList.error;
   const [selectedIndex, setSelectedIndex] = useState(0);
   const [selectedVideo, setSelectedVideo] = useState<StreamVideo | null>(null);
   const [uploadProgress, setUploadProgress] = useState<UploadProgress>({
@@ -37,22 +39,11 @@ export function Stream() {
   });
   const [confirmDelete, setConfirmDelete] = useState(false);
 
-  const loadVideos = useCallback(async () => {
-    setLoading(true);
-    setError(null);
-    try {
-      const data = await listStreamVideos();
-      setVideos(data);
-    } catch (err) {
-      setError(err instanceof Error ? err.message : "Failed to load videos");
-    } finally {
-      setLoading(false);
-    }
-  }, []);
-
-  useEffect(() => {
-    loadVideos();
-  }, [loadVideos]);
+  const loadVideos = () => {
+    setDeleteError(null);
+    videoList.reload();
+    setSelectedIndex(0);
+  };
 
   const handleDelete = async () => {
     if (!selectedVideo) return;
@@ -63,7 +54,7 @@ export function Stream() {
       setConfirmDelete(false);
       loadVideos();
     } catch (err) {
-      setError(err instanceof Error ? err.message : "Failed to delete video");
+      setDeleteError(err instanceof Error ? err.message : "Failed to delete video");
     }
   };
 
@@ -94,7 +85,7 @@ export function Stream() {
     }
   };
 
-  useKeyboard((key) => {
+  useScreenKeyboard((key) => {
     if (confirmDelete) {
       if (key.name === "y") {
         handleDelete();
@@ -131,6 +122,7 @@ export function Stream() {
         setSelectedIndex((prev) => Math.max(0, prev - 1));
       } else if (key.name === "down" || key.name === "j") {
         setSelectedIndex((prev) => Math.min(videos.length - 1, prev + 1));
+        videoList.ensureLoaded(selectedIndex + 1);
       } else if (key.name === "return" && videos[selectedIndex]) {
         setSelectedVideo(videos[selectedIndex]);
         setView("details");
@@ -212,7 +204,7 @@ export function Stream() {
 
   const renderVideosList = () => (
     <box flexDirection="column" gap={1}>
-      {loading ? (
+      {videoList.hasMore && videos.length === 0 && !error ? (
         <box borderStyle="single" borderColor={colors.border} padding={1}>
           <text>
             <span fg={colors.info}>Loading videos...</span>
@@ -300,6 +292,13 @@ export function Stream() {
               </box>
             </box>
           ))}
+          {videoList.hasMore && (
+            <box paddingLeft={1}>
+              <text>
+                <span fg={colors.textMuted}>{videoList.loading ? "⟳ Loading more…" : "↓ More videos below"}</span>
+              </text>
+            </box>
+          )}
         </box>
       )}
       <box marginTop={1}>
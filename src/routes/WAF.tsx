@@ -1,11 +1,12 @@
 import { useState, useEffect, useCallback } from "react"
-import { useKeyboard } from "@opentui/react"
+import { useScreenKeyboard } from "../lib/overlay-context.tsx"
 import { useTheme } from "../lib/theme-context.tsx"
 import type { WAFManagedRuleset, WAFRuleset } from "../types/security"
 import { listManagedWAFRulesets, listWAFRulesets, toggleWAFRuleset, getWAFRuleset } from "../lib/security"
-import { listZones, type Zone } from "../lib/cloudflare"
+import { useZone } from "../lib/zone-context.tsx"
+import { NoZoneSelected } from "../components/zones/NoZoneSelected.tsx"
 
-type ViewMode = "zones" | "list" | "details"
+type ViewMode = "list" | "details"
 
 const RULESET_CATEGORIES: Record<string, { icon: string; color: string }> = {
   "cloudflare managed": { icon: "☁", color: "#F38020" },
@@ -20,30 +21,16 @@ export function WAF() {
   const { theme } = useTheme()
   const { colors } = theme
 
-  const [zones, setZones] = useState<Zone[]>([])
-  const [selectedZone, setSelectedZone] = useState<Zone | null>(null)
+  const { activeZone: selectedZone } = useZone()
   const [rulesets, setRulesets] = useState<WAFManagedRuleset[]>([])
   const [detailedRuleset, setDetailedRuleset] = useState<WAFRuleset | null>(null)
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
   const [selectedIndex, setSelectedIndex] = useState(0)
-  const [mode, setMode] = useState<ViewMode>("zones")
+  const [mode, setMode] = useState<ViewMode>("list")
   const [toggling, setToggling] = useState<string | null>(null)
   const [statusMessage, setStatusMessage] = useState<string | null>(null)
 
-  const loadZones = useCallback(async () => {
-    try {
-      setLoading(true)
-      setError(null)
-      const result = await listZones()
-      setZones(result)
-    } catch (err) {
-      setError(err instanceof Error ? err.message : "Failed to load zones")
-    } finally {
-      setLoading(false)
-    }
-  }, [])
-
   const loadRulesets = useCallback(async () => {
     if (!selectedZone) return
     try {
@@ -67,8 +54,10 @@ export function WAF() {
   }, [selectedZone])
 
   useEffect(() => {
-    loadZones()
-  }, [loadZones])
+    setMode("list")
+    setDetailedRuleset(null)
+    setSelectedIndex(0)
+  }, [selectedZone?.id])
 
   useEffect(() => {
     if (selectedZone) {
@@ -108,23 +97,9 @@ export function WAF() {
     }
   }
 
-  useKeyboard((key) => {
-    if (mode === "zones") {
-      if (key.name === "up" || key.name === "k") {
-        setSelectedIndex((i) => Math.max(0, i - 1))
-      } else if (key.name === "down" || key.name === "j") {
-        setSelectedIndex((i) => Math.min(zones.length - 1, i + 1))
-      } else if (key.name === "return") {
-        const zone = zones[selectedIndex]
-        if (zone) {
-          setSelectedZone(zone)
-          setMode("list")
-          setSelectedIndex(0)
-        }
-      } else if (key.name === "l") {
-        loadZones()
-      }
-    } else if (mode === "list") {
+  useScreenKeyboard((key) => {
+    if (!selectedZone) return
+    if (mode === "list") {
       if (key.name === "up" || key.name === "k") {
         setSelectedIndex((i) => Math.max(0, i - 1))
       } else if (key.name === "down" || key.name === "j") {
@@ -137,10 +112,6 @@ export function WAF() {
         if (ruleset) viewDetails(ruleset)
       } else if (key.name === "l") {
         loadRulesets()
-      } else if (key.name === "escape" || key.name === "backspace") {
-        setMode("zones")
-        setSelectedZone(null)
-        setSelectedIndex(0)
       }
     } else if (mode === "details") {
       if (key.name === "escape" || key.name === "q" || key.name === "backspace") {
@@ -160,6 +131,10 @@ export function WAF() {
     return RULESET_CATEGORIES.default
   }
 
+  if (!selectedZone) {
+    return <NoZoneSelected />
+  }
+
   if (mode === "details" && detailedRuleset) {
     return (
       <box flexDirection="column" gap={1}>
@@ -238,64 +213,6 @@ export function WAF() {
     )
   }
 
-  if (mode === "zones") {
-    return (
-      <box flexDirection="column" gap={1}>
-        <text>
-          <strong fg={colors.primary}>Web Application Firewall</strong>
-          <span fg={colors.textMuted}> - Select a zone</span>
-        </text>
-
-        {error && (
-          <box borderStyle="single" borderColor={colors.error} padding={1}>
-            <text>
-              <span fg={colors.error}>{error}</span>
-            </text>
-          </box>
-        )}
-
-        {loading ? (
-          <text>
-            <span fg={colors.textMuted}>Loading zones...</span>
-          </text>
-        ) : zones.length === 0 ? (
-          <box marginTop={1} borderStyle="single" borderColor={colors.border} padding={1}>
-            <text>
-              <span fg={colors.textMuted}>No zones found.</span>
-            </text>
-          </box>
-        ) : (
-          <box marginTop={1} flexDirection="column">
-            {zones.map((zone, i) => (
-              <box
-                key={zone.id}
-                padding={1}
-                backgroundColor={i === selectedIndex ? colors.surfaceAlt : undefined}
-                flexDirection="row"
-                gap={2}
-              >
-                <text>
-                  <span fg={i === selectedIndex ? colors.primary : colors.text}>{zone.name}</span>
-                </text>
-                <text>
-                  <span fg={zone.status === "active" ? colors.success : colors.warning}>
-                    {zone.status}
-                  </span>
-                </text>
-              </box>
-            ))}
-          </box>
-        )}
-
-        <box marginTop={2}>
-          <text>
-            <span fg={colors.textMuted}>Enter: Select zone | L: Refresh</span>
-          </text>
-        </box>
-      </box>
-    )
-  }
-
   return (
     <box flexDirection="column" gap={1}>
       <box flexDirection="row" justifyContent="space-between">
@@ -403,7 +320,7 @@ export function WAF() {
           <span fg={colors.textMuted}>L: Refresh</span>
         </text>
         <text>
-          <span fg={colors.textMuted}>ESC: Back</span>
+          <span fg={colors.textMuted}>Ctrl+Z: Switch zone</span>
         </text>
       </box>
     </box>
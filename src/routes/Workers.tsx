@@ -1,8 +1,10 @@
 import { useState, useEffect, useCallback } from "react";
-import { useKeyboard } from "@opentui/react";
+import { useScreenKeyboard } from "../lib/overlay-context.tsx";
 import { useTheme } from "../lib/theme-context.tsx";
 import { listWorkers, type Worker } from "../lib/cloudflare.ts";
 import { isAuthenticated } from "../lib/auth.ts";
+import { useRouter } from "../lib/router.tsx";
+import { WorkerDetail } from "../components/workers/WorkerDetail.tsx";
 
 type ViewState = "list" | "details";
 
@@ -16,6 +18,7 @@ export function Workers() {
   const [error, setError] = useState<string | null>(null);
   const [selectedIndex, setSelectedIndex] = useState(0);
   const [selectedWorker, setSelectedWorker] = useState<Worker | null>(null);
+  const { params, setParams } = useRouter();
 
   const loadWorkers = useCallback(async () => {
     if (!isAuthenticated()) {
@@ -42,14 +45,18 @@ export function Workers() {
     loadWorkers();
   }, [loadWorkers]);
 
-  useKeyboard((key) => {
-    if (view === "details") {
-      if (key.name === "escape" || key.name === "backspace") {
-        setView("list");
-        setSelectedWorker(null);
-      }
-      return;
-    }
+  useEffect(() => {
+    if (!params.worker) return;
+    const index = workers.findIndex((w) => w.id === params.worker);
+    if (index === -1) return;
+    setView("list");
+    setSelectedWorker(null);
+    setSelectedIndex(index);
+    setParams({});
+  }, [params.worker, workers, setParams]);
+
+  useScreenKeyboard((key) => {
+    if (view === "details") return;
 
     const maxIndex = workers.length - 1;
 
@@ -97,54 +104,13 @@ export function Workers() {
 
   if (view === "details" && selectedWorker) {
     return (
-      <box flexDirection="column" flexGrow={1} padding={1}>
-        <box flexDirection="row" gap={1} marginBottom={1}>
-          <text fg={colors.primary}>‹ Back (Esc)</text>
-          <text>|</text>
-          <text><strong>{selectedWorker.id}</strong></text>
-        </box>
-
-        <box flexDirection="column" borderStyle="single" borderColor={colors.border} padding={1}>
-          <box flexDirection="row" gap={2} marginBottom={1}>
-            <text fg={colors.textMuted} width={20}>Script Name:</text>
-            <text>{selectedWorker.id}</text>
-          </box>
-          
-          <box flexDirection="row" gap={2} marginBottom={1}>
-            <text fg={colors.textMuted} width={20}>Usage Model:</text>
-            <text>{selectedWorker.usage_model}</text>
-          </box>
-
-          <box flexDirection="row" gap={2} marginBottom={1}>
-            <text fg={colors.textMuted} width={20}>Created:</text>
-            <text>{new Date(selectedWorker.created_on).toLocaleString()}</text>
-          </box>
-
-          <box flexDirection="row" gap={2} marginBottom={1}>
-            <text fg={colors.textMuted} width={20}>Modified:</text>
-            <text>{new Date(selectedWorker.modified_on).toLocaleString()}</text>
-          </box>
-
-          <box flexDirection="row" gap={2} marginBottom={1}>
-            <text fg={colors.textMuted} width={20}>ETag:</text>
-            <text>{selectedWorker.etag}</text>
-          </box>
-
-          {selectedWorker.compatibility_date && (
-            <box flexDirection="row" gap={2} marginBottom={1}>
-              <text fg={colors.textMuted} width={20}>Compat Date:</text>
-              <text>{selectedWorker.compatibility_date}</text>
-            </box>
-          )}
-
-          {selectedWorker.compatibility_flags && selectedWorker.compatibility_flags.length > 0 && (
-            <box flexDirection="row" gap={2} marginBottom={1}>
-              <text fg={colors.textMuted} width={20}>Compat Flags:</text>
-              <text>{selectedWorker.compatibility_flags.join(", ")}</text>
-            </box>
-          )}
-        </box>
-      </box>
+      <WorkerDetail
+        worker={selectedWorker}
+        onBack={() => {
+          setView("list");
+          setSelectedWorker(null);
+        }}
+      />
     );
   }
 
@@ -13,3 +13,7 @@ export { Domains } from "./Domains.tsx";
 export { Stream } from "./Stream.tsx";
 export { Images } from "./Images.tsx";
 export { Cache } from "./Cache.tsx";
+export { LoadBalancer } from "./LoadBalancer.tsx";
+export { Spectrum } from "./Spectrum.tsx";
+export { Email } from "./Email.tsx";
+export { PageRules } from "./PageRules.tsx";
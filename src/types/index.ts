@@ -23,28 +23,29 @@ export interface RouteConfig {
   id: RouteId;
   label: string;
   icon: string;
+  zoneScoped?: boolean;
 }
 
 export const ROUTES: RouteConfig[] = [
   { id: "dashboard", label: "Dashboard", icon: "◉" },
-  { id: "dns", label: "DNS", icon: "◎" },
+  { id: "dns", label: "DNS", icon: "◎", zoneScoped: true },
   { id: "workers", label: "Workers", icon: "⚙" },
   { id: "pages", label: "Pages", icon: "◱" },
   { id: "r2", label: "R2", icon: "◫" },
   { id: "kv", label: "KV", icon: "◧" },
   { id: "d1", label: "D1", icon: "◨" },
-  { id: "analytics", label: "Analytics", icon: "◰" },
-  { id: "firewall", label: "Firewall", icon: "◲" },
-  { id: "waf", label: "WAF", icon: "◳" },
-  { id: "ssl", label: "SSL", icon: "◴" },
+  { id: "analytics", label: "Analytics", icon: "◰", zoneScoped: true },
+  { id: "firewall", label: "Firewall", icon: "◲", zoneScoped: true },
+  { id: "waf", label: "WAF", icon: "◳", zoneScoped: true },
+  { id: "ssl", label: "SSL", icon: "◴", zoneScoped: true },
   { id: "domains", label: "Domains", icon: "◵" },
   { id: "stream", label: "Stream", icon: "▷" },
   { id: "images", label: "Images", icon: "◻" },
-  { id: "cache", label: "Cache", icon: "◈" },
-  { id: "loadbalancer", label: "Load Balancer", icon: "⊛" },
-  { id: "spectrum", label: "Spectrum", icon: "◇" },
-  { id: "email", label: "Email", icon: "✉" },
-  { id: "pagerules", label: "Page Rules", icon: "⚑" },
+  { id: "cache", label: "Cache", icon: "◈", zoneScoped: true },
+  { id: "loadbalancer", label: "Load Balancer", icon: "⊛", zoneScoped: true },
+  { id: "spectrum", label: "Spectrum", icon: "◇", zoneScoped: true },
+  { id: "email", label: "Email", icon: "✉", zoneScoped: true },
+  { id: "pagerules", label: "Page Rules", icon: "⚑", zoneScoped: true },
 ];
 
 export interface CloudflareZone {